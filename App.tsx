@@ -1,12 +1,23 @@
 import React, { useEffect } from 'react';
+import { Alert } from 'react-native';
 import { GoogleSignin } from '@react-native-google-signin/google-signin';
 import AppProviders from './src/providers/AppProviders';
 import AppNavigator from './src/navigation/AppNavigator';
 import { useAuthStore } from './src/store/authStore';
+import { useBackendStore } from './src/store/backendStore';
+import { useMarketDataStore } from './src/store/marketDataStore';
 import { initializeThemeManager } from './src/services/themeManager';
+import { syncService } from './src/services/syncService';
+import { priceStreamService } from './src/services/priceStreamService';
+import { appLockService } from './src/services/appLockService';
+import { accountMigrationService } from './src/services/accountMigrationService';
+import APIClient from './src/services/api';
 
 export default function App() {
-  const { hydrate } = useAuthStore();
+  const { hydrate, forceSignOut, isAuthenticated } = useAuthStore();
+  const backendUrl = useBackendStore(state => (state.isOfflineMode ? null : state.getActiveProfile().baseUrl));
+  // Only the backend streams; other sources are polled
+  const isStreamingSource = useMarketDataStore(state => state.getProviderId() === 'backend');
 
   useEffect(() => {
     initializeApp();
@@ -21,6 +32,35 @@ export default function App() {
     };
   }, []);
 
+  useEffect(() => {
+    // Replay queued offline changes whenever connectivity returns
+    return syncService.start();
+  }, []);
+
+  useEffect(() => {
+    // Offer to upload guest data after signing in, holding the sync queue until it's settled
+    return accountMigrationService.start();
+  }, []);
+
+  useEffect(() => {
+    // Lock again after the app has been in the background past the auto-lock timeout
+    return appLockService.start();
+  }, []);
+
+  useEffect(() => {
+    // Live prices come from the connected backend; switching backends reconnects the stream
+    if (!isAuthenticated || !backendUrl || !isStreamingSource) return;
+    return priceStreamService.start();
+  }, [isAuthenticated, backendUrl, isStreamingSource]);
+
+  useEffect(() => {
+    // Back to the sign-in screen once the session can no longer be refreshed
+    return APIClient.onSessionExpired(() => {
+      forceSignOut();
+      Alert.alert('Session Expired', 'Please sign in again to continue.');
+    });
+  }, []);
+
   const initializeApp = async () => {
     try {
       // Configure Google Sign-In
@@ -33,17 +33,6 @@ jest.mock('react-native-chart-kit', () => ({
   LineChart: () => null,
 }));
 
-// Mock React Native Purchases
-jest.mock('react-native-purchases', () => ({
-  configure: jest.fn(),
-  logIn: jest.fn(),
-  logOut: jest.fn(),
-  getOfferings: jest.fn(),
-  getCustomerInfo: jest.fn(),
-  purchasePackage: jest.fn(),
-  restorePurchases: jest.fn(),
-}));
-
 // Mock Google Sign-In
 jest.mock('@react-native-google-signin/google-signin', () => ({
   GoogleSignin: {
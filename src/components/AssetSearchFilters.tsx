@@ -0,0 +1,93 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { useThemeStore } from '../services/themeManager';
+import { SUPPORTED_CURRENCIES } from '../utils/currency';
+import { AssetSearchFilters as Filters, AssetSortField } from '../types';
+
+const SORT_OPTIONS: { key: AssetSortField; label: string }[] = [
+  { key: 'relevance', label: 'Best match' },
+  { key: 'change', label: 'Top movers' },
+  { key: 'name', label: 'Name' },
+  { key: 'symbol', label: 'Symbol' },
+];
+
+const EXCHANGES = ['NASDAQ', 'NYSE', 'LSE', 'BIST'];
+
+interface AssetSearchFiltersProps {
+  filters: Filters;
+  onChange: (filters: Filters) => void;
+}
+
+// Sort, exchange and currency chips for asset search; tapping a selected exchange or currency clears it
+const AssetSearchFilters: React.FC<AssetSearchFiltersProps> = ({ filters, onChange }) => {
+  const { currentTheme } = useThemeStore();
+  const colors = currentTheme.colors;
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { backgroundColor: colors.card, borderColor: colors.border },
+        selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? colors.buttonText : colors.textSecondary }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const divider = (key: string) => <View key={key} style={[styles.divider, { backgroundColor: colors.border }]} />;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      {SORT_OPTIONS.map(option =>
+        renderChip(`sort-${option.key}`, option.label, filters.sort === option.key, () =>
+          onChange({ ...filters, sort: option.key })
+        )
+      )}
+      {divider('exchanges')}
+      {EXCHANGES.map(exchange =>
+        renderChip(`exchange-${exchange}`, exchange, filters.exchange === exchange, () =>
+          onChange({ ...filters, exchange: filters.exchange === exchange ? undefined : exchange })
+        )
+      )}
+      {divider('currencies')}
+      {SUPPORTED_CURRENCIES.map(currency =>
+        renderChip(`currency-${currency}`, currency, filters.currency === currency, () =>
+          onChange({ ...filters, currency: filters.currency === currency ? undefined : currency })
+        )
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  divider: {
+    width: 1,
+    height: 20,
+    marginHorizontal: 4,
+  },
+});
+
+export default AssetSearchFilters;
@@ -0,0 +1,91 @@
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import APIClient from '../services/api';
+import { useAuthStore } from '../store/authStore';
+import { useThemeStore, useFontSizes } from '../services/themeManager';
+import { useTranslation } from '../services/localizationService';
+
+// Another email is only offered once this has passed, so a double tap doesn't send two
+const RESEND_COOLDOWN_MS = 60 * 1000;
+
+// Nudges email accounts the backend reports as unverified, and sends the link again on request
+const EmailVerificationBanner: React.FC = () => {
+  const { user, refreshUser } = useAuthStore();
+  const { currentTheme } = useThemeStore();
+  const fontSizes = useFontSizes();
+  const { t } = useTranslation();
+  const [isSending, setIsSending] = useState(false);
+  const [recentlySent, setRecentlySent] = useState(false);
+
+  const isUnverified = user?.provider === 'email' && user.emailVerified === false;
+
+  // The link is usually opened in a mail app or browser, so check again whenever the screen comes back
+  useFocusEffect(
+    useCallback(() => {
+      if (isUnverified) refreshUser();
+    }, [isUnverified])
+  );
+
+  if (!isUnverified || !user) return null;
+
+  const handleResend = async () => {
+    try {
+      setIsSending(true);
+      await APIClient.resendVerificationEmail();
+      setRecentlySent(true);
+      setTimeout(() => setRecentlySent(false), RESEND_COOLDOWN_MS);
+    } catch (error) {
+      Alert.alert(t('common.error'), 'Failed to send the verification email. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <View style={[styles.banner, { backgroundColor: currentTheme.colors.surface, borderColor: currentTheme.colors.warning }]}>
+      <Ionicons name="mail-unread-outline" size={18} color={currentTheme.colors.warning} />
+      <View style={styles.text}>
+        <Text style={[styles.title, { color: currentTheme.colors.text, fontSize: fontSizes.small }]}>{t('auth.verifyEmail')}</Text>
+        <Text style={[{ color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>
+          {t('auth.verifyEmailBanner', { email: user.email })}
+        </Text>
+      </View>
+      {isSending ? (
+        <ActivityIndicator size="small" color={currentTheme.colors.primary} />
+      ) : (
+        <TouchableOpacity onPress={handleResend} disabled={recentlySent}>
+          <Text style={[styles.action, { color: recentlySent ? currentTheme.colors.textTertiary : currentTheme.colors.primary, fontSize: fontSizes.small }]}>
+            {recentlySent ? t('auth.sent') : t('auth.resend')}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  text: {
+    flex: 1,
+  },
+  title: {
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  action: {
+    fontWeight: '600',
+  },
+});
+
+export default EmailVerificationBanner;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore } from '../store/authStore';
+import { useThemeStore, useFontSizes } from '../services/themeManager';
+import { useTranslation } from '../services/localizationService';
+
+// Keeps guests aware their data is only on this device, with a way to make an account
+const GuestModeBanner: React.FC = () => {
+  const { isGuest, leaveGuestMode } = useAuthStore();
+  const { currentTheme } = useThemeStore();
+  const fontSizes = useFontSizes();
+  const { t } = useTranslation();
+
+  if (!isGuest) return null;
+
+  return (
+    <View style={[styles.banner, { backgroundColor: currentTheme.colors.surface, borderColor: currentTheme.colors.border }]}>
+      <Ionicons name="phone-portrait-outline" size={18} color={currentTheme.colors.textSecondary} />
+      <Text style={[styles.text, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>
+        {t('auth.guestBanner')}
+      </Text>
+      <TouchableOpacity onPress={leaveGuestMode}>
+        <Text style={[styles.action, { color: currentTheme.colors.primary, fontSize: fontSizes.small }]}>
+          {t('auth.createAccount')}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  text: {
+    flex: 1,
+  },
+  action: {
+    fontWeight: '600',
+  },
+});
+
+export default GuestModeBanner;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeStore } from '../services/themeManager';
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+interface PinPadProps {
+  length: number;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  // Bottom-left key, e.g. to bring the biometric prompt back
+  accessory?: { icon: string; onPress: () => void };
+}
+
+// Filled dots for the digits entered so far above a phone-style keypad
+const PinPad: React.FC<PinPadProps> = ({ length, value, onChange, disabled = false, accessory }) => {
+  const { currentTheme } = useThemeStore();
+  const colors = currentTheme.colors;
+
+  const press = (digit: string) => {
+    if (value.length < length) onChange(value + digit);
+  };
+
+  const renderKey = (digit: string) => (
+    <TouchableOpacity
+      key={digit}
+      style={[styles.key, { backgroundColor: colors.surface }]}
+      onPress={() => press(digit)}
+      disabled={disabled}
+    >
+      <Text style={[styles.keyText, { color: colors.text }]}>{digit}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={[styles.container, disabled && styles.disabled]}>
+      <View style={styles.dots}>
+        {Array.from({ length }, (_, index) => (
+          <View
+            key={index}
+            style={[
+              styles.dot,
+              { borderColor: colors.primary },
+              index < value.length && { backgroundColor: colors.primary },
+            ]}
+          />
+        ))}
+      </View>
+
+      <View style={styles.keys}>
+        {KEYS.map(renderKey)}
+        {accessory ? (
+          <TouchableOpacity style={styles.key} onPress={accessory.onPress} disabled={disabled}>
+            <Ionicons name={accessory.icon as any} size={28} color={colors.primary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.key} />
+        )}
+        {renderKey('0')}
+        <TouchableOpacity
+          style={styles.key}
+          onPress={() => onChange(value.slice(0, -1))}
+          disabled={disabled || value.length === 0}
+        >
+          <Ionicons name="backspace-outline" size={26} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  dots: {
+    flexDirection: 'row',
+    marginBottom: 40,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1.5,
+    marginHorizontal: 8,
+  },
+  keys: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 282,
+  },
+  key: {
+    width: 76,
+    height: 76,
+    borderRadius: 38,
+    alignItems: 'center',
+    justifyContent: 'center',
+    margin: 9,
+  },
+  keyText: {
+    fontSize: 28,
+    fontWeight: '500',
+  },
+});
+
+export default PinPad;
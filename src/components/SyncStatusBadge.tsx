@@ -0,0 +1,64 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeStore } from '../services/themeManager';
+import { useSyncStatus } from '../store/syncStore';
+import { useAuthStore } from '../store/authStore';
+import { syncService } from '../services/syncService';
+import { SyncStatus } from '../types';
+
+interface SyncStatusBadgeProps {
+  entityId: string;
+}
+
+const STATUS_ICONS: Record<Exclude<SyncStatus, 'synced'>, keyof typeof Ionicons.glyphMap> = {
+  pending: 'cloud-upload-outline',
+  syncing: 'sync-outline',
+  failed: 'alert-circle-outline',
+  conflict: 'git-compare-outline',
+};
+
+const STATUS_LABELS: Record<Exclude<SyncStatus, 'synced'>, string> = {
+  pending: 'Pending sync',
+  syncing: 'Syncing',
+  failed: 'Sync failed · tap to retry',
+  conflict: 'Changed on another device',
+};
+
+// Shows nothing once the item's changes have reached the server
+const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ entityId }) => {
+  const status = useSyncStatus(entityId);
+  // Guests have no server to sync with, so every row would read as pending
+  const isGuest = useAuthStore(state => state.isGuest);
+  const { currentTheme } = useThemeStore();
+
+  if (status === 'synced' || isGuest) return null;
+
+  const color = status === 'failed' || status === 'conflict' ? currentTheme.colors.error : currentTheme.colors.textTertiary;
+
+  return (
+    <TouchableOpacity
+      style={styles.badge}
+      onPress={() => syncService.retryFailed()}
+      disabled={status !== 'failed'}
+    >
+      <Ionicons name={STATUS_ICONS[status]} size={12} color={color} />
+      <Text style={[styles.label, { color }]}>{STATUS_LABELS[status]}</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  label: {
+    fontSize: 11,
+    fontWeight: '500',
+  },
+});
+
+export default SyncStatusBadge;
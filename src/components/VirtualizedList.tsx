@@ -18,7 +18,7 @@ interface VirtualizedListProps<T> {
   itemHeight: number;
   onRefresh?: () => void;
   refreshing?: boolean;
-  onEndReached?: () => void;
+  onEndReached?: () => void | Promise<void>;
   onEndReachedThreshold?: number;
   loading?: boolean;
   error?: string;
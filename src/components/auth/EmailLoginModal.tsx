@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -15,6 +15,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuthStore } from '@/store/authStore';
+import { isUnreachable } from '@/services/api';
 import { useThemeStore, useFontSizes } from '@/services/themeManager';
 import { useTranslation } from '@/services/localizationService';
 
@@ -22,9 +23,12 @@ interface EmailLoginModalProps {
   visible: boolean;
   onClose: () => void;
   onSuccess: () => void;
+  onForgotPassword: (email: string) => void;
+  // Filled in when signing in to link another provider to a known account
+  initialEmail?: string;
 }
 
-const EmailLoginModal: React.FC<EmailLoginModalProps> = ({ visible, onClose, onSuccess }) => {
+const EmailLoginModal: React.FC<EmailLoginModalProps> = ({ visible, onClose, onSuccess, onForgotPassword, initialEmail }) => {
   const { signInWithEmail, isLoading } = useAuthStore();
   const { currentTheme } = useThemeStore();
   const fontSizes = useFontSizes();
@@ -33,6 +37,10 @@ const EmailLoginModal: React.FC<EmailLoginModalProps> = ({ visible, onClose, onS
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
 
+  useEffect(() => {
+    if (visible && initialEmail) setEmail(initialEmail);
+  }, [visible, initialEmail]);
+
   const handleSignIn = async () => {
     if (!email.trim() || !password.trim()) {
       Alert.alert(t('common.error'), 'Please enter both email and password');
@@ -49,7 +57,7 @@ const EmailLoginModal: React.FC<EmailLoginModalProps> = ({ visible, onClose, onS
         Alert.alert('Sign In Failed', 'Invalid email or password');
       }
     } catch (error: any) {
-      Alert.alert('Sign In Failed', 'An error occurred. Please try again.');
+      Alert.alert('Sign In Failed', isUnreachable(error) ? t('auth.serverUnavailable') : 'An error occurred. Please try again.');
     }
   };
 
@@ -64,6 +72,13 @@ const EmailLoginModal: React.FC<EmailLoginModalProps> = ({ visible, onClose, onS
     onClose();
   };
 
+  // The reset screens live in the navigator, so this modal closes first
+  const handleForgotPassword = () => {
+    const address = email.trim();
+    resetForm();
+    onForgotPassword(address);
+  };
+
   return (
     <Modal
       visible={visible}
@@ -137,7 +152,7 @@ const EmailLoginModal: React.FC<EmailLoginModalProps> = ({ visible, onClose, onS
                 )}
               </TouchableOpacity>
 
-              <TouchableOpacity style={styles.forgotPasswordButton}>
+              <TouchableOpacity style={styles.forgotPasswordButton} onPress={handleForgotPassword} disabled={isLoading}>
                 <Text style={[styles.forgotPasswordText, { color: currentTheme.colors.primary, fontSize: fontSizes.small }]}>{t('auth.forgotPassword')}</Text>
               </TouchableOpacity>
             </View>
@@ -15,6 +15,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuthStore } from '@/store/authStore';
+import { isUnreachable } from '@/services/api';
 import { useThemeStore, useFontSizes } from '@/services/themeManager';
 import { useTranslation } from '@/services/localizationService';
 
@@ -62,7 +63,7 @@ const SignUpModal: React.FC<SignUpModalProps> = ({ visible, onClose, onSuccess }
         Alert.alert('Sign Up Failed', 'Failed to create account');
       }
     } catch (error: any) {
-      Alert.alert('Sign Up Failed', 'An error occurred. Please try again.');
+      Alert.alert('Sign Up Failed', isUnreachable(error) ? t('auth.serverUnavailable') : 'An error occurred. Please try again.');
     }
   };
 
@@ -1,15 +1,24 @@
-import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useEffect, useRef } from 'react';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuthStore } from '../store/authStore';
+import { useAppLockStore } from '../store/appLockStore';
+import { useSyncStore } from '../store/syncStore';
 import { useThemeStore } from '../services/themeManager';
 import { RootStackParamList, MainTabParamList } from '../types';
-import { Platform } from 'react-native';
+import { Linking, Platform } from 'react-native';
+import { AuthLink, parseAuthLink } from './deepLinks';
 
 // Auth Screens
 import LoginScreen from '../screens/auth/LoginScreen';
+import LockScreen from '../screens/auth/LockScreen';
+import AccountMigrationScreen from '../screens/auth/AccountMigrationScreen';
+import ForgotPasswordScreen from '../screens/auth/ForgotPasswordScreen';
+import ResetCodeScreen from '../screens/auth/ResetCodeScreen';
+import NewPasswordScreen from '../screens/auth/NewPasswordScreen';
+import VerifyEmailScreen from '../screens/auth/VerifyEmailScreen';
 
 // Main Screens
 import PortfolioScreen from '../screens/main/PortfolioScreen';
@@ -29,9 +38,16 @@ import CreatePortfolioScreen from '../screens/modals/CreatePortfolioScreen';
 import AdvancedAnalyticsScreen from '../screens/main/AdvancedAnalyticsScreen';
 import NewsScreen from '../screens/main/NewsScreen';
 import NewsArticleDetailScreen from '../screens/modals/NewsArticleDetailScreen';
+import CsvImportScreen from '../screens/modals/CsvImportScreen';
+import RestoreBackupScreen from '../screens/modals/RestoreBackupScreen';
+import SyncConflictsScreen from '../screens/modals/SyncConflictsScreen';
+import MarketDataSourceScreen from '../screens/modals/MarketDataSourceScreen';
+import SetPinScreen from '../screens/modals/SetPinScreen';
+import AccountScreen from '../screens/modals/AccountScreen';
 
 const Stack = createStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator<MainTabParamList>();
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
 
 const MainTabNavigator = () => {
   const { currentTheme } = useThemeStore();
@@ -89,18 +105,65 @@ const MainTabNavigator = () => {
 };
 
 const AppNavigator = () => {
-  const { isAuthenticated } = useAuthStore();
+  // Guests get the app too; only the features that need the server are held back
+  const hasProfile = useAuthStore(state => state.isAuthenticated || state.isGuest);
+  // Until the lock settings are read back it isn't known whether to ask, so the lock screen holds the spot
+  const isLocked = useAppLockStore(state => !state.hasHydrated || (state.isEnabled && state.isLocked));
+  // Data from before signing in is dealt with before the account's own data loads over it
+  const isAuthenticated = useAuthStore(state => state.isAuthenticated);
+  const migrationPending = useSyncStore(state => state.migrationPending);
+  const isMigrating = isAuthenticated && migrationPending;
+  const showsLock = hasProfile && isLocked;
+  // A link that arrives before the navigator is ready, or while the app is locked, waits here
+  const pendingLink = useRef<AuthLink | null>(null);
+  const isHoldingLinks = useRef(showsLock);
+  isHoldingLinks.current = showsLock;
+
+  const openLink = (link: AuthLink) => {
+    if (navigationRef.isReady() && !isHoldingLinks.current) {
+      navigationRef.navigate(link.screen, { token: link.token });
+    } else {
+      pendingLink.current = link;
+    }
+  };
+
+  useEffect(() => {
+    // Links from password reset and verification emails, whether they launched the app or arrived while it ran
+    const handleUrl = (url: string | null) => {
+      const link = url ? parseAuthLink(url) : null;
+      if (link) openLink(link);
+    };
+
+    Linking.getInitialURL().then(handleUrl).catch(error => console.warn('Failed to read the launch link:', error));
+    const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
+
+  const openPendingLink = () => {
+    const link = pendingLink.current;
+    pendingLink.current = null;
+    if (link) openLink(link);
+  };
+
+  useEffect(() => {
+    if (!showsLock) openPendingLink();
+  }, [showsLock]);
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef} onReady={openPendingLink}>
       <Stack.Navigator
         screenOptions={{
           headerShown: false,
         }}
       >
-        {!isAuthenticated ? (
+        {!hasProfile ? (
           // Auth Stack
           <Stack.Screen name="Login" component={LoginScreen} />
+        ) : isLocked ? (
+          // Nothing behind the lock is mounted until it opens
+          <Stack.Screen name="Lock" component={LockScreen} options={{ animationEnabled: false }} />
+        ) : isMigrating ? (
+          <Stack.Screen name="AccountMigration" component={AccountMigrationScreen} />
         ) : (
           // Main App Stack
           <>
@@ -116,9 +179,24 @@ const AppNavigator = () => {
               <Stack.Screen name="AdvancedAnalytics" component={AdvancedAnalyticsScreen} />
               <Stack.Screen name="News" component={NewsScreen} />
               <Stack.Screen name="NewsArticleDetail" component={NewsArticleDetailScreen} />
+              <Stack.Screen name="CsvImport" component={CsvImportScreen} />
+              <Stack.Screen name="RestoreBackup" component={RestoreBackupScreen} />
+              <Stack.Screen name="SyncConflicts" component={SyncConflictsScreen} />
+              <Stack.Screen name="MarketDataSource" component={MarketDataSourceScreen} />
+              <Stack.Screen name="SetPin" component={SetPinScreen} />
+              <Stack.Screen name="Account" component={AccountScreen} />
             </Stack.Group>
           </>
         )}
+        {/* Reachable signed in or out, so links from emails open wherever the app is, once it's unlocked */}
+        {!showsLock && (
+          <Stack.Group screenOptions={{ presentation: 'modal' }}>
+            <Stack.Screen name="ForgotPassword" component={ForgotPasswordScreen} />
+            <Stack.Screen name="ResetCode" component={ResetCodeScreen} />
+            <Stack.Screen name="NewPassword" component={NewPasswordScreen} />
+            <Stack.Screen name="VerifyEmail" component={VerifyEmailScreen} />
+          </Stack.Group>
+        )}
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -0,0 +1,22 @@
+import { parseAuthLink } from '../deepLinks';
+
+describe('parseAuthLink', () => {
+  it('opens the screen an email link is for with its token', () => {
+    expect(parseAuthLink('portfolio-tracker://verify-email?token=abc')).toEqual({ screen: 'VerifyEmail', token: 'abc' });
+    expect(parseAuthLink('portfolio-tracker://reset-password/?lang=en&token=a%2Bb')).toEqual({
+      screen: 'NewPassword',
+      token: 'a+b',
+    });
+  });
+
+  it('ignores a fragment after the query', () => {
+    expect(parseAuthLink('portfolio-tracker://verify-email?token=abc#top')?.token).toBe('abc');
+  });
+
+  it('turns away other apps, other paths and links without a readable token', () => {
+    expect(parseAuthLink('other-app://verify-email?token=abc')).toBeNull();
+    expect(parseAuthLink('portfolio-tracker://portfolio?token=abc')).toBeNull();
+    expect(parseAuthLink('portfolio-tracker://verify-email')).toBeNull();
+    expect(parseAuthLink('portfolio-tracker://verify-email?token=%E0%A4%A')).toBeNull();
+  });
+});
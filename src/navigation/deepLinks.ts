@@ -0,0 +1,37 @@
+const URL_SCHEME = process.env.EXPO_PUBLIC_URL_SCHEME || 'portfolio-tracker';
+
+// Paths the backend puts in its emails, and the screen each one opens
+const LINK_SCREENS = {
+  'reset-password': 'NewPassword',
+  'verify-email': 'VerifyEmail',
+} as const;
+
+export interface AuthLink {
+  screen: (typeof LINK_SCREENS)[keyof typeof LINK_SCREENS];
+  token: string;
+}
+
+/**
+ * Read a link from a password reset or verification email, e.g.
+ * `portfolio-tracker://verify-email?token=...`. Anything else gives null.
+ */
+export const parseAuthLink = (url: string): AuthLink | null => {
+  const prefix = `${URL_SCHEME}://`;
+  if (!url.toLowerCase().startsWith(prefix)) return null;
+
+  const [path, query = ''] = url.slice(prefix.length).split('#')[0].split('?');
+  const screen = LINK_SCREENS[path.replace(/\/+$/, '').toLowerCase() as keyof typeof LINK_SCREENS];
+  if (!screen) return null;
+
+  // Parsed by hand; URLSearchParams is only partly there in React Native
+  const token = query
+    .split('&')
+    .map(pair => pair.split('='))
+    .find(([key]) => key === 'token')?.[1];
+  if (!token) return null;
+  try {
+    return { screen, token: decodeURIComponent(token) };
+  } catch {
+    return null;
+  }
+};
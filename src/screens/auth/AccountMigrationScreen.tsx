@@ -0,0 +1,363 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore } from '../../store/authStore';
+import { useThemeStore } from '../../services/themeManager';
+import { accountMigrationService } from '../../services/accountMigrationService';
+import { AccountMigrationPreview, MigrationClashResolution, MigrationPortfolio, MigrationPortfolioChoice } from '../../types';
+
+// Everything goes up unless unticked, and a clash is kept apart under a free name
+const defaultChoice = (entry: MigrationPortfolio): MigrationPortfolioChoice => ({
+  portfolioId: entry.portfolio.id,
+  include: true,
+  resolution: 'rename',
+  name: entry.suggestedName,
+});
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const AccountMigrationScreen: React.FC = () => {
+  const { currentTheme } = useThemeStore();
+  const { user } = useAuthStore();
+  const colors = currentTheme.colors;
+
+  const [preview, setPreview] = useState<AccountMigrationPreview | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [choices, setChoices] = useState<Record<string, MigrationPortfolioChoice>>({});
+  const [includeAlerts, setIncludeAlerts] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const loadPreview = async () => {
+    setLoadError(false);
+    setPreview(null);
+    try {
+      const result = await accountMigrationService.preview();
+      setChoices({});
+      setPreview(result);
+    } catch (error) {
+      console.error('Failed to compare local data with the account:', error);
+      setLoadError(true);
+    }
+  };
+
+  useEffect(() => {
+    loadPreview();
+  }, []);
+
+  const getChoice = (entry: MigrationPortfolio) => choices[entry.portfolio.id] || defaultChoice(entry);
+
+  const updateChoice = (entry: MigrationPortfolio, changes: Partial<MigrationPortfolioChoice>) => {
+    setChoices({ ...choices, [entry.portfolio.id]: { ...getChoice(entry), ...changes } });
+  };
+
+  const setResolution = (entry: MigrationPortfolio, resolution: MigrationClashResolution) => {
+    updateChoice(entry, { resolution, name: resolution === 'merge' ? entry.portfolio.name : entry.suggestedName });
+  };
+
+  const handleUpload = async () => {
+    if (!preview) return;
+    try {
+      setIsUploading(true);
+      const result = await accountMigrationService.migrate(
+        preview,
+        preview.portfolios.map(getChoice),
+        includeAlerts
+      );
+      Alert.alert(
+        'Upload Complete',
+        `Added ${plural(result.portfolios, 'portfolio')}, ${plural(result.holdings, 'holding')} and ${plural(result.alerts, 'alert')} to your account.`
+      );
+    } catch (error) {
+      console.error('Failed to upload local data:', error);
+      Alert.alert(
+        'Upload Interrupted',
+        'Some of your data could not be uploaded. What was uploaded is already in your account; try again to send the rest.'
+      );
+      loadPreview();
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleKeepOnDevice = () => {
+    Alert.alert(
+      'Keep on This Device?',
+      'This data will stay on this device only and won\'t sync to your account. You can upload it later from Settings.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Keep on Device', onPress: () => accountMigrationService.keepOnDevice() },
+      ]
+    );
+  };
+
+  const renderPortfolio = (entry: MigrationPortfolio) => {
+    const choice = getChoice(entry);
+    const isMerging = !!entry.clash && choice.resolution === 'merge';
+
+    return (
+      <View key={entry.portfolio.id} style={[styles.card, { backgroundColor: colors.surface }]}>
+        <View style={styles.cardHeader}>
+          <View style={styles.cardText}>
+            <Text style={[styles.cardTitle, { color: colors.text }]}>{entry.portfolio.name}</Text>
+            <Text style={[styles.cardSubtitle, { color: colors.textSecondary }]}>
+              {entry.isLocalOnly
+                ? `New portfolio · ${plural(entry.holdings.length, 'holding')}`
+                : `${plural(entry.holdings.length, 'new holding')} for this portfolio`}
+            </Text>
+          </View>
+          <Switch
+            value={choice.include}
+            onValueChange={include => updateChoice(entry, { include })}
+            trackColor={{ false: colors.border, true: colors.primary }}
+          />
+        </View>
+
+        {choice.include && entry.clash && (
+          <View style={styles.clash}>
+            <Text style={[styles.clashText, { color: colors.textSecondary }]}>
+              Your account already has a portfolio called "{entry.clash.name}".
+            </Text>
+            <View style={styles.optionRow}>
+              {(['merge', 'rename'] as MigrationClashResolution[]).map(resolution => {
+                const selected = choice.resolution === resolution;
+                return (
+                  <TouchableOpacity
+                    key={resolution}
+                    style={[
+                      styles.option,
+                      {
+                        borderColor: selected ? colors.primary : colors.border,
+                        backgroundColor: selected ? colors.primary + '15' : 'transparent',
+                      },
+                    ]}
+                    onPress={() => setResolution(entry, resolution)}
+                  >
+                    <Text style={[styles.optionText, { color: selected ? colors.primary : colors.text }]}>
+                      {resolution === 'merge' ? 'Merge' : 'Keep Both'}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {choice.include && !isMerging && choice.name !== entry.portfolio.name && (
+          <Text style={[styles.hint, { color: colors.textTertiary }]}>Uploads as "{choice.name}"</Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderBody = () => {
+    if (loadError) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="cloud-offline-outline" size={40} color={colors.textTertiary} />
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            Couldn't reach your account to compare with the data on this device.
+          </Text>
+          <TouchableOpacity style={[styles.primaryButton, { backgroundColor: colors.primary }]} onPress={loadPreview}>
+            <Text style={[styles.primaryButtonText, { color: colors.buttonText }]}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (!preview) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary} />
+        </View>
+      );
+    }
+
+    const nothingSelected = !preview.portfolios.some(entry => getChoice(entry).include)
+      && (!includeAlerts || preview.alerts.length === 0);
+
+    return (
+      <>
+        <ScrollView contentContainerStyle={styles.content}>
+          {preview.portfolios.map(renderPortfolio)}
+
+          {preview.alerts.length > 0 && (
+            <View style={[styles.card, { backgroundColor: colors.surface }]}>
+              <View style={styles.cardHeader}>
+                <View style={styles.cardText}>
+                  <Text style={[styles.cardTitle, { color: colors.text }]}>Price Alerts</Text>
+                  <Text style={[styles.cardSubtitle, { color: colors.textSecondary }]}>
+                    {preview.alerts.map(alert => alert.assetSymbol).join(', ')}
+                  </Text>
+                </View>
+                <Switch
+                  value={includeAlerts}
+                  onValueChange={setIncludeAlerts}
+                  trackColor={{ false: colors.border, true: colors.primary }}
+                />
+              </View>
+            </View>
+          )}
+        </ScrollView>
+
+        <View style={[styles.footer, { borderTopColor: colors.border }]}>
+          <TouchableOpacity
+            style={[styles.primaryButton, { backgroundColor: colors.primary }, (isUploading || nothingSelected) && styles.buttonDisabled]}
+            onPress={handleUpload}
+            disabled={isUploading || nothingSelected}
+          >
+            {isUploading ? (
+              <ActivityIndicator size="small" color={colors.buttonText} />
+            ) : (
+              <Text style={[styles.primaryButtonText, { color: colors.buttonText }]}>Upload to Account</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.header}>
+        <Ionicons name="cloud-upload-outline" size={36} color={colors.primary} />
+        <Text style={[styles.title, { color: colors.text }]}>Data on This Device</Text>
+        <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
+          {`Choose what to add to ${user?.email || 'your account'}. Anything you don't upload stays on this device only.`}
+        </Text>
+      </View>
+
+      {renderBody()}
+
+      <TouchableOpacity
+        style={styles.secondaryButton}
+        onPress={handleKeepOnDevice}
+        disabled={isUploading}
+      >
+        <Text style={[styles.secondaryButtonText, { color: colors.primary }]}>Keep on This Device</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    paddingTop: 24,
+    paddingBottom: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 12,
+  },
+  subtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  content: {
+    padding: 20,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  message: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  cardText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  clash: {
+    marginTop: 12,
+  },
+  clashText: {
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  footer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    borderTopWidth: 1,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default AccountMigrationScreen;
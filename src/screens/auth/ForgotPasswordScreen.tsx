@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import APIClient from '@/services/api';
+import { useThemeStore, useFontSizes } from '@/services/themeManager';
+import { useTranslation } from '@/services/localizationService';
+import { RootStackParamList } from '@/types';
+
+const EMAIL_PATTERN = /^\S+@\S+\.\S+$/;
+
+// First step of a password reset: the backend emails a code to the address given
+const ForgotPasswordScreen: React.FC = () => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList, 'ForgotPassword'>>();
+  const route = useRoute<RouteProp<RootStackParamList, 'ForgotPassword'>>();
+  const { currentTheme } = useThemeStore();
+  const fontSizes = useFontSizes();
+  const { t } = useTranslation();
+  const [email, setEmail] = useState(route.params?.email || '');
+  const [isSending, setIsSending] = useState(false);
+
+  const handleSend = async () => {
+    const address = email.trim();
+    if (!EMAIL_PATTERN.test(address)) {
+      Alert.alert(t('common.error'), 'Please enter a valid email address');
+      return;
+    }
+
+    try {
+      setIsSending(true);
+      await APIClient.requestPasswordReset(address);
+      navigation.navigate('ResetCode', { email: address });
+    } catch (error) {
+      Alert.alert(t('common.error'), 'Failed to send the reset code. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.background }]}>
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.keyboardView}>
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: currentTheme.colors.text, fontSize: fontSizes.xxxl }]}>
+              {t('auth.resetPassword')}
+            </Text>
+            <TouchableOpacity onPress={() => navigation.goBack()} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={currentTheme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.hint, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.medium }]}>
+            {t('auth.resetPasswordHint')}
+          </Text>
+
+          <Text style={[styles.label, { color: currentTheme.colors.text, fontSize: fontSizes.small }]}>{t('auth.email')}</Text>
+          <TextInput
+            style={[styles.input, { backgroundColor: currentTheme.colors.surface, borderColor: currentTheme.colors.border, color: currentTheme.colors.text, fontSize: fontSizes.medium }]}
+            value={email}
+            onChangeText={setEmail}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoComplete="email"
+            placeholder={t('auth.enterEmail')}
+            placeholderTextColor={currentTheme.colors.textTertiary}
+            editable={!isSending}
+            onSubmitEditing={handleSend}
+          />
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: currentTheme.colors.primary }, isSending && styles.buttonDisabled]}
+            onPress={handleSend}
+            disabled={isSending}
+          >
+            {isSending ? (
+              <ActivityIndicator color={currentTheme.colors.buttonText} />
+            ) : (
+              <Text style={[styles.buttonText, { color: currentTheme.colors.buttonText, fontSize: fontSizes.medium }]}>
+                {t('auth.sendCode')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  hint: {
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  label: {
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+  },
+  button: {
+    height: 48,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontWeight: '600',
+  },
+});
+
+export default ForgotPasswordScreen;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import PinPad from '../../components/PinPad';
+import { useAuthStore } from '../../store/authStore';
+import { useAppLockStore } from '../../store/appLockStore';
+import { appLockService, getBiometricLabel } from '../../services/appLockService';
+import { useThemeStore } from '../../services/themeManager';
+import { BiometricType } from '../../types';
+
+const LockScreen: React.FC = () => {
+  const { currentTheme } = useThemeStore();
+  const { signOut } = useAuthStore();
+  const { hasHydrated, useBiometrics, lockedOutUntil } = useAppLockStore();
+  const colors = currentTheme.colors;
+
+  const [pin, setPin] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [biometricType, setBiometricType] = useState<BiometricType | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const lockedOutSeconds = lockedOutUntil ? Math.ceil((lockedOutUntil - now) / 1000) : 0;
+  const isLockedOut = lockedOutSeconds > 0;
+
+  useEffect(() => {
+    if (!hasHydrated || !useBiometrics) return;
+    appLockService.getBiometricType().then(type => {
+      setBiometricType(type);
+      if (type) appLockService.unlockWithBiometrics();
+    });
+  }, [hasHydrated, useBiometrics]);
+
+  // Counts the lockout down on screen
+  useEffect(() => {
+    if (!lockedOutUntil || lockedOutUntil <= Date.now()) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= lockedOutUntil) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedOutUntil]);
+
+  useEffect(() => {
+    if (pin.length === appLockService.pinLength) checkPin(pin);
+  }, [pin]);
+
+  const checkPin = async (entered: string) => {
+    setIsChecking(true);
+    const result = await appLockService.checkPin(entered);
+    setIsChecking(false);
+    if (result.ok) return;
+
+    setPin('');
+    setNow(Date.now());
+    if (result.lockedUntil) {
+      setMessage(null);
+    } else {
+      setMessage(`Wrong PIN. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`);
+    }
+  };
+
+  const handleForgotPin = () => {
+    Alert.alert(
+      'Forgot PIN?',
+      'Sign out to remove the app lock. You will need to sign in again and set a new PIN.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            await appLockService.disable();
+            await signOut();
+          },
+        },
+      ]
+    );
+  };
+
+  // Blank until the lock settings are read back, so nothing behind the lock shows in the meantime
+  if (!hasHydrated) {
+    return <View style={[styles.container, { backgroundColor: colors.background }]} />;
+  }
+
+  const biometricLabel = biometricType ? getBiometricLabel(biometricType) : null;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={styles.header}>
+        <Ionicons name="lock-closed" size={40} color={colors.primary} />
+        <Text style={[styles.title, { color: colors.text }]}>Portfolio Tracker is Locked</Text>
+        <Text style={[styles.subtitle, { color: isLockedOut || message ? colors.error : colors.textSecondary }]}>
+          {isLockedOut
+            ? `Too many attempts. Try again in ${lockedOutSeconds}s.`
+            : message || (biometricLabel ? `Use ${biometricLabel} or enter your PIN` : 'Enter your PIN')}
+        </Text>
+      </View>
+
+      <PinPad
+        length={appLockService.pinLength}
+        value={pin}
+        onChange={setPin}
+        disabled={isChecking || isLockedOut}
+        accessory={
+          biometricType
+            ? {
+                icon: biometricType === 'face' ? 'scan-outline' : 'finger-print-outline',
+                onPress: () => appLockService.unlockWithBiometrics(),
+              }
+            : undefined
+        }
+      />
+
+      <TouchableOpacity style={styles.forgotButton} onPress={handleForgotPin}>
+        <Text style={[styles.forgotText, { color: colors.primary }]}>Forgot PIN?</Text>
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 40,
+    paddingHorizontal: 32,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  forgotButton: {
+    marginTop: 24,
+    padding: 12,
+  },
+  forgotText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
+
+export default LockScreen;
@@ -15,11 +15,13 @@ import * as AppleAuthentication from 'expo-apple-authentication';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { useAuthStore } from '@/store/authStore';
+import { AUTH_PROVIDER_LABELS, useAuthStore } from '@/store/authStore';
+import { isUnreachable } from '@/services/api';
 import { useThemeStore, useFontSizes } from '@/services/themeManager';
 import { useTranslation } from '@/services/localizationService';
 import EmailLoginModal from '@/components/auth/EmailLoginModal';
 import SignUpModal from '@/components/auth/SignUpModal';
+import { AuthProvider } from '@/types';
 
 export interface RootStackParamList {
   Login: undefined;
@@ -29,23 +31,34 @@ export interface RootStackParamList {
 
 type LoginScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Login'>;
 
+const SIGN_IN_LABEL_KEYS: Record<AuthProvider, string> = {
+  apple: 'auth.continueWithApple',
+  google: 'auth.continueWithGoogle',
+  email: 'auth.signInWithEmail',
+};
+
 const LoginScreen: React.FC = () => {
   const navigation = useNavigation<LoginScreenNavigationProp>();
-  const { signInWithApple, signInWithGoogle, isLoading, setIsAuthenticated } = useAuthStore();
+  const { signInWithApple, signInWithGoogle, isLoading, continueAsGuest, clearPendingLink } = useAuthStore();
   const { currentTheme } = useThemeStore();
   const fontSizes = useFontSizes();
   const { t } = useTranslation();
   const [showEmailLogin, setShowEmailLogin] = useState(false);
   const [showSignUp, setShowSignUp] = useState(false);
+  const [linkEmail, setLinkEmail] = useState<string | undefined>(undefined);
 
   const handleAppleSignIn = async () => {
     try {
       const success = await signInWithApple();
       if (success) {
         navigation.replace('Main');
+      } else {
+        offerLink();
       }
     } catch (error: any) {
-      if (error.code !== 'ERR_CANCELED') {
+      if (isUnreachable(error)) {
+        offerGuestMode();
+      } else if (error.code !== 'ERR_CANCELED') {
         Alert.alert('Sign In Failed', 'Unable to sign in with Apple. Please try again.');
       }
     }
@@ -56,23 +69,73 @@ const LoginScreen: React.FC = () => {
       const success = await signInWithGoogle();
       if (success) {
         navigation.replace('Main');
+      } else {
+        offerLink();
       }
     } catch (error: any) {
       if (error.code === 'IN_PROGRESS') {
         Alert.alert('Sign In', 'Sign in is already in progress');
+      } else if (isUnreachable(error)) {
+        offerGuestMode();
       } else {
         Alert.alert('Sign In Failed', 'Unable to sign in with Google. Please try again.');
       }
     }
   };
 
+  // The email already has an account; signing in to it the usual way links the provider just used
+  const offerLink = () => {
+    const pending = useAuthStore.getState().pendingLink;
+    if (!pending) return;
+
+    const signInWith = (provider: AuthProvider) => {
+      if (provider === 'apple') {
+        handleAppleSignIn();
+      } else if (provider === 'google') {
+        handleGoogleSignIn();
+      } else {
+        setLinkEmail(pending.email);
+        setShowEmailLogin(true);
+      }
+    };
+
+    const providers = pending.providers.filter(provider => provider !== 'apple' || Platform.OS === 'ios');
+    Alert.alert(
+      t('auth.accountExists'),
+      t('auth.accountExistsDescription', {
+        email: pending.email,
+        providers: pending.providers.map(provider => AUTH_PROVIDER_LABELS[provider]).join(', '),
+        provider: AUTH_PROVIDER_LABELS[pending.provider],
+      }),
+      [
+        { text: t('common.cancel'), style: 'cancel', onPress: clearPendingLink },
+        ...providers.map(provider => ({
+          text: t(SIGN_IN_LABEL_KEYS[provider]),
+          onPress: () => signInWith(provider),
+        })),
+      ]
+    );
+  };
+
+  // Said up front so nobody mistakes a guest profile for an account
   const handleContinueAsGuest = () => {
-    setIsAuthenticated(false);
-    navigation.replace('Main');
+    Alert.alert(t('auth.guestMode'), t('auth.guestModeDescription'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('common.continue'), onPress: continueAsGuest },
+    ]);
+  };
+
+  // The provider signed in but our server couldn't be reached to start a session
+  const offerGuestMode = () => {
+    Alert.alert('Sign In Failed', t('auth.serverUnavailable'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('auth.continueWithoutAccount'), onPress: handleContinueAsGuest },
+    ]);
   };
 
   const handleEmailLoginSuccess = async () => {
     setShowEmailLogin(false);
+    setLinkEmail(undefined);
     navigation.replace('Main');
   };
 
@@ -162,8 +225,16 @@ const LoginScreen: React.FC = () => {
 
       <EmailLoginModal
         visible={showEmailLogin}
-        onClose={() => setShowEmailLogin(false)}
+        onClose={() => {
+          setShowEmailLogin(false);
+          setLinkEmail(undefined);
+        }}
         onSuccess={handleEmailLoginSuccess}
+        initialEmail={linkEmail}
+        onForgotPassword={(email) => {
+          setShowEmailLogin(false);
+          navigation.navigate('ForgotPassword', email ? { email } : undefined);
+        }}
       />
 
       <SignUpModal
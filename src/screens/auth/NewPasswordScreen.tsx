@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import APIClient, { getErrorStatus } from '@/services/api';
+import { useThemeStore, useFontSizes } from '@/services/themeManager';
+import { useTranslation } from '@/services/localizationService';
+import { RootStackParamList } from '@/types';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Last step of a password reset, reached from the code screen or straight from the emailed link
+const NewPasswordScreen: React.FC = () => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList, 'NewPassword'>>();
+  const route = useRoute<RouteProp<RootStackParamList, 'NewPassword'>>();
+  const { token } = route.params;
+  const { currentTheme } = useThemeStore();
+  const fontSizes = useFontSizes();
+  const { t } = useTranslation();
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      Alert.alert(t('common.error'), `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      Alert.alert(t('common.error'), 'Passwords do not match');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await APIClient.resetPassword(token, password);
+      Alert.alert(t('auth.resetPassword'), t('auth.passwordChanged'), [
+        { text: t('common.continue'), onPress: () => navigation.popToTop() },
+      ]);
+    } catch (error) {
+      const status = getErrorStatus(error);
+      if (status && status < 500) {
+        Alert.alert(t('common.error'), 'This reset link has expired. Request a new one.', [
+          { text: t('common.cancel'), style: 'cancel' },
+          { text: t('auth.resetPassword'), onPress: () => navigation.replace('ForgotPassword') },
+        ]);
+      } else {
+        Alert.alert(t('common.error'), 'Failed to change the password. Please try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderPasswordInput = (
+    value: string,
+    onChange: (text: string) => void,
+    label: string,
+    placeholder: string
+  ) => (
+    <View style={styles.inputContainer}>
+      <Text style={[styles.label, { color: currentTheme.colors.text, fontSize: fontSizes.small }]}>{label}</Text>
+      <TextInput
+        style={[styles.input, { backgroundColor: currentTheme.colors.surface, borderColor: currentTheme.colors.border, color: currentTheme.colors.text, fontSize: fontSizes.medium }]}
+        value={value}
+        onChangeText={onChange}
+        secureTextEntry={!showPassword}
+        autoCapitalize="none"
+        autoComplete="password-new"
+        textContentType="newPassword"
+        placeholder={placeholder}
+        placeholderTextColor={currentTheme.colors.textTertiary}
+        editable={!isSaving}
+      />
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.background }]}>
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.keyboardView}>
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: currentTheme.colors.text, fontSize: fontSizes.xxxl }]}>
+              {t('auth.setNewPassword')}
+            </Text>
+            <TouchableOpacity onPress={() => navigation.goBack()} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={currentTheme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {renderPasswordInput(password, setPassword, t('auth.newPassword'), t('auth.createPassword'))}
+          {renderPasswordInput(confirmPassword, setConfirmPassword, t('auth.confirmPassword'), t('auth.confirmYourPassword'))}
+
+          <TouchableOpacity style={styles.showPassword} onPress={() => setShowPassword(!showPassword)}>
+            <Ionicons name={showPassword ? 'eye-off' : 'eye'} size={18} color={currentTheme.colors.textSecondary} />
+            <Text style={[styles.showPasswordText, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>
+              {showPassword ? 'Hide passwords' : 'Show passwords'}
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: currentTheme.colors.primary }, isSaving && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <ActivityIndicator color={currentTheme.colors.buttonText} />
+            ) : (
+              <Text style={[styles.buttonText, { color: currentTheme.colors.buttonText, fontSize: fontSizes.medium }]}>
+                {t('auth.setNewPassword')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  title: {
+    fontWeight: 'bold',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  inputContainer: {
+    marginBottom: 20,
+  },
+  label: {
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+  },
+  showPassword: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  showPasswordText: {
+    fontWeight: '500',
+  },
+  button: {
+    height: 48,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontWeight: '600',
+  },
+});
+
+export default NewPasswordScreen;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import APIClient, { getErrorStatus } from '@/services/api';
+import { useThemeStore, useFontSizes } from '@/services/themeManager';
+import { useTranslation } from '@/services/localizationService';
+import { RootStackParamList } from '@/types';
+
+const CODE_LENGTH = 6;
+
+// Second step of a password reset: the emailed code is traded for a reset token
+const ResetCodeScreen: React.FC = () => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList, 'ResetCode'>>();
+  const route = useRoute<RouteProp<RootStackParamList, 'ResetCode'>>();
+  const { email } = route.params;
+  const { currentTheme } = useThemeStore();
+  const fontSizes = useFontSizes();
+  const { t } = useTranslation();
+  const [code, setCode] = useState('');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [isResending, setIsResending] = useState(false);
+
+  const handleVerify = async () => {
+    if (code.length !== CODE_LENGTH) {
+      Alert.alert(t('common.error'), `Please enter the ${CODE_LENGTH}-digit code from the email`);
+      return;
+    }
+
+    try {
+      setIsVerifying(true);
+      const token = await APIClient.verifyResetCode(email, code);
+      navigation.replace('NewPassword', { token });
+    } catch (error) {
+      const status = getErrorStatus(error);
+      Alert.alert(
+        t('common.error'),
+        status && status < 500
+          ? 'That code is wrong or has expired. Check the latest email or send a new code.'
+          : 'Failed to check the code. Please try again.'
+      );
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleResend = async () => {
+    try {
+      setIsResending(true);
+      await APIClient.requestPasswordReset(email);
+      setCode('');
+      Alert.alert(t('auth.enterCode'), t('auth.codeSent', { email }));
+    } catch (error) {
+      Alert.alert(t('common.error'), 'Failed to send a new code. Please try again.');
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.background }]}>
+      <KeyboardAvoidingView behavior={Platform.OS === 'ios' ? 'padding' : 'height'} style={styles.keyboardView}>
+        <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: currentTheme.colors.text, fontSize: fontSizes.xxxl }]}>
+              {t('auth.enterCode')}
+            </Text>
+            <TouchableOpacity onPress={() => navigation.goBack()} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={currentTheme.colors.textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.hint, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.medium }]}>
+            {t('auth.codeSent', { email })}
+          </Text>
+
+          <Text style={[styles.label, { color: currentTheme.colors.text, fontSize: fontSizes.small }]}>{t('auth.code')}</Text>
+          <TextInput
+            style={[styles.input, styles.codeInput, { backgroundColor: currentTheme.colors.surface, borderColor: currentTheme.colors.border, color: currentTheme.colors.text, fontSize: fontSizes.xl }]}
+            value={code}
+            onChangeText={(text) => setCode(text.replace(/\D/g, '').slice(0, CODE_LENGTH))}
+            keyboardType="number-pad"
+            textContentType="oneTimeCode"
+            autoComplete="one-time-code"
+            maxLength={CODE_LENGTH}
+            placeholder={'0'.repeat(CODE_LENGTH)}
+            placeholderTextColor={currentTheme.colors.textTertiary}
+            editable={!isVerifying}
+            autoFocus
+          />
+
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: currentTheme.colors.primary }, isVerifying && styles.buttonDisabled]}
+            onPress={handleVerify}
+            disabled={isVerifying}
+          >
+            {isVerifying ? (
+              <ActivityIndicator color={currentTheme.colors.buttonText} />
+            ) : (
+              <Text style={[styles.buttonText, { color: currentTheme.colors.buttonText, fontSize: fontSizes.medium }]}>
+                {t('auth.verify')}
+              </Text>
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.linkButton} onPress={handleResend} disabled={isResending}>
+            <Text style={[{ color: currentTheme.colors.primary, fontSize: fontSizes.small }, isResending && styles.buttonDisabled]}>
+              {t('auth.resendCode')}
+            </Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    paddingHorizontal: 24,
+    paddingTop: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  title: {
+    fontWeight: 'bold',
+  },
+  closeButton: {
+    padding: 8,
+  },
+  hint: {
+    marginBottom: 24,
+    lineHeight: 22,
+  },
+  label: {
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    height: 48,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 16,
+  },
+  codeInput: {
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  button: {
+    height: 48,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+});
+
+export default ResetCodeScreen;
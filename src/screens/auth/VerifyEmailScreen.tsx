@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import APIClient, { getErrorStatus } from '@/services/api';
+import { useAuthStore } from '@/store/authStore';
+import { useThemeStore, useFontSizes } from '@/services/themeManager';
+import { useTranslation } from '@/services/localizationService';
+import { RootStackParamList } from '@/types';
+
+// 'expired' covers links that were already used; only 'failed' is worth trying again
+type Status = 'verifying' | 'verified' | 'expired' | 'failed';
+
+// Opened from the link in the verification email; works signed in or out
+const VerifyEmailScreen: React.FC = () => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList, 'VerifyEmail'>>();
+  const route = useRoute<RouteProp<RootStackParamList, 'VerifyEmail'>>();
+  const { token } = route.params;
+  const { currentTheme } = useThemeStore();
+  const fontSizes = useFontSizes();
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<Status>('verifying');
+
+  useEffect(() => {
+    verify();
+  }, [token]);
+
+  const verify = async () => {
+    setStatus('verifying');
+    try {
+      const verified = await APIClient.verifyEmail(token);
+      // The link may be for a different account than the one signed in here
+      const { user, setUser } = useAuthStore.getState();
+      if (user && user.id === verified.id) {
+        setUser({ ...user, emailVerified: true });
+      }
+      setStatus('verified');
+    } catch (error) {
+      const code = getErrorStatus(error);
+      setStatus(code && code < 500 ? 'expired' : 'failed');
+    }
+  };
+
+  const isDone = status === 'verified' || status === 'expired';
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.background }]}>
+      <View style={styles.content}>
+        {status === 'verifying' ? (
+          <ActivityIndicator size="large" color={currentTheme.colors.primary} />
+        ) : (
+          <Ionicons
+            name={status === 'verified' ? 'checkmark-circle' : 'alert-circle'}
+            size={64}
+            color={status === 'verified' ? currentTheme.colors.success : currentTheme.colors.error}
+          />
+        )}
+
+        <Text style={[styles.title, { color: currentTheme.colors.text, fontSize: fontSizes.xl }]}>
+          {status === 'verifying' ? t('auth.verifyingEmail') : status === 'verified' ? t('auth.emailVerified') : t('common.error')}
+        </Text>
+        {(status === 'expired' || status === 'failed') && (
+          <Text style={[styles.message, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.medium }]}>
+            {status === 'expired'
+              ? 'This link has expired or was already used. Send a new one from the banner in the app.'
+              : 'Failed to verify your email. Please try again.'}
+          </Text>
+        )}
+
+        {status !== 'verifying' && (
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: currentTheme.colors.primary }]}
+            onPress={isDone ? () => navigation.goBack() : verify}
+          >
+            <Text style={[styles.buttonText, { color: currentTheme.colors.buttonText, fontSize: fontSizes.medium }]}>
+              {isDone ? t('common.continue') : 'Try Again'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {status === 'failed' && (
+          <TouchableOpacity style={styles.linkButton} onPress={() => navigation.goBack()}>
+            <Text style={{ color: currentTheme.colors.primary, fontSize: fontSizes.small }}>{t('common.close')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  title: {
+    fontWeight: '600',
+    marginTop: 20,
+    textAlign: 'center',
+  },
+  message: {
+    marginTop: 12,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+  button: {
+    height: 48,
+    alignSelf: 'stretch',
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 32,
+  },
+  buttonText: {
+    fontWeight: '600',
+  },
+  linkButton: {
+    marginTop: 16,
+    padding: 8,
+  },
+});
+
+export default VerifyEmailScreen;
@@ -9,6 +9,7 @@ import {
   Alert,
   Share,
   ActivityIndicator,
+  TextInput,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -16,44 +17,172 @@ import { LineChart, BarChart, PieChart } from 'react-native-chart-kit';
 import { useNavigation } from '@react-navigation/native';
 import { usePortfolioStore } from '../../store/portfolioStore';
 import { useThemeStore } from '../../services/themeManager';
-import { Asset } from '../../types';
+import { Asset, BenchmarkReport, PerformanceTimeframe, RiskReport } from '../../types';
+import { summarizePnL, getCostBasisLabel, getHoldingPnL, DEFAULT_COST_BASIS_METHOD } from '../../utils/ledger';
+import { formatMoney, DEFAULT_CURRENCY } from '../../utils/currency';
+import { TIMEFRAME_DAYS } from '../../utils/returns';
+import { analyticsService, DEFAULT_RISK_ASSUMPTIONS, RISK_BENCHMARKS } from '../../services/analyticsService';
 
 const { width: screenWidth } = Dimensions.get('window');
 
-type TimeFrame = '1D' | '1W' | '1M' | '3M' | '6M' | '1Y' | 'ALL';
+type TimeFrame = PerformanceTimeframe;
 type ChartType = 'performance' | 'allocation' | 'comparison' | 'volatility' | 'correlation';
 
+// Short timeframes don't have enough daily closes for stable risk estimates
+const MIN_RISK_LOOKBACK_DAYS = 30;
+const ALL_RISK_LOOKBACK_DAYS = 730;
+
+const BENCHMARK_COLORS = ['139, 92, 246', '249, 115, 22', '236, 72, 153', '14, 165, 233'];
+
+const getRiskLookbackDays = (timeframe: TimeFrame) =>
+  timeframe === 'ALL' ? ALL_RISK_LOOKBACK_DAYS : Math.max(MIN_RISK_LOOKBACK_DAYS, TIMEFRAME_DAYS[timeframe]);
+
 const AdvancedAnalyticsScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { assets, getPerformanceData, portfolios, currentPortfolioId } = usePortfolioStore();
+  const {
+    assets,
+    getPerformanceData,
+    loadIntradayPerformance,
+    getReturns,
+    getPortfolioSnapshots,
+    getCashFlows,
+    portfolios,
+    currentPortfolioId,
+    fxRates,
+  } = usePortfolioStore();
   const { currentTheme } = useThemeStore();
   
   const [selectedTimeframe, setSelectedTimeframe] = useState<TimeFrame>('1M');
   const [selectedChartType, setSelectedChartType] = useState<ChartType>('performance');
   const [isExporting, setIsExporting] = useState(false);
-  const [selectedAssets, setSelectedAssets] = useState<string[]>([]);
+  const [comparisonBenchmarks, setComparisonBenchmarks] = useState<string[]>([DEFAULT_RISK_ASSUMPTIONS.benchmark]);
+  const [customBenchmark, setCustomBenchmark] = useState('');
+  const [benchmarkReport, setBenchmarkReport] = useState<BenchmarkReport | null>(null);
+  const [isLoadingBenchmarks, setIsLoadingBenchmarks] = useState(false);
+  const [benchmark, setBenchmark] = useState(DEFAULT_RISK_ASSUMPTIONS.benchmark);
+  const [riskReport, setRiskReport] = useState<RiskReport | null>(null);
+  const [isLoadingRisk, setIsLoadingRisk] = useState(false);
 
   const currentPortfolio = portfolios.find(p => p.id === currentPortfolioId);
-  const totalValue = assets.reduce((sum, asset) => sum + asset.totalValue, 0);
-  const totalCost = assets.reduce((sum, asset) => 
-    sum + (asset.quantity * (asset.averagePrice || asset.currentPrice)), 0
-  );
-  const totalChange = totalValue - totalCost;
-  const totalChangePercent = totalCost > 0 ? (totalChange / totalCost) * 100 : 0;
-
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
+  const baseCurrency = currentPortfolio?.baseCurrency || DEFAULT_CURRENCY;
+  const pnl = summarizePnL(assets, baseCurrency, fxRates);
+  const valueInBase = (asset: Asset) => getHoldingPnL(asset, baseCurrency, fxRates).valueBase;
+  const totalValue = pnl.totalValue;
+  const totalCost = pnl.costBasis;
+  const totalChange = pnl.unrealizedPnL;
+  const totalChangePercent = pnl.unrealizedPercent;
+
+  const formatCurrency = (amount: number, currency: string = baseCurrency): string => {
+    return formatMoney(amount, currency, 0);
   };
 
   const formatPercentage = (percentage: number): string => {
     return `${percentage >= 0 ? '+' : ''}${percentage.toFixed(2)}%`;
   };
 
+  const returns = getReturns(selectedTimeframe);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRiskReport = async () => {
+      if (assets.length === 0) {
+        setRiskReport(null);
+        return;
+      }
+
+      setIsLoadingRisk(true);
+      try {
+        const report = await analyticsService.getRiskReport({
+          assets,
+          baseCurrency,
+          rates: fxRates,
+          snapshots: getPortfolioSnapshots(),
+          flows: getCashFlows(),
+          assumptions: { benchmark, lookbackDays: getRiskLookbackDays(selectedTimeframe) },
+        });
+        if (!cancelled) setRiskReport(report);
+      } catch (error) {
+        console.error('Failed to compute risk metrics:', error);
+        if (!cancelled) setRiskReport(null);
+      } finally {
+        if (!cancelled) setIsLoadingRisk(false);
+      }
+    };
+
+    loadRiskReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [assets, baseCurrency, fxRates, benchmark, selectedTimeframe]);
+
+  // Snapshots are daily, so the 1D chart is built from intraday bars; price ticks don't refetch them
+  const heldTickers = assets.map(asset => asset.ticker).join(',');
+  useEffect(() => {
+    if (selectedTimeframe === '1D') loadIntradayPerformance();
+  }, [selectedTimeframe, heldTickers]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadBenchmarkReport = async () => {
+      if (assets.length === 0 || comparisonBenchmarks.length === 0) {
+        setBenchmarkReport(null);
+        return;
+      }
+
+      setIsLoadingBenchmarks(true);
+      try {
+        const report = await analyticsService.getBenchmarkReport({
+          assets,
+          baseCurrency,
+          rates: fxRates,
+          timeframe: selectedTimeframe,
+          benchmarks: comparisonBenchmarks,
+          performance: getPerformanceData(selectedTimeframe),
+          snapshots: getPortfolioSnapshots(),
+          flows: getCashFlows(),
+        });
+        if (!cancelled) setBenchmarkReport(report);
+      } catch (error) {
+        console.error('Failed to compare with benchmarks:', error);
+        if (!cancelled) setBenchmarkReport(null);
+      } finally {
+        if (!cancelled) setIsLoadingBenchmarks(false);
+      }
+    };
+
+    loadBenchmarkReport();
+    return () => {
+      cancelled = true;
+    };
+  }, [assets, baseCurrency, fxRates, comparisonBenchmarks, selectedTimeframe]);
+
+  const toggleComparisonBenchmark = (symbol: string) => {
+    setComparisonBenchmarks(current =>
+      current.includes(symbol) ? current.filter(s => s !== symbol) : [...current, symbol]
+    );
+  };
+
+  const addCustomBenchmark = () => {
+    const symbol = customBenchmark.trim().toUpperCase();
+    if (!symbol) return;
+    if (comparisonBenchmarks.length >= BENCHMARK_COLORS.length) {
+      Alert.alert('Benchmarks', `Compare up to ${BENCHMARK_COLORS.length} benchmarks at a time`);
+      return;
+    }
+    if (!comparisonBenchmarks.includes(symbol)) {
+      setComparisonBenchmarks([...comparisonBenchmarks, symbol]);
+    }
+    setCustomBenchmark('');
+  };
+
+  const formatRatio = (value: number | null | undefined): string =>
+    value === null || value === undefined ? 'N/A' : value.toFixed(2);
+
+  const volatilityPercent = riskReport ? riskReport.volatility * 100 : 0;
+  const riskLevel = volatilityPercent < 15 ? 'Low' : volatilityPercent < 30 ? 'Medium' : 'High';
+
   const getChartConfig = () => ({
     backgroundColor: currentTheme.colors.surface,
     backgroundGradientFrom: currentTheme.colors.surface,
@@ -86,8 +215,11 @@ const AdvancedAnalyticsScreen: React.FC = () => {
     }
 
     const labels = performanceData.map((_, index) => {
-      return index % Math.max(1, Math.floor(performanceData.length / 4)) === 0 ? 
-        new Date(performanceData[index].timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }) : '';
+      if (index % Math.max(1, Math.floor(performanceData.length / 4)) !== 0) return '';
+      const date = new Date(performanceData[index].timestamp);
+      return selectedTimeframe === '1D'
+        ? date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })
+        : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
     });
 
     return {
@@ -103,13 +235,13 @@ const AdvancedAnalyticsScreen: React.FC = () => {
   };
 
   const getAllocationChartData = () => {
-    const sortedAssets = [...assets].sort((a, b) => b.totalValue - a.totalValue);
+    const sortedAssets = [...assets].sort((a, b) => valueInBase(b) - valueInBase(a));
     const topAssets = sortedAssets.slice(0, 6);
-    const otherValue = sortedAssets.slice(6).reduce((sum, asset) => sum + asset.totalValue, 0);
+    const otherValue = sortedAssets.slice(6).reduce((sum, asset) => sum + valueInBase(asset), 0);
     
     const data = topAssets.map((asset, index) => ({
       name: asset.ticker,
-      population: asset.totalValue,
+      population: valueInBase(asset),
       color: `hsl(${(index * 60) % 360}, 70%, 60%)`,
       legendFontColor: currentTheme.colors.text,
       legendFontSize: 12,
@@ -129,9 +261,9 @@ const AdvancedAnalyticsScreen: React.FC = () => {
   };
 
   const getVolatilityChartData = () => {
-    const volatilityData = assets.map(asset => ({
+    const volatilityData = (riskReport?.assets || []).map(asset => ({
       name: asset.ticker,
-      value: Math.abs(asset.priceChangePercent),
+      value: asset.volatility * 100,
     })).sort((a, b) => b.value - a.value).slice(0, 8);
     
     return {
@@ -143,30 +275,39 @@ const AdvancedAnalyticsScreen: React.FC = () => {
     };
   };
 
+  // Portfolio and benchmarks as cumulative % return from the start of the timeframe
   const getComparisonChartData = () => {
-    const comparisonAssets = selectedAssets.length > 0 
-      ? assets.filter(asset => selectedAssets.includes(asset.id))
-      : assets.slice(0, 5);
-    
+    const curve = benchmarkReport?.portfolioCurve || [];
+    const labels = curve.map((point, index) =>
+      index % Math.max(1, Math.floor(curve.length / 4)) === 0
+        ? new Date(point.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+        : ''
+    );
+    const benchmarks = benchmarkReport?.benchmarks || [];
+
     return {
-      labels: comparisonAssets.map(asset => asset.ticker),
-      datasets: [{
-        data: comparisonAssets.map(asset => asset.priceChangePercent),
-        color: (opacity = 1) => `rgba(139, 92, 246, ${opacity})`,
-      }]
+      labels,
+      legend: ['Portfolio', ...benchmarks.map(b => b.benchmark)],
+      datasets: [
+        {
+          data: curve.map(point => point.value),
+          color: (opacity = 1) => `rgba(59, 130, 246, ${opacity})`,
+          strokeWidth: 3,
+        },
+        ...benchmarks.map((b, index) => ({
+          data: b.curve,
+          color: (opacity = 1) => `rgba(${BENCHMARK_COLORS[index % BENCHMARK_COLORS.length]}, ${opacity})`,
+          strokeWidth: 2,
+        })),
+      ],
     };
   };
 
-  const getCorrelationData = () => {
-    // Simplified correlation calculation
-    const correlationData = assets.slice(0, 6).map((asset, index) => ({
-      name: asset.ticker,
-      correlation: Math.random() * 2 - 1, // Mock correlation between -1 and 1
-      color: Math.random() > 0.5 ? '#10b981' : '#ef4444',
-    }));
-    
-    return correlationData;
-  };
+  // Green for assets that move together, red for ones that offset each other
+  const getCorrelationColor = (value: number) =>
+    value >= 0
+      ? `rgba(16, 185, 129, ${0.15 + Math.abs(value) * 0.85})`
+      : `rgba(239, 68, 68, ${0.15 + Math.abs(value) * 0.85})`;
 
   const handleExportData = async () => {
     try {
@@ -216,6 +357,12 @@ const AdvancedAnalyticsScreen: React.FC = () => {
     csv += `Total Cost,${formatCurrency(data.totalCost)}\\n`;
     csv += `Total Return,${formatCurrency(data.totalReturn)}\\n`;
     csv += `Return Percentage,${data.totalReturnPercent.toFixed(2)}%\\n`;
+    csv += `Base Currency,${baseCurrency}\\n`;
+    csv += `Price Gain,${formatCurrency(pnl.priceGain)}\\n`;
+    csv += `FX Gain,${formatCurrency(pnl.fxGain)}\\n`;
+    csv += `Realized P&L,${formatCurrency(pnl.realizedPnL)}\\n`;
+    csv += `Short-term Realized,${formatCurrency(pnl.shortTermGain)}\\n`;
+    csv += `Long-term Realized,${formatCurrency(pnl.longTermGain)}\\n`;
     csv += `Diversity Score,${data.analytics.diversityScore}%\\n\\n`;
     
     csv += 'Performance Analytics\\n';
@@ -223,12 +370,12 @@ const AdvancedAnalyticsScreen: React.FC = () => {
     csv += `Worst Performer,${data.analytics.worstPerformer?.ticker || 'N/A'},${data.analytics.worstPerformer?.priceChangePercent.toFixed(2) || 0}%\\n\\n`;
     
     csv += 'Detailed Asset Analysis\\n';
-    csv += 'Name,Ticker,Type,Quantity,Current Price,Total Value,Average Price,P&L,P&L %,Weight %\\n';
+    csv += `Name,Ticker,Type,Currency,Quantity,Current Price,Total Value,Average Price,Unrealized P&L,P&L %,Unrealized P&L (${baseCurrency}),FX Gain (${baseCurrency}),Realized P&L,Weight %\\n`;
     data.assets.forEach((asset: Asset) => {
-      const pnl = asset.totalValue - (asset.quantity * (asset.averagePrice || asset.currentPrice));
+      const holding = getHoldingPnL(asset, baseCurrency, fxRates);
       const pnlPercent = asset.averagePrice ? ((asset.currentPrice - asset.averagePrice) / asset.averagePrice * 100) : 0;
-      const weight = (asset.totalValue / data.totalValue) * 100;
-      csv += `${asset.name},${asset.ticker},${asset.type},${asset.quantity},${asset.currentPrice},${asset.totalValue},${asset.averagePrice || 'N/A'},${pnl.toFixed(2)},${pnlPercent.toFixed(2)}%,${weight.toFixed(1)}%\\n`;
+      const weight = (holding.valueBase / data.totalValue) * 100;
+      csv += `${asset.name},${asset.ticker},${asset.type},${asset.currency || DEFAULT_CURRENCY},${asset.quantity},${asset.currentPrice},${asset.totalValue},${asset.averagePrice || 'N/A'},${holding.unrealizedLocal.toFixed(2)},${pnlPercent.toFixed(2)}%,${holding.unrealizedBase.toFixed(2)},${holding.fxGainBase.toFixed(2)},${(asset.realizedPnL || 0).toFixed(2)},${weight.toFixed(1)}%\\n`;
     });
     
     return csv;
@@ -265,7 +412,7 @@ const AdvancedAnalyticsScreen: React.FC = () => {
           />
         ) : null;
       case 'volatility':
-        return assets.length > 0 ? (
+        return riskReport && riskReport.assets.length > 0 ? (
           <BarChart
             data={getVolatilityChartData()}
             {...chartProps}
@@ -273,82 +420,302 @@ const AdvancedAnalyticsScreen: React.FC = () => {
           />
         ) : null;
       case 'comparison':
-        return assets.length > 0 ? (
-          <BarChart
+        if (!benchmarkReport || benchmarkReport.portfolioCurve.length < 2) {
+          return (
+            <Text style={[styles.correlationValue, { color: currentTheme.colors.textSecondary }]}>
+              {isLoadingBenchmarks ? 'Loading benchmark history...' : 'Not enough snapshots in this timeframe to compare'}
+            </Text>
+          );
+        }
+        return (
+          <LineChart
             data={getComparisonChartData()}
             {...chartProps}
+            chartConfig={{ ...getChartConfig(), decimalPlaces: 1 }}
             yAxisSuffix="%"
+            withDots={false}
           />
-        ) : null;
+        );
       case 'correlation':
-        const correlationData = getCorrelationData();
+        if (!riskReport || riskReport.correlation.tickers.length < 2) {
+          return (
+            <Text style={[styles.correlationValue, { color: currentTheme.colors.textSecondary }]}>
+              {isLoadingRisk ? 'Loading price history...' : 'Not enough price history to correlate holdings'}
+            </Text>
+          );
+        }
+        const { tickers, values } = riskReport.correlation;
         return (
-          <View style={styles.correlationContainer}>
-            {correlationData.map((item, index) => (
-              <View key={index} style={styles.correlationItem}>
-                <Text style={[styles.correlationAsset, { color: currentTheme.colors.text }]}>
-                  {item.name}
-                </Text>
-                <View style={styles.correlationBar}>
-                  <View 
-                    style={[
-                      styles.correlationFill,
-                      { 
-                        backgroundColor: item.color,
-                        width: `${Math.abs(item.correlation) * 50}%`,
-                        marginLeft: item.correlation < 0 ? `${50 + item.correlation * 50}%` : '50%'
-                      }
-                    ]} 
-                  />
-                </View>
-                <Text style={[styles.correlationValue, { color: currentTheme.colors.textSecondary }]}>
-                  {item.correlation.toFixed(2)}
-                </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.correlationContainer}>
+            <View>
+              <View style={styles.correlationRow}>
+                <View style={styles.correlationCell} />
+                {tickers.map(ticker => (
+                  <View key={ticker} style={styles.correlationCell}>
+                    <Text style={[styles.correlationAsset, { color: currentTheme.colors.text }]} numberOfLines={1}>
+                      {ticker}
+                    </Text>
+                  </View>
+                ))}
               </View>
-            ))}
-          </View>
+              {tickers.map((rowTicker, row) => (
+                <View key={rowTicker} style={styles.correlationRow}>
+                  <View style={styles.correlationCell}>
+                    <Text style={[styles.correlationAsset, { color: currentTheme.colors.text }]} numberOfLines={1}>
+                      {rowTicker}
+                    </Text>
+                  </View>
+                  {values[row].map((value, column) => (
+                    <View
+                      key={tickers[column]}
+                      style={[styles.correlationCell, { backgroundColor: getCorrelationColor(value) }]}
+                    >
+                      <Text style={[styles.correlationValue, { color: currentTheme.colors.text }]}>
+                        {value.toFixed(2)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </View>
+          </ScrollView>
         );
       default:
         return null;
     }
   };
 
-  const renderTechnicalIndicators = () => (
+  const renderReturns = () => (
     <View style={[styles.indicatorsContainer, { backgroundColor: currentTheme.colors.surface }]}>
-      <Text style={[styles.indicatorsTitle, { color: currentTheme.colors.text }]}>Technical Indicators</Text>
-      
+      <Text style={[styles.indicatorsTitle, { color: currentTheme.colors.text }]}>Returns ({selectedTimeframe})</Text>
+
       <View style={styles.indicatorsGrid}>
         <View style={styles.indicatorItem}>
-          <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Sharpe Ratio</Text>
+          <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Time-weighted (TWR)</Text>
+          <Text style={[styles.indicatorValue, { color: returns.twr >= 0 ? currentTheme.colors.success : currentTheme.colors.error }]}>
+            {formatPercentage(returns.twr * 100)}
+          </Text>
+        </View>
+
+        <View style={styles.indicatorItem}>
+          <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Money-weighted (IRR)</Text>
           <Text style={[styles.indicatorValue, { color: currentTheme.colors.text }]}>
-            {(totalChangePercent / 15).toFixed(2)} {/* Simplified calculation */}
+            {returns.irr === null ? 'N/A' : formatPercentage(returns.irr * 100)}
           </Text>
         </View>
-        
+
         <View style={styles.indicatorItem}>
-          <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Beta</Text>
+          <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>IRR (annualized)</Text>
           <Text style={[styles.indicatorValue, { color: currentTheme.colors.text }]}>
-            {(1 + Math.random() * 0.5).toFixed(2)} {/* Mock beta */}
+            {returns.irrAnnualized === null ? 'N/A' : formatPercentage(returns.irrAnnualized * 100)}
           </Text>
         </View>
-        
+
         <View style={styles.indicatorItem}>
-          <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Max Drawdown</Text>
-          <Text style={[styles.indicatorValue, { color: currentTheme.colors.error }]}>
-            -{Math.abs(Math.min(...assets.map(a => a.priceChangePercent))).toFixed(1)}%
+          <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Gain excl. deposits</Text>
+          <Text style={[styles.indicatorValue, { color: returns.gain >= 0 ? currentTheme.colors.success : currentTheme.colors.error }]}>
+            {formatCurrency(returns.gain)}
           </Text>
         </View>
-        
+
         <View style={styles.indicatorItem}>
-          <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Volatility</Text>
+          <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Net deposits</Text>
           <Text style={[styles.indicatorValue, { color: currentTheme.colors.text }]}>
-            {(assets.reduce((sum, asset) => sum + Math.abs(asset.priceChangePercent), 0) / assets.length).toFixed(1)}%
+            {formatCurrency(returns.netFlows)}
           </Text>
         </View>
       </View>
     </View>
   );
 
+  const renderBenchmarkComparison = () => (
+    <View style={[styles.indicatorsContainer, { backgroundColor: currentTheme.colors.surface }]}>
+      <Text style={[styles.indicatorsTitle, { color: currentTheme.colors.text }]}>
+        Benchmark Comparison ({selectedTimeframe})
+      </Text>
+
+      <View style={styles.benchmarkRow}>
+        {Array.from(new Set([...RISK_BENCHMARKS, ...comparisonBenchmarks])).map(symbol => {
+          const selected = comparisonBenchmarks.includes(symbol);
+          return (
+            <TouchableOpacity
+              key={symbol}
+              style={[
+                styles.benchmarkChip,
+                { borderColor: currentTheme.colors.border },
+                selected && { backgroundColor: currentTheme.colors.primary, borderColor: currentTheme.colors.primary },
+              ]}
+              onPress={() => toggleComparisonBenchmark(symbol)}
+            >
+              <Text
+                style={[
+                  styles.benchmarkChipText,
+                  { color: selected ? currentTheme.colors.background : currentTheme.colors.textSecondary },
+                ]}
+              >
+                {symbol}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.benchmarkRow}>
+        <TextInput
+          style={[
+            styles.customBenchmarkInput,
+            { color: currentTheme.colors.text, borderColor: currentTheme.colors.border },
+          ]}
+          value={customBenchmark}
+          onChangeText={setCustomBenchmark}
+          placeholder="Custom index, e.g. ^GSPC"
+          placeholderTextColor={currentTheme.colors.textTertiary}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          onSubmitEditing={addCustomBenchmark}
+        />
+        <TouchableOpacity onPress={addCustomBenchmark}>
+          <Ionicons name="add-circle" size={28} color={currentTheme.colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {isLoadingBenchmarks && !benchmarkReport ? (
+        <ActivityIndicator size="small" color={currentTheme.colors.primary} />
+      ) : (
+        benchmarkReport?.benchmarks.map(b => (
+          <View key={b.benchmark} style={styles.attributionItem}>
+            <View style={styles.attributionInfo}>
+              <Text style={[styles.attributionAsset, { color: currentTheme.colors.text }]}>{b.benchmark}</Text>
+              <Text style={[styles.attributionWeight, { color: currentTheme.colors.textSecondary }]}>
+                Return {formatPercentage(b.totalReturn * 100)} · {b.observations} daily returns
+              </Text>
+            </View>
+            <View style={styles.attributionPerformance}>
+              <Text style={[styles.attributionContribution, { color: currentTheme.colors.textSecondary }]}>
+                Alpha {b.alpha === null ? 'N/A' : formatPercentage(b.alpha * 100)} · Beta {formatRatio(b.beta)}
+              </Text>
+              <Text style={[styles.attributionContribution, { color: currentTheme.colors.textSecondary }]}>
+                Tracking error {b.trackingError === null ? 'N/A' : `${(b.trackingError * 100).toFixed(1)}%`}
+              </Text>
+              <Text style={[styles.attributionContribution, { color: currentTheme.colors.textSecondary }]}>
+                Up {b.upCapture === null ? 'N/A' : `${(b.upCapture * 100).toFixed(0)}%`} · Down {b.downCapture === null ? 'N/A' : `${(b.downCapture * 100).toFixed(0)}%`}
+              </Text>
+            </View>
+          </View>
+        ))
+      )}
+
+      {benchmarkReport && (
+        <View style={styles.assumptions}>
+          <Text style={[styles.assumptionsText, { color: currentTheme.colors.textTertiary }]}>
+            Alpha and tracking error are annualized from daily holding returns; risk-free rate {(benchmarkReport.riskFreeRate * 100).toFixed(1)}%
+          </Text>
+          {benchmarkReport.missingBenchmarks.length > 0 && (
+            <Text style={[styles.assumptionsText, { color: currentTheme.colors.textTertiary }]}>
+              No price history for {benchmarkReport.missingBenchmarks.join(', ')}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
+  const renderTechnicalIndicators = () => (
+    <View style={[styles.indicatorsContainer, { backgroundColor: currentTheme.colors.surface }]}>
+      <Text style={[styles.indicatorsTitle, { color: currentTheme.colors.text }]}>Risk Metrics</Text>
+
+      <View style={styles.benchmarkRow}>
+        <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Benchmark</Text>
+        {RISK_BENCHMARKS.map(symbol => (
+          <TouchableOpacity
+            key={symbol}
+            style={[
+              styles.benchmarkChip,
+              { borderColor: currentTheme.colors.border },
+              benchmark === symbol && { backgroundColor: currentTheme.colors.primary, borderColor: currentTheme.colors.primary },
+            ]}
+            onPress={() => setBenchmark(symbol)}
+          >
+            <Text
+              style={[
+                styles.benchmarkChipText,
+                { color: benchmark === symbol ? currentTheme.colors.background : currentTheme.colors.textSecondary },
+              ]}
+            >
+              {symbol}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {isLoadingRisk && !riskReport ? (
+        <ActivityIndicator size="small" color={currentTheme.colors.primary} />
+      ) : (
+        <View style={styles.indicatorsGrid}>
+          <View style={styles.indicatorItem}>
+            <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Sharpe Ratio</Text>
+            <Text style={[styles.indicatorValue, { color: currentTheme.colors.text }]}>
+              {formatRatio(riskReport?.sharpeRatio)}
+            </Text>
+          </View>
+
+          <View style={styles.indicatorItem}>
+            <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Sortino Ratio</Text>
+            <Text style={[styles.indicatorValue, { color: currentTheme.colors.text }]}>
+              {formatRatio(riskReport?.sortinoRatio)}
+            </Text>
+          </View>
+
+          <View style={styles.indicatorItem}>
+            <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Beta vs {benchmark}</Text>
+            <Text style={[styles.indicatorValue, { color: currentTheme.colors.text }]}>
+              {formatRatio(riskReport?.beta)}
+            </Text>
+          </View>
+
+          <View style={styles.indicatorItem}>
+            <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Max Drawdown</Text>
+            <Text style={[styles.indicatorValue, { color: currentTheme.colors.error }]}>
+              -{((riskReport?.maxDrawdown || 0) * 100).toFixed(1)}%
+            </Text>
+          </View>
+
+          <View style={styles.indicatorItem}>
+            <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>Volatility (ann.)</Text>
+            <Text style={[styles.indicatorValue, { color: currentTheme.colors.text }]}>
+              {volatilityPercent.toFixed(1)}%
+            </Text>
+          </View>
+
+          <View style={styles.indicatorItem}>
+            <Text style={[styles.indicatorLabel, { color: currentTheme.colors.textSecondary }]}>
+              1-day VaR ({((riskReport?.assumptions.confidenceLevel || DEFAULT_RISK_ASSUMPTIONS.confidenceLevel) * 100).toFixed(0)}%)
+            </Text>
+            <Text style={[styles.indicatorValue, { color: currentTheme.colors.error }]}>
+              {formatCurrency(riskReport?.valueAtRisk || 0)}
+            </Text>
+          </View>
+        </View>
+      )}
+
+      {riskReport && (
+        <View style={styles.assumptions}>
+          <Text style={[styles.assumptionsText, { color: currentTheme.colors.textTertiary }]}>
+            Risk-free rate {(riskReport.assumptions.riskFreeRate * 100).toFixed(1)}% · Lookback {riskReport.assumptions.lookbackDays} days · {riskReport.observations} daily returns · {riskReport.assumptions.periodsPerYear} trading days/year
+          </Text>
+          <Text style={[styles.assumptionsText, { color: currentTheme.colors.textTertiary }]}>
+            Max drawdown uses recorded portfolio snapshots net of deposits and withdrawals
+          </Text>
+          {riskReport.missingTickers.length > 0 && (
+            <Text style={[styles.assumptionsText, { color: currentTheme.colors.textTertiary }]}>
+              No price history for {riskReport.missingTickers.join(', ')}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+
   if (assets.length === 0) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.background }]}>
@@ -461,10 +828,16 @@ const AdvancedAnalyticsScreen: React.FC = () => {
           {renderChart()}
         </View>
 
-        {/* Technical Indicators */}
-        {renderTechnicalIndicators()}
+        {/* Returns */}
+        {renderReturns()}
+
+        {/* Benchmark Comparison */}
+        {renderBenchmarkComparison()}
 
         {/* Risk Metrics */}
+        {renderTechnicalIndicators()}
+
+        {/* Risk Level */}
         <View style={[styles.riskContainer, { backgroundColor: currentTheme.colors.surface }]}>
           <Text style={[styles.riskTitle, { color: currentTheme.colors.text }]}>Risk Analysis</Text>
           
@@ -477,20 +850,68 @@ const AdvancedAnalyticsScreen: React.FC = () => {
                     style={[
                       styles.riskFill,
                       { 
-                        backgroundColor: totalChangePercent > 10 ? '#ef4444' : totalChangePercent > 5 ? '#f59e0b' : '#10b981',
-                        width: `${Math.min(Math.abs(totalChangePercent) * 5, 100)}%`
+                        backgroundColor: riskLevel === 'High' ? '#ef4444' : riskLevel === 'Medium' ? '#f59e0b' : '#10b981',
+                        width: `${Math.min(volatilityPercent * 2, 100)}%`
                       }
                     ]} 
                   />
                 </View>
                 <Text style={[styles.riskText, { color: currentTheme.colors.text }]}>
-                  {totalChangePercent > 10 ? 'High' : totalChangePercent > 5 ? 'Medium' : 'Low'}
+                  {riskReport ? riskLevel : 'N/A'}
                 </Text>
               </View>
             </View>
           </View>
         </View>
 
+        {/* Realized vs Unrealized */}
+        <View style={[styles.attributionContainer, { backgroundColor: currentTheme.colors.surface }]}>
+          <Text style={[styles.attributionTitle, { color: currentTheme.colors.text }]}>Realized vs Unrealized</Text>
+          <Text style={[styles.attributionContribution, { color: currentTheme.colors.textSecondary }]}>
+            Cost basis: {getCostBasisLabel(currentPortfolio?.costBasisMethod || DEFAULT_COST_BASIS_METHOD)}
+          </Text>
+
+          {[
+            { label: 'Unrealized', value: pnl.unrealizedPnL },
+            { label: 'From price moves', value: pnl.priceGain },
+            { label: 'From FX moves', value: pnl.fxGain },
+            { label: 'Realized', value: pnl.realizedPnL },
+            { label: 'Short-term realized', value: pnl.shortTermGain },
+            { label: 'Long-term realized', value: pnl.longTermGain },
+            { label: 'Dividends', value: pnl.dividends },
+          ].map(row => (
+            <View key={row.label} style={styles.attributionItem}>
+              <Text style={[styles.attributionAsset, { color: currentTheme.colors.text }]}>{row.label}</Text>
+              <Text style={[
+                styles.attributionReturn,
+                { color: row.value >= 0 ? currentTheme.colors.success : currentTheme.colors.error }
+              ]}>
+                {formatCurrency(row.value)}
+              </Text>
+            </View>
+          ))}
+
+          {assets.map(asset => {
+            const holding = getHoldingPnL(asset, baseCurrency, fxRates);
+            const currency = asset.currency || DEFAULT_CURRENCY;
+
+            return (
+              <View key={asset.id} style={styles.attributionItem}>
+                <Text style={[styles.attributionAsset, { color: currentTheme.colors.text }]}>{asset.ticker}</Text>
+                <View style={styles.attributionPerformance}>
+                  <Text style={[styles.attributionContribution, { color: currentTheme.colors.textSecondary }]}>
+                    Unrealized {formatCurrency(holding.unrealizedLocal, currency)}
+                    {currency !== baseCurrency ? ` · ${formatCurrency(holding.unrealizedBase)} (FX ${formatCurrency(holding.fxGainBase)})` : ''}
+                  </Text>
+                  <Text style={[styles.attributionContribution, { color: currentTheme.colors.textSecondary }]}>
+                    Realized {formatCurrency(asset.realizedPnL || 0, currency)}
+                  </Text>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+
         {/* Performance Attribution */}
         <View style={[styles.attributionContainer, { backgroundColor: currentTheme.colors.surface }]}>
           <Text style={[styles.attributionTitle, { color: currentTheme.colors.text }]}>Performance Attribution</Text>
@@ -500,7 +921,7 @@ const AdvancedAnalyticsScreen: React.FC = () => {
               <View style={styles.attributionInfo}>
                 <Text style={[styles.attributionAsset, { color: currentTheme.colors.text }]}>{asset.ticker}</Text>
                 <Text style={[styles.attributionWeight, { color: currentTheme.colors.textSecondary }]}>
-                  {((asset.totalValue / totalValue) * 100).toFixed(1)}%
+                  {((valueInBase(asset) / totalValue) * 100).toFixed(1)}%
                 </Text>
               </View>
               <View style={styles.attributionPerformance}>
@@ -511,7 +932,7 @@ const AdvancedAnalyticsScreen: React.FC = () => {
                   {formatPercentage(asset.priceChangePercent)}
                 </Text>
                 <Text style={[styles.attributionContribution, { color: currentTheme.colors.textSecondary }]}>
-                  Contribution: {formatPercentage((asset.totalValue / totalValue) * asset.priceChangePercent)}
+                  Contribution: {formatPercentage((valueInBase(asset) / totalValue) * asset.priceChangePercent)}
                 </Text>
               </View>
             </View>
@@ -599,34 +1020,24 @@ const styles = StyleSheet.create({
   correlationContainer: {
     paddingHorizontal: 20,
   },
-  correlationItem: {
+  correlationRow: {
     flexDirection: 'row',
+  },
+  correlationCell: {
+    width: 56,
+    height: 36,
+    justifyContent: 'center',
     alignItems: 'center',
-    marginBottom: 12,
+    margin: 1,
+    borderRadius: 4,
   },
   correlationAsset: {
-    width: 60,
-    fontSize: 14,
+    fontSize: 12,
     fontWeight: '600',
   },
-  correlationBar: {
-    flex: 1,
-    height: 6,
-    backgroundColor: '#f3f4f6',
-    borderRadius: 3,
-    marginHorizontal: 12,
-    position: 'relative',
-  },
-  correlationFill: {
-    height: 6,
-    borderRadius: 3,
-    position: 'absolute',
-    top: 0,
-  },
   correlationValue: {
-    width: 40,
     fontSize: 12,
-    textAlign: 'right',
+    textAlign: 'center',
   },
   indicatorsContainer: {
     margin: 20,
@@ -660,6 +1071,38 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '700',
   },
+  benchmarkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  benchmarkChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  benchmarkChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  customBenchmarkInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    fontSize: 14,
+  },
+  assumptions: {
+    marginTop: 4,
+    gap: 4,
+  },
+  assumptionsText: {
+    fontSize: 11,
+  },
   riskContainer: {
     margin: 20,
     padding: 20,
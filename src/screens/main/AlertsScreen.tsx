@@ -14,18 +14,21 @@ import { useNavigation } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList, PriceAlert } from '@/types';
 import { useAuthStore } from '@/store/authStore';
+import { useAlertStore } from '@/store/alertStore';
 import { useThemeStore, useFontSizes } from '@/services/themeManager';
-import api from '@/services/api';
+import { useTranslation } from '@/services/localizationService';
+import { formatMoney } from '@/utils/currency';
+import SyncStatusBadge from '@/components/SyncStatusBadge';
 
 type AlertsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
 const AlertsScreen: React.FC = () => {
   const navigation = useNavigation<AlertsScreenNavigationProp>();
-  const { isAuthenticated } = useAuthStore();
+  const { isAuthenticated, isGuest, leaveGuestMode } = useAuthStore();
   const { currentTheme } = useThemeStore();
   const fontSizes = useFontSizes();
-  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { t } = useTranslation();
+  const { alerts, loadAlerts, updateAlert, deleteAlert } = useAlertStore();
   const [refreshing, setRefreshing] = useState(false);
 
   useEffect(() => {
@@ -34,18 +37,6 @@ const AlertsScreen: React.FC = () => {
     }
   }, [isAuthenticated]);
 
-  const loadAlerts = async () => {
-    try {
-      setIsLoading(true);
-      const alertsData = await api.getAlerts();
-      setAlerts(alertsData);
-    } catch (error) {
-      Alert.alert('Error', 'Failed to load alerts');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const onRefresh = async () => {
     setRefreshing(true);
     await loadAlerts();
@@ -66,12 +57,7 @@ const AlertsScreen: React.FC = () => {
           text: 'Delete',
           style: 'destructive',
           onPress: async () => {
-            try {
-              await api.deleteAlert(alertId);
-              setAlerts(alerts.filter(alert => alert.id !== alertId));
-            } catch (error) {
-              Alert.alert('Error', 'Failed to delete alert');
-            }
+            await deleteAlert(alertId);
           },
         },
       ]
@@ -79,21 +65,11 @@ const AlertsScreen: React.FC = () => {
   };
 
   const toggleAlert = async (alert: PriceAlert) => {
-    try {
-      const updatedAlert = await api.updateAlert(alert.id, { 
-        isActive: !alert.isActive 
-      });
-      setAlerts(alerts.map(a => a.id === alert.id ? updatedAlert : a));
-    } catch (error) {
-      Alert.alert('Error', 'Failed to update alert');
-    }
+    await updateAlert(alert.id, { isActive: !alert.isActive });
   };
 
   const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+    return formatMoney(amount);
   };
 
   const formatDate = (dateString: string) => {
@@ -145,6 +121,7 @@ const AlertsScreen: React.FC = () => {
             <Text style={[styles.alertAsset, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>{item.assetName}</Text>
             <Text style={[styles.alertDescription, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{getAlertDescription(item)}</Text>
             <Text style={[styles.alertDate, { color: currentTheme.colors.textTertiary, fontSize: fontSizes.tiny }]}>Created {formatDate(item.createdAt)}</Text>
+            <SyncStatusBadge entityId={item.id} />
           </View>
           <View style={styles.alertActions}>
             <TouchableOpacity
@@ -210,8 +187,13 @@ const AlertsScreen: React.FC = () => {
       <Ionicons name="lock-closed-outline" size={64} color={currentTheme.colors.textTertiary} />
       <Text style={[styles.guestTitle, { color: currentTheme.colors.text, fontSize: fontSizes.large }]}>Sign In Required</Text>
       <Text style={[styles.guestDescription, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.medium }]}>
-        Please sign in to create and manage price alerts
+        {isGuest ? t('auth.guestAlerts') : 'Please sign in to create and manage price alerts'}
       </Text>
+      {isGuest && (
+        <TouchableOpacity style={[styles.addFirstAlertButton, { backgroundColor: currentTheme.colors.primary }]} onPress={leaveGuestMode}>
+          <Text style={[styles.addFirstAlertButtonText, { color: currentTheme.colors.buttonText, fontSize: fontSizes.medium }]}>{t('auth.createAccount')}</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
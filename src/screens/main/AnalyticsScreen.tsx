@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -11,14 +11,27 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LineChart } from 'react-native-chart-kit';
-import { Portfolio, PortfolioSnapshot } from '@/types';
+import { Portfolio, PortfolioSnapshot, PerformanceTimeframe } from '@/types';
 import { useAuthStore } from '@/store/authStore';
 import { useThemeStore, useFontSizes } from '@/services/themeManager';
 import { useTranslation } from '@/services/localizationService';
-import api from '@/services/api';
+import { reconcileService } from '@/services/reconcileService';
+import { usePortfolioStore } from '@/store/portfolioStore';
+import { formatMoney } from '@/utils/currency';
+import { summarizePnL } from '@/utils/ledger';
+import { getTimeframeStart } from '@/utils/returns';
 
 const { width: screenWidth } = Dimensions.get('window');
 
+type AnalyticsPeriod = '7d' | '30d' | '90d' | '1y';
+
+const PERIOD_TIMEFRAMES: Record<AnalyticsPeriod, PerformanceTimeframe> = {
+  '7d': '1W',
+  '30d': '1M',
+  '90d': '3M',
+  '1y': '1Y',
+};
+
 // Helper function to convert hex to RGB
 const hexToRgb = (hex: string) => {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
@@ -30,31 +43,43 @@ const hexToRgb = (hex: string) => {
 };
 
 const AnalyticsScreen: React.FC = () => {
-  const { isAuthenticated } = useAuthStore();
+  const { isAuthenticated, isGuest } = useAuthStore();
   const { currentTheme } = useThemeStore();
+  const {
+    portfolios,
+    currentPortfolioId,
+    assets,
+    fxRates,
+    getBaseCurrency,
+    getPortfolioSnapshots,
+    getReturns,
+  } = usePortfolioStore();
+  const baseCurrency = getBaseCurrency();
   const fontSizes = useFontSizes();
   const { t } = useTranslation();
-  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
   const [portfolioHistory, setPortfolioHistory] = useState<PortfolioSnapshot[]>([]);
-  const [selectedPeriod, setSelectedPeriod] = useState<'7d' | '30d' | '90d' | '1y'>('30d');
+  const [selectedPeriod, setSelectedPeriod] = useState<AnalyticsPeriod>('30d');
   const [refreshing, setRefreshing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    if (isAuthenticated) {
+    if (isAuthenticated || isGuest) {
       loadAnalytics();
     }
-  }, [isAuthenticated, selectedPeriod]);
+  }, [isAuthenticated, isGuest, selectedPeriod]);
 
   const loadAnalytics = async () => {
     try {
       setIsLoading(true);
-      const portfolios = await api.getPortfolios();
-      if (portfolios.length > 0) {
-        setPortfolio(portfolios[0]);
-        // Generate mock portfolio history for demo
-        generateMockHistory(portfolios[0]);
+      // A guest's portfolios only exist on this device
+      if (isAuthenticated) {
+        try {
+          await reconcileService.reconcile();
+        } catch (error) {
+          console.warn('Failed to reconcile with server:', error);
+        }
       }
+      loadHistory();
     } catch (error) {
       console.error('Failed to load analytics:', error);
     } finally {
@@ -62,29 +87,21 @@ const AnalyticsScreen: React.FC = () => {
     }
   };
 
-  const generateMockHistory = (portfolio: Portfolio) => {
-    const days = selectedPeriod === '7d' ? 7 : selectedPeriod === '30d' ? 30 : selectedPeriod === '90d' ? 90 : 365;
-    const history: PortfolioSnapshot[] = [];
-    const baseValue = portfolio.totalValue;
-    
-    for (let i = days; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      const randomChange = (Math.random() - 0.5) * 0.1; // ±5% random change
-      const value = baseValue * (1 + randomChange);
-      
-      history.push({
-        id: i.toString(),
-        totalValue: value,
-        totalCost: portfolio.totalCost,
-        timestamp: date,
-        dayChange: value - baseValue,
-        dayChangePercent: (value - baseValue) / baseValue * 100,
-      });
-    }
-    
-    setPortfolioHistory(history);
+  // The local copy, reconciled with the server on load and valued in the base currency
+  const portfolio = useMemo<Portfolio | null>(() => {
+    const current = portfolios.find(p => p.id === currentPortfolioId);
+    if (!current) return null;
+
+    const pnl = summarizePnL(assets, baseCurrency, fxRates);
+    return { ...current, assets, totalValue: pnl.totalValue, totalCost: pnl.costBasis };
+  }, [portfolios, currentPortfolioId, assets, baseCurrency, fxRates]);
+
+  // Chart the recorded valuations for the current portfolio over the selected period
+  const loadHistory = () => {
+    const start = getTimeframeStart(PERIOD_TIMEFRAMES[selectedPeriod], []).getTime();
+    setPortfolioHistory(
+      getPortfolioSnapshots().filter(snapshot => new Date(snapshot.timestamp).getTime() >= start)
+    );
   };
 
   const onRefresh = async () => {
@@ -93,11 +110,8 @@ const AnalyticsScreen: React.FC = () => {
     setRefreshing(false);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+  const formatCurrency = (amount: number, currency: string = baseCurrency) => {
+    return formatMoney(amount, currency);
   };
 
   const formatPercentage = (percentage: number) => {
@@ -244,6 +258,30 @@ const AnalyticsScreen: React.FC = () => {
     );
   };
 
+  const renderReturns = () => {
+    const returns = getReturns(PERIOD_TIMEFRAMES[selectedPeriod]);
+    const twrColor = returns.twr >= 0 ? currentTheme.colors.profit : currentTheme.colors.loss;
+
+    return (
+      <View style={styles.statsContainer}>
+        <View style={[styles.statCard, { backgroundColor: currentTheme.colors.card, shadowColor: currentTheme.colors.shadow }]}>
+          <Text style={[styles.statLabel, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.tiny }]}>{t('analytics.timeWeightedReturn')}</Text>
+          <Text style={[styles.statValue, { color: twrColor, fontSize: fontSizes.medium }]}>{formatPercentage(returns.twr * 100)}</Text>
+        </View>
+        <View style={[styles.statCard, { backgroundColor: currentTheme.colors.card, shadowColor: currentTheme.colors.shadow }]}>
+          <Text style={[styles.statLabel, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.tiny }]}>{t('analytics.moneyWeightedReturn')}</Text>
+          <Text style={[styles.statValue, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>
+            {returns.irr === null ? 'N/A' : formatPercentage(returns.irr * 100)}
+          </Text>
+        </View>
+        <View style={[styles.statCard, { backgroundColor: currentTheme.colors.card, shadowColor: currentTheme.colors.shadow }]}>
+          <Text style={[styles.statLabel, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.tiny }]}>{t('analytics.netDeposits')}</Text>
+          <Text style={[styles.statValue, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>{formatCurrency(returns.netFlows)}</Text>
+        </View>
+      </View>
+    );
+  };
+
   const renderAssetAllocation = () => {
     if (!portfolio || portfolio.assets.length === 0) return null;
 
@@ -269,7 +307,7 @@ const AnalyticsScreen: React.FC = () => {
                   ]}
                 />
               </View>
-              <Text style={[styles.allocationValue, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{formatCurrency(asset.totalValue)}</Text>
+              <Text style={[styles.allocationValue, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{formatCurrency(asset.totalValue, asset.currency)}</Text>
             </View>
           );
         })}
@@ -287,7 +325,7 @@ const AnalyticsScreen: React.FC = () => {
     </View>
   );
 
-  if (!isAuthenticated) {
+  if (!isAuthenticated && !isGuest) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.background }]}>
         {renderGuestState()}
@@ -320,6 +358,8 @@ const AnalyticsScreen: React.FC = () => {
           {renderChart()}
         </View>
 
+        {renderReturns()}
+
         {renderAssetAllocation()}
       </ScrollView>
     </SafeAreaView>
@@ -3,74 +3,123 @@ import {
   View,
   Text,
   StyleSheet,
-  FlatList,
   TouchableOpacity,
   TextInput,
-  RefreshControl,
   Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { APIAsset, SearchResult } from '@/types';
-import api from '@/services/api';
+import { APIAsset, Asset, AssetSearchFilters as Filters } from '@/types';
+import api, { isRequestCanceled } from '@/services/api';
+import { getMarketDataProvider, useAssetSearch } from '@/services/marketData';
+import { formatMoney } from '@/utils/currency';
 import { useAuthStore } from '@/store/authStore';
+import { usePortfolioStore } from '@/store/portfolioStore';
 import { useThemeStore, useFontSizes } from '@/services/themeManager';
+import { useAbortSignal, useDebounce } from '@/utils/performanceOptimizations';
+import { buildSearchQuery, DEFAULT_SEARCH_FILTERS } from '@/utils/assetSearch';
+import VirtualizedList from '@/components/VirtualizedList';
+import AssetSearchFilters from '@/components/AssetSearchFilters';
+import { useLiveQuote } from '@/store/quoteStore';
+import { useQuoteSubscription } from '@/services/priceStreamService';
+
+const formatPercentage = (percentage: number) => {
+  return `${percentage >= 0 ? '+' : ''}${percentage.toFixed(2)}%`;
+};
+
+// Card height plus its bottom margin, so the list can skip measuring rows
+const MARKET_ROW_HEIGHT = 104;
+
+interface MarketRowProps {
+  item: APIAsset;
+  onPress: (asset: APIAsset) => void;
+}
+
+// Each row follows its own symbol's streamed quote, so a tick re-renders that row alone
+const MarketRow: React.FC<MarketRowProps> = ({ item, onPress }) => {
+  const { currentTheme } = useThemeStore();
+  const fontSizes = useFontSizes();
+  const quote = useLiveQuote(item.symbol);
+  const price = quote ? quote.price : item.currentPrice;
+  const changePercent = quote ? quote.changePercent : item.changePercent24h;
+  const isPositive = (changePercent || 0) >= 0;
+
+  return (
+    <TouchableOpacity
+      style={[styles.assetItem, { backgroundColor: currentTheme.colors.card, shadowColor: currentTheme.colors.shadow }]}
+      onPress={() => onPress(item)}
+    >
+      <View style={styles.assetInfo}>
+        <Text style={[styles.assetName, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>{item.name}</Text>
+        <Text style={[styles.assetSymbol, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{item.symbol}</Text>
+        <Text style={[styles.assetType, { color: currentTheme.colors.textTertiary, fontSize: fontSizes.tiny }]}>{item.type?.toUpperCase()}</Text>
+      </View>
+      <View style={styles.assetValues}>
+        {price !== undefined && (
+          <>
+            <Text style={[styles.assetPrice, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>{formatMoney(price, item.currency)}</Text>
+            {changePercent !== undefined && (
+              <Text style={[styles.assetChange, { color: isPositive ? currentTheme.colors.profit : currentTheme.colors.loss, fontSize: fontSizes.small }]}>
+                {formatPercentage(changePercent)}
+              </Text>
+            )}
+          </>
+        )}
+        <Text style={[styles.assetExchange, { color: currentTheme.colors.textTertiary, fontSize: fontSizes.tiny }]}>{item.exchange || 'N/A'}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+};
 
 const MarketsScreen: React.FC = () => {
-  const { isAuthenticated } = useAuthStore();
+  const { isAuthenticated, isGuest } = useAuthStore();
+  const canBrowse = isAuthenticated || isGuest;
   const { currentTheme } = useThemeStore();
   const fontSizes = useFontSizes();
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<APIAsset[]>([]);
+  const [filters, setFilters] = useState<Filters>(DEFAULT_SEARCH_FILTERS);
   const [isLoading, setIsLoading] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [popularAssets, setPopularAssets] = useState<APIAsset[]>([]);
+  const nextPopularSignal = useAbortSignal();
+
+  const isSearchActive = searchQuery.trim().length > 2;
+  const debouncedQuery = useDebounce(searchQuery.trim(), 500);
+  const search = useAssetSearch(
+    canBrowse && debouncedQuery.length > 2 ? buildSearchQuery(debouncedQuery, filters) : null
+  );
+
+  const displayData = isSearchActive ? search.results : popularAssets;
+  useQuoteSubscription(canBrowse ? displayData.map(asset => asset.symbol) : []);
 
   useEffect(() => {
     loadPopularAssets();
   }, []);
 
   useEffect(() => {
-    if (searchQuery.trim().length > 2) {
-      const delayedSearch = setTimeout(() => {
-        searchAssets(searchQuery);
-      }, 500);
-      return () => clearTimeout(delayedSearch);
-    } else {
-      setSearchResults([]);
-    }
-  }, [searchQuery]);
+    if (search.error) Alert.alert('Error', search.error);
+  }, [search.error]);
 
-  const loadPopularAssets = async () => {
+  const loadPopularAssets = async (refresh = false) => {
     try {
       setIsLoading(true);
-      // Search for popular assets
-      const results = await api.searchAssets('AAPL,GOOGL,MSFT,TSLA,AMZN', ['stock']);
-      setPopularAssets(results.assets || []);
+      setPopularAssets(
+        await getMarketDataProvider().getPopularAssets({
+          signal: nextPopularSignal(),
+          cache: refresh ? 'no-cache' : 'default',
+        })
+      );
     } catch (error) {
+      if (isRequestCanceled(error)) return;
       console.error('Failed to load popular assets:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const searchAssets = async (query: string) => {
-    if (!isAuthenticated) return;
-    
-    try {
-      setIsLoading(true);
-      const results = await api.searchAssets(query);
-      setSearchResults(results.assets || []);
-    } catch (error) {
-      Alert.alert('Error', 'Failed to search assets');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const onRefresh = async () => {
     setRefreshing(true);
-    await loadPopularAssets();
+    await loadPopularAssets(true);
     setRefreshing(false);
   };
 
@@ -86,6 +135,32 @@ const MarketsScreen: React.FC = () => {
   };
 
   const addToPortfolio = async (asset: APIAsset) => {
+    // A guest's portfolio only lives on the device, so the buy goes straight into the local ledger
+    if (isGuest) {
+      const quantity = await promptForQuantity();
+      if (!quantity) return;
+
+      const price = asset.currentPrice || 0;
+      try {
+        await usePortfolioStore.getState().addAsset({
+          name: asset.name,
+          ticker: asset.symbol,
+          type: (asset.type || 'stock') as Asset['type'],
+          quantity,
+          currentPrice: price,
+          averagePrice: price,
+          priceChange: 0,
+          priceChangePercent: 0,
+          exchange: asset.exchange,
+          currency: asset.currency,
+        });
+        Alert.alert('Success', 'Asset added to portfolio');
+      } catch (error) {
+        Alert.alert('Error', 'Failed to add asset to portfolio');
+      }
+      return;
+    }
+
     if (!isAuthenticated) {
       Alert.alert('Sign In Required', 'Please sign in to add assets to your portfolio');
       return;
@@ -135,54 +210,20 @@ const MarketsScreen: React.FC = () => {
     });
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
-  };
-
-  const formatPercentage = (percentage: number) => {
-    return `${percentage >= 0 ? '+' : ''}${percentage.toFixed(2)}%`;
-  };
-
-  const renderAssetItem = ({ item }: { item: APIAsset }) => {
-    const hasPrice = item.currentPrice !== undefined;
-    const isPositive = (item.changePercent24h || 0) >= 0;
-
-    return (
-      <TouchableOpacity
-        style={[styles.assetItem, { backgroundColor: currentTheme.colors.card, shadowColor: currentTheme.colors.shadow }]}
-        onPress={() => handleAssetPress(item)}
-      >
-        <View style={styles.assetInfo}>
-          <Text style={[styles.assetName, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>{item.name}</Text>
-          <Text style={[styles.assetSymbol, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{item.symbol}</Text>
-          <Text style={[styles.assetType, { color: currentTheme.colors.textTertiary, fontSize: fontSizes.tiny }]}>{item.type?.toUpperCase()}</Text>
-        </View>
-        <View style={styles.assetValues}>
-          {hasPrice && (
-            <>
-              <Text style={[styles.assetPrice, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>{formatCurrency(item.currentPrice!)}</Text>
-              {item.changePercent24h !== undefined && (
-                <Text style={[styles.assetChange, { color: isPositive ? currentTheme.colors.profit : currentTheme.colors.loss, fontSize: fontSizes.small }]}>
-                  {formatPercentage(item.changePercent24h)}
-                </Text>
-              )}
-            </>
-          )}
-          <Text style={[styles.assetExchange, { color: currentTheme.colors.textTertiary, fontSize: fontSizes.tiny }]}>{item.exchange || 'N/A'}</Text>
-        </View>
-      </TouchableOpacity>
-    );
-  };
+  const renderAssetItem = ({ item }: { item: APIAsset }) => (
+    <MarketRow item={item} onPress={handleAssetPress} />
+  );
 
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
       <Ionicons name="search-outline" size={64} color={currentTheme.colors.textTertiary} />
-      <Text style={[styles.emptyTitle, { color: currentTheme.colors.text, fontSize: fontSizes.large }]}>Search for Assets</Text>
+      <Text style={[styles.emptyTitle, { color: currentTheme.colors.text, fontSize: fontSizes.large }]}>
+        {isSearchActive ? 'No Results Found' : 'Search for Assets'}
+      </Text>
       <Text style={[styles.emptyDescription, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.medium }]}>
-        Search for stocks, cryptocurrencies, and other assets to add to your portfolio
+        {isSearchActive
+          ? 'Try other search terms or fewer filters'
+          : 'Search for stocks, cryptocurrencies, and other assets to add to your portfolio'}
       </Text>
     </View>
   );
@@ -197,7 +238,7 @@ const MarketsScreen: React.FC = () => {
     </View>
   );
 
-  if (!isAuthenticated) {
+  if (!canBrowse) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.background }]}>
         {renderGuestState()}
@@ -205,8 +246,6 @@ const MarketsScreen: React.FC = () => {
     );
   }
 
-  const displayData = searchQuery.trim().length > 2 ? searchResults : popularAssets;
-
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.background }]}>
       <View style={[styles.header, { backgroundColor: currentTheme.colors.surface, borderBottomColor: currentTheme.colors.border }]}>
@@ -231,32 +270,34 @@ const MarketsScreen: React.FC = () => {
             </TouchableOpacity>
           )}
         </View>
+        {isSearchActive && <AssetSearchFilters filters={filters} onChange={setFilters} />}
       </View>
 
-      {searchQuery.trim().length <= 2 && (
-        <View style={styles.sectionHeader}>
-          <Text style={[styles.sectionTitle, { color: currentTheme.colors.text, fontSize: fontSizes.large }]}>Popular Assets</Text>
-        </View>
-      )}
+      <View style={styles.sectionHeader}>
+        <Text style={[styles.sectionTitle, { color: currentTheme.colors.text, fontSize: fontSizes.large }]}>
+          {isSearchActive ? 'Results' : 'Popular Assets'}
+        </Text>
+        {isSearchActive && search.totalResults > 0 && (
+          <Text style={[styles.resultCount, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>
+            {search.results.length} of {search.totalResults}
+          </Text>
+        )}
+      </View>
 
-      <FlatList
-        data={displayData}
-        renderItem={renderAssetItem}
-        keyExtractor={(item) => item.id}
-        refreshControl={
-          <RefreshControl
-            refreshing={refreshing}
-            onRefresh={onRefresh}
-            tintColor={currentTheme.colors.primary}
-          />
-        }
-        ListEmptyComponent={renderEmptyState}
-        contentContainerStyle={[
-          styles.listContainer,
-          displayData.length === 0 && styles.emptyListContainer
-        ]}
-        showsVerticalScrollIndicator={false}
-      />
+      <View style={styles.listContainer}>
+        <VirtualizedList
+          data={displayData}
+          renderItem={renderAssetItem}
+          keyExtractor={(item) => item.id}
+          itemHeight={MARKET_ROW_HEIGHT}
+          onRefresh={isSearchActive ? undefined : onRefresh}
+          refreshing={refreshing}
+          onEndReached={isSearchActive && search.hasMore ? search.loadMore : undefined}
+          onEndReachedThreshold={0.5}
+          loading={isSearchActive ? search.isSearching : isLoading && popularAssets.length === 0}
+          emptyComponent={renderEmptyState()}
+        />
+      </View>
     </SafeAreaView>
   );
 };
@@ -290,6 +331,9 @@ const styles = StyleSheet.create({
     marginLeft: 8,
   },
   sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    justifyContent: 'space-between',
     paddingHorizontal: 20,
     paddingTop: 20,
     paddingBottom: 12,
@@ -297,13 +341,11 @@ const styles = StyleSheet.create({
   sectionTitle: {
     fontWeight: '600',
   },
-  listContainer: {
-    paddingHorizontal: 20,
-    paddingBottom: 20,
+  resultCount: {
   },
-  emptyListContainer: {
+  listContainer: {
     flex: 1,
-    justifyContent: 'center',
+    paddingHorizontal: 20,
   },
   assetItem: {
     borderRadius: 12,
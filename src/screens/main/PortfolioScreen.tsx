@@ -16,16 +16,67 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { RootStackParamList, Portfolio, Asset } from '../../types';
 import { useAuthStore } from '../../store/authStore';
 import { usePortfolioStore } from '../../store/portfolioStore';
+import { useBackendStore } from '../../store/backendStore';
+import { useMarketDataStore } from '../../store/marketDataStore';
+import { useSyncStore } from '../../store/syncStore';
+import { useQuoteStore } from '../../store/quoteStore';
 import { useThemeStore, useFontSizes } from '../../services/themeManager';
 import { useTranslation } from '../../services/localizationService';
-import api from '../../services/api';
+import { reconcileService } from '../../services/reconcileService';
+import { useQuoteSubscription } from '../../services/priceStreamService';
+import { summarizePnL } from '../../utils/ledger';
+import { formatMoney } from '../../utils/currency';
+import SyncStatusBadge from '../../components/SyncStatusBadge';
+import EmailVerificationBanner from '../../components/EmailVerificationBanner';
+import GuestModeBanner from '../../components/GuestModeBanner';
 
 type PortfolioScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
+const formatPercentage = (percentage: number) => {
+  return `${percentage >= 0 ? '+' : ''}${percentage.toFixed(2)}%`;
+};
+
+interface HoldingRowProps {
+  item: Asset;
+  onPress: (assetId: string) => void;
+}
+
+// Streamed prices replace only the holdings that moved, so memoizing keeps the other rows still
+const HoldingRow = React.memo(({ item, onPress }: HoldingRowProps) => {
+  const { currentTheme } = useThemeStore();
+  const fontSizes = useFontSizes();
+  const isPositive = item.priceChangePercent >= 0;
+
+  return (
+    <TouchableOpacity
+      style={[styles.assetItem, { backgroundColor: currentTheme.colors.card, shadowColor: currentTheme.colors.shadow }]}
+      onPress={() => onPress(item.id)}
+    >
+      <View style={styles.assetInfo}>
+        <Text style={[styles.assetName, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>{item.name}</Text>
+        <Text style={[styles.assetTicker, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{item.ticker}</Text>
+        <Text style={[styles.assetQuantity, { color: currentTheme.colors.textTertiary, fontSize: fontSizes.small }]}>{item.quantity} shares</Text>
+        <SyncStatusBadge entityId={item.id} />
+      </View>
+      <View style={styles.assetValues}>
+        <Text style={[styles.assetValue, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>{formatMoney(item.totalValue, item.currency)}</Text>
+        <Text style={[styles.assetChange, { color: isPositive ? currentTheme.colors.profit : currentTheme.colors.loss, fontSize: fontSizes.small }]}>
+          {formatPercentage(item.priceChangePercent)}
+        </Text>
+        <Text style={[styles.assetPrice, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{formatMoney(item.currentPrice, item.currency)}</Text>
+      </View>
+    </TouchableOpacity>
+  );
+});
+
 const PortfolioScreen: React.FC = () => {
   const navigation = useNavigation<PortfolioScreenNavigationProp>();
-  const { user, isAuthenticated } = useAuthStore();
-  const { assets, portfolios, currentPortfolioId, loadData, refreshPrices, apiBaseUrl } = usePortfolioStore();
+  const { user, isAuthenticated, isGuest } = useAuthStore();
+  const { assets, portfolios, currentPortfolioId, fxRates, getBaseCurrency, loadData, refreshPrices } = usePortfolioStore();
+  const isBackendConnected = useBackendStore(state => !state.isOfflineMode);
+  const usesBackendPrices = useMarketDataStore(state => state.getProviderId() === 'backend');
+  const conflictCount = useSyncStore(state => state.conflicts.length);
+  const streamStatus = useQuoteStore(state => state.status);
   const { currentTheme } = useThemeStore();
   const fontSizes = useFontSizes();
   const { t } = useTranslation();
@@ -35,59 +86,46 @@ const PortfolioScreen: React.FC = () => {
   // Get current portfolio
   const portfolio = portfolios.find(p => p.id === currentPortfolioId) || portfolios[0];
 
-  // Calculate portfolio totals from assets
-  const portfolioSummary = React.useMemo(() => {
-    if (!assets || assets.length === 0) {
-      return {
-        totalValue: 0,
-        totalCost: 0,
-        totalChange: 0,
-        totalChangePercent: 0,
-      };
-    }
+  const baseCurrency = getBaseCurrency();
 
-    const totalValue = assets.reduce((sum, asset) => sum + asset.totalValue, 0);
-    const totalCost = assets.reduce((sum, asset) =>
-      sum + (asset.quantity * (asset.averagePrice || asset.currentPrice)), 0
-    );
-    const totalChange = totalValue - totalCost;
-    const totalChangePercent = totalCost > 0 ? (totalChange / totalCost) * 100 : 0;
+  useQuoteSubscription((assets || []).map(asset => asset.ticker));
+
+  // Calculate portfolio totals from assets, in the portfolio's base currency
+  const portfolioSummary = React.useMemo(() => {
+    const pnl = summarizePnL(assets || [], baseCurrency, fxRates);
 
     return {
-      totalValue,
-      totalCost,
-      totalChange,
-      totalChangePercent,
+      totalValue: pnl.totalValue,
+      totalCost: pnl.costBasis,
+      totalChange: pnl.unrealizedPnL,
+      totalChangePercent: pnl.unrealizedPercent,
+      priceGain: pnl.priceGain,
+      fxGain: pnl.fxGain,
+      realizedPnL: pnl.realizedPnL,
+      shortTermGain: pnl.shortTermGain,
+      longTermGain: pnl.longTermGain,
     };
-  }, [assets]);
+  }, [assets, baseCurrency, fxRates]);
 
   useEffect(() => {
     loadPortfolio();
   }, []);
 
   const loadPortfolio = async () => {
-    if (!isAuthenticated) return;
+    if (!isAuthenticated && !isGuest) return;
 
     try {
       setIsLoading(true);
 
-      // Check if we have API configuration
-      if (apiBaseUrl) {
-        // Try API first if configured
+      await loadData();
+
+      // Bring in edits made on other devices; clashing ones wait for review. Guests have none
+      if (isAuthenticated && isBackendConnected) {
         try {
-          const portfolios = await api.getPortfolios();
-          if (portfolios.length > 0) {
-            // API portfolios would be handled differently
-            // For now, just load local data
-            await loadData();
-          }
+          await reconcileService.reconcile();
         } catch (error) {
-          // Fallback to local data
-          await loadData();
+          console.warn('Failed to reconcile with server:', error);
         }
-      } else {
-        // Load local data directly if no API configured
-        await loadData();
       }
     } catch (error) {
       console.error('Failed to load portfolio:', error);
@@ -100,8 +138,8 @@ const PortfolioScreen: React.FC = () => {
     setRefreshing(true);
     try {
       await loadPortfolio();
-      if (apiBaseUrl) {
-        // Refresh prices if API is available
+      if (isBackendConnected || !usesBackendPrices) {
+        // Refresh prices if the selected source can answer
         await refreshPrices();
       }
     } catch (error) {
@@ -115,44 +153,17 @@ const PortfolioScreen: React.FC = () => {
     navigation.navigate('AddAsset');
   };
 
-  const handleAssetPress = (assetId: string) => {
+  const handleAssetPress = React.useCallback((assetId: string) => {
     navigation.navigate('AssetDetail', { assetId });
-  };
+  }, [navigation]);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+  const formatCurrency = (amount: number, currency: string = baseCurrency) => {
+    return formatMoney(amount, currency);
   };
 
-  const formatPercentage = (percentage: number) => {
-    return `${percentage >= 0 ? '+' : ''}${percentage.toFixed(2)}%`;
-  };
-
-  const renderAssetItem = ({ item }: { item: Asset }) => {
-    const isPositive = item.priceChangePercent >= 0;
-    
-    return (
-      <TouchableOpacity
-        style={[styles.assetItem, { backgroundColor: currentTheme.colors.card, shadowColor: currentTheme.colors.shadow }]}
-        onPress={() => handleAssetPress(item.id)}
-      >
-        <View style={styles.assetInfo}>
-          <Text style={[styles.assetName, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>{item.name}</Text>
-          <Text style={[styles.assetTicker, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{item.ticker}</Text>
-          <Text style={[styles.assetQuantity, { color: currentTheme.colors.textTertiary, fontSize: fontSizes.small }]}>{item.quantity} shares</Text>
-        </View>
-        <View style={styles.assetValues}>
-          <Text style={[styles.assetValue, { color: currentTheme.colors.text, fontSize: fontSizes.medium }]}>{formatCurrency(item.totalValue)}</Text>
-          <Text style={[styles.assetChange, { color: isPositive ? currentTheme.colors.profit : currentTheme.colors.loss, fontSize: fontSizes.small }]}>
-            {formatPercentage(item.priceChangePercent)}
-          </Text>
-          <Text style={[styles.assetPrice, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{formatCurrency(item.currentPrice)}</Text>
-        </View>
-      </TouchableOpacity>
-    );
-  };
+  const renderAssetItem = React.useCallback(({ item }: { item: Asset }) => (
+    <HoldingRow item={item} onPress={handleAssetPress} />
+  ), [handleAssetPress]);
 
   const renderEmptyPortfolio = () => (
     <View style={styles.emptyContainer}>
@@ -167,7 +178,7 @@ const PortfolioScreen: React.FC = () => {
     </View>
   );
 
-  if (!isAuthenticated) {
+  if (!isAuthenticated && !isGuest) {
     return (
       <SafeAreaView style={[styles.container, { backgroundColor: currentTheme.colors.background }]}>
         <View style={styles.guestContainer}>
@@ -191,7 +202,17 @@ const PortfolioScreen: React.FC = () => {
       </View>
 
       <View style={[styles.summaryCard, { backgroundColor: currentTheme.colors.card, shadowColor: currentTheme.colors.shadow }]}>
-        <Text style={[styles.summaryTitle, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{t('portfolio.totalValue')}</Text>
+        <View style={styles.summaryHeader}>
+          <Text style={[styles.summaryTitle, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{t('portfolio.totalValue')}</Text>
+          {(streamStatus === 'live' || streamStatus === 'polling') && (
+            <View style={styles.streamStatus}>
+              <View style={[styles.streamDot, { backgroundColor: streamStatus === 'live' ? currentTheme.colors.success : currentTheme.colors.textTertiary }]} />
+              <Text style={[styles.streamStatusText, { color: currentTheme.colors.textTertiary, fontSize: fontSizes.tiny }]}>
+                {streamStatus === 'live' ? t('portfolio.livePrices') : t('portfolio.delayedPrices')}
+              </Text>
+            </View>
+          )}
+        </View>
         <Text style={[styles.summaryValue, { color: currentTheme.colors.text, fontSize: fontSizes.heading }]}>{formatCurrency(portfolioSummary.totalValue)}</Text>
         <View style={styles.summaryStats}>
           <View style={styles.statItem}>
@@ -213,8 +234,45 @@ const PortfolioScreen: React.FC = () => {
             </Text>
           </View>
         </View>
+        <View style={[styles.summaryStats, styles.pnlStats]}>
+          <View style={styles.statItem}>
+            <Text style={[styles.statLabel, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{t('portfolio.unrealized')}</Text>
+            <Text style={[styles.statValue, { color: portfolioSummary.totalChange >= 0 ? currentTheme.colors.profit : currentTheme.colors.loss, fontSize: fontSizes.medium }]}>
+              {formatCurrency(portfolioSummary.totalChange)}
+            </Text>
+            {Math.abs(portfolioSummary.fxGain) >= 0.01 && (
+              <Text style={[styles.statLabel, { color: currentTheme.colors.textTertiary, fontSize: fontSizes.small }]}>
+                {t('portfolio.priceGain')} {formatCurrency(portfolioSummary.priceGain)} · {t('portfolio.fxGain')} {formatCurrency(portfolioSummary.fxGain)}
+              </Text>
+            )}
+          </View>
+          <View style={styles.statItem}>
+            <Text style={[styles.statLabel, { color: currentTheme.colors.textSecondary, fontSize: fontSizes.small }]}>{t('portfolio.realized')}</Text>
+            <Text style={[styles.statValue, { color: portfolioSummary.realizedPnL >= 0 ? currentTheme.colors.profit : currentTheme.colors.loss, fontSize: fontSizes.medium }]}>
+              {formatCurrency(portfolioSummary.realizedPnL)}
+            </Text>
+            <Text style={[styles.statLabel, { color: currentTheme.colors.textTertiary, fontSize: fontSizes.small }]}>
+              {t('portfolio.shortTerm')} {formatCurrency(portfolioSummary.shortTermGain)} · {t('portfolio.longTerm')} {formatCurrency(portfolioSummary.longTermGain)}
+            </Text>
+          </View>
+        </View>
       </View>
 
+      <GuestModeBanner />
+      <EmailVerificationBanner />
+
+      {conflictCount > 0 && (
+        <TouchableOpacity
+          style={[styles.conflictBanner, { backgroundColor: currentTheme.colors.surface, borderColor: currentTheme.colors.error }]}
+          onPress={() => navigation.navigate('SyncConflicts')}
+        >
+          <Ionicons name="git-compare-outline" size={18} color={currentTheme.colors.error} />
+          <Text style={[styles.conflictBannerText, { color: currentTheme.colors.text, fontSize: fontSizes.small }]}>
+            {t('portfolio.syncConflicts', { count: conflictCount })}
+          </Text>
+        </TouchableOpacity>
+      )}
+
       <FlatList
         data={assets || []}
         renderItem={renderAssetItem}
@@ -261,9 +319,28 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
+  summaryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
   summaryTitle: {
     marginBottom: 8,
   },
+  streamStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 8,
+  },
+  streamDot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  streamStatusText: {
+    fontWeight: '500',
+  },
   summaryValue: {
     fontWeight: 'bold',
     marginBottom: 16,
@@ -272,6 +349,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-around',
   },
+  pnlStats: {
+    marginTop: 12,
+  },
   statItem: {
     alignItems: 'center',
   },
@@ -281,6 +361,19 @@ const styles = StyleSheet.create({
   statValue: {
     fontWeight: '600',
   },
+  conflictBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 12,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  conflictBannerText: {
+    flex: 1,
+  },
   listContainer: {
     paddingHorizontal: 20,
     paddingTop: 16,
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -15,14 +15,28 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuthStore } from '../../store/authStore';
 import { usePortfolioStore } from '../../store/portfolioStore';
+import { useBackendStore } from '../../store/backendStore';
+import { MARKET_DATA_PROVIDER_LABELS, useMarketDataStore } from '../../store/marketDataStore';
+import { AUTO_LOCK_OPTIONS, getAutoLockLabel, useAppLockStore } from '../../store/appLockStore';
 import { useThemeStore, ThemeType, AccentColor, getThemeDisplayName, getAccentColorName } from '../../services/themeManager';
 import { notificationManager } from '../../services/notificationManager';
+import { backupService } from '../../services/backupService';
+import { appLockService, getBiometricLabel } from '../../services/appLockService';
+import { accountMigrationService } from '../../services/accountMigrationService';
 import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { BiometricType, RootStackParamList } from '../../types';
+
+type SettingsScreenNavigationProp = StackNavigationProp<RootStackParamList>;
 
 const SettingsScreen: React.FC = () => {
-  const navigation = useNavigation();
-  const { user, isAuthenticated, signOut } = useAuthStore();
-  const { exportData, clearData, mergeDuplicateAssets, apiBaseUrl, apiKey } = usePortfolioStore();
+  const navigation = useNavigation<SettingsScreenNavigationProp>();
+  const { user, isAuthenticated, isGuest, signOut, leaveGuestMode } = useAuthStore();
+  const { clearData, mergeDuplicateAssets } = usePortfolioStore();
+  const { isOfflineMode, getActiveProfile } = useBackendStore();
+  const activeProfile = getActiveProfile();
+  const marketDataProviderId = useMarketDataStore(state => state.getProviderId());
+  const appLock = useAppLockStore();
   const { 
     config, 
     currentTheme, 
@@ -36,6 +50,7 @@ const SettingsScreen: React.FC = () => {
   } = useThemeStore();
   
   const [isExporting, setIsExporting] = useState(false);
+  const [biometricType, setBiometricType] = useState<BiometricType | null>(null);
   const [notificationSettings, setNotificationSettings] = useState({
     priceAlerts: true,
     portfolioUpdates: true,
@@ -43,6 +58,47 @@ const SettingsScreen: React.FC = () => {
     weeklyReport: false,
   });
 
+  useEffect(() => {
+    appLockService.getBiometricType().then(setBiometricType);
+  }, []);
+
+  const handleAppLockToggle = (enabled: boolean) => {
+    if (enabled) {
+      navigation.navigate('SetPin');
+      return;
+    }
+    Alert.alert('Turn Off App Lock', 'Anyone with your phone will be able to open the app.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Turn Off', style: 'destructive', onPress: () => appLockService.disable() },
+    ]);
+  };
+
+  // Turning biometrics on has to succeed once, so a face or finger that doesn't work isn't the only way in
+  const handleBiometricsToggle = async (enabled: boolean) => {
+    if (!enabled || !biometricType) {
+      appLock.setUseBiometrics(false);
+      return;
+    }
+    const label = getBiometricLabel(biometricType);
+    if (await appLockService.authenticateWithBiometrics(`Use ${label} to unlock Portfolio Tracker`)) {
+      appLock.setUseBiometrics(true);
+    }
+  };
+
+  const handleAutoLockChange = () => {
+    Alert.alert(
+      'Auto-Lock',
+      'Lock the app after it has been in the background for',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        ...AUTO_LOCK_OPTIONS.map(option => ({
+          text: option.label,
+          onPress: () => appLock.setAutoLockAfter(option.ms),
+        })),
+      ]
+    );
+  };
+
   const handleSignOut = async () => {
     Alert.alert(
       'Sign Out',
@@ -68,7 +124,7 @@ const SettingsScreen: React.FC = () => {
   const handleExportData = async () => {
     try {
       setIsExporting(true);
-      const data = await exportData();
+      const data = await backupService.exportBackup();
       
       await Share.share({
         message: data,
@@ -241,15 +297,48 @@ const SettingsScreen: React.FC = () => {
           <Text style={[styles.sectionTitle, { color: currentTheme.colors.text }]}>Account</Text>
           
           {isAuthenticated && user ? (
-            <View style={[styles.userInfo, { backgroundColor: currentTheme.colors.surface }]}>
-              <View style={styles.userAvatar}>
-                <Ionicons name="person" size={24} color={currentTheme.colors.primary} />
+            <>
+              <View style={[styles.userInfo, { backgroundColor: currentTheme.colors.surface }]}>
+                <View style={styles.userAvatar}>
+                  <Ionicons name="person" size={24} color={currentTheme.colors.primary} />
+                </View>
+                <View style={styles.userDetails}>
+                  <Text style={[styles.userName, { color: currentTheme.colors.text }]}>{user.name}</Text>
+                  <Text style={[styles.userEmail, { color: currentTheme.colors.textSecondary }]}>{user.email}</Text>
+                </View>
               </View>
-              <View style={styles.userDetails}>
-                <Text style={[styles.userName, { color: currentTheme.colors.text }]}>{user.name}</Text>
-                <Text style={[styles.userEmail, { color: currentTheme.colors.textSecondary }]}>{user.email}</Text>
+              {renderSettingItem(
+                'Sign-in Methods',
+                'Link Apple, Google or email to this account',
+                'key-outline',
+                () => navigation.navigate('Account')
+              )}
+              {/* Data kept on the device at sign-in can still be uploaded later */}
+              {accountMigrationService.hasLocalData() && renderSettingItem(
+                'Upload Data on This Device',
+                'Add portfolios and alerts kept on this device to your account',
+                'cloud-upload-outline',
+                () => accountMigrationService.offer()
+              )}
+            </>
+          ) : isGuest ? (
+            <>
+              <View style={[styles.userInfo, { backgroundColor: currentTheme.colors.surface }]}>
+                <View style={styles.userAvatar}>
+                  <Ionicons name="phone-portrait-outline" size={24} color={currentTheme.colors.textSecondary} />
+                </View>
+                <View style={styles.userDetails}>
+                  <Text style={[styles.userName, { color: currentTheme.colors.text }]}>Guest</Text>
+                  <Text style={[styles.userEmail, { color: currentTheme.colors.textSecondary }]}>Data is saved only on this device</Text>
+                </View>
               </View>
-            </View>
+              {renderSettingItem(
+                'Create Account or Sign In',
+                'Sync between devices and get price alerts',
+                'person-add-outline',
+                leaveGuestMode
+              )}
+            </>
           ) : (
             <Text style={[styles.notSignedIn, { color: currentTheme.colors.textSecondary }]}>Not signed in</Text>
           )}
@@ -322,6 +411,49 @@ const SettingsScreen: React.FC = () => {
           )}
         </View>
         
+        {/* Security */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: currentTheme.colors.text }]}>Security</Text>
+
+          {renderSettingItem(
+            'App Lock',
+            appLock.isEnabled ? 'Ask for a PIN to open the app' : 'Disabled',
+            'lock-closed-outline',
+            () => handleAppLockToggle(!appLock.isEnabled),
+            <Switch
+              value={appLock.isEnabled}
+              onValueChange={handleAppLockToggle}
+              trackColor={{ false: currentTheme.colors.border, true: currentTheme.colors.primary }}
+            />
+          )}
+
+          {appLock.isEnabled && biometricType && renderSettingItem(
+            `Unlock with ${getBiometricLabel(biometricType)}`,
+            appLock.useBiometrics ? 'Enabled' : 'Disabled',
+            biometricType === 'face' ? 'scan-outline' : 'finger-print-outline',
+            () => handleBiometricsToggle(!appLock.useBiometrics),
+            <Switch
+              value={appLock.useBiometrics}
+              onValueChange={handleBiometricsToggle}
+              trackColor={{ false: currentTheme.colors.border, true: currentTheme.colors.primary }}
+            />
+          )}
+
+          {appLock.isEnabled && renderSettingItem(
+            'Auto-Lock',
+            getAutoLockLabel(appLock.autoLockAfterMs),
+            'timer-outline',
+            handleAutoLockChange
+          )}
+
+          {appLock.isEnabled && renderSettingItem(
+            'Change PIN',
+            null,
+            'keypad-outline',
+            () => navigation.navigate('SetPin')
+          )}
+        </View>
+
         {/* Notification Settings */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: currentTheme.colors.text }]}>Notifications</Text>
@@ -364,18 +496,25 @@ const SettingsScreen: React.FC = () => {
           
           {renderSettingItem(
             'API Configuration',
-            apiBaseUrl ? 'Connected' : 'Offline Mode',
+            isOfflineMode ? 'Offline Mode' : `Connected · ${activeProfile.name}`,
             'server-outline',
             () => navigation.navigate('APIConfiguration' as any)
           )}
           
-          {apiBaseUrl && renderSettingItem(
+          {!isOfflineMode && renderSettingItem(
             'Connection Status',
-            `Connected to ${new URL(apiBaseUrl).hostname}`,
+            `Connected to ${new URL(activeProfile.baseUrl).hostname}`,
             'checkmark-circle-outline',
             () => {},
             <View style={[styles.statusIndicator, { backgroundColor: currentTheme.colors.success }]} />
           )}
+
+          {renderSettingItem(
+            'Market Data Source',
+            MARKET_DATA_PROVIDER_LABELS[marketDataProviderId],
+            'pulse-outline',
+            () => navigation.navigate('MarketDataSource')
+          )}
         </View>
 
         {/* Portfolio Management */}
@@ -391,12 +530,26 @@ const SettingsScreen: React.FC = () => {
           
           {renderSettingItem(
             'Export Data',
-            'Download your portfolio data',
+            'Back up portfolios, alerts and settings',
             'download-outline',
             handleExportData,
             isExporting ? <ActivityIndicator size="small" color={currentTheme.colors.primary} /> : undefined
           )}
 
+          {renderSettingItem(
+            'Restore Backup',
+            'Restore or merge portfolios from a backup',
+            'cloud-upload-outline',
+            () => navigation.navigate('RestoreBackup')
+          )}
+
+          {renderSettingItem(
+            'Import from Broker',
+            'Add transactions from a CSV or TSV export',
+            'document-text-outline',
+            () => navigation.navigate('CsvImport')
+          )}
+
           {renderSettingItem(
             'Merge Duplicate Assets',
             'Combine same stocks into single entries',
@@ -14,31 +14,69 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
-import { api } from '../../services/api';
-import { usePortfolioStore } from '../../store/portfolioStore';
+import api from '../../services/api';
+import { BACKEND_PROFILE_IDS, useBackendStore } from '../../store/backendStore';
 import { useThemeStore } from '../../services/themeManager';
+import { BackendHealth, BackendProfileId } from '../../types';
+
+const formatHealth = (health?: BackendHealth): string => {
+  if (!health) return 'Not checked';
+  if (!health.ok) return health.error || 'Unreachable';
+  return `${health.version ? `v${health.version}` : 'Version unknown'} · ${health.latencyMs} ms`;
+};
 
 const APIConfigurationScreen: React.FC = () => {
   const navigation = useNavigation();
-  const { apiBaseUrl, apiKey, setApiConfiguration, clearConfiguration } = usePortfolioStore();
+  const {
+    activeProfileId,
+    isOfflineMode,
+    health,
+    getProfile,
+    updateProfile,
+    resetProfile,
+    connect,
+    goOffline,
+    checkHealth,
+  } = useBackendStore();
   const { currentTheme } = useThemeStore();
   
-  const [baseUrl, setBaseUrl] = useState(apiBaseUrl || '');
-  const [key, setKey] = useState(apiKey || '');
+  const [selectedId, setSelectedId] = useState<BackendProfileId>(activeProfileId);
+  const [baseUrl, setBaseUrl] = useState(getProfile(activeProfileId).baseUrl);
+  const [key, setKey] = useState(getProfile(activeProfileId).apiKey || '');
   const [isValidating, setIsValidating] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [checkingIds, setCheckingIds] = useState<BackendProfileId[]>([]);
   const [validationStatus, setValidationStatus] = useState<{
     isValid: boolean;
     message: string;
   } | null>(null);
   const [showApiKey, setShowApiKey] = useState(false);
 
+  const selectedProfile = getProfile(selectedId);
+  const activeProfile = getProfile(activeProfileId);
+
   useEffect(() => {
     // Reset validation status when inputs change
     if (validationStatus) {
       setValidationStatus(null);
     }
-  }, [baseUrl, key]);
+  }, [baseUrl, key, selectedId]);
+
+  const selectProfile = (profileId: BackendProfileId) => {
+    const profile = getProfile(profileId);
+    setSelectedId(profileId);
+    setBaseUrl(profile.baseUrl);
+    setKey(profile.apiKey || '');
+  };
+
+  const runHealthCheck = async (profileId: BackendProfileId) => {
+    setCheckingIds(ids => [...ids, profileId]);
+    try {
+      await checkHealth(profileId);
+    } finally {
+      setCheckingIds(ids => ids.filter(id => id !== profileId));
+    }
+  };
 
   const validateConfiguration = async () => {
     if (!baseUrl.trim() || !key.trim()) {
@@ -51,7 +89,7 @@ const APIConfigurationScreen: React.FC = () => {
       setValidationStatus(null);
 
       // Test the configuration
-      const isValid = await api.validateConfiguration(baseUrl.trim(), key.trim());
+      const isValid = await api.validateConfiguration(formatUrl(baseUrl), key.trim());
       
       if (isValid) {
         setValidationStatus({
@@ -83,18 +121,18 @@ const APIConfigurationScreen: React.FC = () => {
 
     try {
       setIsSaving(true);
-      
-      const success = await setApiConfiguration(baseUrl.trim(), key.trim());
-      
-      if (success) {
-        Alert.alert(
-          'Success',
-          'API configuration saved successfully. You can now use real-time data.',
-          [{ text: 'OK', onPress: () => navigation.goBack() }]
-        );
-      } else {
-        Alert.alert('Error', 'Failed to save configuration');
-      }
+
+      updateProfile(selectedId, {
+        baseUrl: selectedProfile.editable ? formatUrl(baseUrl) : undefined,
+        apiKey: key.trim(),
+      });
+      connect(selectedId);
+
+      Alert.alert(
+        'Success',
+        `Connected to the ${selectedProfile.name} backend. You can now use real-time data.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
     } catch (error) {
       Alert.alert('Error', 'Failed to save API configuration');
     } finally {
@@ -104,21 +142,19 @@ const APIConfigurationScreen: React.FC = () => {
 
   const clearApiConfiguration = () => {
     Alert.alert(
-      'Clear Configuration',
-      'Are you sure you want to clear the API configuration? This will switch the app to offline mode.',
+      'Go Offline',
+      'Are you sure you want to disconnect from the backend? Saved profiles are kept and the app will switch to offline mode.',
       [
         { text: 'Cancel', style: 'cancel' },
         {
-          text: 'Clear',
+          text: 'Go Offline',
           style: 'destructive',
           onPress: () => {
-            clearConfiguration();
-            setBaseUrl('');
-            setKey('');
+            goOffline();
             setValidationStatus(null);
             Alert.alert(
-              'Configuration Cleared',
-              'API configuration has been cleared. The app will now use offline mode.',
+              'Offline Mode',
+              'Disconnected from the backend. The app will now use offline mode.',
               [{ text: 'OK', onPress: () => navigation.goBack() }]
             );
           },
@@ -127,9 +163,9 @@ const APIConfigurationScreen: React.FC = () => {
     );
   };
 
-  const useDefaultConfiguration = () => {
-    setBaseUrl('http://localhost:8080');
-    setKey('your-api-key-here');
+  const resetSelectedProfile = () => {
+    resetProfile(selectedId);
+    selectProfile(selectedId);
   };
 
   const formatUrl = (url: string): string => {
@@ -178,9 +214,69 @@ const APIConfigurationScreen: React.FC = () => {
             </View>
           </View>
 
+          {/* Profiles */}
+          <View style={[styles.section, { backgroundColor: currentTheme.colors.background }]}>
+            <Text style={[styles.sectionTitle, { color: currentTheme.colors.text }]}>Backend Profiles</Text>
+
+            {BACKEND_PROFILE_IDS.map(profileId => {
+              const profile = getProfile(profileId);
+              const profileHealth = health[profileId];
+              const isSelected = profileId === selectedId;
+              const isActive = profileId === activeProfileId && !isOfflineMode;
+
+              return (
+                <TouchableOpacity
+                  key={profileId}
+                  style={[
+                    styles.profileRow,
+                    { backgroundColor: currentTheme.colors.surface, borderColor: currentTheme.colors.border },
+                    isSelected && { borderColor: currentTheme.colors.primary },
+                  ]}
+                  onPress={() => selectProfile(profileId)}
+                >
+                  <View style={styles.profileInfo}>
+                    <View style={styles.statusValue}>
+                      <Text style={[styles.profileName, { color: currentTheme.colors.text }]}>{profile.name}</Text>
+                      {isActive && (
+                        <Text style={[styles.activeBadge, { color: currentTheme.colors.success }]}>Active</Text>
+                      )}
+                    </View>
+                    <Text style={[styles.helperText, { color: currentTheme.colors.textSecondary }]} numberOfLines={1}>
+                      {profile.baseUrl || 'No URL configured'}
+                    </Text>
+                    <View style={styles.statusValue}>
+                      <View style={[
+                        styles.statusIndicator,
+                        {
+                          backgroundColor: !profileHealth
+                            ? currentTheme.colors.textTertiary
+                            : profileHealth.ok ? currentTheme.colors.success : currentTheme.colors.error,
+                        },
+                      ]} />
+                      <Text style={[styles.helperText, { color: currentTheme.colors.textSecondary, marginTop: 0 }]}>
+                        {formatHealth(profileHealth)}
+                      </Text>
+                    </View>
+                  </View>
+                  <TouchableOpacity
+                    style={styles.healthButton}
+                    onPress={() => runHealthCheck(profileId)}
+                    disabled={checkingIds.includes(profileId)}
+                  >
+                    {checkingIds.includes(profileId) ? (
+                      <ActivityIndicator size="small" color={currentTheme.colors.primary} />
+                    ) : (
+                      <Ionicons name="pulse" size={20} color={currentTheme.colors.primary} />
+                    )}
+                  </TouchableOpacity>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
           {/* API Base URL Input */}
           <View style={[styles.section, { backgroundColor: currentTheme.colors.background }]}>
-            <Text style={[styles.sectionTitle, { color: currentTheme.colors.text }]}>API Configuration</Text>
+            <Text style={[styles.sectionTitle, { color: currentTheme.colors.text }]}>{selectedProfile.name} Settings</Text>
 
             <View style={[styles.inputGroup, { backgroundColor: currentTheme.colors.background }]}>
               <Text style={[styles.inputLabel, { color: currentTheme.colors.text }]}>Base URL</Text>
@@ -192,6 +288,7 @@ const APIConfigurationScreen: React.FC = () => {
                 }]}
                 value={baseUrl}
                 onChangeText={setBaseUrl}
+                editable={selectedProfile.editable}
                 onBlur={() => {
                   if (baseUrl) {
                     setBaseUrl(formatUrl(baseUrl));
@@ -204,7 +301,9 @@ const APIConfigurationScreen: React.FC = () => {
                 keyboardType="url"
               />
               <Text style={[styles.helperText, { color: currentTheme.colors.textSecondary }]}>
-                Enter the URL of your portfolio backend server
+                {selectedProfile.editable
+                  ? 'Enter the URL of your portfolio backend server'
+                  : 'Set for this build and cannot be changed here'}
               </Text>
             </View>
 
@@ -243,10 +342,10 @@ const APIConfigurationScreen: React.FC = () => {
 
             <TouchableOpacity
               style={styles.defaultButton}
-              onPress={useDefaultConfiguration}
+              onPress={resetSelectedProfile}
             >
               <Ionicons name="refresh" size={16} color={currentTheme.colors.primary} />
-              <Text style={[styles.defaultButtonText, { color: currentTheme.colors.primary }]}>Use Default Configuration</Text>
+              <Text style={[styles.defaultButtonText, { color: currentTheme.colors.primary }]}>Reset to Default</Text>
             </TouchableOpacity>
           </View>
 
@@ -300,19 +399,19 @@ const APIConfigurationScreen: React.FC = () => {
                 <View style={styles.statusValue}>
                   <View style={[
                     styles.statusIndicator,
-                    { backgroundColor: apiBaseUrl && apiKey ? currentTheme.colors.success : currentTheme.colors.textTertiary }
+                    { backgroundColor: !isOfflineMode ? currentTheme.colors.success : currentTheme.colors.textTertiary }
                   ]} />
                   <Text style={[styles.statusText, { color: currentTheme.colors.text }]}>
-                    {apiBaseUrl && apiKey ? 'Connected' : 'Offline Mode'}
+                    {!isOfflineMode ? `Connected · ${activeProfile.name}` : 'Offline Mode'}
                   </Text>
                 </View>
               </View>
 
-              {apiBaseUrl && (
+              {!isOfflineMode && (
                 <View style={styles.statusRow}>
                   <Text style={[styles.statusLabel, { color: currentTheme.colors.textSecondary }]}>Backend URL</Text>
                   <Text style={[styles.statusValueText, { color: currentTheme.colors.text }]} numberOfLines={1}>
-                    {apiBaseUrl}
+                    {activeProfile.baseUrl}
                   </Text>
                 </View>
               )}
@@ -340,7 +439,7 @@ const APIConfigurationScreen: React.FC = () => {
               <View style={styles.instructionStep}>
                 <Text style={[styles.stepNumber, { backgroundColor: currentTheme.colors.primary, color: currentTheme.colors.background }]}>3</Text>
                 <Text style={[styles.stepText, { color: currentTheme.colors.textSecondary }]}>
-                  Enter the backend URL and API key above, then test the connection
+                  Pick a profile, enter its API key (and URL for local or self-hosted), then test the connection
                 </Text>
               </View>
 
@@ -367,18 +466,18 @@ const APIConfigurationScreen: React.FC = () => {
                   <Ionicons name="save" size={20} color={currentTheme.colors.background} />
                 )}
                 <Text style={[styles.saveButtonText, { color: currentTheme.colors.background }]}>
-                  {isSaving ? 'Saving...' : 'Save Configuration'}
+                  {isSaving ? 'Saving...' : `Connect to ${selectedProfile.name}`}
                 </Text>
               </TouchableOpacity>
             )}
 
-            {(apiBaseUrl || apiKey) && (
+            {!isOfflineMode && (
               <TouchableOpacity
                 style={styles.clearButton}
                 onPress={clearApiConfiguration}
               >
-                <Ionicons name="trash-outline" size={20} color={currentTheme.colors.error} />
-                <Text style={[styles.clearButtonText, { color: currentTheme.colors.error }]}>Clear Configuration</Text>
+                <Ionicons name="cloud-offline-outline" size={20} color={currentTheme.colors.error} />
+                <Text style={[styles.clearButtonText, { color: currentTheme.colors.error }]}>Go Offline</Text>
               </TouchableOpacity>
             )}
           </View>
@@ -448,6 +547,29 @@ const styles = StyleSheet.create({
     color: '#6b7280',
     lineHeight: 20,
   },
+  profileRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  activeBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  healthButton: {
+    padding: 8,
+  },
   inputGroup: {
     marginBottom: 20,
   },
@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { AUTH_PROVIDER_LABELS, useAuthStore } from '../../store/authStore';
+import { useThemeStore } from '../../services/themeManager';
+import { getErrorStatus } from '../../services/api';
+import { AuthProvider, LinkedProvider } from '../../types';
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const PROVIDER_ICONS: Record<AuthProvider, string> = {
+  apple: 'logo-apple',
+  google: 'logo-google',
+  email: 'mail-outline',
+};
+
+const AccountScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentTheme } = useThemeStore();
+  const { user, refreshUser, linkProvider, unlinkProvider } = useAuthStore();
+  const colors = currentTheme.colors;
+
+  const [busyProvider, setBusyProvider] = useState<AuthProvider | null>(null);
+  const [isSettingPassword, setIsSettingPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+
+  // Accounts saved before linking existed only know the provider they signed in with
+  useEffect(() => {
+    refreshUser();
+  }, []);
+
+  if (!user) return null;
+
+  const linked: LinkedProvider[] = user.linkedProviders || [{ provider: user.provider, email: user.email }];
+  const providers: AuthProvider[] = (['apple', 'google', 'email'] as AuthProvider[]).filter(
+    provider => provider !== 'apple' || Platform.OS === 'ios' || linked.some(l => l.provider === 'apple')
+  );
+
+  const handleLink = async (provider: AuthProvider, newPassword?: string) => {
+    try {
+      setBusyProvider(provider);
+      const success = await linkProvider(provider, newPassword);
+      if (success && provider === 'email') {
+        setIsSettingPassword(false);
+        setPassword('');
+        setConfirmPassword('');
+      }
+    } catch (error) {
+      Alert.alert(
+        'Link Failed',
+        getErrorStatus(error) === 409
+          ? `That ${AUTH_PROVIDER_LABELS[provider]} sign-in already belongs to another account.`
+          : `Unable to link ${AUTH_PROVIDER_LABELS[provider]}. Please try again.`
+      );
+    } finally {
+      setBusyProvider(null);
+    }
+  };
+
+  const handleSetPassword = () => {
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      Alert.alert('Error', `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`);
+      return;
+    }
+    if (password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+    handleLink('email', password);
+  };
+
+  const handleUnlink = (provider: AuthProvider) => {
+    const label = AUTH_PROVIDER_LABELS[provider];
+    Alert.alert(
+      `Unlink ${label}?`,
+      `You won't be able to sign in with ${label} anymore. Your portfolios and alerts stay in the account.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Unlink',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setBusyProvider(provider);
+              await unlinkProvider(provider);
+            } catch (error) {
+              Alert.alert('Error', `Unable to unlink ${label}. Please try again.`);
+            } finally {
+              setBusyProvider(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderProvider = (provider: AuthProvider) => {
+    const link = linked.find(l => l.provider === provider);
+    // The last way in can't be removed
+    const canUnlink = !!link && linked.length > 1;
+
+    return (
+      <View key={provider} style={[styles.card, { backgroundColor: colors.surface }]}>
+        <View style={styles.providerRow}>
+          <Ionicons name={PROVIDER_ICONS[provider] as any} size={22} color={link ? colors.primary : colors.textTertiary} />
+          <View style={styles.providerText}>
+            <Text style={[styles.providerName, { color: colors.text }]}>{AUTH_PROVIDER_LABELS[provider]}</Text>
+            <Text style={[styles.providerDetail, { color: colors.textSecondary }]}>
+              {link ? link.email || 'Linked' : 'Not linked'}
+            </Text>
+          </View>
+          {busyProvider === provider ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : link ? (
+            <TouchableOpacity onPress={() => handleUnlink(provider)} disabled={!canUnlink || busyProvider !== null}>
+              <Text style={[styles.action, { color: canUnlink ? colors.error : colors.textTertiary }]}>Unlink</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity
+              onPress={() => (provider === 'email' ? setIsSettingPassword(!isSettingPassword) : handleLink(provider))}
+              disabled={busyProvider !== null}
+            >
+              <Text style={[styles.action, { color: colors.primary }]}>Link</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {provider === 'email' && !link && isSettingPassword && (
+          <View style={styles.passwordForm}>
+            <Text style={[styles.hint, { color: colors.textSecondary }]}>
+              Set a password to also sign in with {user.email}.
+            </Text>
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.background, borderColor: colors.border, color: colors.text }]}
+              placeholder="Password"
+              placeholderTextColor={colors.textTertiary}
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              autoComplete="password-new"
+            />
+            <TextInput
+              style={[styles.input, { backgroundColor: colors.background, borderColor: colors.border, color: colors.text }]}
+              placeholder="Confirm password"
+              placeholderTextColor={colors.textTertiary}
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              autoComplete="password-new"
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: colors.primary }, busyProvider !== null && styles.buttonDisabled]}
+              onPress={handleSetPassword}
+              disabled={busyProvider !== null}
+            >
+              <Text style={[styles.primaryButtonText, { color: colors.buttonText }]}>Set Password</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Account</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={[styles.card, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.userName, { color: colors.text }]}>{user.name}</Text>
+          <Text style={[styles.providerDetail, { color: colors.textSecondary }]}>{user.email}</Text>
+        </View>
+
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Sign-in Methods</Text>
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          Every linked method signs in to this same account, on any device.
+        </Text>
+        {providers.map(renderProvider)}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  placeholder: {
+    width: 24,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  userName: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 24,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  providerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  providerText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  providerName: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  providerDetail: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  action: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  passwordForm: {
+    marginTop: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    marginTop: 8,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default AccountScreen;
@@ -15,11 +15,15 @@ import { useNavigation } from '@react-navigation/native';
 import { Picker } from '@react-native-picker/picker';
 import { APIAsset } from '@/types';
 import { useThemeStore } from '@/services/themeManager';
-import api from '@/services/api';
+import { isRequestCanceled } from '@/services/api';
+import { getMarketDataProvider } from '@/services/marketData';
+import { useAbortSignal } from '@/utils/performanceOptimizations';
+import { useAlertStore } from '@/store/alertStore';
 
 const AddAlertScreen: React.FC = () => {
   const navigation = useNavigation();
   const { currentTheme } = useThemeStore();
+  const { createAlert } = useAlertStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<APIAsset[]>([]);
   const [selectedAsset, setSelectedAsset] = useState<APIAsset | null>(null);
@@ -27,6 +31,7 @@ const AddAlertScreen: React.FC = () => {
   const [targetPrice, setTargetPrice] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
+  const nextSearchSignal = useAbortSignal();
 
   const searchAssets = async (query: string) => {
     if (query.length < 2) {
@@ -36,9 +41,10 @@ const AddAlertScreen: React.FC = () => {
 
     setIsSearching(true);
     try {
-      const results = await api.searchAssets(query);
+      const results = await getMarketDataProvider().searchAssets({ query }, { signal: nextSearchSignal() });
       setSearchResults(results.assets || []);
     } catch (error) {
+      if (isRequestCanceled(error)) return;
       Alert.alert('Error', 'Failed to search assets');
     } finally {
       setIsSearching(false);
@@ -59,7 +65,7 @@ const AddAlertScreen: React.FC = () => {
 
     setIsLoading(true);
     try {
-      await api.createAlert({
+      await createAlert({
         assetSymbol: selectedAsset.symbol,
         assetName: selectedAsset.name,
         alertType,
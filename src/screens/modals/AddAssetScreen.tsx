@@ -14,16 +14,31 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
-import { APIAsset } from '../../types';
+import { APIAsset, Asset, AssetSearchFilters as Filters } from '../../types';
 import { usePortfolioStore } from '../../store/portfolioStore';
 import { useThemeStore } from '../../services/themeManager';
 import OptimizedSearch from '../../components/OptimizedSearch';
 import VirtualizedList from '../../components/VirtualizedList';
-import { useDebouncedCallback, cacheManager } from '../../utils/performanceOptimizations';
-import api from '../../services/api';
+import AssetSearchFilters from '../../components/AssetSearchFilters';
+import { useDebouncedCallback, useAbortSignal, cacheManager } from '../../utils/performanceOptimizations';
+import { isRequestCanceled } from '../../services/api';
+import { getMarketDataProvider, useAssetSearch } from '../../services/marketData';
+import { formatMoney } from '../../utils/currency';
+import { buildSearchQuery, DEFAULT_SEARCH_FILTERS } from '../../utils/assetSearch';
 
 type AssetType = 'all' | 'stocks' | 'crypto' | 'etf' | 'forex';
 
+// The filter tabs are plural; the search takes the asset type itself
+const SEARCH_TYPES: Record<Exclude<AssetType, 'all'>, string> = {
+  stocks: 'stock',
+  crypto: 'crypto',
+  etf: 'etf',
+  forex: 'forex',
+};
+
+// Row height plus the list item margin, so the list can skip measuring rows
+const ASSET_ROW_HEIGHT = 76;
+
 const { width: screenWidth } = Dimensions.get('window');
 
 const AddAssetScreen: React.FC = () => {
@@ -33,16 +48,22 @@ const AddAssetScreen: React.FC = () => {
   
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<APIAsset[]>([]);
-  const [filteredResults, setFilteredResults] = useState<APIAsset[]>([]);
   const [selectedAsset, setSelectedAsset] = useState<APIAsset | null>(null);
   const [selectedType, setSelectedType] = useState<AssetType>('all');
+  const [filters, setFilters] = useState<Filters>(DEFAULT_SEARCH_FILTERS);
   const [quantity, setQuantity] = useState('');
   const [price, setPrice] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [isSearching, setIsSearching] = useState(false);
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
   const [popularAssets, setPopularAssets] = useState<APIAsset[]>([]);
+  const nextPopularSignal = useAbortSignal();
+
+  const search = useAssetSearch(
+    debouncedQuery.length >= 2
+      ? buildSearchQuery(debouncedQuery, filters, selectedType === 'all' ? undefined : [SEARCH_TYPES[selectedType]])
+      : null
+  );
+  const isSearching = search.isSearching;
 
   // Debounce search query
   useEffect(() => {
@@ -58,100 +79,22 @@ const AddAssetScreen: React.FC = () => {
     loadPopularAssets();
   }, []);
 
-  // Search when debounced query changes
+  // Add to recent searches
   useEffect(() => {
     if (debouncedQuery.length >= 2) {
-      searchAssets(debouncedQuery);
-    } else {
-      setSearchResults([]);
-      setFilteredResults([]);
+      setRecentSearches(prev => [debouncedQuery, ...prev.filter(q => q !== debouncedQuery)].slice(0, 5));
     }
   }, [debouncedQuery]);
 
-  // Filter results when type changes
-  useEffect(() => {
-    filterResultsByType();
-  }, [searchResults, selectedType]);
-
   const loadPopularAssets = useCallback(async () => {
     try {
-      // Mock popular assets - in real app this would come from API
-      const mockPopular: APIAsset[] = [
-        { id: 'AAPL', name: 'Apple Inc.', symbol: 'AAPL', currentPrice: 173.50, type: 'stock' },
-        { id: 'TSLA', name: 'Tesla, Inc.', symbol: 'TSLA', currentPrice: 248.42, type: 'stock' },
-        { id: 'BTC', name: 'Bitcoin', symbol: 'BTC', currentPrice: 43250.00, type: 'crypto' },
-        { id: 'ETH', name: 'Ethereum', symbol: 'ETH', currentPrice: 2650.00, type: 'crypto' },
-        { id: 'SPY', name: 'SPDR S&P 500 ETF', symbol: 'SPY', currentPrice: 467.50, type: 'etf' },
-      ];
-      setPopularAssets(mockPopular);
+      setPopularAssets(await getMarketDataProvider().getPopularAssets({ signal: nextPopularSignal() }));
     } catch (error) {
+      if (isRequestCanceled(error)) return;
       console.error('Failed to load popular assets:', error);
     }
   }, []);
 
-  const searchAssets = useCallback(async (query: string) => {
-    if (query.length < 2) {
-      setSearchResults([]);
-      return;
-    }
-
-    setIsSearching(true);
-    try {
-      // Add to recent searches
-      setRecentSearches(prev => {
-        const updated = [query, ...prev.filter(q => q !== query)].slice(0, 5);
-        return updated;
-      });
-
-      // Check if we have API configuration
-      const { apiBaseUrl } = usePortfolioStore.getState();
-
-      if (apiBaseUrl) {
-        // Try API if configured
-        try {
-          const results = await api.searchAssets(query);
-          setSearchResults(results.assets || []);
-        } catch (error) {
-          // Fallback to mock search if API fails
-          const mockResults = popularAssets.filter(asset =>
-            asset.name.toLowerCase().includes(query.toLowerCase()) ||
-            asset.symbol.toLowerCase().includes(query.toLowerCase())
-          );
-          setSearchResults(mockResults);
-        }
-      } else {
-        // Use mock search directly if no API configured
-        const mockResults = popularAssets.filter(asset =>
-          asset.name.toLowerCase().includes(query.toLowerCase()) ||
-          asset.symbol.toLowerCase().includes(query.toLowerCase())
-        );
-        setSearchResults(mockResults);
-      }
-    } catch (error) {
-      console.error('Search error:', error);
-      setSearchResults([]);
-    } finally {
-      setIsSearching(false);
-    }
-  }, [popularAssets]);
-
-  const filterResultsByType = useCallback(() => {
-    if (selectedType === 'all') {
-      setFilteredResults(searchResults);
-    } else {
-      const filtered = searchResults.filter(asset => {
-        switch (selectedType) {
-          case 'stocks': return asset.type === 'stock';
-          case 'crypto': return asset.type === 'crypto';
-          case 'etf': return asset.type === 'etf';
-          case 'forex': return asset.type === 'forex';
-          default: return true;
-        }
-      });
-      setFilteredResults(filtered);
-    }
-  }, [searchResults, selectedType]);
-
   const handleAddAsset = async () => {
     if (!selectedAsset || !quantity || !price) {
       Alert.alert('Error', 'Please fill in all fields');
@@ -168,47 +111,19 @@ const AddAssetScreen: React.FC = () => {
 
     setIsLoading(true);
     try {
-      // Check if we have API configuration, otherwise use local store directly
-      const { apiBaseUrl } = usePortfolioStore.getState();
-
-      if (apiBaseUrl) {
-        // Try API if configured
-        try {
-          const portfolios = await api.getPortfolios();
-          if (portfolios.length > 0) {
-            await api.addAssetToPortfolio(
-              portfolios[0].id,
-              selectedAsset.id,
-              quantityNum,
-              priceNum
-            );
-          }
-        } catch (apiError) {
-          // Fallback to local store if API fails
-          await addAsset({
-            name: selectedAsset.name,
-            ticker: selectedAsset.symbol,
-            type: selectedAsset.type || 'stock',
-            quantity: quantityNum,
-            currentPrice: selectedAsset.currentPrice || priceNum,
-            averagePrice: priceNum,
-            priceChange: 0,
-            priceChangePercent: 0,
-          });
-        }
-      } else {
-        // Use local store directly if no API configured
-        await addAsset({
-          name: selectedAsset.name,
-          ticker: selectedAsset.symbol,
-          type: selectedAsset.type || 'stock',
-          quantity: quantityNum,
-          currentPrice: selectedAsset.currentPrice || priceNum,
-          averagePrice: priceNum,
-          priceChange: 0,
-          priceChangePercent: 0,
-        });
-      }
+      // Records a buy in the ledger; the store syncs it to the backend when configured
+      await addAsset({
+        name: selectedAsset.name,
+        ticker: selectedAsset.symbol,
+        type: (selectedAsset.type || 'stock') as Asset['type'],
+        quantity: quantityNum,
+        currentPrice: selectedAsset.currentPrice || priceNum,
+        averagePrice: priceNum,
+        priceChange: 0,
+        priceChangePercent: 0,
+        exchange: selectedAsset.exchange,
+        currency: selectedAsset.currency,
+      });
 
       Alert.alert('Success', 'Asset added to portfolio', [
         { text: 'OK', onPress: () => navigation.goBack() }
@@ -303,7 +218,7 @@ const AddAssetScreen: React.FC = () => {
         </View>
         <View style={styles.assetPriceContainer}>
           <Text style={[styles.assetPrice, { color: currentTheme.colors.text }]}>
-            {asset.currentPrice ? `$${asset.currentPrice.toFixed(2)}` : 'N/A'}
+            {asset.currentPrice ? formatMoney(asset.currentPrice, asset.currency) : 'N/A'}
           </Text>
           <TouchableOpacity
             style={[styles.quickAddButton, { backgroundColor: currentTheme.colors.primary }]}
@@ -396,7 +311,7 @@ const AddAssetScreen: React.FC = () => {
           No Results Found
         </Text>
         <Text style={[styles.emptyStateDescription, { color: currentTheme.colors.textSecondary }]}>
-          Try adjusting your search terms or asset type filter
+          {search.error || 'Try adjusting your search terms or filters'}
         </Text>
       </View>
     );
@@ -434,19 +349,23 @@ const AddAssetScreen: React.FC = () => {
         
         {/* Type Filter */}
         {renderTypeFilter()}
+        {searchQuery.length >= 2 && <AssetSearchFilters filters={filters} onChange={setFilters} />}
       </View>
 
       {/* Content */}
       <View style={styles.content}>
-        {(filteredResults.length > 0 || searchQuery.length >= 2) ? (
-          <FlatList
-            data={filteredResults}
-            renderItem={renderAssetItem}
-            keyExtractor={(item) => item.id}
-            showsVerticalScrollIndicator={false}
-            style={[styles.searchResults, { backgroundColor: currentTheme.colors.surface }]}
-            ListEmptyComponent={renderEmptyState}
-          />
+        {(search.results.length > 0 || searchQuery.length >= 2) ? (
+          <View style={[styles.searchResults, { backgroundColor: currentTheme.colors.surface }]}>
+            <VirtualizedList
+              data={search.results}
+              renderItem={renderAssetItem}
+              keyExtractor={(item) => item.id}
+              itemHeight={ASSET_ROW_HEIGHT}
+              onEndReached={search.hasMore ? search.loadMore : undefined}
+              onEndReachedThreshold={0.5}
+              emptyComponent={renderEmptyState()}
+            />
+          </View>
         ) : (
           renderEmptyState()
         )}
@@ -508,7 +427,7 @@ const AddAssetScreen: React.FC = () => {
                 Total Value
               </Text>
               <Text style={[styles.totalValue, { color: currentTheme.colors.text }]}>
-                ${(parseFloat(quantity) * parseFloat(price)).toFixed(2)}
+                {formatMoney(parseFloat(quantity) * parseFloat(price), selectedAsset?.currency)}
               </Text>
             </View>
           )}
@@ -612,6 +531,8 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
   },
   searchResults: {
+    flex: 1,
+    overflow: 'hidden',
     borderRadius: 12,
     elevation: 2,
     shadowColor: '#000',
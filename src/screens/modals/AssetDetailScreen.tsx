@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -12,85 +12,74 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
 import { LineChart } from 'react-native-chart-kit';
-import { Asset, ChartDataPoint, RootStackParamList } from '../../types';
-import { api } from '../../services/api';
+import { Asset, Candle, CandleInterval, RootStackParamList } from '../../types';
+import { usePortfolioStore } from '../../store/portfolioStore';
+import { candleService } from '../../services/candleService';
+import { useLiveQuote } from '../../store/quoteStore';
+import { useQuoteSubscription } from '../../services/priceStreamService';
+import { formatMoney } from '../../utils/currency';
 
 type AssetDetailRouteProp = RouteProp<RootStackParamList, 'AssetDetail'>;
+type AssetDetailNavigationProp = StackNavigationProp<RootStackParamList>;
 
 const screenWidth = Dimensions.get('window').width;
 
-// Mock data - replace with actual API calls
-const mockAssets: Asset[] = [
-  {
-    id: '1',
-    name: 'Apple Inc.',
-    ticker: 'AAPL',
-    type: 'stock',
-    quantity: 10,
-    currentPrice: 190.50,
-    totalValue: 1905,
-    priceChange: 2.50,
-    priceChangePercent: 1.33,
-    averagePrice: 185.00,
-    exchange: 'NASDAQ',
-  },
-  {
-    id: '2',
-    name: 'Bitcoin',
-    ticker: 'BTC',
-    type: 'crypto',
-    quantity: 0.5,
-    currentPrice: 45000,
-    totalValue: 22500,
-    priceChange: -1000,
-    priceChangePercent: -2.17,
-    averagePrice: 42000,
-  },
-];
+type Timeframe = '1D' | '1W' | '1M' | '3M' | '1Y';
 
-const generateMockChartData = (currentPrice: number): ChartDataPoint[] => {
-  const data: ChartDataPoint[] = [];
-  let price = currentPrice * 0.9; // Start 10% lower
-  
-  for (let i = 0; i < 30; i++) {
-    const change = (Math.random() - 0.5) * currentPrice * 0.05; // ±5% random change
-    price += change;
-    data.push({
-      timestamp: new Date(Date.now() - (29 - i) * 24 * 60 * 60 * 1000).toISOString(),
-      value: Math.max(price, currentPrice * 0.7), // Don't go below 70% of current
-      label: new Date(Date.now() - (29 - i) * 24 * 60 * 60 * 1000).toLocaleDateString(),
-    });
-  }
-  
-  // Ensure last point is current price
-  data[data.length - 1].value = currentPrice;
-  return data;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How much each timeframe shows and the bar size that keeps the chart readable
+const TIMEFRAMES: Record<Timeframe, { days: number; interval: CandleInterval }> = {
+  '1D': { days: 1, interval: '5m' },
+  '1W': { days: 7, interval: '1h' },
+  '1M': { days: 30, interval: '1d' },
+  '3M': { days: 90, interval: '1d' },
+  '1Y': { days: 365, interval: '1w' },
+};
+
+// The holding may sit in any portfolio, not just the open one
+const findHolding = (assetId: string): Asset | undefined => {
+  const { assets, portfolios } = usePortfolioStore.getState();
+  return assets.find(a => a.id === assetId)
+    || portfolios.flatMap(portfolio => portfolio.assets).find(a => a.id === assetId);
 };
 
+const formatCompact = (value: number | undefined) =>
+  value === undefined ? '—' : value.toLocaleString(undefined, { notation: 'compact', maximumFractionDigits: 2 } as Intl.NumberFormatOptions);
+
 const AssetDetailScreen: React.FC = () => {
-  const navigation = useNavigation();
+  const navigation = useNavigation<AssetDetailNavigationProp>();
   const route = useRoute<AssetDetailRouteProp>();
   const { assetId } = route.params;
 
   const [asset, setAsset] = useState<Asset | null>(null);
-  const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
-  const [selectedTimeframe, setSelectedTimeframe] = useState<'1D' | '1W' | '1M' | '3M' | '1Y'>('1M');
+  const [candles, setCandles] = useState<Candle[]>([]);
+  const [selectedTimeframe, setSelectedTimeframe] = useState<Timeframe>('1M');
+  // How many timeframes back from now the chart has been panned
+  const [panSteps, setPanSteps] = useState(0);
+  const chartRequestRef = useRef(0);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const liveQuote = useLiveQuote(asset?.ticker);
+
+  useQuoteSubscription(asset ? [asset.ticker] : []);
 
   useEffect(() => {
     loadAssetData();
   }, [assetId]);
 
+  useEffect(() => {
+    if (asset) loadChartData(asset.ticker, selectedTimeframe, panSteps);
+  }, [asset?.ticker, selectedTimeframe, panSteps]);
+
   const loadAssetData = async () => {
     try {
       setIsLoading(true);
-      // In a real app, this would fetch from portfolio store or API
-      const foundAsset = mockAssets.find(a => a.id === assetId);
+      const foundAsset = findHolding(assetId);
       if (foundAsset) {
         setAsset(foundAsset);
-        setChartData(generateMockChartData(foundAsset.currentPrice));
       } else {
         Alert.alert('Error', 'Asset not found');
         navigation.goBack();
@@ -103,14 +92,35 @@ const AssetDetailScreen: React.FC = () => {
     }
   };
 
+  const loadChartData = async (ticker: string, timeframe: Timeframe, steps: number) => {
+    const { days, interval } = TIMEFRAMES[timeframe];
+    const span = days * DAY_MS;
+    const to = new Date(Date.now() - steps * span);
+    const from = new Date(to.getTime() - span);
+    // Panning quickly can leave older requests finishing last
+    const request = ++chartRequestRef.current;
+    try {
+      const loaded = await candleService.getCandles(ticker, interval, from, to);
+      if (request === chartRequestRef.current) setCandles(loaded);
+    } catch (error) {
+      console.warn(`Failed to load price history for ${ticker}:`, error);
+      if (request === chartRequestRef.current) setCandles([]);
+    }
+  };
+
+  const handleTimeframeChange = (timeframe: Timeframe) => {
+    setSelectedTimeframe(timeframe);
+    setPanSteps(0);
+  };
+
   const handleRefresh = async () => {
     if (!asset) return;
     
     try {
       setIsRefreshing(true);
-      // In a real app, this would refresh price data from API
-      await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate API call
-      setChartData(generateMockChartData(asset.currentPrice));
+      await usePortfolioStore.getState().refreshAssetPrice(asset.id);
+      setAsset(findHolding(asset.id) || asset);
+      await loadChartData(asset.ticker, selectedTimeframe, panSteps);
     } catch (error) {
       Alert.alert('Error', 'Failed to refresh data');
     } finally {
@@ -135,6 +145,10 @@ const AssetDetailScreen: React.FC = () => {
     );
   };
 
+  const handleViewTransactions = () => {
+    navigation.navigate('EditAsset', { assetId });
+  };
+
   const handleCreateAlert = () => {
     Alert.alert(
       'Price Alert',
@@ -154,13 +168,10 @@ const AssetDetailScreen: React.FC = () => {
 
   const formatChartData = () => {
     return {
-      labels: chartData.map((_, index) => {
-        if (index % 5 === 0) return '';
-        return '';
-      }),
+      labels: candles.map(() => ''),
       datasets: [
         {
-          data: chartData.map(point => point.value),
+          data: candles.map(candle => candle.close),
           color: (opacity = 1) => asset && asset.priceChange >= 0 
             ? `rgba(16, 185, 129, ${opacity})` 
             : `rgba(239, 68, 68, ${opacity})`,
@@ -170,6 +181,19 @@ const AssetDetailScreen: React.FC = () => {
     };
   };
 
+  // The streamed quote, once there is one, is newer than the copy loaded with the screen
+  const price = liveQuote ? liveQuote.price : asset?.currentPrice ?? 0;
+  const priceChange = liveQuote ? liveQuote.change : asset?.priceChange ?? 0;
+  const priceChangePercent = liveQuote ? liveQuote.changePercent : asset?.priceChangePercent ?? 0;
+  const dayHigh = liveQuote?.high24h ?? asset?.dayHigh;
+  const dayLow = liveQuote?.low24h ?? asset?.dayLow;
+  const rangeSummary = candles.length > 0 ? {
+    open: candles[0].open,
+    high: Math.max(...candles.map(candle => candle.high)),
+    low: Math.min(...candles.map(candle => candle.low)),
+    close: candles[candles.length - 1].close,
+  } : null;
+
   if (isLoading || !asset) {
     return (
       <SafeAreaView style={styles.container}>
@@ -221,12 +245,12 @@ const AssetDetailScreen: React.FC = () => {
           </View>
           
           <View style={styles.priceInfo}>
-            <Text style={styles.currentPrice}>${asset.currentPrice.toFixed(2)}</Text>
+            <Text style={styles.currentPrice}>{formatMoney(price, asset.currency)}</Text>
             <Text style={[
               styles.priceChange,
-              asset.priceChange >= 0 ? styles.priceChangePositive : styles.priceChangeNegative
+              priceChange >= 0 ? styles.priceChangePositive : styles.priceChangeNegative
             ]}>
-              {asset.priceChange >= 0 ? '+' : ''}${asset.priceChange.toFixed(2)} ({asset.priceChangePercent.toFixed(2)}%)
+              {priceChange >= 0 ? '+' : ''}{formatMoney(priceChange, asset.currency)} ({priceChangePercent.toFixed(2)}%)
             </Text>
           </View>
         </View>
@@ -240,7 +264,7 @@ const AssetDetailScreen: React.FC = () => {
                 styles.timeframeButton,
                 selectedTimeframe === timeframe && styles.timeframeButtonActive
               ]}
-              onPress={() => setSelectedTimeframe(timeframe as any)}
+              onPress={() => handleTimeframeChange(timeframe as Timeframe)}
             >
               <Text style={[
                 styles.timeframeText,
@@ -254,6 +278,20 @@ const AssetDetailScreen: React.FC = () => {
 
         {/* Price Chart */}
         <View style={styles.chartContainer}>
+          <View style={styles.panRow}>
+            <TouchableOpacity onPress={() => setPanSteps(panSteps + 1)}>
+              <Ionicons name="chevron-back" size={20} color="#3b82f6" />
+            </TouchableOpacity>
+            <Text style={styles.panLabel}>
+              {panSteps === 0 ? 'Latest' : `${panSteps * TIMEFRAMES[selectedTimeframe].days}d ago`}
+            </Text>
+            <TouchableOpacity onPress={() => setPanSteps(panSteps - 1)} disabled={panSteps === 0}>
+              <Ionicons name="chevron-forward" size={20} color={panSteps === 0 ? '#d1d5db' : '#3b82f6'} />
+            </TouchableOpacity>
+          </View>
+          {candles.length < 2 ? (
+            <Text style={styles.emptyChartText}>No price history for this range</Text>
+          ) : (
           <LineChart
             data={formatChartData()}
             width={screenWidth - 40}
@@ -283,6 +321,12 @@ const AssetDetailScreen: React.FC = () => {
             bezier
             style={styles.chart}
           />
+          )}
+          {rangeSummary && (
+            <Text style={styles.rangeSummary}>
+              O {formatMoney(rangeSummary.open, asset.currency)} · H {formatMoney(rangeSummary.high, asset.currency)} · L {formatMoney(rangeSummary.low, asset.currency)} · C {formatMoney(rangeSummary.close, asset.currency)}
+            </Text>
+          )}
         </View>
 
         {/* Asset Stats */}
@@ -291,27 +335,19 @@ const AssetDetailScreen: React.FC = () => {
           <View style={styles.statsGrid}>
             <View style={styles.statItem}>
               <Text style={styles.statLabel}>Market Cap</Text>
-              <Text style={styles.statValue}>$2.8T</Text>
+              <Text style={styles.statValue}>{formatCompact(liveQuote?.marketCap)}</Text>
             </View>
             <View style={styles.statItem}>
               <Text style={styles.statLabel}>Volume</Text>
-              <Text style={styles.statValue}>58.4M</Text>
-            </View>
-            <View style={styles.statItem}>
-              <Text style={styles.statLabel}>52W High</Text>
-              <Text style={styles.statValue}>$199.62</Text>
-            </View>
-            <View style={styles.statItem}>
-              <Text style={styles.statLabel}>52W Low</Text>
-              <Text style={styles.statValue}>$164.08</Text>
+              <Text style={styles.statValue}>{formatCompact(liveQuote?.volume ?? asset.volume)}</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statLabel}>P/E Ratio</Text>
-              <Text style={styles.statValue}>29.4</Text>
+              <Text style={styles.statLabel}>Day High</Text>
+              <Text style={styles.statValue}>{dayHigh === undefined ? '—' : formatMoney(dayHigh, asset.currency)}</Text>
             </View>
             <View style={styles.statItem}>
-              <Text style={styles.statLabel}>Dividend</Text>
-              <Text style={styles.statValue}>0.96%</Text>
+              <Text style={styles.statLabel}>Day Low</Text>
+              <Text style={styles.statValue}>{dayLow === undefined ? '—' : formatMoney(dayLow, asset.currency)}</Text>
             </View>
           </View>
         </View>
@@ -336,6 +372,11 @@ const AssetDetailScreen: React.FC = () => {
             <Text style={styles.actionButtonText}>Add to Portfolio</Text>
           </TouchableOpacity>
           
+          <TouchableOpacity style={styles.actionButton} onPress={handleViewTransactions}>
+            <Ionicons name="receipt-outline" size={20} color="#3b82f6" />
+            <Text style={styles.actionButtonText}>Transactions</Text>
+          </TouchableOpacity>
+          
           <TouchableOpacity style={styles.actionButton} onPress={handleCreateAlert}>
             <Ionicons name="notifications-outline" size={20} color="#3b82f6" />
             <Text style={styles.actionButtonText}>Create Alert</Text>
@@ -473,6 +514,26 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  emptyChartText: {
+    fontSize: 14,
+    color: '#6b7280',
+    paddingVertical: 40,
+  },
+  panRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    alignSelf: 'stretch',
+    paddingHorizontal: 20,
+  },
+  panLabel: {
+    fontSize: 13,
+    color: '#6b7280',
+  },
+  rangeSummary: {
+    fontSize: 12,
+    color: '#6b7280',
+  },
   chart: {
     marginVertical: 8,
     borderRadius: 16,
@@ -15,6 +15,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation } from '@react-navigation/native';
 import { usePortfolioStore } from '../../store/portfolioStore';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../../utils/currency';
 
 const CreatePortfolioScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -22,6 +23,7 @@ const CreatePortfolioScreen: React.FC = () => {
 
   const [portfolioName, setPortfolioName] = useState('');
   const [description, setDescription] = useState('');
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
   const [isCreating, setIsCreating] = useState(false);
   const [nameError, setNameError] = useState<string | null>(null);
 
@@ -66,7 +68,7 @@ const CreatePortfolioScreen: React.FC = () => {
 
     try {
       setIsCreating(true);
-      await createPortfolio(trimmedName);
+      await createPortfolio(trimmedName, baseCurrency);
       
       Alert.alert(
         'Portfolio Created',
@@ -191,6 +193,32 @@ const CreatePortfolioScreen: React.FC = () => {
                 {description.length}/200 characters
               </Text>
             </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Base Currency</Text>
+              <View style={styles.suggestionsContainer}>
+                {SUPPORTED_CURRENCIES.map(currency => (
+                  <TouchableOpacity
+                    key={currency}
+                    style={[
+                      styles.suggestionChip,
+                      baseCurrency === currency && styles.suggestionChipSelected
+                    ]}
+                    onPress={() => setBaseCurrency(currency)}
+                  >
+                    <Text style={[
+                      styles.suggestionText,
+                      baseCurrency === currency && styles.suggestionTextSelected
+                    ]}>
+                      {currency}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.helperText}>
+                Holdings in other currencies are converted into this one for totals
+              </Text>
+            </View>
           </View>
 
           {/* Suggested Names */}
@@ -401,11 +429,18 @@ const styles = StyleSheet.create({
     borderColor: '#d1d5db',
     opacity: 0.6,
   },
+  suggestionChipSelected: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
   suggestionText: {
     fontSize: 14,
     color: '#374151',
     fontWeight: '500',
   },
+  suggestionTextSelected: {
+    color: '#fff',
+  },
   suggestionTextUsed: {
     color: '#6b7280',
     marginRight: 4,
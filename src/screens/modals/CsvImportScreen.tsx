@@ -0,0 +1,542 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { usePortfolioStore } from '../../store/portfolioStore';
+import { useThemeStore } from '../../services/themeManager';
+import { CsvColumnMapping, CsvImportField, CsvImportPreset, CsvImportPreview } from '../../types';
+import {
+  BROKER_PRESETS,
+  CSV_DATE_FORMATS,
+  CSV_IMPORT_FIELDS,
+  detectDelimiter,
+  guessMapping,
+  parseDelimited,
+} from '../../utils/csvImport';
+
+type ImportStep = 'source' | 'mapping' | 'preview';
+
+// Keeps the preview list responsive on large statements
+const MAX_PREVIEW_ROWS = 200;
+
+const CsvImportScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentTheme } = useThemeStore();
+  const {
+    portfolios,
+    currentPortfolioId,
+    importPresets,
+    saveImportPreset,
+    deleteImportPreset,
+    previewCsvImport,
+    commitCsvImport,
+  } = usePortfolioStore();
+
+  const [step, setStep] = useState<ImportStep>('source');
+  const [text, setText] = useState('');
+  const [portfolioId, setPortfolioId] = useState(currentPortfolioId || portfolios[0]?.id || '');
+  const [preset, setPreset] = useState<CsvImportPreset>(BROKER_PRESETS[0]);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [presetName, setPresetName] = useState('');
+  const [preview, setPreview] = useState<CsvImportPreview | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const colors = currentTheme.colors;
+  const allPresets = [...BROKER_PRESETS, ...importPresets];
+
+  const handleReadColumns = () => {
+    const table = parseDelimited(text, preset.delimiter || detectDelimiter(text));
+    if (table.length < 2) {
+      Alert.alert('Nothing to import', 'Paste a CSV or TSV export with a header row and at least one transaction.');
+      return;
+    }
+
+    setHeaders(table[0]);
+    setMapping(guessMapping(table[0], preset.mapping));
+    setStep('mapping');
+  };
+
+  const handleSelectPreset = (selected: CsvImportPreset) => {
+    setPreset(selected);
+    if (headers.length > 0) {
+      setMapping(guessMapping(headers, selected.mapping));
+    }
+  };
+
+  const handleDeletePreset = (selected: CsvImportPreset) => {
+    if (selected.builtIn) return;
+    Alert.alert('Delete Preset', `Delete "${selected.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          deleteImportPreset(selected.id);
+          if (preset.id === selected.id) setPreset(BROKER_PRESETS[0]);
+        },
+      },
+    ]);
+  };
+
+  const handlePickColumn = (field: CsvImportField, label: string) => {
+    Alert.alert(label, 'Choose the column that holds this value', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Not in file', onPress: () => setMapping({ ...mapping, [field]: undefined }) },
+      ...headers.map(header => ({
+        text: header,
+        onPress: () => setMapping({ ...mapping, [field]: header }),
+      })),
+    ]);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      Alert.alert('Preset name', 'Enter a name for this preset.');
+      return;
+    }
+
+    const saved: CsvImportPreset = {
+      ...preset,
+      id: `preset-${Date.now()}`,
+      name,
+      mapping,
+    };
+    saveImportPreset(saved);
+    setPreset(saved);
+    setPresetName('');
+    Alert.alert('Preset Saved', `"${name}" will be available for future imports.`);
+  };
+
+  const handlePreview = () => {
+    setPreview(previewCsvImport(text, preset, mapping, portfolioId));
+    setStep('preview');
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    try {
+      setIsImporting(true);
+      const count = await commitCsvImport(preview, portfolioId);
+      const portfolioName = portfolios.find(p => p.id === portfolioId)?.name || 'portfolio';
+      Alert.alert(
+        'Import Complete',
+        `${count} transaction${count === 1 ? '' : 's'} added to "${portfolioName}".`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error) {
+      Alert.alert('Import Error', 'Failed to import transactions. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, onLongPress?: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: colors.border, backgroundColor: colors.surface },
+        selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+      ]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? colors.buttonText : colors.textSecondary }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderSource = () => (
+    <>
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Import into</Text>
+      <View style={styles.chipRow}>
+        {portfolios.map(p => renderChip(p.id, p.name, p.id === portfolioId, () => setPortfolioId(p.id)))}
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Broker format</Text>
+      <View style={styles.chipRow}>
+        {allPresets.map(p =>
+          renderChip(p.id, p.name, p.id === preset.id, () => handleSelectPreset(p), () => handleDeletePreset(p))
+        )}
+      </View>
+      {importPresets.length > 0 && (
+        <Text style={[styles.hint, { color: colors.textTertiary }]}>Long-press a saved preset to delete it</Text>
+      )}
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>File contents</Text>
+      <TextInput
+        style={[styles.textArea, { color: colors.text, borderColor: colors.border, backgroundColor: colors.surface }]}
+        value={text}
+        onChangeText={setText}
+        placeholder={'Paste your CSV or TSV export here\nDate,Type,Symbol,Quantity,Price,Fees'}
+        placeholderTextColor={colors.textTertiary}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+        textAlignVertical="top"
+      />
+
+      <TouchableOpacity
+        style={[styles.primaryButton, { backgroundColor: colors.primary }, !text.trim() && styles.buttonDisabled]}
+        onPress={handleReadColumns}
+        disabled={!text.trim()}
+      >
+        <Text style={[styles.primaryButtonText, { color: colors.buttonText }]}>Map Columns</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderMapping = () => (
+    <>
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Columns</Text>
+      {CSV_IMPORT_FIELDS.map(({ field, label, required }) => (
+        <TouchableOpacity
+          key={field}
+          style={[styles.mappingRow, { backgroundColor: colors.surface, borderColor: colors.border }]}
+          onPress={() => handlePickColumn(field, label)}
+        >
+          <Text style={[styles.mappingLabel, { color: colors.text }]}>
+            {label}{required ? ' *' : ''}
+          </Text>
+          <View style={styles.mappingValue}>
+            <Text
+              style={[
+                styles.mappingColumn,
+                { color: mapping[field] ? colors.primary : required ? colors.error : colors.textTertiary },
+              ]}
+            >
+              {mapping[field] || 'Not mapped'}
+            </Text>
+            <Ionicons name="chevron-forward" size={16} color={colors.textTertiary} />
+          </View>
+        </TouchableOpacity>
+      ))}
+      {!mapping.type && (
+        <Text style={[styles.hint, { color: colors.textTertiary }]}>
+          Without a type column, negative quantities import as sells and positive ones as buys
+        </Text>
+      )}
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Date format</Text>
+      <View style={styles.chipRow}>
+        {CSV_DATE_FORMATS.map(format =>
+          renderChip(format, format, preset.dateFormat === format, () => setPreset({ ...preset, dateFormat: format }))
+        )}
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Decimal separator</Text>
+      <View style={styles.chipRow}>
+        {renderChip('dot', '1,234.56', preset.decimalSeparator === '.', () => setPreset({ ...preset, decimalSeparator: '.' }))}
+        {renderChip('comma', '1.234,56', preset.decimalSeparator === ',', () => setPreset({ ...preset, decimalSeparator: ',' }))}
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>Save as preset</Text>
+      <View style={styles.presetRow}>
+        <TextInput
+          style={[styles.input, { color: colors.text, borderColor: colors.border, backgroundColor: colors.surface }]}
+          value={presetName}
+          onChangeText={setPresetName}
+          placeholder="e.g. My broker"
+          placeholderTextColor={colors.textTertiary}
+        />
+        <TouchableOpacity onPress={handleSavePreset}>
+          <Ionicons name="save-outline" size={24} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={[styles.secondaryButton, { borderColor: colors.border }]} onPress={() => setStep('source')}>
+          <Text style={[styles.secondaryButtonText, { color: colors.text }]}>Back</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.primaryButton, styles.flexButton, { backgroundColor: colors.primary }]} onPress={handlePreview}>
+          <Text style={[styles.primaryButtonText, { color: colors.buttonText }]}>Preview</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  const renderPreview = () => {
+    if (!preview) return null;
+
+    return (
+      <>
+        <View style={[styles.summary, { backgroundColor: colors.surface }]}>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: colors.success }]}>{preview.validCount}</Text>
+            <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>To import</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: colors.textSecondary }]}>{preview.duplicateCount}</Text>
+            <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Duplicates</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={[styles.summaryValue, { color: colors.error }]}>{preview.errorCount}</Text>
+            <Text style={[styles.summaryLabel, { color: colors.textSecondary }]}>Errors</Text>
+          </View>
+        </View>
+        <Text style={[styles.hint, { color: colors.textTertiary }]}>
+          Dry run — nothing is saved until you import. Duplicates and rows with errors are skipped.
+        </Text>
+
+        {preview.rows.slice(0, MAX_PREVIEW_ROWS).map(row => {
+          const tx = row.transaction;
+          return (
+            <View key={row.line} style={[styles.previewRow, { borderBottomColor: colors.border }]}>
+              <Text style={[styles.previewLine, { color: colors.textTertiary }]}>{row.line}</Text>
+              <View style={styles.previewBody}>
+                {tx ? (
+                  <Text style={[styles.previewText, { color: row.duplicateOf ? colors.textTertiary : colors.text }]}>
+                    {tx.date.split('T')[0]} · {tx.type.toUpperCase()} {tx.ticker}
+                    {tx.type === 'dividend' || tx.type === 'fee'
+                      ? ` ${tx.amount?.toFixed(2)}`
+                      : tx.type === 'split'
+                        ? ` ${tx.splitRatio}:1`
+                        : ` ${tx.quantity} @ ${tx.price}`}
+                    {tx.currency ? ` ${tx.currency}` : ''}
+                  </Text>
+                ) : (
+                  <Text style={[styles.previewText, { color: colors.textSecondary }]} numberOfLines={1}>
+                    {row.raw.join(' | ')}
+                  </Text>
+                )}
+                {row.duplicateOf && (
+                  <Text style={[styles.previewNote, { color: colors.textSecondary }]}>
+                    Duplicate of an existing transaction
+                  </Text>
+                )}
+                {row.errors.map(error => (
+                  <Text key={error} style={[styles.previewNote, { color: colors.error }]}>{error}</Text>
+                ))}
+              </View>
+            </View>
+          );
+        })}
+        {preview.rows.length > MAX_PREVIEW_ROWS && (
+          <Text style={[styles.hint, { color: colors.textTertiary }]}>
+            Showing the first {MAX_PREVIEW_ROWS} of {preview.rows.length} rows
+          </Text>
+        )}
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={[styles.secondaryButton, { borderColor: colors.border }]} onPress={() => setStep('mapping')}>
+            <Text style={[styles.secondaryButtonText, { color: colors.text }]}>Back</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.primaryButton,
+              styles.flexButton,
+              { backgroundColor: colors.primary },
+              (preview.validCount === 0 || isImporting) && styles.buttonDisabled,
+            ]}
+            onPress={handleImport}
+            disabled={preview.validCount === 0 || isImporting}
+          >
+            {isImporting ? (
+              <ActivityIndicator size="small" color={colors.buttonText} />
+            ) : (
+              <Text style={[styles.primaryButtonText, { color: colors.buttonText }]}>
+                Import {preview.validCount} Transaction{preview.validCount === 1 ? '' : 's'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Import from Broker</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {step === 'source' && renderSource()}
+        {step === 'mapping' && renderMapping()}
+        {step === 'preview' && renderPreview()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  placeholder: {
+    width: 24,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  textArea: {
+    minHeight: 180,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 14,
+  },
+  mappingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  mappingValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  mappingColumn: {
+    fontSize: 14,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 24,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 8,
+    marginTop: 24,
+  },
+  flexButton: {
+    flex: 1,
+    marginTop: 0,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  previewLine: {
+    width: 36,
+    fontSize: 12,
+  },
+  previewBody: {
+    flex: 1,
+  },
+  previewText: {
+    fontSize: 13,
+  },
+  previewNote: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+export default CsvImportScreen;
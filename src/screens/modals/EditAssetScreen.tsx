@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -14,88 +14,170 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
-import { Asset, RootStackParamList } from '../../types';
-import { api } from '../../services/api';
+import { Lot, LotSelection, RootStackParamList, Transaction, TransactionType } from '../../types';
+import { usePortfolioStore } from '../../store/portfolioStore';
+import { derivePosition, getCostBasisLabel, getEffectiveTransactions, getHoldingPnL } from '../../utils/ledger';
+import { DEFAULT_CURRENCY, formatMoney } from '../../utils/currency';
 
 type EditAssetRouteProp = RouteProp<RootStackParamList, 'EditAsset'>;
 
-// Mock portfolio store - replace with actual implementation
-const mockAssets: Asset[] = [
-  {
-    id: '1',
-    name: 'Apple Inc.',
-    ticker: 'AAPL',
-    type: 'stock',
-    quantity: 10,
-    currentPrice: 190.50,
-    totalValue: 1905,
-    priceChange: 2.50,
-    priceChangePercent: 1.33,
-    averagePrice: 185.00,
-    exchange: 'NASDAQ',
-  },
-  {
-    id: '2',
-    name: 'Bitcoin',
-    ticker: 'BTC',
-    type: 'crypto',
-    quantity: 0.5,
-    currentPrice: 45000,
-    totalValue: 22500,
-    priceChange: -1000,
-    priceChangePercent: -2.17,
-    averagePrice: 42000,
-  },
+type EntryType = Exclude<TransactionType, 'void'>;
+
+interface FormErrors {
+  quantity?: string;
+  price?: string;
+  amount?: string;
+  splitRatio?: string;
+  lots?: string;
+}
+
+const ENTRY_TYPES: { key: EntryType; label: string }[] = [
+  { key: 'buy', label: 'Buy' },
+  { key: 'sell', label: 'Sell' },
+  { key: 'dividend', label: 'Dividend' },
+  { key: 'split', label: 'Split' },
+  { key: 'fee', label: 'Fee' },
 ];
 
 const EditAssetScreen: React.FC = () => {
   const navigation = useNavigation();
   const route = useRoute<EditAssetRouteProp>();
   const { assetId } = route.params;
+  const {
+    assets,
+    transactions,
+    currentPortfolioId,
+    recordTransaction,
+    correctTransaction,
+    voidTransaction,
+    removeAsset,
+    getCostBasisMethod,
+    getBaseCurrency,
+    getPosition,
+    fxRates,
+  } = usePortfolioStore();
 
-  const [asset, setAsset] = useState<Asset | null>(null);
+  const asset = assets.find(a => a.id === assetId) || null;
+
+  const [entryType, setEntryType] = useState<EntryType>('buy');
   const [quantity, setQuantity] = useState<string>('');
-  const [averagePrice, setAveragePrice] = useState<string>('');
-  const [isLoading, setIsLoading] = useState(true);
+  const [price, setPrice] = useState<string>('');
+  const [amount, setAmount] = useState<string>('');
+  const [fees, setFees] = useState<string>('');
+  const [splitRatio, setSplitRatio] = useState<string>('');
+  const [note, setNote] = useState<string>('');
+  const [lotQuantities, setLotQuantities] = useState<Record<string, string>>({});
+  const [correctingId, setCorrectingId] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
-  const [errors, setErrors] = useState<{ quantity?: string; averagePrice?: string }>({});
+  const [errors, setErrors] = useState<FormErrors>({});
 
   useEffect(() => {
-    loadAsset();
-  }, [assetId]);
-
-  const loadAsset = async () => {
-    try {
-      setIsLoading(true);
-      // In a real app, this would fetch from portfolio store or API
-      const foundAsset = mockAssets.find(a => a.id === assetId);
-      if (foundAsset) {
-        setAsset(foundAsset);
-        setQuantity(foundAsset.quantity.toString());
-        setAveragePrice(foundAsset.averagePrice?.toString() || '');
-      } else {
-        Alert.alert('Error', 'Asset not found');
-        navigation.goBack();
-      }
-    } catch (error) {
-      Alert.alert('Error', 'Failed to load asset details');
+    if (!asset) {
+      Alert.alert('Error', 'Asset not found');
       navigation.goBack();
-    } finally {
-      setIsLoading(false);
     }
+  }, [assetId]);
+
+  // Full ledger for this holding, newest first, including superseded entries
+  const history = useMemo(() => {
+    if (!asset) return [];
+    return transactions
+      .filter(tx => tx.portfolioId === currentPortfolioId && tx.ticker === asset.ticker)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }, [transactions, currentPortfolioId, asset?.ticker]);
+
+  const effectiveIds = useMemo(
+    () => new Set(getEffectiveTransactions(history).map(tx => tx.id)),
+    [history]
+  );
+
+  const costBasisMethod = getCostBasisMethod();
+  const position = useMemo(
+    () => asset ? getPosition(asset.ticker) : derivePosition([], costBasisMethod),
+    [history, costBasisMethod, fxRates]
+  );
+  const currency = asset?.currency || DEFAULT_CURRENCY;
+  const baseCurrency = getBaseCurrency();
+  const money = (amount: number) => formatMoney(amount, currency);
+  const pickingLots = entryType === 'sell' && costBasisMethod === 'specific';
+
+  const getLotSelections = (): LotSelection[] =>
+    Object.entries(lotQuantities)
+      .map(([lotId, value]) => ({ lotId, quantity: parseFloat(value) }))
+      .filter(selection => !isNaN(selection.quantity) && selection.quantity > 0);
+
+  const resetForm = () => {
+    setQuantity('');
+    setPrice('');
+    setAmount('');
+    setFees('');
+    setSplitRatio('');
+    setNote('');
+    setLotQuantities({});
+    setCorrectingId(null);
+    setErrors({});
+  };
+
+  const startCorrection = (transaction: Transaction) => {
+    if (transaction.type === 'void') return;
+    setEntryType(transaction.type);
+    setQuantity(transaction.quantity ? transaction.quantity.toString() : '');
+    setPrice(transaction.price ? transaction.price.toString() : '');
+    setAmount(transaction.amount?.toString() || '');
+    setFees(transaction.fees?.toString() || '');
+    setSplitRatio(transaction.splitRatio?.toString() || '');
+    setNote(transaction.note || '');
+    setLotQuantities(
+      Object.fromEntries((transaction.lotSelections || []).map(s => [s.lotId, s.quantity.toString()]))
+    );
+    setCorrectingId(transaction.id);
+    setErrors({});
   };
 
   const validateInput = (): boolean => {
-    const newErrors: { quantity?: string; averagePrice?: string } = {};
+    const newErrors: FormErrors = {};
+
+    if (entryType === 'buy' || entryType === 'sell') {
+      const quantityNum = parseFloat(quantity);
+      if (!quantity || isNaN(quantityNum) || quantityNum <= 0) {
+        newErrors.quantity = 'Quantity must be a positive number';
+      } else if (entryType === 'sell' && asset && !correctingId && quantityNum > asset.quantity) {
+        newErrors.quantity = `You only hold ${asset.quantity} units`;
+      }
+
+      const priceNum = parseFloat(price);
+      if (!price || isNaN(priceNum) || priceNum <= 0) {
+        newErrors.price = 'Price must be a positive number';
+      }
+
+      if (pickingLots) {
+        const selections = getLotSelections();
+        const selected = selections.reduce((sum, selection) => sum + selection.quantity, 0);
+        const overdrawn = selections.find(selection => {
+          const lot = position.lots.find(l => l.id === selection.lotId);
+          return !lot || selection.quantity > lot.quantity;
+        });
+
+        if (overdrawn) {
+          newErrors.lots = 'A selected lot does not hold that many units';
+        } else if (!isNaN(quantityNum) && selected > quantityNum) {
+          newErrors.lots = 'Selected lots add up to more than the quantity sold';
+        }
+      }
+    }
 
-    const quantityNum = parseFloat(quantity);
-    if (!quantity || isNaN(quantityNum) || quantityNum <= 0) {
-      newErrors.quantity = 'Quantity must be a positive number';
+    if (entryType === 'dividend' || entryType === 'fee') {
+      const amountNum = parseFloat(amount);
+      if (!amount || isNaN(amountNum) || amountNum <= 0) {
+        newErrors.amount = 'Amount must be a positive number';
+      }
     }
 
-    const avgPriceNum = parseFloat(averagePrice);
-    if (averagePrice && (isNaN(avgPriceNum) || avgPriceNum <= 0)) {
-      newErrors.averagePrice = 'Average price must be a positive number';
+    if (entryType === 'split') {
+      const ratioNum = parseFloat(splitRatio);
+      if (!splitRatio || isNaN(ratioNum) || ratioNum <= 0) {
+        newErrors.splitRatio = 'Split ratio must be a positive number';
+      }
     }
 
     setErrors(newErrors);
@@ -105,31 +187,63 @@ const EditAssetScreen: React.FC = () => {
   const handleSave = async () => {
     if (!validateInput() || !asset) return;
 
+    const isTrade = entryType === 'buy' || entryType === 'sell';
+    const entry = {
+      ticker: asset.ticker,
+      type: entryType,
+      quantity: isTrade ? parseFloat(quantity) : 0,
+      price: isTrade ? parseFloat(price) : 0,
+      amount: entryType === 'dividend' || entryType === 'fee' ? parseFloat(amount) : undefined,
+      fees: isTrade && fees ? parseFloat(fees) : undefined,
+      splitRatio: entryType === 'split' ? parseFloat(splitRatio) : undefined,
+      lotSelections: pickingLots && getLotSelections().length > 0 ? getLotSelections() : undefined,
+      date: new Date().toISOString(),
+      note: note.trim() || undefined,
+    };
+
     try {
       setIsSaving(true);
 
-      const updatedAsset: Asset = {
-        ...asset,
-        quantity: parseFloat(quantity),
-        averagePrice: averagePrice ? parseFloat(averagePrice) : asset.averagePrice,
-        totalValue: parseFloat(quantity) * asset.currentPrice,
-      };
-
-      // In a real app, this would update the portfolio store and sync with API
-      // await portfolioStore.updateAsset(updatedAsset);
-      
-      Alert.alert(
-        'Success',
-        'Asset updated successfully',
-        [{ text: 'OK', onPress: () => navigation.goBack() }]
-      );
+      if (correctingId) {
+        const { date, ...changes } = entry;
+        await correctTransaction(correctingId, changes);
+      } else {
+        await recordTransaction(entry);
+      }
+
+      resetForm();
+      Alert.alert('Success', correctingId ? 'Transaction corrected' : 'Transaction recorded');
     } catch (error) {
-      Alert.alert('Error', 'Failed to update asset. Please try again.');
+      Alert.alert('Error', 'Failed to save transaction. Please try again.');
     } finally {
       setIsSaving(false);
     }
   };
 
+  const handleVoid = (transaction: Transaction) => {
+    Alert.alert(
+      'Void Transaction',
+      'The entry stays in the history but no longer counts towards this holding.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Void',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await voidTransaction(transaction.id);
+              if (correctingId === transaction.id) {
+                resetForm();
+              }
+            } catch (error) {
+              Alert.alert('Error', 'Failed to void transaction');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleDelete = () => {
     Alert.alert(
       'Delete Asset',
@@ -141,8 +255,7 @@ const EditAssetScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             try {
-              // In a real app, this would remove from portfolio store
-              // await portfolioStore.removeAsset(assetId);
+              await removeAsset(assetId);
               Alert.alert(
                 'Success',
                 'Asset removed from portfolio',
@@ -157,7 +270,108 @@ const EditAssetScreen: React.FC = () => {
     );
   };
 
-  if (isLoading || !asset) {
+  const describeTransaction = (transaction: Transaction): string => {
+    switch (transaction.type) {
+      case 'buy':
+      case 'sell':
+        return `${transaction.quantity} @ ${money(transaction.price)}${transaction.fees ? ` (+${money(transaction.fees)} fees)` : ''}`;
+      case 'dividend':
+      case 'fee':
+        return money(transaction.amount || 0);
+      case 'split':
+        return `${transaction.splitRatio}-for-1`;
+      case 'void':
+        return 'Voided an earlier entry';
+      default:
+        return '';
+    }
+  };
+
+  const renderLotPicker = (lot: Lot) => (
+    <View key={lot.id} style={styles.lotRow}>
+      <View style={styles.lotInfo}>
+        <Text style={styles.transactionDetail}>
+          {parseFloat(lot.quantity.toFixed(4))} @ {money(lot.costPerUnit)}
+        </Text>
+        <Text style={styles.transactionDate}>
+          Acquired {new Date(lot.acquiredAt).toLocaleDateString()}
+        </Text>
+      </View>
+      <TextInput
+        style={[styles.input, styles.lotInput]}
+        value={lotQuantities[lot.id] || ''}
+        onChangeText={(text) => {
+          setLotQuantities(prev => ({ ...prev, [lot.id]: text }));
+          if (errors.lots) {
+            setErrors({});
+          }
+        }}
+        placeholder="0"
+        keyboardType="decimal-pad"
+      />
+    </View>
+  );
+
+  const renderTransaction = (transaction: Transaction) => {
+    const isEffective = effectiveIds.has(transaction.id);
+    const isCorrection = !!transaction.supersedes && transaction.type !== 'void';
+
+    return (
+      <View key={transaction.id} style={[styles.transactionRow, !isEffective && styles.transactionInactive]}>
+        <TouchableOpacity
+          style={styles.transactionInfo}
+          onPress={() => isEffective && startCorrection(transaction)}
+          disabled={!isEffective}
+        >
+          <Text style={styles.transactionType}>
+            {transaction.type.toUpperCase()}
+            {isCorrection ? ' · correction' : ''}
+            {!isEffective && transaction.type !== 'void' ? ' · superseded' : ''}
+          </Text>
+          <Text style={styles.transactionDetail}>{describeTransaction(transaction)}</Text>
+          <Text style={styles.transactionDate}>
+            {new Date(transaction.date).toLocaleDateString()}
+            {transaction.note ? ` · ${transaction.note}` : ''}
+          </Text>
+        </TouchableOpacity>
+        {isEffective && (
+          <TouchableOpacity onPress={() => handleVoid(transaction)} style={styles.voidButton}>
+            <Ionicons name="close-circle-outline" size={20} color="#ef4444" />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderInput = (
+    label: string,
+    value: string,
+    onChange: (text: string) => void,
+    placeholder: string,
+    error?: string
+  ) => (
+    <View style={styles.inputGroup}>
+      <Text style={styles.inputLabel}>{label}</Text>
+      <TextInput
+        style={[styles.input, error && styles.inputError]}
+        value={value}
+        onChangeText={(text) => {
+          onChange(text);
+          if (Object.keys(errors).length > 0) {
+            setErrors({});
+          }
+        }}
+        placeholder={placeholder}
+        keyboardType="decimal-pad"
+        autoCapitalize="none"
+      />
+      {error && (
+        <Text style={styles.errorText}>{error}</Text>
+      )}
+    </View>
+  );
+
+  if (!asset) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.header}>
@@ -175,6 +389,10 @@ const EditAssetScreen: React.FC = () => {
     );
   }
 
+  const costBasis = asset.costBasis ?? asset.quantity * (asset.averagePrice || 0);
+  const unrealizedPnL = asset.totalValue - costBasis;
+  const holdingPnL = getHoldingPnL(asset, baseCurrency, fxRates);
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
@@ -216,7 +434,7 @@ const EditAssetScreen: React.FC = () => {
                   )}
                 </View>
                 <View style={styles.assetPrice}>
-                  <Text style={styles.currentPrice}>${asset.currentPrice.toFixed(2)}</Text>
+                  <Text style={styles.currentPrice}>{money(asset.currentPrice)}</Text>
                   <Text style={[
                     styles.priceChange, 
                     asset.priceChange >= 0 ? styles.priceChangePositive : styles.priceChangeNegative
@@ -229,51 +447,77 @@ const EditAssetScreen: React.FC = () => {
             </View>
           </View>
 
-          {/* Edit Quantity Section */}
+          {/* Record Transaction Section */}
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Update Holdings</Text>
-            
-            <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Quantity</Text>
-              <TextInput
-                style={[styles.input, errors.quantity && styles.inputError]}
-                value={quantity}
-                onChangeText={(text) => {
-                  setQuantity(text);
-                  if (errors.quantity) {
-                    setErrors(prev => ({ ...prev, quantity: undefined }));
-                  }
-                }}
-                placeholder="Enter quantity"
-                keyboardType="decimal-pad"
-                autoCapitalize="none"
-              />
-              {errors.quantity && (
-                <Text style={styles.errorText}>{errors.quantity}</Text>
-              )}
+            <Text style={styles.sectionTitle}>
+              {correctingId ? 'Correct Transaction' : 'Record Transaction'}
+            </Text>
+
+            <View style={styles.typeSelector}>
+              {ENTRY_TYPES.map(type => (
+                <TouchableOpacity
+                  key={type.key}
+                  style={[styles.typeButton, entryType === type.key && styles.typeButtonActive]}
+                  onPress={() => {
+                    setEntryType(type.key);
+                    setErrors({});
+                  }}
+                >
+                  <Text style={[styles.typeButtonText, entryType === type.key && styles.typeButtonTextActive]}>
+                    {type.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
             </View>
 
+            {(entryType === 'buy' || entryType === 'sell') && (
+              <>
+                {renderInput('Quantity', quantity, setQuantity, 'Enter quantity', errors.quantity)}
+                {renderInput('Price per Unit', price, setPrice, 'Enter price', errors.price)}
+                {renderInput('Fees (Optional)', fees, setFees, '0.00')}
+              </>
+            )}
+
+            {entryType === 'sell' && (
+              <Text style={styles.helperText}>
+                Lots are closed using {getCostBasisLabel(costBasisMethod)}
+                {pickingLots ? '; anything not picked below falls back to FIFO' : ''}
+              </Text>
+            )}
+
+            {pickingLots && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Lots to Sell</Text>
+                {position.lots.length === 0 ? (
+                  <Text style={styles.helperText}>No open lots</Text>
+                ) : (
+                  position.lots.map(renderLotPicker)
+                )}
+                {errors.lots && (
+                  <Text style={styles.errorText}>{errors.lots}</Text>
+                )}
+              </View>
+            )}
+
+            {(entryType === 'dividend' || entryType === 'fee') &&
+              renderInput('Amount', amount, setAmount, '0.00', errors.amount)}
+
+            {entryType === 'split' &&
+              renderInput('Split Ratio', splitRatio, setSplitRatio, 'e.g. 2 for a 2-for-1 split', errors.splitRatio)}
+
             <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Average Price (Optional)</Text>
+              <Text style={styles.inputLabel}>Note (Optional)</Text>
               <TextInput
-                style={[styles.input, errors.averagePrice && styles.inputError]}
-                value={averagePrice}
-                onChangeText={(text) => {
-                  setAveragePrice(text);
-                  if (errors.averagePrice) {
-                    setErrors(prev => ({ ...prev, averagePrice: undefined }));
-                  }
-                }}
-                placeholder="Enter average purchase price"
-                keyboardType="decimal-pad"
-                autoCapitalize="none"
+                style={styles.input}
+                value={note}
+                onChangeText={setNote}
+                placeholder="Add a note"
               />
-              {errors.averagePrice && (
-                <Text style={styles.errorText}>{errors.averagePrice}</Text>
+              {correctingId && (
+                <TouchableOpacity onPress={resetForm}>
+                  <Text style={styles.helperLink}>Cancel correction</Text>
+                </TouchableOpacity>
               )}
-              <Text style={styles.helperText}>
-                Used to calculate profit/loss. Current: ${asset.averagePrice?.toFixed(2) || 'N/A'}
-              </Text>
             </View>
           </View>
 
@@ -287,31 +531,78 @@ const EditAssetScreen: React.FC = () => {
               </View>
               <View style={styles.summaryRow}>
                 <Text style={styles.summaryLabel}>Total Value</Text>
-                <Text style={styles.summaryValue}>${asset.totalValue.toLocaleString()}</Text>
+                <Text style={styles.summaryValue}>{money(asset.totalValue)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Cost Basis</Text>
+                <Text style={styles.summaryValue}>{money(costBasis)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Average Price</Text>
+                <Text style={styles.summaryValue}>{asset.averagePrice ? money(asset.averagePrice) : 'N/A'}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Unrealized P&L</Text>
+                <Text style={[styles.summaryValue, unrealizedPnL >= 0 ? styles.profitText : styles.lossText]}>
+                  {money(unrealizedPnL)}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Realized P&L</Text>
+                <Text style={[styles.summaryValue, (asset.realizedPnL || 0) >= 0 ? styles.profitText : styles.lossText]}>
+                  {money(asset.realizedPnL || 0)}
+                </Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Short-term Realized</Text>
+                <Text style={styles.summaryValue}>{money(asset.shortTermGain || 0)}</Text>
               </View>
-              {asset.averagePrice && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Long-term Realized</Text>
+                <Text style={styles.summaryValue}>{money(asset.longTermGain || 0)}</Text>
+              </View>
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Dividends</Text>
+                <Text style={styles.summaryValue}>{money(asset.dividendIncome || 0)}</Text>
+              </View>
+              {currency !== baseCurrency && (
                 <>
                   <View style={styles.summaryRow}>
-                    <Text style={styles.summaryLabel}>Total Cost</Text>
-                    <Text style={styles.summaryValue}>
-                      ${(asset.quantity * asset.averagePrice).toLocaleString()}
+                    <Text style={styles.summaryLabel}>Unrealized ({baseCurrency})</Text>
+                    <Text style={[styles.summaryValue, holdingPnL.unrealizedBase >= 0 ? styles.profitText : styles.lossText]}>
+                      {formatMoney(holdingPnL.unrealizedBase, baseCurrency)}
                     </Text>
                   </View>
                   <View style={styles.summaryRow}>
-                    <Text style={styles.summaryLabel}>Unrealized P&L</Text>
-                    <Text style={[
-                      styles.summaryValue,
-                      (asset.totalValue - (asset.quantity * asset.averagePrice)) >= 0 
-                        ? styles.profitText : styles.lossText
-                    ]}>
-                      ${(asset.totalValue - (asset.quantity * asset.averagePrice)).toLocaleString()}
-                    </Text>
+                    <Text style={styles.summaryLabel}>Price Gain ({baseCurrency})</Text>
+                    <Text style={styles.summaryValue}>{formatMoney(holdingPnL.priceGainBase, baseCurrency)}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>FX Gain ({baseCurrency})</Text>
+                    <Text style={styles.summaryValue}>{formatMoney(holdingPnL.fxGainBase, baseCurrency)}</Text>
+                  </View>
+                  <View style={styles.summaryRow}>
+                    <Text style={styles.summaryLabel}>Realized ({baseCurrency})</Text>
+                    <Text style={styles.summaryValue}>{formatMoney(holdingPnL.realizedBase, baseCurrency)}</Text>
                   </View>
                 </>
               )}
             </View>
           </View>
 
+          {/* Transaction History */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Transaction History</Text>
+            {history.length === 0 ? (
+              <Text style={styles.helperText}>No transactions recorded yet</Text>
+            ) : (
+              <>
+                {history.map(renderTransaction)}
+                <Text style={styles.helperText}>Tap an entry to correct it</Text>
+              </>
+            )}
+          </View>
+
           {/* Delete Asset Section */}
           <View style={styles.section}>
             <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
@@ -503,6 +794,85 @@ const styles = StyleSheet.create({
   lossText: {
     color: '#ef4444',
   },
+  helperLink: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#3b82f6',
+    marginTop: 8,
+  },
+  typeSelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 20,
+  },
+  lotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  lotInfo: {
+    flex: 1,
+  },
+  lotInput: {
+    width: 90,
+    paddingVertical: 8,
+    textAlign: 'right',
+  },
+  typeButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#d1d5db',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  typeButtonActive: {
+    backgroundColor: '#3b82f6',
+    borderColor: '#3b82f6',
+  },
+  typeButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  typeButtonTextActive: {
+    color: '#fff',
+  },
+  transactionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f3f4f6',
+  },
+  transactionInactive: {
+    opacity: 0.5,
+  },
+  transactionInfo: {
+    flex: 1,
+  },
+  transactionType: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#6b7280',
+  },
+  transactionDetail: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1f2937',
+    marginTop: 2,
+  },
+  transactionDate: {
+    fontSize: 12,
+    color: '#9ca3af',
+    marginTop: 2,
+  },
+  voidButton: {
+    padding: 8,
+  },
   deleteButton: {
     flexDirection: 'row',
     alignItems: 'center',
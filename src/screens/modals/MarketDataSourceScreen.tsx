@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { MARKET_DATA_PROVIDER_IDS, MARKET_DATA_PROVIDER_LABELS, useMarketDataStore } from '../../store/marketDataStore';
+import { useThemeStore } from '../../services/themeManager';
+import { MarketDataProviderId } from '../../types';
+
+const PROVIDER_DESCRIPTIONS: Record<MarketDataProviderId, string> = {
+  backend: 'Live prices, search and news from the connected server. Uses fixtures while offline.',
+  fixture: 'Built-in sample assets and news with prices that move deterministically. No network needed.',
+  'csv-replay': 'Plays back a price history file one date at a time, looping at the end.',
+};
+
+const MarketDataSourceScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentTheme } = useThemeStore();
+  const { providerId, replaySymbols, getProviderId, setProvider, resetProvider, loadReplay, clearReplay } =
+    useMarketDataStore();
+  const colors = currentTheme.colors;
+
+  const [text, setText] = useState('');
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const activeId = getProviderId();
+
+  const handleSelect = (id: MarketDataProviderId) => {
+    try {
+      setProvider(id);
+    } catch (error: any) {
+      Alert.alert('Replay', error.message);
+    }
+  };
+
+  const handleLoad = () => {
+    const found = loadReplay(text);
+    setIssues(found);
+    if (useMarketDataStore.getState().replayCsv === text) {
+      setText('');
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert('Clear Replay', 'Remove the loaded price history?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: () => {
+          clearReplay();
+          setIssues([]);
+        },
+      },
+    ]);
+  };
+
+  const renderProvider = (id: MarketDataProviderId) => {
+    const selected = activeId === id;
+    return (
+      <TouchableOpacity
+        key={id}
+        style={[
+          styles.card,
+          { backgroundColor: colors.surface, borderColor: selected ? colors.primary : colors.border },
+        ]}
+        onPress={() => handleSelect(id)}
+      >
+        <View style={styles.cardHeader}>
+          <Text style={[styles.cardTitle, { color: colors.text }]}>{MARKET_DATA_PROVIDER_LABELS[id]}</Text>
+          {selected && <Ionicons name="checkmark-circle" size={20} color={colors.primary} />}
+        </View>
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>{PROVIDER_DESCRIPTIONS[id]}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Market Data Source</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {MARKET_DATA_PROVIDER_IDS.map(renderProvider)}
+
+        <TouchableOpacity
+          style={[styles.secondaryButton, { borderColor: colors.border }, !providerId && styles.buttonDisabled]}
+          onPress={resetProvider}
+          disabled={!providerId}
+        >
+          <Text style={[styles.secondaryButtonText, { color: colors.text }]}>Use build default</Text>
+        </TouchableOpacity>
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          {providerId ? 'Chosen here.' : 'Following the build default (EXPO_PUBLIC_MOCK_API).'}
+        </Text>
+
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Replay File</Text>
+        <Text style={[styles.hint, { color: colors.textSecondary }]}>
+          {replaySymbols.length > 0
+            ? `Loaded: ${replaySymbols.join(', ')}`
+            : 'One row per symbol per date. Date, symbol and close are required.'}
+        </Text>
+
+        <TextInput
+          style={[styles.textArea, { color: colors.text, borderColor: colors.border, backgroundColor: colors.surface }]}
+          value={text}
+          onChangeText={setText}
+          placeholder={'Paste a price history CSV here\ndate,symbol,open,high,low,close,volume'}
+          placeholderTextColor={colors.textTertiary}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          textAlignVertical="top"
+        />
+
+        {issues.length > 0 && (
+          <View style={styles.issues}>
+            {issues.slice(0, 10).map(issue => (
+              <Text key={issue} style={[styles.issueText, { color: colors.error }]}>{issue}</Text>
+            ))}
+            {issues.length > 10 && (
+              <Text style={[styles.issueText, { color: colors.error }]}>…and {issues.length - 10} more</Text>
+            )}
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.primaryButton, { backgroundColor: colors.primary }, !text.trim() && styles.buttonDisabled]}
+          onPress={handleLoad}
+          disabled={!text.trim()}
+        >
+          <Text style={[styles.primaryButtonText, { color: colors.buttonText }]}>Load File</Text>
+        </TouchableOpacity>
+
+        {replaySymbols.length > 0 && (
+          <TouchableOpacity style={[styles.secondaryButton, { borderColor: colors.border }]} onPress={handleClear}>
+            <Text style={[styles.secondaryButtonText, { color: colors.error }]}>Clear Replay</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  placeholder: {
+    width: 24,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 28,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  textArea: {
+    minHeight: 160,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+    fontSize: 13,
+    fontFamily: 'monospace',
+  },
+  issues: {
+    marginTop: 8,
+  },
+  issueText: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default MarketDataSourceScreen;
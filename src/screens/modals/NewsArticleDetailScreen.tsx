@@ -22,55 +22,6 @@ type NewsArticleDetailRouteProp = RouteProp<RootStackParamList, 'NewsArticleDeta
 
 const screenWidth = Dimensions.get('window').width;
 
-// Mock news articles for demonstration
-const mockArticles: NewsArticle[] = [
-  {
-    id: '1',
-    title: 'Stock Market Reaches New Highs as Technology Sector Surges',
-    summary: 'Major indices close at record levels driven by strong earnings from tech giants and positive economic indicators.',
-    content: `The stock market continued its upward trajectory today as major technology companies reported better-than-expected quarterly earnings. The S&P 500 and NASDAQ both reached new record highs, with investor confidence bolstered by strong consumer spending data and dovish comments from Federal Reserve officials.
-
-Apple Inc. (AAPL) led the charge with a 5.2% gain after reporting revenue growth of 8% year-over-year, driven by strong iPhone sales and growth in their services segment. The company's CEO highlighted the growing adoption of their latest AI features and the expansion into emerging markets.
-
-Microsoft Corporation (MSFT) also posted impressive results, with cloud revenue growing 22% as enterprise customers continue their digital transformation initiatives. The company's Azure platform gained market share against competitors, strengthening Microsoft's position in the cloud computing space.
-
-Federal Reserve Chairman Jerome Powell's recent comments suggesting a measured approach to future rate changes have provided additional support to equity markets. Powell emphasized the Fed's commitment to data-dependent policy decisions while acknowledging the progress made in bringing inflation toward the 2% target.
-
-Market analysts are cautiously optimistic about the remainder of the year, citing strong corporate earnings, resilient consumer spending, and a more predictable monetary policy environment. However, they caution investors to remain vigilant about potential headwinds including geopolitical tensions and global supply chain considerations.
-
-The technology sector's outperformance comes amid growing investor enthusiasm for artificial intelligence and cloud computing technologies. Companies that have successfully integrated AI into their business models are seeing premium valuations as investors bet on the long-term growth potential of these technologies.
-
-Looking ahead, investors will be closely watching upcoming economic data releases, including employment figures and inflation reports, which could influence Federal Reserve policy decisions in the coming months.`,
-    imageUrl: 'https://images.unsplash.com/photo-1611974789855-9c2a0a7236a3?w=800',
-    source: 'Financial Times',
-    url: 'https://example.com/news/1',
-    publishedAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-    relatedSymbols: ['AAPL', 'MSFT', 'GOOGL', 'AMZN'],
-  },
-  {
-    id: '2',
-    title: 'Federal Reserve Signals Potential Rate Cut in Coming Months',
-    summary: 'Central bank officials hint at monetary policy easing as inflation shows signs of cooling.',
-    content: `Federal Reserve Chairman Jerome Powell indicated that the central bank is prepared to adjust monetary policy in response to changing economic conditions. Recent inflation data has shown a marked decline from peak levels, giving the Fed more flexibility in its approach to interest rates.
-
-The Consumer Price Index (CPI) for the latest month came in at 3.2% year-over-year, down from the previous month's 3.7% reading and significantly below the peak of over 9% reached in mid-2022. This continued moderation in price pressures has prompted Fed officials to consider a more accommodative stance.
-
-Powell emphasized that any policy changes would be data-dependent and measured, noting the importance of ensuring that inflation continues on its downward trajectory toward the Fed's 2% target. "We are seeing encouraging signs in the inflation data, but we want to be confident that this trend is sustainable," Powell stated during a recent press conference.
-
-Financial markets have responded positively to the possibility of rate cuts, with bond yields declining and equity markets rallying. The prospect of lower borrowing costs has particularly benefited interest-sensitive sectors such as real estate and utilities.
-
-Economic indicators beyond inflation are also supporting the case for potential policy easing. While the labor market remains strong with unemployment near historic lows, there are signs of moderation in job growth and wage increases. Consumer spending has shown resilience but at a more moderate pace than earlier in the year.
-
-The Federal Reserve's dual mandate focuses on both price stability and full employment. With inflation trending lower and employment remaining solid, policymakers have more room to consider adjustments that could support continued economic growth.
-
-Market participants are now pricing in a higher probability of rate cuts in the coming quarters, with futures markets suggesting potential reductions beginning in the next few months. However, Fed officials have stressed that any policy changes will depend on incoming economic data and the continued progress on inflation.`,
-    imageUrl: 'https://images.unsplash.com/photo-1526304640581-d334cdbbf45e?w=800',
-    source: 'Reuters',
-    publishedAt: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(),
-    relatedSymbols: ['SPY', 'TLT', 'GLD'],
-  },
-];
-
 const NewsArticleDetailScreen: React.FC = () => {
   const navigation = useNavigation();
   const route = useRoute<NewsArticleDetailRouteProp>();
@@ -87,8 +38,8 @@ const NewsArticleDetailScreen: React.FC = () => {
   const loadArticle = async () => {
     try {
       setIsLoading(true);
-      // In a real app, this would fetch from the news service or API
-      const foundArticle = mockArticles.find(a => a.id === articleId);
+      // Articles open from a list, so the one shown is already in the news cache
+      const foundArticle = newsService.getArticle(articleId);
       if (foundArticle) {
         setArticle(foundArticle);
       } else {
@@ -14,6 +14,14 @@ import { useNavigation } from '@react-navigation/native';
 import { usePortfolioStore } from '../../store/portfolioStore';
 import { useThemeStore } from '../../services/themeManager';
 import { Portfolio } from '../../types';
+import SyncStatusBadge from '../../components/SyncStatusBadge';
+import {
+  COST_BASIS_METHODS,
+  DEFAULT_COST_BASIS_METHOD,
+  getCostBasisLabel,
+  summarizePnL,
+} from '../../utils/ledger';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, formatMoney } from '../../utils/currency';
 
 const PortfolioManagerScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -24,6 +32,9 @@ const PortfolioManagerScreen: React.FC = () => {
     switchPortfolio,
     deletePortfolio,
     createPortfolio,
+    setCostBasisMethod,
+    setBaseCurrency,
+    fxRates,
   } = usePortfolioStore();
 
   const [isCreating, setIsCreating] = useState(false);
@@ -76,24 +87,58 @@ const PortfolioManagerScreen: React.FC = () => {
     );
   };
 
-  const formatCurrency = (value: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+  const handleChangeCostBasisMethod = (portfolio: Portfolio) => {
+    Alert.alert(
+      'Cost Basis Method',
+      'Choose which lots are closed when you sell. Past sales in this portfolio are recalculated.',
+      [
+        ...COST_BASIS_METHODS.map(method => ({
+          text: method.label,
+          onPress: async () => {
+            try {
+              await setCostBasisMethod(portfolio.id, method.value);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to update cost basis method.');
+            }
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleChangeBaseCurrency = (portfolio: Portfolio) => {
+    Alert.alert(
+      'Base Currency',
+      'Totals and P&L for this portfolio are converted into this currency.',
+      [
+        ...SUPPORTED_CURRENCIES.map(currency => ({
+          text: currency,
+          onPress: async () => {
+            try {
+              await setBaseCurrency(portfolio.id, currency);
+            } catch (error) {
+              Alert.alert('Error', 'Failed to update base currency.');
+            }
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const formatCurrency = (value: number, currency: string = DEFAULT_CURRENCY): string => {
+    return formatMoney(value, currency, 0);
   };
 
   const renderPortfolioItem = ({ item: portfolio }: { item: Portfolio }) => {
     const isCurrentPortfolio = portfolio.id === currentPortfolioId;
     const isDeleting = deletingPortfolioId === portfolio.id;
-    const totalValue = portfolio.assets.reduce((sum, asset) => sum + asset.totalValue, 0);
-    const totalCost = portfolio.assets.reduce((sum, asset) => 
-      sum + (asset.quantity * (asset.averagePrice || asset.currentPrice)), 0
-    );
-    const totalChange = totalValue - totalCost;
-    const totalChangePercent = totalCost > 0 ? (totalChange / totalCost) * 100 : 0;
+    const baseCurrency = portfolio.baseCurrency || DEFAULT_CURRENCY;
+    const pnl = summarizePnL(portfolio.assets, baseCurrency, fxRates);
+    const totalValue = pnl.totalValue;
+    const totalChange = pnl.unrealizedPnL;
+    const totalChangePercent = pnl.unrealizedPercent;
 
     return (
       <TouchableOpacity
@@ -120,10 +165,11 @@ const PortfolioManagerScreen: React.FC = () => {
                 </View>
               )}
             </View>
+            <SyncStatusBadge entityId={portfolio.id} />
 
             <View style={styles.portfolioStats}>
               <Text style={[styles.portfolioValue, { color: currentTheme.colors.text }]}>
-                {formatCurrency(totalValue)}
+                {formatCurrency(totalValue, baseCurrency)}
               </Text>
               <View style={styles.portfolioChange}>
                 <Text style={[
@@ -131,7 +177,7 @@ const PortfolioManagerScreen: React.FC = () => {
                   { color: totalChange >= 0 ? currentTheme.colors.success : currentTheme.colors.error }
                 ]}>
                   {totalChange >= 0 ? '+' : ''}
-                  {formatCurrency(totalChange)} ({totalChangePercent.toFixed(1)}%)
+                  {formatCurrency(totalChange, baseCurrency)} ({totalChangePercent.toFixed(1)}%)
                 </Text>
               </View>
             </View>
@@ -158,6 +204,28 @@ const PortfolioManagerScreen: React.FC = () => {
           </View>
         </View>
 
+        <TouchableOpacity
+          style={styles.costBasisRow}
+          onPress={() => handleChangeCostBasisMethod(portfolio)}
+        >
+          <Text style={[styles.costBasisText, { color: currentTheme.colors.textSecondary }]}>
+            Cost basis: {getCostBasisLabel(portfolio.costBasisMethod || DEFAULT_COST_BASIS_METHOD)}
+            {' · '}Realized {formatCurrency(pnl.realizedPnL, baseCurrency)}
+          </Text>
+          <Ionicons name="chevron-forward" size={14} color={currentTheme.colors.textSecondary} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.costBasisRow}
+          onPress={() => handleChangeBaseCurrency(portfolio)}
+        >
+          <Text style={[styles.costBasisText, { color: currentTheme.colors.textSecondary }]}>
+            Base currency: {baseCurrency}
+            {Math.abs(pnl.fxGain) >= 1 ? ` · FX ${formatCurrency(pnl.fxGain, baseCurrency)}` : ''}
+          </Text>
+          <Ionicons name="chevron-forward" size={14} color={currentTheme.colors.textSecondary} />
+        </TouchableOpacity>
+
         {isCurrentPortfolio && (
           <View style={styles.currentIndicator}>
             <Ionicons name="checkmark-circle" size={16} color={currentTheme.colors.success} />
@@ -376,6 +444,15 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     backgroundColor: '#fef2f2',
   },
+  costBasisRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  costBasisText: {
+    fontSize: 12,
+  },
   currentIndicator: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,338 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { usePortfolioStore } from '../../store/portfolioStore';
+import { useThemeStore } from '../../services/themeManager';
+import { backupService } from '../../services/backupService';
+import { PortfolioBackup, PortfolioRestoreMode } from '../../types';
+
+type SelectionMode = PortfolioRestoreMode | 'skip';
+
+const MODE_LABELS: Record<SelectionMode, string> = {
+  skip: 'Skip',
+  replace: 'Replace',
+  merge: 'Merge',
+  copy: 'Copy',
+};
+
+const RestoreBackupScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentTheme } = useThemeStore();
+  const { portfolios } = usePortfolioStore();
+  const colors = currentTheme.colors;
+
+  const [text, setText] = useState('');
+  const [backup, setBackup] = useState<PortfolioBackup | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [migratedFrom, setMigratedFrom] = useState<number | null>(null);
+  const [modes, setModes] = useState<Record<string, SelectionMode>>({});
+  const [restoreSettings, setRestoreSettings] = useState(false);
+  const [restoreAlerts, setRestoreAlerts] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleValidate = () => {
+    const parsed = backupService.parse(text);
+    setErrors(parsed.errors);
+    setMigratedFrom(parsed.migratedFrom);
+    setBackup(parsed.backup);
+
+    if (parsed.backup) {
+      // Default to merging into portfolios we already have and adding the rest
+      const defaults: Record<string, SelectionMode> = {};
+      parsed.backup.portfolios.forEach(entry => {
+        defaults[entry.portfolio.id] = portfolios.some(p => p.id === entry.portfolio.id) ? 'merge' : 'replace';
+      });
+      setModes(defaults);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    const selections = Object.entries(modes)
+      .filter(([, mode]) => mode !== 'skip')
+      .map(([portfolioId, mode]) => ({ portfolioId, mode: mode as PortfolioRestoreMode }));
+
+    try {
+      setIsRestoring(true);
+      const summary = await backupService.restore(backup, {
+        portfolios: selections,
+        settings: restoreSettings,
+        alerts: restoreAlerts,
+        importPresets: selections.length > 0,
+      });
+
+      const lines = [`${summary.portfolios} portfolio${summary.portfolios === 1 ? '' : 's'} restored.`];
+      if (restoreAlerts) {
+        lines.push(`${summary.alertsCreated} alert${summary.alertsCreated === 1 ? '' : 's'} added${summary.alertsFailed ? `, ${summary.alertsFailed} failed` : ''}.`);
+      }
+      if (summary.settingsRestored) lines.push('Theme and language settings applied.');
+
+      Alert.alert('Restore Complete', lines.join('\n'), [{ text: 'OK', onPress: () => navigation.goBack() }]);
+    } catch (error) {
+      Alert.alert('Restore Error', 'Failed to restore the backup. Your existing data was not changed.');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const renderModeChips = (portfolioId: string, exists: boolean) => {
+    // Replace and merge only differ when the portfolio is already here
+    const options: SelectionMode[] = exists ? ['skip', 'merge', 'replace', 'copy'] : ['skip', 'replace'];
+    return (
+      <View style={styles.chipRow}>
+        {options.map(mode => {
+          const selected = modes[portfolioId] === mode;
+          return (
+            <TouchableOpacity
+              key={mode}
+              style={[
+                styles.chip,
+                { borderColor: colors.border },
+                selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+              ]}
+              onPress={() => setModes({ ...modes, [portfolioId]: mode })}
+            >
+              <Text style={[styles.chipText, { color: selected ? colors.buttonText : colors.textSecondary }]}>
+                {exists || mode === 'skip' ? MODE_LABELS[mode] : 'Restore'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const selectedCount = Object.values(modes).filter(mode => mode !== 'skip').length;
+  const canRestore = !!backup && (selectedCount > 0 || restoreSettings || restoreAlerts) && !isRestoring;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Restore Backup</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Backup file</Text>
+        <TextInput
+          style={[styles.textArea, { color: colors.text, borderColor: colors.border, backgroundColor: colors.surface }]}
+          value={text}
+          onChangeText={value => {
+            setText(value);
+            setBackup(null);
+            setErrors([]);
+          }}
+          placeholder="Paste the contents of an exported backup"
+          placeholderTextColor={colors.textTertiary}
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+          textAlignVertical="top"
+        />
+        <TouchableOpacity
+          style={[styles.secondaryButton, { borderColor: colors.primary }, !text.trim() && styles.buttonDisabled]}
+          onPress={handleValidate}
+          disabled={!text.trim()}
+        >
+          <Text style={[styles.secondaryButtonText, { color: colors.primary }]}>Check Backup</Text>
+        </TouchableOpacity>
+
+        {errors.length > 0 && (
+          <View style={[styles.card, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.cardTitle, { color: colors.error }]}>This backup can't be restored</Text>
+            {errors.slice(0, 20).map(error => (
+              <Text key={error} style={[styles.errorText, { color: colors.error }]}>• {error}</Text>
+            ))}
+            {errors.length > 20 && (
+              <Text style={[styles.hint, { color: colors.textTertiary }]}>and {errors.length - 20} more</Text>
+            )}
+          </View>
+        )}
+
+        {backup && (
+          <>
+            <Text style={[styles.hint, { color: colors.textTertiary }]}>
+              Exported {new Date(backup.exportedAt).toLocaleString()}
+              {migratedFrom !== null ? ` · upgraded from format v${migratedFrom}` : ''}
+            </Text>
+
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Portfolios</Text>
+            {backup.portfolios.map(entry => {
+              const exists = portfolios.some(p => p.id === entry.portfolio.id);
+              return (
+                <View key={entry.portfolio.id} style={[styles.card, { backgroundColor: colors.surface }]}>
+                  <Text style={[styles.cardTitle, { color: colors.text }]}>{entry.portfolio.name}</Text>
+                  <Text style={[styles.hint, { color: colors.textSecondary }]}>
+                    {entry.portfolio.assets.length} holdings · {entry.transactions.length} transactions · {entry.snapshots.length} snapshots
+                    {exists ? ' · already on this device' : ''}
+                  </Text>
+                  {renderModeChips(entry.portfolio.id, exists)}
+                </View>
+              );
+            })}
+
+            <View style={[styles.toggleRow, { backgroundColor: colors.surface }]}>
+              <Text style={[styles.toggleLabel, { color: colors.text }]}>Theme and language</Text>
+              <Switch
+                value={restoreSettings}
+                onValueChange={setRestoreSettings}
+                disabled={!backup.settings.theme && !backup.settings.language}
+                trackColor={{ false: colors.border, true: colors.primary }}
+              />
+            </View>
+            <View style={[styles.toggleRow, { backgroundColor: colors.surface }]}>
+              <Text style={[styles.toggleLabel, { color: colors.text }]}>
+                Price alerts ({backup.alerts.length})
+              </Text>
+              <Switch
+                value={restoreAlerts}
+                onValueChange={setRestoreAlerts}
+                disabled={backup.alerts.length === 0}
+                trackColor={{ false: colors.border, true: colors.primary }}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: colors.primary }, !canRestore && styles.buttonDisabled]}
+              onPress={handleRestore}
+              disabled={!canRestore}
+            >
+              {isRestoring ? (
+                <ActivityIndicator size="small" color={colors.buttonText} />
+              ) : (
+                <Text style={[styles.primaryButtonText, { color: colors.buttonText }]}>Restore</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  placeholder: {
+    width: 24,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  textArea: {
+    minHeight: 160,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  toggleLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 8,
+    marginTop: 24,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
+
+export default RestoreBackupScreen;
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import PinPad from '../../components/PinPad';
+import { useAppLockStore } from '../../store/appLockStore';
+import { appLockService } from '../../services/appLockService';
+import { useThemeStore } from '../../services/themeManager';
+
+type Step = 'current' | 'new' | 'confirm';
+
+const PROMPTS: Record<Step, string> = {
+  current: 'Enter your current PIN',
+  new: 'Choose a PIN',
+  confirm: 'Enter the PIN again',
+};
+
+// Sets the app lock PIN, turning the lock on; changing an existing PIN asks for it first
+const SetPinScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentTheme } = useThemeStore();
+  const isEnabled = useAppLockStore(state => state.isEnabled);
+  const colors = currentTheme.colors;
+
+  // Read once, so turning the lock on partway through doesn't change the steps
+  const [isChanging] = useState(isEnabled);
+  const [step, setStep] = useState<Step>(isChanging ? 'current' : 'new');
+  const [pin, setPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (pin.length === appLockService.pinLength) handleComplete(pin);
+  }, [pin]);
+
+  const handleComplete = async (entered: string) => {
+    setPin('');
+    setMessage(null);
+
+    if (step === 'current') {
+      setIsBusy(true);
+      const result = await appLockService.checkPin(entered);
+      setIsBusy(false);
+      if (result.ok) {
+        setStep('new');
+      } else if (result.lockedUntil) {
+        Alert.alert('Too Many Attempts', 'Try again later.');
+        navigation.goBack();
+      } else {
+        setMessage(`Wrong PIN. ${result.attemptsLeft} ${result.attemptsLeft === 1 ? 'attempt' : 'attempts'} left.`);
+      }
+      return;
+    }
+
+    if (step === 'new') {
+      setNewPin(entered);
+      setStep('confirm');
+      return;
+    }
+
+    if (entered !== newPin) {
+      setNewPin('');
+      setStep('new');
+      setMessage("The PINs didn't match. Try again.");
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      await appLockService.setPin(entered);
+      navigation.goBack();
+    } catch (error: any) {
+      setIsBusy(false);
+      Alert.alert('Error', error.message || 'Failed to save the PIN');
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>{isChanging ? 'Change PIN' : 'Set Up App Lock'}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <View style={styles.content}>
+        <Text style={[styles.prompt, { color: colors.text }]}>{PROMPTS[step]}</Text>
+        <Text style={[styles.hint, { color: message ? colors.error : colors.textSecondary }]}>
+          {message || `${appLockService.pinLength} digits`}
+        </Text>
+
+        <PinPad length={appLockService.pinLength} value={pin} onChange={setPin} disabled={isBusy} />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  placeholder: {
+    width: 24,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  prompt: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    marginTop: 8,
+    marginBottom: 32,
+  },
+});
+
+export default SetPinScreen;
@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { useSyncStore } from '../../store/syncStore';
+import { useThemeStore } from '../../services/themeManager';
+import { reconcileService } from '../../services/reconcileService';
+import { getCostBasisLabel } from '../../utils/ledger';
+import { CostBasisMethod, SyncConflict, SyncConflictChoice } from '../../types';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  baseCurrency: 'Base currency',
+  costBasisMethod: 'Cost basis method',
+  quantity: 'Quantity',
+  averagePrice: 'Average price',
+};
+
+const formatValue = (field: string, value: any): string => {
+  if (value === undefined || value === null) return '—';
+  if (field === 'costBasisMethod') return getCostBasisLabel(value as CostBasisMethod);
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+  return String(value);
+};
+
+// Keep what was done on this device unless told otherwise
+const defaultChoices = (conflict: SyncConflict): Record<string, SyncConflictChoice> =>
+  conflict.deletedOnServer
+    ? { deleted: 'local' }
+    : conflict.fields.reduce<Record<string, SyncConflictChoice>>((choices, { field }) => {
+        choices[field] = 'local';
+        return choices;
+      }, {});
+
+const SyncConflictsScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentTheme } = useThemeStore();
+  const conflicts = useSyncStore(state => state.conflicts);
+  const colors = currentTheme.colors;
+
+  const [choices, setChoices] = useState<Record<string, Record<string, SyncConflictChoice>>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const getChoices = (conflict: SyncConflict) => choices[conflict.id] || defaultChoices(conflict);
+
+  const setChoice = (conflict: SyncConflict, key: string, choice: SyncConflictChoice) => {
+    setChoices({ ...choices, [conflict.id]: { ...getChoices(conflict), [key]: choice } });
+  };
+
+  const handleResolve = async (conflict: SyncConflict) => {
+    try {
+      setResolvingId(conflict.id);
+      await reconcileService.resolveConflict(conflict.id, getChoices(conflict));
+      if (useSyncStore.getState().conflicts.length === 0) {
+        navigation.goBack();
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to apply your choice. Please try again.');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const renderOption = (conflict: SyncConflict, key: string, choice: SyncConflictChoice, label: string) => {
+    const selected = getChoices(conflict)[key] === choice;
+    return (
+      <TouchableOpacity
+        key={choice}
+        style={[
+          styles.option,
+          { borderColor: colors.border },
+          selected && { backgroundColor: colors.primary, borderColor: colors.primary },
+        ]}
+        onPress={() => setChoice(conflict, key, choice)}
+      >
+        <Text style={[styles.optionLabel, { color: selected ? colors.buttonText : colors.textSecondary }]}>
+          {choice === 'local' ? 'This device' : 'Other device'}
+        </Text>
+        <Text style={[styles.optionValue, { color: selected ? colors.buttonText : colors.text }]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderConflict = (conflict: SyncConflict) => (
+    <View key={conflict.id} style={[styles.card, { backgroundColor: colors.surface }]}>
+      <Text style={[styles.cardTitle, { color: colors.text }]}>{conflict.label}</Text>
+      <Text style={[styles.hint, { color: colors.textSecondary }]}>
+        {conflict.entity === 'portfolio' ? 'Portfolio' : 'Holding'} · found {new Date(conflict.detectedAt).toLocaleString()}
+      </Text>
+
+      {conflict.deletedOnServer ? (
+        <View style={styles.field}>
+          <Text style={[styles.fieldLabel, { color: colors.text }]}>
+            Deleted on another device but changed here
+          </Text>
+          <View style={styles.optionRow}>
+            {renderOption(conflict, 'deleted', 'local', 'Keep it')}
+            {renderOption(conflict, 'deleted', 'server', 'Delete it')}
+          </View>
+        </View>
+      ) : (
+        conflict.fields.map(({ field, local, server }) => (
+          <View key={field} style={styles.field}>
+            <Text style={[styles.fieldLabel, { color: colors.text }]}>{FIELD_LABELS[field] || field}</Text>
+            <View style={styles.optionRow}>
+              {renderOption(conflict, field, 'local', formatValue(field, local))}
+              {renderOption(conflict, field, 'server', formatValue(field, server))}
+            </View>
+          </View>
+        ))
+      )}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, { backgroundColor: colors.primary }, resolvingId !== null && styles.buttonDisabled]}
+        onPress={() => handleResolve(conflict)}
+        disabled={resolvingId !== null}
+      >
+        {resolvingId === conflict.id ? (
+          <ActivityIndicator size="small" color={colors.buttonText} />
+        ) : (
+          <Text style={[styles.primaryButtonText, { color: colors.buttonText }]}>Apply</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]}>
+      <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <Ionicons name="close" size={24} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: colors.text }]}>Sync Conflicts</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {conflicts.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="checkmark-circle-outline" size={48} color={colors.success} />
+            <Text style={[styles.hint, { color: colors.textSecondary }]}>Everything is in sync.</Text>
+          </View>
+        ) : (
+          <>
+            <Text style={[styles.hint, { color: colors.textSecondary }]}>
+              These were changed both here and on another device. Pick which value to keep;
+              changes that didn't overlap have already been merged.
+            </Text>
+            {conflicts.map(renderConflict)}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  placeholder: {
+    width: 24,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 8,
+  },
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  field: {
+    marginTop: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  option: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  optionLabel: {
+    fontSize: 11,
+    fontWeight: '500',
+  },
+  optionValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingVertical: 60,
+  },
+});
+
+export default SyncConflictsScreen;
@@ -0,0 +1,199 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import * as SecureStore from 'expo-secure-store';
+import { useSyncStore } from '../../store/syncStore';
+
+type Handler = (config: InternalAxiosRequestConfig) => { status: number; data?: any; headers?: Record<string, string> };
+
+interface SentRequest {
+  url?: string;
+  authorization?: unknown;
+  ifNoneMatch?: unknown;
+  data?: string;
+}
+
+const mockSecrets = new Map<string, string>();
+// Replays reuse the config object, so what was sent is copied out as it goes
+const mockSent: SentRequest[] = [];
+let mockHandler: Handler = () => ({ status: 200 });
+const mockAdapter = (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  mockSent.push({
+    url: config.url,
+    authorization: config.headers?.Authorization,
+    ifNoneMatch: config.headers?.['If-None-Match'],
+    data: config.data,
+  });
+  const { status, data = {}, headers = {} } = mockHandler(config);
+  const response = { data, status, statusText: '', headers, config };
+  if (config.validateStatus ? config.validateStatus(status) : status >= 200 && status < 300) return Promise.resolve(response);
+  return Promise.reject(new AxiosError(`Request failed with status ${status}`, undefined, config, null, response));
+};
+
+// Both the client and the bare refresh call go through this in place of the network
+axios.defaults.adapter = mockAdapter;
+const APIClient: typeof import('../api').default = require('../api').default;
+
+const REFRESH_URL = 'http://localhost:8080/api/v1/auth/refresh';
+
+const refreshCalls = () => mockSent.filter(request => request.url === REFRESH_URL);
+
+// Portfolio calls need the new token; the refresh endpoint answers with refresh
+const serve = (refresh: Handler): Handler => config =>
+  config.url === REFRESH_URL
+    ? refresh(config)
+    : { status: config.headers?.Authorization === 'Bearer new-access' ? 204 : 401 };
+
+describe('APIClient session refresh', () => {
+  beforeEach(() => {
+    mockSent.length = 0;
+    mockSecrets.clear();
+    mockSecrets.set('authToken', 'old-access');
+    mockSecrets.set('refreshToken', 'refresh-1');
+    (SecureStore.getItemAsync as jest.Mock).mockImplementation(async (key: string) => mockSecrets.get(key) ?? null);
+    (SecureStore.setItemAsync as jest.Mock).mockImplementation(async (key: string, value: string) => {
+      mockSecrets.set(key, value);
+    });
+    (SecureStore.deleteItemAsync as jest.Mock).mockImplementation(async (key: string) => {
+      mockSecrets.delete(key);
+    });
+  });
+
+  it('renews once for requests that fail together and replays each of them', async () => {
+    mockHandler = serve(() => ({ status: 200, data: { token: 'new-access', refresh_token: 'refresh-2' } }));
+
+    await Promise.all([
+      APIClient.deletePortfolio('p1'),
+      APIClient.deletePortfolio('p2'),
+      APIClient.deletePortfolio('p3'),
+    ]);
+
+    expect(refreshCalls()).toHaveLength(1);
+    expect(JSON.parse(refreshCalls()[0].data as string)).toEqual({ refresh_token: 'refresh-1' });
+    expect(mockSecrets.get('authToken')).toBe('new-access');
+    expect(mockSecrets.get('refreshToken')).toBe('refresh-2');
+
+    const replayed = mockSent.filter(request => request.authorization === 'Bearer new-access');
+    expect(replayed.map(request => request.url).sort()).toEqual([
+      '/api/v1/portfolios/p1',
+      '/api/v1/portfolios/p2',
+      '/api/v1/portfolios/p3',
+    ]);
+  });
+
+  it('keeps the refresh token when the server does not rotate it', async () => {
+    mockHandler = serve(() => ({ status: 200, data: { access_token: 'new-access' } }));
+    await APIClient.deletePortfolio('p1');
+    expect(mockSecrets.get('refreshToken')).toBe('refresh-1');
+  });
+
+  it('signs out and reports the expired session once when renewing fails', async () => {
+    mockHandler = serve(() => ({ status: 401 }));
+    const expired = jest.fn();
+    const unsubscribe = APIClient.onSessionExpired(expired);
+
+    const results = await Promise.allSettled([APIClient.deletePortfolio('p1'), APIClient.deletePortfolio('p2')]);
+    unsubscribe();
+
+    results.forEach(result => expect(result).toMatchObject({ status: 'rejected', reason: new Error('Authentication required') }));
+    expect(refreshCalls()).toHaveLength(1);
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(mockSecrets.has('authToken')).toBe(false);
+    expect(mockSecrets.has('refreshToken')).toBe(false);
+  });
+
+  it('treats a refresh response without a token as a failed refresh', async () => {
+    mockHandler = serve(() => ({ status: 200, data: {} }));
+    const expired = jest.fn();
+    const unsubscribe = APIClient.onSessionExpired(expired);
+
+    await expect(APIClient.deletePortfolio('p1')).rejects.toThrow('Authentication required');
+    unsubscribe();
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the refresh outside the client, so its own 401 is not refreshed again', async () => {
+    mockHandler = serve(() => ({ status: 401 }));
+
+    await expect(APIClient.refreshAccessToken()).rejects.toBeInstanceOf(AxiosError);
+    expect(refreshCalls()).toHaveLength(1);
+    // The client's request interceptor would have added the stored token
+    expect(refreshCalls()[0].authorization).toBeUndefined();
+    expect(mockSecrets.get('authToken')).toBe('old-access');
+  });
+
+  it('expires the session without a refresh token to renew it with', async () => {
+    mockSecrets.delete('refreshToken');
+    mockHandler = serve(() => ({ status: 200, data: { token: 'new-access' } }));
+    const expired = jest.fn();
+    const unsubscribe = APIClient.onSessionExpired(expired);
+
+    await expect(APIClient.deletePortfolio('p1')).rejects.toThrow('Authentication required');
+    unsubscribe();
+    expect(refreshCalls()).toHaveLength(0);
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('APIClient sign-in', () => {
+  beforeEach(() => {
+    mockSecrets.clear();
+    mockSecrets.set('refreshToken', 'previous-account');
+  });
+
+  it('drops the previous refresh token when the new session has none', async () => {
+    mockHandler = () => ({ status: 200, data: { user: { id: 1, email: 'sam@example.com' }, token: 'access-1' } });
+    await APIClient.signIn({ email: 'sam@example.com', password: 'secret' });
+
+    expect(mockSecrets.get('authToken')).toBe('access-1');
+    expect(mockSecrets.has('refreshToken')).toBe(false);
+  });
+
+  it('stores the refresh token the new session came with', async () => {
+    mockHandler = () => ({
+      status: 200,
+      data: { user: { id: 1, email: 'sam@example.com' }, token: 'access-1', refresh_token: 'refresh-9' },
+    });
+    await APIClient.signIn({ email: 'sam@example.com', password: 'secret' });
+    expect(mockSecrets.get('refreshToken')).toBe('refresh-9');
+  });
+});
+
+describe('APIClient response cache', () => {
+  beforeEach(() => {
+    mockSent.length = 0;
+    mockSecrets.set('authToken', 'new-access');
+    useSyncStore.setState({ isOnline: true });
+  });
+
+  it('revalidates a stored price with its ETag and keeps it when the server says it is unchanged', async () => {
+    mockHandler = () => ({ status: 200, data: { price: { price: 10, timestamp: '2024-01-01T00:00:00Z' } }, headers: { etag: '"v1"' } });
+    expect(await APIClient.getAssetPrice('etag-asset')).toBe(10);
+
+    mockHandler = () => ({ status: 304 });
+    expect(await APIClient.getAssetPrice('etag-asset')).toBe(10);
+    expect(mockSent.map(request => request.ifNoneMatch)).toEqual([undefined, '"v1"']);
+  });
+
+  it('answers from a fresh copy without asking the server', async () => {
+    mockHandler = () => ({ status: 200, data: { articles: [] } });
+    await APIClient.getNewsByCategory('crypto');
+    await APIClient.getNewsByCategory('crypto');
+    expect(mockSent).toHaveLength(1);
+  });
+
+  it('serves the stored copy while offline', async () => {
+    mockHandler = () => ({ status: 200, data: { price: { price: 12, timestamp: '2024-01-01T00:00:00Z' } } });
+    await APIClient.getAssetPrice('offline-asset');
+
+    useSyncStore.setState({ isOnline: false });
+    mockHandler = () => ({ status: 500 });
+    expect(await APIClient.getAssetPrice('offline-asset')).toBe(12);
+    expect(mockSent).toHaveLength(1);
+  });
+
+  it('never stores a response marked no-store', async () => {
+    mockHandler = () => ({ status: 200, data: { price: { price: 14, timestamp: '2024-01-01T00:00:00Z' } }, headers: { 'cache-control': 'no-store', etag: '"v1"' } });
+    await APIClient.getAssetPrice('private-asset');
+    await APIClient.getAssetPrice('private-asset');
+    expect(mockSent.map(request => request.ifNoneMatch)).toEqual([undefined, undefined]);
+  });
+});
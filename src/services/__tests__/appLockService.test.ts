@@ -0,0 +1,146 @@
+import { AppState, AppStateStatus } from 'react-native';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { appLockService } from '../appLockService';
+import { useAppLockStore } from '../../store/appLockStore';
+
+// Hex like the real digest, so it reads back the same way
+const mockDigest = (data: string) => Array.from(data, char => char.charCodeAt(0).toString(16)).join('');
+
+jest.mock('expo-crypto', () => ({
+  CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+  randomUUID: () => 'salt',
+  digestStringAsync: async (_algorithm: string, data: string) => mockDigest(data),
+}));
+
+jest.mock('expo-local-authentication', () => ({
+  AuthenticationType: { FINGERPRINT: 1, FACIAL_RECOGNITION: 2, IRIS: 3 },
+  hasHardwareAsync: jest.fn(),
+  isEnrolledAsync: jest.fn(),
+  supportedAuthenticationTypesAsync: jest.fn(),
+  authenticateAsync: jest.fn(),
+}));
+
+const initialState = useAppLockStore.getState();
+const lock = () => useAppLockStore.getState();
+const secrets = new Map<string, string>();
+
+describe('appLockService', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    secrets.clear();
+    (SecureStore.getItemAsync as jest.Mock).mockImplementation(async (key: string) => secrets.get(key) ?? null);
+    (SecureStore.setItemAsync as jest.Mock).mockImplementation(async (key: string, value: string) => {
+      secrets.set(key, value);
+    });
+    (SecureStore.deleteItemAsync as jest.Mock).mockImplementation(async (key: string) => {
+      secrets.delete(key);
+    });
+    useAppLockStore.setState(initialState, true);
+    await appLockService.setPin('123456');
+    lock().lock();
+  });
+
+  describe('PIN', () => {
+    it('turns the lock on and keeps only a salted hash', () => {
+      expect(lock().isEnabled).toBe(true);
+      expect(secrets.get('appLockPin')).toBe(`salt:${mockDigest('salt:123456')}`);
+    });
+
+    it('only accepts PINs of the configured length', async () => {
+      await expect(appLockService.setPin('1234')).rejects.toThrow('The PIN must be 6 digits');
+      await expect(appLockService.setPin('12345a')).rejects.toThrow('The PIN must be 6 digits');
+    });
+
+    it('unlocks with the right PIN and counts wrong ones', async () => {
+      expect(await appLockService.checkPin('000000')).toEqual({ ok: false, attemptsLeft: 4 });
+      expect(lock()).toMatchObject({ isLocked: true, failedAttempts: 1 });
+
+      expect(await appLockService.checkPin('123456')).toEqual({ ok: true, attemptsLeft: 5 });
+      expect(lock()).toMatchObject({ isLocked: false, failedAttempts: 0 });
+    });
+
+    it('blocks entry for a while after too many wrong PINs, even the right one', async () => {
+      const now = Date.now();
+      for (let i = 0; i < 4; i++) await appLockService.checkPin('000000');
+      const result = await appLockService.checkPin('000000');
+
+      expect(result).toMatchObject({ ok: false, attemptsLeft: 0 });
+      expect(result.lockedUntil).toBeGreaterThanOrEqual(now + 30000);
+      expect(await appLockService.checkPin('123456')).toMatchObject({ ok: false, lockedUntil: result.lockedUntil });
+      expect(lock().isLocked).toBe(true);
+
+      useAppLockStore.setState({ lockedOutUntil: Date.now() - 1 });
+      expect(await appLockService.checkPin('123456')).toMatchObject({ ok: true });
+    });
+
+    it('forgets the PIN when the lock is turned off', async () => {
+      await appLockService.disable();
+      expect(secrets.has('appLockPin')).toBe(false);
+      expect(lock()).toMatchObject({ isEnabled: false, isLocked: false });
+    });
+  });
+
+  describe('biometrics', () => {
+    it('unlocks only when turned on and the check passes', async () => {
+      (LocalAuthentication.authenticateAsync as jest.Mock).mockResolvedValue({ success: true });
+      expect(await appLockService.unlockWithBiometrics()).toBe(false);
+      expect(LocalAuthentication.authenticateAsync).not.toHaveBeenCalled();
+
+      lock().setUseBiometrics(true);
+      expect(await appLockService.unlockWithBiometrics()).toBe(true);
+      expect(lock().isLocked).toBe(false);
+    });
+
+    it('stays locked when the check is cancelled', async () => {
+      (LocalAuthentication.authenticateAsync as jest.Mock).mockResolvedValue({ success: false });
+      lock().setUseBiometrics(true);
+      expect(await appLockService.unlockWithBiometrics()).toBe(false);
+      expect(lock().isLocked).toBe(true);
+    });
+  });
+
+  describe('auto-lock', () => {
+    let changeApp: (state: AppStateStatus) => void;
+    let stop: () => void;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(AppState, 'addEventListener').mockImplementation((_type, listener) => {
+        changeApp = listener as (state: AppStateStatus) => void;
+        return { remove: jest.fn() } as any;
+      });
+      stop = appLockService.start();
+      lock().unlock();
+      lock().setAutoLockAfter(60000);
+    });
+
+    afterEach(() => {
+      stop();
+      jest.restoreAllMocks();
+      jest.useRealTimers();
+    });
+
+    it('stays unlocked after a short trip to the background', () => {
+      changeApp('background');
+      jest.advanceTimersByTime(30000);
+      changeApp('active');
+      expect(lock().isLocked).toBe(false);
+    });
+
+    it('locks once the app has been away longer than the timeout', () => {
+      changeApp('background');
+      jest.advanceTimersByTime(60000);
+      changeApp('active');
+      expect(lock()).toMatchObject({ isLocked: true, backgroundedAt: null });
+    });
+
+    it('leaves the app alone while the lock is off', () => {
+      lock().setEnabled(false);
+      changeApp('background');
+      jest.advanceTimersByTime(120000);
+      changeApp('active');
+      expect(lock().isLocked).toBe(false);
+    });
+  });
+});
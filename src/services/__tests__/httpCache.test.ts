@@ -0,0 +1,104 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { HttpCacheEntry } from '../../types';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(async (key: string) => mockStorage.get(key) ?? null),
+  setItem: jest.fn(async (key: string, value: string) => {
+    mockStorage.set(key, value);
+  }),
+  getAllKeys: jest.fn(async () => Array.from(mockStorage.keys())),
+  multiGet: jest.fn(async (keys: string[]) => keys.map(key => [key, mockStorage.get(key) ?? null])),
+  multiRemove: jest.fn(async (keys: string[]) => {
+    keys.forEach(key => mockStorage.delete(key));
+  }),
+}));
+
+type Cache = typeof import('../httpCache').httpCache;
+
+// A fresh cache each time, so what it has already read doesn't carry over
+const load = (): Cache => {
+  let cache = {} as Cache;
+  jest.isolateModules(() => {
+    cache = require('../httpCache').httpCache;
+  });
+  return cache;
+};
+
+const entry = (storedAt: number, data: unknown = {}): HttpCacheEntry => ({ data, storedAt });
+
+const policy = { maxAgeMs: 1000, staleWhileRevalidateMs: 5000, staleIfErrorMs: 60000 };
+
+describe('httpCache', () => {
+  beforeEach(() => {
+    mockStorage.clear();
+    jest.clearAllMocks();
+  });
+
+  describe('getPolicy', () => {
+    it('caches market data and news but never account data', () => {
+      const cache = load();
+      expect(cache.getPolicy('/api/v1/assets/AAPL/candles')).toMatchObject({ maxAgeMs: 60000 });
+      expect(cache.getPolicy('/api/v1/news/category/crypto')).not.toBeNull();
+      expect(cache.getPolicy('/api/v1/market')).toMatchObject({ maxAgeMs: 0 });
+      expect(cache.getPolicy('/api/v1/portfolios')).toBeNull();
+      expect(cache.getPolicy('/api/v1/alerts')).toBeNull();
+    });
+  });
+
+  describe('getState', () => {
+    it('goes from fresh to stale to expired as the copy ages', () => {
+      const cache = load();
+      expect(cache.getState(entry(0), policy, 999)).toBe('fresh');
+      expect(cache.getState(entry(0), policy, 1000)).toBe('stale');
+      expect(cache.getState(entry(0), policy, 5999)).toBe('stale');
+      expect(cache.getState(entry(0), policy, 6000)).toBe('expired');
+    });
+  });
+
+  it('reads back what an earlier run stored, skipping corrupt entries', async () => {
+    mockStorage.set('http_cache:a', JSON.stringify(entry(1, 'first')));
+    mockStorage.set('http_cache:b', 'not json');
+    mockStorage.set('other', JSON.stringify(entry(1)));
+    const cache = load();
+
+    expect(await cache.get('a')).toEqual(entry(1, 'first'));
+    expect(await cache.get('b')).toBeNull();
+    expect(AsyncStorage.getAllKeys).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the least recently used response once full', async () => {
+    mockStorage.set('http_cache:a', JSON.stringify(entry(1)));
+    mockStorage.set('http_cache:b', JSON.stringify(entry(2)));
+    const cache = load();
+    // Reading `a` makes `b` the oldest
+    await cache.get('a');
+
+    for (let i = 0; i < 99; i++) await cache.set(`new-${i}`, entry(3));
+
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('a')).not.toBeNull();
+    expect(mockStorage.has('http_cache:b')).toBe(false);
+  });
+
+  it('marks a copy the server confirmed as current again', async () => {
+    const cache = load();
+    await cache.set('a', { data: 'x', etag: '"v1"', storedAt: 0 });
+    await cache.touch('a');
+
+    const touched = await cache.get('a');
+    expect(touched).toMatchObject({ data: 'x', etag: '"v1"' });
+    expect(touched!.storedAt).toBeGreaterThan(0);
+  });
+
+  it('clears only its own keys', async () => {
+    mockStorage.set('other', 'kept');
+    const cache = load();
+    await cache.set('a', entry(1));
+    await cache.clear();
+
+    expect(await cache.get('a')).toBeNull();
+    expect(Array.from(mockStorage.keys())).toEqual(['other']);
+  });
+});
@@ -0,0 +1,124 @@
+import { getMarketDataProvider, fixtureProvider, csvReplayProvider } from '../marketData';
+import { useMarketDataStore } from '../../store/marketDataStore';
+import { useBackendStore } from '../../store/backendStore';
+
+const initialMarketData = useMarketDataStore.getState();
+const initialBackend = useBackendStore.getState();
+const marketData = () => useMarketDataStore.getState();
+
+const REPLAY_CSV = [
+  'date,symbol,close',
+  '2024-01-02,AAPL,100',
+  '2024-01-03,AAPL,110',
+  '2024-01-04,AAPL,99',
+].join('\n');
+
+describe('getMarketDataProvider', () => {
+  beforeEach(() => {
+    useMarketDataStore.setState(initialMarketData, true);
+    useBackendStore.setState(initialBackend, true);
+  });
+
+  afterAll(() => csvReplayProvider.clear());
+
+  it('uses the backend unless another source was picked', () => {
+    useBackendStore.setState({ isOfflineMode: false });
+    expect(getMarketDataProvider().id).toBe('backend');
+
+    marketData().setProvider('fixture');
+    expect(getMarketDataProvider()).toBe(fixtureProvider);
+  });
+
+  it('stands fixtures in for the backend in offline mode', () => {
+    useBackendStore.setState({ isOfflineMode: true });
+    expect(getMarketDataProvider()).toBe(fixtureProvider);
+  });
+
+  it('only replays once a price history file is loaded', () => {
+    expect(() => marketData().setProvider('csv-replay')).toThrow('Load a price history file');
+
+    expect(marketData().loadReplay(REPLAY_CSV)).toEqual([]);
+    marketData().setProvider('csv-replay');
+    // Offline mode only stands in for the backend
+    useBackendStore.setState({ isOfflineMode: true });
+    expect(getMarketDataProvider()).toBe(csvReplayProvider);
+
+    marketData().clearReplay();
+    expect(getMarketDataProvider()).toBe(fixtureProvider);
+  });
+});
+
+describe('fixtureProvider', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-03-01T15:30:00Z'));
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('prices the same symbol the same at the same time', async () => {
+    const first = await fixtureProvider.getQuotes(['AAPL', 'unknown']);
+    const second = await fixtureProvider.getQuotes(['aapl', 'UNKNOWN']);
+
+    expect(second).toEqual(first);
+    expect(first[0].price).toBeGreaterThan(173.5 * 0.8);
+    expect(first[0].price).toBeLessThan(173.5 * 1.2);
+    expect(first[1].price).toBeGreaterThan(0);
+  });
+
+  it('moves prices as the clock moves', async () => {
+    const [before] = await fixtureProvider.getQuotes(['MSFT']);
+    jest.setSystemTime(new Date('2024-03-01T18:30:00Z'));
+    const [after] = await fixtureProvider.getQuotes(['MSFT']);
+    expect(after.price).not.toBe(before.price);
+  });
+
+  it('draws the same candles for the same range', async () => {
+    const from = new Date('2024-02-01T00:00:00Z');
+    const to = new Date('2024-03-01T00:00:00Z');
+    const first = await fixtureProvider.getCandles('AAPL', '1d', from, to);
+
+    expect(first).toHaveLength(29);
+    expect(await fixtureProvider.getCandles('AAPL', '1d', from, to)).toEqual(first);
+    first.forEach(candle => {
+      expect(candle.high).toBeGreaterThanOrEqual(Math.max(candle.open, candle.close));
+      expect(candle.low).toBeLessThanOrEqual(Math.min(candle.open, candle.close));
+    });
+  });
+
+  it('keeps exchange rates below one to more than cents', async () => {
+    const [lira] = await fixtureProvider.getQuotes(['TRYUSD']);
+    expect(lira.price).toBeGreaterThan(0.02);
+    expect(lira.price).toBeLessThan(0.04);
+    expect(lira.price).not.toBe(Math.round(lira.price * 100) / 100);
+  });
+});
+
+describe('csvReplayProvider', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-06-01T00:00:00Z'));
+    useMarketDataStore.setState(initialMarketData, true);
+    marketData().loadReplay(REPLAY_CSV);
+  });
+
+  afterEach(() => {
+    csvReplayProvider.clear();
+    jest.useRealTimers();
+  });
+
+  it('steps through the file a date at a time and loops at the end', async () => {
+    const price = async () => (await csvReplayProvider.getQuotes(['AAPL']))[0].price;
+
+    expect(await price()).toBe(100);
+    jest.advanceTimersByTime(10000);
+    expect(await price()).toBe(110);
+    expect((await csvReplayProvider.getQuotes(['AAPL']))[0].change).toBe(10);
+    jest.advanceTimersByTime(20000);
+    expect(await price()).toBe(100);
+  });
+
+  it('leaves out symbols the file has no prices for', async () => {
+    expect(await csvReplayProvider.getQuotes(['AAPL', 'MSFT'])).toHaveLength(1);
+  });
+});
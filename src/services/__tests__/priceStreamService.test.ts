@@ -0,0 +1,200 @@
+import { MarketData } from '../../types';
+
+const mockGetQuotes = jest.fn();
+const mockApplyLiveQuotes = jest.fn();
+
+jest.mock('../api', () => ({
+  __esModule: true,
+  default: {
+    getAccessToken: jest.fn().mockResolvedValue('token'),
+    getBaseUrl: () => 'https://api.example.com',
+  },
+}));
+
+jest.mock('../quoteService', () => ({
+  quoteService: { getQuotes: (symbols: string[]) => mockGetQuotes(symbols) },
+}));
+
+jest.mock('../../store/portfolioStore', () => ({
+  usePortfolioStore: { getState: () => ({ applyLiveQuotes: mockApplyLiveQuotes }) },
+}));
+
+type Modules = {
+  priceStreamService: typeof import('../priceStreamService').priceStreamService;
+  localQuoteServer: typeof import('../localQuoteServer').localQuoteServer;
+  useQuoteStore: typeof import('../../store/quoteStore').useQuoteStore;
+};
+
+// Fresh singletons for every test, so no connection or subscription leaks between them
+const load = (): Modules => {
+  let modules = {} as Modules;
+  jest.isolateModules(() => {
+    modules = {
+      priceStreamService: require('../priceStreamService').priceStreamService,
+      localQuoteServer: require('../localQuoteServer').localQuoteServer,
+      useQuoteStore: require('../../store/quoteStore').useQuoteStore,
+    };
+  });
+  return modules;
+};
+
+const quote = (symbol: string, price: number): MarketData => ({
+  symbol,
+  price,
+  change: 0,
+  changePercent: 0,
+  volume: 0,
+});
+
+describe('priceStreamService against the local quote server', () => {
+  let stream: Modules['priceStreamService'];
+  let server: Modules['localQuoteServer'];
+  let quotes: Modules['useQuoteStore'];
+  let stop: () => void;
+
+  const status = () => quotes.getState().status;
+  const priceOf = (symbol: string) => quotes.getState().quotes[symbol]?.price;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // Ticks leave prices where they are, so only setPrice moves them
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    mockGetQuotes.mockReset();
+    mockApplyLiveQuotes.mockReset();
+
+    ({ priceStreamService: stream, localQuoteServer: server, useQuoteStore: quotes } = load());
+    stream.configure({
+      createSocket: server.connect,
+      reconnect: { retries: 3, baseDelayMs: 1000, maxDelayMs: 1000 },
+      pollIntervalMs: 5000,
+      flushIntervalMs: 10,
+    });
+    stop = stream.start();
+  });
+
+  afterEach(() => {
+    stop();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('connects for the first subscriber and passes quotes to the stores', async () => {
+    server.setPrice('AAPL', 123);
+    stream.subscribe(['aapl']);
+    await jest.advanceTimersByTimeAsync(50);
+
+    expect(server.connectionCount).toBe(1);
+    expect(status()).toBe('live');
+    expect(priceOf('AAPL')).toBe(123);
+    expect(mockApplyLiveQuotes).toHaveBeenCalledWith({ AAPL: expect.objectContaining({ price: 123 }) });
+
+    server.setPrice('AAPL', 125);
+    await jest.advanceTimersByTimeAsync(50);
+    expect(priceOf('AAPL')).toBe(125);
+  });
+
+  it('stops sending symbols nobody watches and disconnects when nothing is left', async () => {
+    const unsubscribeApple = stream.subscribe(['AAPL']);
+    const unsubscribeBoth = stream.subscribe(['AAPL', 'MSFT']);
+    await jest.advanceTimersByTimeAsync(50);
+
+    // Apple is still watched by the first subscriber
+    unsubscribeBoth();
+    server.setPrice('AAPL', 200);
+    server.setPrice('MSFT', 300);
+    await jest.advanceTimersByTimeAsync(50);
+    expect(stream.getSymbols()).toEqual(['AAPL']);
+    expect(priceOf('AAPL')).toBe(200);
+    expect(priceOf('MSFT')).not.toBe(300);
+
+    unsubscribeApple();
+    await jest.advanceTimersByTimeAsync(50);
+    expect(server.connectionCount).toBe(0);
+    expect(status()).toBe('idle');
+  });
+
+  it('reconnects after the connection drops and picks the subscription back up', async () => {
+    stream.subscribe(['AAPL']);
+    await jest.advanceTimersByTimeAsync(50);
+
+    server.dropConnections();
+    await jest.advanceTimersByTimeAsync(10);
+    expect(server.connectionCount).toBe(0);
+    expect(status()).toBe('connecting');
+
+    // Backoff holds off the first retry for the base delay
+    await jest.advanceTimersByTimeAsync(900);
+    expect(server.connectionCount).toBe(0);
+
+    await jest.advanceTimersByTimeAsync(200);
+    expect(server.connectionCount).toBe(1);
+    expect(status()).toBe('live');
+
+    server.setPrice('AAPL', 150);
+    await jest.advanceTimersByTimeAsync(50);
+    expect(priceOf('AAPL')).toBe(150);
+  });
+
+  it('polls while connections keep failing and hands back to the stream once it returns', async () => {
+    mockGetQuotes.mockResolvedValue({ AAPL: quote('AAPL', 99) });
+    server.refuseConnections(true);
+    stream.subscribe(['AAPL']);
+
+    await jest.advanceTimersByTimeAsync(50);
+    expect(status()).toBe('connecting');
+    expect(mockGetQuotes).not.toHaveBeenCalled();
+
+    // The third failure in a row falls back to polling
+    await jest.advanceTimersByTimeAsync(2100);
+    expect(status()).toBe('polling');
+    expect(mockGetQuotes).toHaveBeenCalledWith(['AAPL']);
+    expect(priceOf('AAPL')).toBe(99);
+
+    server.refuseConnections(false);
+    server.setPrice('AAPL', 101);
+    await jest.advanceTimersByTimeAsync(1100);
+    expect(server.connectionCount).toBe(1);
+    expect(status()).toBe('live');
+    expect(priceOf('AAPL')).toBe(101);
+
+    // Polling stopped with the stream back
+    const polls = mockGetQuotes.mock.calls.length;
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(mockGetQuotes).toHaveBeenCalledTimes(polls);
+  });
+
+  it('gives up on a connection that never opens and tries again', async () => {
+    const createSocket = jest.fn(server.connect);
+    stream.configure({ createSocket, connectTimeoutMs: 3000 });
+    server.hangConnections(true);
+    stream.subscribe(['AAPL']);
+
+    await jest.advanceTimersByTimeAsync(2900);
+    expect(createSocket).toHaveBeenCalledTimes(1);
+    expect(status()).toBe('connecting');
+
+    // Timed out at 3s, retried after the 1s backoff
+    server.hangConnections(false);
+    await jest.advanceTimersByTimeAsync(1200);
+    expect(createSocket).toHaveBeenCalledTimes(2);
+    expect(server.connectionCount).toBe(1);
+    expect(status()).toBe('live');
+  });
+
+  it('drops frames it cannot read without losing the connection', async () => {
+    stream.subscribe(['AAPL']);
+    await jest.advanceTimersByTimeAsync(50);
+    const warn = console.warn as jest.Mock;
+    warn.mockClear();
+
+    const socket = (stream as any).socket;
+    socket.onmessage({ data: 'not json' });
+    socket.onmessage({ data: JSON.stringify({ type: 'quotes', data: [{ symbol: 'AAPL' }] }) });
+
+    expect(warn).toHaveBeenCalledTimes(2);
+    server.setPrice('AAPL', 111);
+    await jest.advanceTimersByTimeAsync(50);
+    expect(priceOf('AAPL')).toBe(111);
+    expect(status()).toBe('live');
+  });
+});
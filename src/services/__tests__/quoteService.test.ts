@@ -0,0 +1,66 @@
+import { MarketData } from '../../types';
+import { quoteService } from '../quoteService';
+
+const mockGetQuotes = jest.fn();
+
+jest.mock('../marketData', () => ({
+  getMarketDataProvider: () => ({ getQuotes: mockGetQuotes }),
+}));
+
+const quote = (symbol: string, price: number, timestamp?: string): MarketData => ({
+  symbol,
+  price,
+  change: 0,
+  changePercent: 0,
+  volume: 0,
+  timestamp,
+});
+
+const symbols = (count: number) => Array.from({ length: count }, (_, i) => `S${i}`);
+
+describe('quoteService', () => {
+  beforeEach(() => {
+    mockGetQuotes.mockReset();
+    mockGetQuotes.mockImplementation(async (chunk: string[]) => chunk.map(symbol => quote(symbol, 1)));
+  });
+
+  it('asks once per symbol, in chunks of fifty', async () => {
+    const quotes = await quoteService.getQuotes([...symbols(120), 's0', ' S1 ', '']);
+
+    expect(mockGetQuotes.mock.calls.map(([chunk]) => chunk.length)).toEqual([50, 50, 20]);
+    expect(Object.keys(quotes)).toHaveLength(120);
+  });
+
+  it('keys quotes by upper-case symbol and stamps those without a time', async () => {
+    mockGetQuotes.mockResolvedValue([quote('aapl', 10), quote('MSFT', 20, '2024-01-01T00:00:00.000Z')]);
+    const quotes = await quoteService.getQuotes(['aapl', 'msft']);
+
+    expect(quotes.AAPL.timestamp).toEqual(expect.any(String));
+    expect(quotes.MSFT.timestamp).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('leaves out quotes without a price', async () => {
+    mockGetQuotes.mockResolvedValue([quote('AAPL', 0), quote('MSFT', 20)]);
+    expect(Object.keys(await quoteService.getQuotes(['AAPL', 'MSFT']))).toEqual(['MSFT']);
+  });
+
+  it('keeps the chunks that came back when another fails', async () => {
+    mockGetQuotes
+      .mockRejectedValueOnce(new Error('Timed out'))
+      .mockImplementation(async (chunk: string[]) => chunk.map(symbol => quote(symbol, 1)));
+
+    const quotes = await quoteService.getQuotes(symbols(60));
+    expect(Object.keys(quotes)).toHaveLength(10);
+    expect(quotes.S50).toBeDefined();
+  });
+
+  it('fails when every chunk fails', async () => {
+    mockGetQuotes.mockRejectedValue(new Error('Offline'));
+    await expect(quoteService.getQuotes(symbols(60))).rejects.toThrow('Offline');
+  });
+
+  it('asks for nothing without symbols', async () => {
+    expect(await quoteService.getQuotes([' ', ''])).toEqual({});
+    expect(mockGetQuotes).not.toHaveBeenCalled();
+  });
+});
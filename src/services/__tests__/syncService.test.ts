@@ -0,0 +1,161 @@
+import APIClient from '../api';
+import { syncService } from '../syncService';
+import { useSyncStore } from '../../store/syncStore';
+import { useAuthStore } from '../../store/authStore';
+import { syncBaseKey } from '../../utils/reconcile';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => () => undefined),
+}));
+
+jest.mock('../api', () => ({
+  __esModule: true,
+  default: {
+    createPortfolio: jest.fn(),
+    updatePortfolio: jest.fn(),
+    deletePortfolio: jest.fn(),
+    addAssetToPortfolio: jest.fn(),
+    updateAsset: jest.fn(),
+    deleteAsset: jest.fn(),
+    createAlert: jest.fn(),
+    updateAlert: jest.fn(),
+    deleteAlert: jest.fn(),
+  },
+}));
+
+const api = APIClient as jest.Mocked<typeof APIClient>;
+const initialSync = useSyncStore.getState();
+const sync = () => useSyncStore.getState();
+
+// What the client throws for an HTTP error
+const httpError = (status: number) => Object.assign(new Error(`Request failed with status ${status}`), { response: { status } });
+
+const signIn = () => useAuthStore.setState({ isAuthenticated: true, isGuest: false });
+
+describe('syncService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useSyncStore.setState(initialSync, true);
+    signIn();
+  });
+
+  describe('sending', () => {
+    beforeEach(() => {
+      sync().enqueue({ entity: 'alert', operation: 'delete', entityId: 'a1' });
+    });
+
+    it('holds everything while offline', async () => {
+      sync().setOnline(false);
+      await syncService.flush();
+      expect(api.deleteAlert).not.toHaveBeenCalled();
+    });
+
+    it('holds a guest\'s changes until there is an account', async () => {
+      useAuthStore.setState({ isAuthenticated: false, isGuest: true });
+      await syncService.flush();
+      expect(api.deleteAlert).not.toHaveBeenCalled();
+      expect(sync().queue).toHaveLength(1);
+    });
+
+    it('holds changes while data from before sign-in is being migrated', async () => {
+      sync().setMigrationPending(true);
+      await syncService.flush();
+      expect(api.deleteAlert).not.toHaveBeenCalled();
+
+      sync().setMigrationPending(false);
+      await syncService.flush();
+      expect(api.deleteAlert).toHaveBeenCalledWith('a1');
+      expect(sync().queue).toEqual([]);
+    });
+  });
+
+  it('sends later changes to the id the server gave a new portfolio', async () => {
+    api.createPortfolio.mockResolvedValue({ id: 'server-p1', name: 'Main', baseCurrency: 'USD' } as any);
+    api.addAssetToPortfolio.mockResolvedValue({ id: 'server-h1', ticker: 'AAPL', quantity: 2, averagePrice: 100, version: 1 } as any);
+    api.updateAsset.mockResolvedValue({ id: 'server-h1', ticker: 'AAPL', quantity: 5, averagePrice: 100, version: 2 } as any);
+
+    sync().enqueue({ entity: 'portfolio', operation: 'create', entityId: 'local-p1', payload: { name: 'Main', baseCurrency: 'USD' } });
+    sync().enqueue({
+      entity: 'holding',
+      operation: 'create',
+      entityId: 'local-h1',
+      portfolioId: 'local-p1',
+      payload: { ticker: 'AAPL', quantity: 2, averagePrice: 100 },
+    });
+    await syncService.flush();
+
+    sync().enqueue({
+      entity: 'holding',
+      operation: 'update',
+      entityId: 'local-h1',
+      portfolioId: 'local-p1',
+      payload: { quantity: 5, averagePrice: 100 },
+    });
+    await syncService.flush();
+
+    expect(api.addAssetToPortfolio).toHaveBeenCalledWith('server-p1', 'AAPL', 2, 100);
+    expect(api.updateAsset).toHaveBeenCalledWith('server-p1', 'server-h1', 5, 100, 1);
+    expect(sync().idMap).toEqual({ 'local-p1': 'server-p1', 'local-h1': 'server-h1' });
+    expect(sync().bases[syncBaseKey('holding', 'server-h1')]).toMatchObject({ version: 2, fields: { quantity: 5 } });
+  });
+
+  it('follows a portfolio create with its own settings when the server starts it on defaults', async () => {
+    api.createPortfolio.mockResolvedValue({ id: 'server-p1', name: 'Main', baseCurrency: 'USD', costBasisMethod: 'fifo' } as any);
+    api.updatePortfolio.mockResolvedValue({ id: 'server-p1', name: 'Main', baseCurrency: 'EUR', costBasisMethod: 'fifo' } as any);
+
+    sync().enqueue({
+      entity: 'portfolio',
+      operation: 'create',
+      entityId: 'local-p1',
+      payload: { name: 'Main', baseCurrency: 'EUR', costBasisMethod: 'fifo' },
+    });
+    await syncService.flush();
+
+    expect(api.updatePortfolio).toHaveBeenCalledWith('server-p1', { baseCurrency: 'EUR' }, undefined);
+    expect(sync().queue).toEqual([]);
+  });
+
+  it('holds a change the server rejects as out of date and carries on with the rest', async () => {
+    api.updateAlert.mockRejectedValue(httpError(409));
+    sync().enqueue({ entity: 'alert', operation: 'update', entityId: 'a1', payload: { targetPrice: 10 } });
+    sync().enqueue({ entity: 'alert', operation: 'delete', entityId: 'a2' });
+    await syncService.flush();
+
+    expect(api.deleteAlert).toHaveBeenCalledWith('a2');
+    expect(sync().queue).toEqual([expect.objectContaining({ entityId: 'a1', failed: true, lastError: 'Changed on another device' })]);
+    expect(sync().getStatus('a1')).toBe('failed');
+  });
+
+  it('counts deleting something the server no longer has as done', async () => {
+    api.deleteAsset.mockRejectedValue(httpError(404));
+    useSyncStore.setState({ bases: { [syncBaseKey('holding', 'h1')]: { fields: {} } } });
+    sync().enqueue({ entity: 'holding', operation: 'delete', entityId: 'h1', portfolioId: 'p1' });
+    await syncService.flush();
+
+    expect(sync().queue).toEqual([]);
+    expect(sync().bases).toEqual({});
+  });
+
+  it('backs off after a failure it can retry, keeping later changes behind it', async () => {
+    api.deleteAlert.mockRejectedValueOnce(httpError(503));
+    sync().enqueue({ entity: 'alert', operation: 'delete', entityId: 'a1' });
+    sync().enqueue({ entity: 'alert', operation: 'delete', entityId: 'a2' });
+
+    const now = Date.now();
+    await syncService.flush();
+
+    expect(api.deleteAlert).toHaveBeenCalledTimes(1);
+    const [first] = sync().queue;
+    expect(first).toMatchObject({ entityId: 'a1', attempts: 1, failed: false });
+    expect(first.nextAttemptAt).toBeGreaterThanOrEqual(now + 2000);
+    expect(sync().queue).toHaveLength(2);
+  });
+
+  it('gives up at once on errors a retry would repeat', async () => {
+    api.deleteAlert.mockRejectedValueOnce(httpError(400));
+    sync().enqueue({ entity: 'alert', operation: 'delete', entityId: 'a1' });
+    await syncService.flush();
+
+    expect(sync().queue[0]).toMatchObject({ failed: true, attempts: 1 });
+  });
+});
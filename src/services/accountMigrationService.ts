@@ -0,0 +1,252 @@
+import APIClient from './api';
+import { syncService } from './syncService';
+import { useAuthStore } from '../store/authStore';
+import { usePortfolioStore } from '../store/portfolioStore';
+import { useAlertStore } from '../store/alertStore';
+import { useSyncStore } from '../store/syncStore';
+import {
+  AccountMigrationPreview,
+  AccountMigrationResult,
+  Asset,
+  MigrationPortfolio,
+  MigrationPortfolioChoice,
+  Portfolio,
+  PriceAlert,
+  SyncBaseRecord,
+} from '../types';
+import { buildMigrationPreview, combineHoldings, findLocalOnlyData, hasLocalOnlyData, LocalOnlyData } from '../utils/accountMigration';
+import {
+  createEmptyPlan,
+  HOLDING_SYNC_FIELDS,
+  PORTFOLIO_SYNC_FIELDS,
+  pickFields,
+  ReconcilePlan,
+  syncBaseKey,
+  toSyncBase,
+} from '../utils/reconcile';
+
+const readLocalData = (): LocalOnlyData => {
+  const { portfolios, assets, currentPortfolioId } = usePortfolioStore.getState();
+  const { queue, bases, resolveId } = useSyncStore.getState();
+  return findLocalOnlyData({
+    portfolios: portfolios.map(p => (p.id === currentPortfolioId ? { ...p, assets } : p)),
+    alerts: useAlertStore.getState().alerts,
+    queue,
+    bases,
+    resolveId,
+  });
+};
+
+/**
+ * Moves portfolios, holdings and alerts made without an account (or before
+ * signing in on this device) into the signed-in account. The sync queue is
+ * held from sign-in until the upload is done or the data is kept local, so
+ * the guest's queued changes never go out on their own.
+ */
+class AccountMigrationService {
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Watch for sign-ins that leave data here the account doesn't have.
+   * Returns a function that stops watching.
+   */
+  start(): () => void {
+    if (!this.unsubscribe) {
+      this.unsubscribe = useAuthStore.subscribe((state, previous) => {
+        // Reading the saved session back at launch isn't a sign-in
+        if (!useAuthStore.persist.hasHydrated()) return;
+
+        if (state.isAuthenticated && !previous.isAuthenticated) {
+          if (this.hasLocalData()) useSyncStore.getState().setMigrationPending(true);
+        } else if (!state.isAuthenticated && previous.isAuthenticated) {
+          useSyncStore.getState().setMigrationPending(false);
+        }
+      });
+    }
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  hasLocalData(): boolean {
+    return hasLocalOnlyData(readLocalData());
+  }
+
+  /**
+   * Bring the upload screen back for data that was kept on the device before
+   */
+  offer(): void {
+    useSyncStore.getState().setMigrationPending(true);
+  }
+
+  /**
+   * What would be uploaded, lined up against the account's current portfolios
+   */
+  async preview(): Promise<AccountMigrationPreview> {
+    const server = await APIClient.getPortfolios({ cache: 'no-cache' });
+    return buildMigrationPreview(readLocalData(), server, useSyncStore.getState().resolveId);
+  }
+
+  /**
+   * Upload the chosen portfolios with their holdings, and the alerts if
+   * asked, then switch the local copies over to the server's ids. Each
+   * portfolio is settled here as soon as it's done, so after a failure only
+   * what's left shows up in the next preview.
+   */
+  async migrate(
+    preview: AccountMigrationPreview,
+    choices: MigrationPortfolioChoice[],
+    includeAlerts: boolean
+  ): Promise<AccountMigrationResult> {
+    const result: AccountMigrationResult = { portfolios: 0, holdings: 0, alerts: 0 };
+
+    for (const entry of preview.portfolios) {
+      const choice = choices.find(c => c.portfolioId === entry.portfolio.id);
+      if (!choice?.include) continue;
+
+      result.holdings += await this.migratePortfolio(entry, choice);
+      result.portfolios += 1;
+    }
+
+    if (includeAlerts) {
+      result.alerts = await this.migrateAlerts(preview.alerts);
+    }
+
+    this.release();
+    return result;
+  }
+
+  /**
+   * Leave what hasn't been uploaded on this device only. Its queued changes
+   * are dropped, since they'd point at things the server has never seen.
+   */
+  keepOnDevice(): void {
+    this.release();
+  }
+
+  private async migratePortfolio(entry: MigrationPortfolio, choice: MigrationPortfolioChoice): Promise<number> {
+    const { portfolio, holdings, isLocalOnly } = entry;
+    const plan = createEmptyPlan();
+    const bases: Record<string, SyncBaseRecord> = {};
+    const holdingIds: Record<string, string> = {};
+
+    let target: Portfolio | undefined = isLocalOnly
+      ? (choice.resolution === 'merge' ? entry.clash : undefined)
+      : entry.target;
+
+    if (!target) {
+      const created = await APIClient.createPortfolio(choice.name);
+      // New server portfolios start out with defaults; ours may use another currency or cost basis method
+      const settings = pickFields(portfolio, ['baseCurrency', 'costBasisMethod']);
+      const defaults = pickFields(created, Object.keys(settings));
+      target = Object.keys(settings).some(field => settings[field] !== defaults[field])
+        ? await APIClient.updatePortfolio(created.id, settings, created.version)
+        : created;
+      if (choice.name !== portfolio.name) {
+        plan.portfolioChanges.push({ portfolioId: target.id, changes: { name: choice.name } });
+      }
+    } else if (isLocalOnly) {
+      // Merging: the account's settings win, and its holdings come down alongside ours
+      const targetId = target.id;
+      plan.portfolioChanges.push({ portfolioId: targetId, changes: pickFields(target, PORTFOLIO_SYNC_FIELDS) });
+      (target.assets || [])
+        .filter(asset => !holdings.some(holding => holding.ticker === asset.ticker))
+        .forEach(asset => {
+          plan.addedHoldings.push({ portfolioId: targetId, asset });
+          bases[syncBaseKey('holding', asset.id)] = toSyncBase(asset, HOLDING_SYNC_FIELDS);
+        });
+    }
+    bases[syncBaseKey('portfolio', target.id)] = toSyncBase(target, PORTFOLIO_SYNC_FIELDS);
+
+    try {
+      for (const holding of holdings) {
+        const averagePrice = holding.averagePrice ?? holding.currentPrice;
+        const existing = (target.assets || []).find(asset => asset.ticker === holding.ticker);
+        let record: Asset;
+
+        if (existing) {
+          const existingPrice = existing.averagePrice ?? existing.currentPrice;
+          const combined = combineHoldings(
+            { quantity: existing.quantity, averagePrice: existingPrice },
+            { quantity: holding.quantity, averagePrice }
+          );
+          record = await APIClient.updateAsset(target.id, existing.id, combined.quantity, combined.averagePrice, existing.version);
+          // The account's shares arrive as a buy at its own price, so the local ledger adds up to the same position
+          plan.holdingChanges.push({
+            portfolioId: target.id,
+            holdingId: record.id,
+            changes: { quantity: combined.quantity, averagePrice: existingPrice },
+          });
+        } else {
+          record = await APIClient.addAssetToPortfolio(target.id, holding.ticker, holding.quantity, averagePrice);
+        }
+
+        holdingIds[holding.id] = record.id;
+        bases[syncBaseKey('holding', record.id)] = toSyncBase(record, HOLDING_SYNC_FIELDS);
+      }
+    } finally {
+      await this.settle(isLocalOnly ? { [portfolio.id]: target.id } : {}, holdingIds, plan, bases);
+    }
+
+    return holdings.length;
+  }
+
+  private async migrateAlerts(alerts: PriceAlert[]): Promise<number> {
+    const alertIds: Record<string, string> = {};
+
+    try {
+      for (const alert of alerts) {
+        const record = await APIClient.createAlert({
+          assetSymbol: alert.assetSymbol,
+          assetName: alert.assetName,
+          alertType: alert.alertType,
+          targetPrice: alert.targetPrice,
+          currentPrice: alert.currentPrice,
+          isActive: alert.isActive,
+          isTriggered: alert.isTriggered,
+        });
+        alertIds[alert.id] = record.id;
+      }
+    } finally {
+      const sync = useSyncStore.getState();
+      Object.keys(alertIds).forEach(id => sync.discardMutations(id));
+      useAlertStore.getState().adoptServerIds(alertIds);
+    }
+
+    return alerts.length;
+  }
+
+  // What's uploaded now goes by its server id and has a base, so reconcile sees it as synced
+  private async settle(
+    portfolioIds: Record<string, string>,
+    holdingIds: Record<string, string>,
+    plan: ReconcilePlan,
+    bases: Record<string, SyncBaseRecord>
+  ) {
+    const sync = useSyncStore.getState();
+    [...Object.keys(portfolioIds), ...Object.keys(holdingIds)].forEach(id => sync.discardMutations(id));
+
+    const { adoptServerIds, applyServerChanges } = usePortfolioStore.getState();
+    await adoptServerIds(portfolioIds, holdingIds);
+    await applyServerChanges(plan);
+    sync.recordBases(bases);
+  }
+
+  private release() {
+    const sync = useSyncStore.getState();
+    const local = readLocalData();
+    local.portfolios.forEach(({ portfolio, isLocalOnly, holdings }) => {
+      if (isLocalOnly) sync.discardMutations(portfolio.id);
+      holdings.forEach(holding => sync.discardMutations(holding.id));
+    });
+    local.alerts.forEach(alert => sync.discardMutations(alert.id));
+
+    sync.setMigrationPending(false);
+    syncService.flush();
+  }
+}
+
+export const accountMigrationService = new AccountMigrationService();
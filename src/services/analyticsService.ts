@@ -0,0 +1,294 @@
+import {
+  Asset,
+  BenchmarkComparison,
+  BenchmarkReport,
+  CashFlow,
+  ChartDataPoint,
+  FxRateTable,
+  PerformanceTimeframe,
+  PortfolioSnapshot,
+  RiskAssumptions,
+  RiskReport,
+} from '../types';
+import { candleService } from './candleService';
+import { batchProcess } from '../utils/performanceOptimizations';
+import { candlesToChartData } from '../utils/candles';
+import { convertAmount } from '../utils/currency';
+import { computeReturnIndex, getTimeframeStart } from '../utils/returns';
+import {
+  alignReturns,
+  annualizedVolatility,
+  beta,
+  captureRatios,
+  correlationMatrix,
+  historicalVaR,
+  jensensAlpha,
+  maxDrawdown,
+  sampleSeries,
+  sharpeRatio,
+  sortinoRatio,
+  trackingError,
+} from '../utils/riskMetrics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RISK_ASSUMPTIONS: RiskAssumptions = {
+  benchmark: 'SPY',
+  riskFreeRate: 0.04,
+  lookbackDays: 365,
+  confidenceLevel: 0.95,
+  periodsPerYear: 252,
+};
+
+export const RISK_BENCHMARKS = ['SPY', 'QQQ', 'BTC'];
+
+interface HoldingsInput {
+  assets: Asset[];
+  baseCurrency: string;
+  rates: FxRateTable;
+}
+
+interface RiskReportInput extends HoldingsInput {
+  snapshots: PortfolioSnapshot[];
+  flows: CashFlow[];
+  assumptions?: Partial<RiskAssumptions>;
+}
+
+interface BenchmarkReportInput extends HoldingsInput {
+  timeframe: PerformanceTimeframe;
+  benchmarks: string[];
+  // Output of getPerformanceData for the same timeframe
+  performance: ChartDataPoint[];
+  snapshots: PortfolioSnapshot[];
+  flows: CashFlow[];
+  riskFreeRate?: number;
+}
+
+interface HoldingReturns {
+  series: Record<string, ChartDataPoint[]>;
+  missingTickers: string[];
+  tickers: string[];
+  weights: Record<string, number>;
+  totalValue: number;
+  dates: string[];
+  returns: Record<string, number[]>;
+  portfolioReturns: number[];
+}
+
+interface AnalyticsServiceConfig {
+  batchSize: number;
+}
+
+class AnalyticsService {
+  private config: AnalyticsServiceConfig = {
+    batchSize: 5,
+  };
+
+  constructor(config?: Partial<AnalyticsServiceConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Daily closes for a ticker over the lookback window from the active market
+   * data source; an empty series means it has no history for it
+   */
+  async getPriceHistory(ticker: string, from: Date, to: Date): Promise<ChartDataPoint[]> {
+    try {
+      const candles = await candleService.getCandles(ticker, '1d', from, to);
+      return candlesToChartData(candles).data;
+    } catch (error) {
+      console.warn(`Failed to fetch price history for ${ticker}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Fetch histories for the holdings plus any extra tickers, and combine the
+   * holdings into one daily return series. Weights come from today's
+   * base-currency value, renormalized over holdings that have history.
+   */
+  private async getHoldingReturns(
+    input: HoldingsInput,
+    extraTickers: string[],
+    from: Date,
+    to: Date
+  ): Promise<HoldingReturns> {
+    const holdings = input.assets.filter(asset => asset.quantity > 0);
+    const held = Array.from(new Set(holdings.map(asset => asset.ticker)));
+    const requested = Array.from(new Set([...held, ...extraTickers]));
+
+    const histories = await batchProcess(
+      requested,
+      async ticker => ({ ticker, points: await this.getPriceHistory(ticker, from, to) }),
+      this.config.batchSize
+    );
+
+    const series: Record<string, ChartDataPoint[]> = {};
+    histories.forEach(({ ticker, points }) => {
+      if (points.length > 1) series[ticker] = points;
+    });
+    const tickers = held.filter(ticker => series[ticker]);
+
+    const values: Record<string, number> = {};
+    holdings.forEach(asset => {
+      values[asset.ticker] =
+        (values[asset.ticker] || 0) +
+        convertAmount(asset.totalValue, asset.currency || 'USD', input.baseCurrency, input.rates);
+    });
+    const totalValue = Object.values(values).reduce((sum, value) => sum + value, 0);
+    const coveredValue = tickers.reduce((sum, ticker) => sum + values[ticker], 0);
+
+    const weights: Record<string, number> = {};
+    tickers.forEach(ticker => {
+      weights[ticker] = coveredValue > 0 ? values[ticker] / coveredValue : 0;
+    });
+
+    const holdingSeries: Record<string, ChartDataPoint[]> = {};
+    tickers.forEach(ticker => {
+      holdingSeries[ticker] = series[ticker];
+    });
+    const { dates, returns } = alignReturns(holdingSeries);
+    const observations = Math.max(0, dates.length - 1);
+
+    return {
+      series,
+      missingTickers: requested.filter(ticker => !series[ticker]),
+      tickers,
+      weights,
+      totalValue,
+      dates,
+      returns,
+      portfolioReturns: Array.from({ length: observations }, (_, i) =>
+        tickers.reduce((sum, ticker) => sum + weights[ticker] * returns[ticker][i], 0)
+      ),
+    };
+  }
+
+  /**
+   * Risk metrics for the holdings against the chosen benchmark. Returns are
+   * daily, in each asset's own currency.
+   */
+  async getRiskReport(input: RiskReportInput): Promise<RiskReport> {
+    const assumptions = { ...DEFAULT_RISK_ASSUMPTIONS, ...input.assumptions };
+    const to = new Date();
+    const from = new Date(to.getTime() - assumptions.lookbackDays * DAY_MS);
+
+    const holdings = await this.getHoldingReturns(input, [assumptions.benchmark], from, to);
+    const { series, tickers, weights, totalValue, returns: holdingReturns, portfolioReturns } = holdings;
+
+    // Beta needs the benchmark on the same dates, so align it separately
+    const benchmarkSeries = series[assumptions.benchmark];
+    const betaAgainstBenchmark = (ticker: string, points: ChartDataPoint[]) => {
+      if (!benchmarkSeries) return null;
+      const { returns } = alignReturns({ [ticker]: points, benchmark: benchmarkSeries });
+      return beta(returns[ticker], returns.benchmark);
+    };
+
+    let portfolioBeta: number | null = null;
+    if (benchmarkSeries && tickers.length > 0) {
+      const betas = tickers.map(ticker => betaAgainstBenchmark(ticker, series[ticker]));
+      if (betas.every(b => b !== null)) {
+        portfolioBeta = tickers.reduce((sum, ticker, i) => sum + weights[ticker] * (betas[i] as number), 0);
+      }
+    }
+
+    // Drawdown comes from the recorded snapshots, adjusted for deposits and withdrawals
+    const windowSnapshots = input.snapshots.filter(s => new Date(s.timestamp).getTime() >= from.getTime());
+    const drawdownIndex = computeReturnIndex(
+      windowSnapshots.map(s => ({ time: new Date(s.timestamp).getTime(), value: s.totalValue })),
+      input.flows
+    );
+
+    const valueAtRiskPercent = historicalVaR(portfolioReturns, assumptions.confidenceLevel);
+
+    return {
+      assumptions,
+      observations: portfolioReturns.length,
+      volatility: annualizedVolatility(portfolioReturns, assumptions.periodsPerYear),
+      sharpeRatio: sharpeRatio(portfolioReturns, assumptions.riskFreeRate, assumptions.periodsPerYear),
+      sortinoRatio: sortinoRatio(portfolioReturns, assumptions.riskFreeRate, assumptions.periodsPerYear),
+      beta: portfolioBeta,
+      maxDrawdown: windowSnapshots.length > 1 ? maxDrawdown(drawdownIndex) : 0,
+      valueAtRisk: valueAtRiskPercent * totalValue,
+      valueAtRiskPercent,
+      assets: tickers.map(ticker => ({
+        ticker,
+        volatility: annualizedVolatility(holdingReturns[ticker], assumptions.periodsPerYear),
+        beta: betaAgainstBenchmark(ticker, series[ticker]),
+      })),
+      correlation: correlationMatrix(holdingReturns),
+      missingTickers: holdings.missingTickers,
+      generatedAt: to.toISOString(),
+    };
+  }
+
+  /**
+   * Compare the portfolio with one or more benchmarks over a timeframe. The
+   * chart curves follow the recorded snapshots (net of deposits and
+   * withdrawals); alpha, tracking error and capture use daily holding returns.
+   */
+  async getBenchmarkReport(input: BenchmarkReportInput): Promise<BenchmarkReport> {
+    const riskFreeRate = input.riskFreeRate ?? DEFAULT_RISK_ASSUMPTIONS.riskFreeRate;
+    const { periodsPerYear } = DEFAULT_RISK_ASSUMPTIONS;
+    const to = new Date();
+    const from = getTimeframeStart(input.timeframe, input.snapshots, to);
+    const benchmarks = Array.from(new Set(input.benchmarks.map(symbol => symbol.trim().toUpperCase()))).filter(Boolean);
+
+    const holdings = await this.getHoldingReturns(input, benchmarks, from, to);
+
+    const timestamps = input.performance.map(point => point.timestamp);
+    const index = computeReturnIndex(
+      input.performance.map(point => ({ time: new Date(point.timestamp).getTime(), value: point.value })),
+      input.flows
+    );
+    const portfolioCurve = input.performance.map((point, i) => ({
+      timestamp: point.timestamp,
+      value: (index[i] - 1) * 100,
+      label: point.label,
+    }));
+
+    // Rebuild the holdings as a price index so it can be aligned with each benchmark by date
+    const portfolioIndex: ChartDataPoint[] = holdings.dates.map((date, i) => ({
+      timestamp: date,
+      value: holdings.portfolioReturns.slice(0, i).reduce((growth, r) => growth * (1 + r), 1),
+    }));
+
+    const comparisons: BenchmarkComparison[] = benchmarks
+      .filter(symbol => holdings.series[symbol])
+      .map(symbol => {
+        const prices = holdings.series[symbol];
+        const sampled = sampleSeries(prices, timestamps);
+        const first = sampleSeries(prices, [from.toISOString()])[0];
+        const last = sampleSeries(prices, [to.toISOString()])[0];
+
+        const { returns } = alignReturns({ portfolio: portfolioIndex, benchmark: prices });
+        const portfolioReturns = returns.portfolio || [];
+        const benchmarkReturns = returns.benchmark || [];
+        const capture = captureRatios(portfolioReturns, benchmarkReturns);
+
+        return {
+          benchmark: symbol,
+          curve: sampled.map(value => (sampled[0] > 0 ? (value / sampled[0] - 1) * 100 : 0)),
+          totalReturn: first > 0 ? last / first - 1 : 0,
+          alpha: jensensAlpha(portfolioReturns, benchmarkReturns, riskFreeRate, periodsPerYear),
+          beta: beta(portfolioReturns, benchmarkReturns),
+          trackingError: trackingError(portfolioReturns, benchmarkReturns, periodsPerYear),
+          upCapture: capture.up,
+          downCapture: capture.down,
+          observations: portfolioReturns.length,
+        };
+      });
+
+    return {
+      timeframe: input.timeframe,
+      startDate: from.toISOString(),
+      endDate: to.toISOString(),
+      riskFreeRate,
+      portfolioCurve,
+      benchmarks: comparisons,
+      missingBenchmarks: benchmarks.filter(symbol => !holdings.series[symbol]),
+    };
+  }
+}
+
+export const analyticsService = new AnalyticsService();
@@ -1,10 +1,12 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosHeaders, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
 import * as SecureStore from 'expo-secure-store';
 import { 
+  AuthProvider,
   AuthResponse, 
   SignInRequest, 
   SignUpRequest, 
   APIAsset,
+  AssetSearchQuery,
   SearchResult,
   Asset,
   Portfolio,
@@ -12,12 +14,102 @@ import {
   NewsArticle,
   MarketData,
   ChartData,
-  User
+  Candle,
+  CandleInterval,
+  ExistingAccount,
+  ProviderLinkRequest,
+  User,
+  BackendHealth,
+  HttpCacheEntry,
+  RetryPolicy,
+  RequestOptions
 } from '@/types';
+import {
+  parseAlert,
+  parseAlerts,
+  parseAssetPrice,
+  parseAuthResponse,
+  parseCandles,
+  parseExistingAccount,
+  parseHealth,
+  parseHolding,
+  parseMarketData,
+  parseNewsArticles,
+  parsePortfolio,
+  parsePortfolios,
+  parsePriceHistory,
+  parseRefreshResponse,
+  parseResetToken,
+  parseSearchResult,
+  parseUser,
+  parseValidation,
+  toAlertRequest,
+  toHoldingRequest,
+  toPortfolioUpdateRequest,
+  toProviderLinkRequest,
+} from '@/utils/apiSchema';
+import { requestLimiter } from '@/utils/performanceOptimizations';
+import { DEFAULT_RETRY_POLICY, getRetryDelay, isRetryableStatus, parseRetryAfter, sleep } from '@/utils/retry';
+import { useSyncStore } from '@/store/syncStore';
+import { httpCache } from './httpCache';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    retryPolicy?: Partial<RetryPolicy>;
+  }
+}
+
+interface TrackedRequestConfig extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+  _attempt?: number;
+}
+
+interface InFlightRequest {
+  promise: Promise<AxiosResponse>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+export const isRequestCanceled = (error: unknown): boolean => axios.isCancel(error);
+
+// The HTTP status the server answered a failed request with, if it answered at all
+export const getErrorStatus = (error: unknown): number | undefined =>
+  axios.isAxiosError(error) ? error.response?.status : undefined;
+
+// No answer at all, or the server failing, as opposed to the server turning the request down
+export const isUnreachable = (error: unknown): boolean =>
+  !axios.isCancel(error) && axios.isAxiosError(error) && (!error.response || error.response.status >= 500);
+
+// A provider sign-in turned away because its email already belongs to an account that signs in another way
+export const getExistingAccount = (error: unknown): ExistingAccount | undefined => {
+  if (!axios.isAxiosError(error) || error.response?.status !== 409) return undefined;
+  try {
+    return parseExistingAccount(error.config?.url || 'sign in', error.response.data);
+  } catch {
+    return undefined;
+  }
+};
+
+const toCachedResponse = (entry: HttpCacheEntry): AxiosResponse => ({
+  data: entry.data,
+  status: 200,
+  statusText: 'OK',
+  headers: {},
+  config: { headers: new AxiosHeaders() },
+});
 
 class APIClient {
   private client: AxiosInstance;
   private baseURL: string;
+  private apiKey?: string;
+  // Shared by every request that hits a 401 while the access token is being renewed
+  private refreshPromise: Promise<string> | null = null;
+  private expirePromise: Promise<void> | null = null;
+  private sessionExpiredListeners = new Set<() => void>();
+  private inFlight = new Map<string, InFlightRequest>();
+  private revalidating = new Set<string>();
 
   constructor() {
     this.baseURL = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:8080';
@@ -30,48 +122,359 @@ class APIClient {
       },
     });
 
-    // Request interceptor to add auth token
+    // Every request waits its turn on the shared limiter; one aborted while queued never goes out
+    const sendRequest = axios.getAdapter(axios.defaults.adapter);
+    this.client.defaults.adapter = (config) =>
+      requestLimiter.run(() => sendRequest(config), config.signal as AbortSignal | undefined).catch((error) => {
+        throw config.signal?.aborted ? new axios.CanceledError(undefined, undefined, config) : error;
+      });
+
+    // Request interceptor to add auth token, falling back to the backend's API key
     this.client.interceptors.request.use(async (config) => {
-      const token = await SecureStore.getItemAsync('authToken');
+      // Hold new requests until a running refresh settles so they don't go out with the old token
+      if (this.refreshPromise) {
+        await this.refreshPromise.catch(() => undefined);
+      }
+      const token = await this.getAccessToken();
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
       }
       return config;
     });
 
-    // Response interceptor for error handling
+    // Response interceptor: renew an expired access token once, then replay the request
     this.client.interceptors.response.use(
       (response) => response,
       async (error) => {
-        if (error.response?.status === 401) {
-          // Token expired or invalid
-          await SecureStore.deleteItemAsync('authToken');
-          await SecureStore.deleteItemAsync('user');
-          // Navigate to login screen
-          throw new Error('Authentication required');
+        const config = error.config as TrackedRequestConfig | undefined;
+        const isAuthRequest = config?.url?.startsWith('/api/v1/auth/');
+
+        if (error.response?.status !== 401 || !config || isAuthRequest) {
+          throw error;
         }
-        throw error;
+
+        if (!config._retried && (await SecureStore.getItemAsync('refreshToken'))) {
+          config._retried = true;
+          try {
+            // Sent before another request renewed the token, so the renewed one is all it needs
+            const current = await SecureStore.getItemAsync('authToken');
+            const isStale = !!current && config.headers.Authorization !== `Bearer ${current}`;
+            const token = isStale ? (current as string) : await this.refreshAccessToken();
+            config.headers.Authorization = `Bearer ${token}`;
+            return this.client(config);
+          } catch (refreshError) {
+            console.warn('Session refresh failed:', refreshError);
+          }
+        }
+
+        await this.expireSession();
+        throw new Error('Authentication required');
       }
     );
+
+    // Retry idempotent requests that failed for reasons a later attempt could fix
+    this.client.interceptors.response.use(undefined, async (error) => {
+      const config = error.config as TrackedRequestConfig | undefined;
+      if (!config || axios.isCancel(error) || !IDEMPOTENT_METHODS.includes(config.method || 'get')) {
+        throw error;
+      }
+
+      const policy = { ...DEFAULT_RETRY_POLICY, ...config.retryPolicy };
+      const attempt = config._attempt || 0;
+      if (attempt >= policy.retries || !isRetryableStatus(error.response?.status)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, policy, parseRetryAfter(error.response?.headers?.['retry-after']));
+      if (delay === null) {
+        throw error;
+      }
+      config._attempt = attempt + 1;
+      try {
+        await sleep(delay, config.signal as AbortSignal | undefined);
+      } catch {
+        throw new axios.CanceledError(undefined, undefined, config);
+      }
+      return this.client(config);
+    });
+  }
+
+  /**
+   * GET with in-flight dedup: identical requests share one call, which is only
+   * aborted once every caller that passed a signal has cancelled. Endpoints
+   * with a cache policy go through the HTTP cache first.
+   */
+  private get(url: string, params?: Record<string, any>, options: RequestOptions = {}): Promise<AxiosResponse> {
+    const key = `${this.baseURL}${url}?${JSON.stringify(params || {})}`;
+    let entry = this.inFlight.get(key);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        subscribers: 0,
+        promise: this.fetch(key, url, params, controller.signal, options).finally(() => {
+          if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+        }),
+      };
+      // Callers handle failures; this keeps a request nobody waits on anymore from being reported
+      created.promise.catch(() => undefined);
+      this.inFlight.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers++;
+    const { signal } = options;
+    if (!signal) return shared.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        reject(new axios.CanceledError());
+        shared.subscribers--;
+        if (shared.subscribers === 0) shared.controller.abort();
+      };
+
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort);
+      shared.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Answer from the stored response while its policy allows, otherwise ask the
+   * server, conditionally when there is a stored copy to compare against.
+   * Stale copies are returned at once and revalidated in the background, and
+   * an old copy stands in when the server can't be reached.
+   */
+  private async fetch(
+    key: string,
+    url: string,
+    params: Record<string, any> | undefined,
+    signal: AbortSignal,
+    options: RequestOptions
+  ): Promise<AxiosResponse> {
+    const policy = httpCache.getPolicy(url);
+    if (!policy) {
+      return this.client.get(url, { params, signal, retryPolicy: options.retry });
+    }
+
+    const cached = await httpCache.get(key);
+    const state = cached ? httpCache.getState(cached, policy) : 'expired';
+    const isUsableOffline = !!cached && Date.now() - cached.storedAt < policy.staleIfErrorMs;
+
+    if (cached && options.cache !== 'no-cache') {
+      if (state === 'fresh') return toCachedResponse(cached);
+      if (state === 'stale') {
+        this.revalidate(key, url, params, cached, options);
+        return toCachedResponse(cached);
+      }
+    }
+    // Going to the network offline would only wait out the retries before landing here anyway
+    if (cached && isUsableOffline && !useSyncStore.getState().isOnline) {
+      return toCachedResponse(cached);
+    }
+
+    try {
+      return await this.sendConditional(key, url, params, cached, signal, options);
+    } catch (error) {
+      if (cached && isUsableOffline && isUnreachable(error)) {
+        console.warn(`Serving a cached response for ${url}:`, error instanceof Error ? error.message : error);
+        return toCachedResponse(cached);
+      }
+      throw error;
+    }
+  }
+
+  // Refreshes a stale stored response for next time; nobody is waiting on it, so failures are only logged
+  private revalidate(
+    key: string,
+    url: string,
+    params: Record<string, any> | undefined,
+    cached: HttpCacheEntry,
+    options: RequestOptions
+  ) {
+    if (this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+    this.sendConditional(key, url, params, cached, undefined, options)
+      .catch(error => console.warn(`Failed to revalidate ${url}:`, error instanceof Error ? error.message : error))
+      .finally(() => this.revalidating.delete(key));
+  }
+
+  private async sendConditional(
+    key: string,
+    url: string,
+    params: Record<string, any> | undefined,
+    cached: HttpCacheEntry | null,
+    signal: AbortSignal | undefined,
+    options: RequestOptions
+  ): Promise<AxiosResponse> {
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+    const isConditional = Object.keys(headers).length > 0;
+
+    const response = await this.client.get(url, {
+      params,
+      signal,
+      headers,
+      retryPolicy: options.retry,
+      validateStatus: status => (status >= 200 && status < 300) || (isConditional && status === 304),
+    });
+
+    if (response.status === 304 && cached) {
+      await httpCache.touch(key);
+      return toCachedResponse(cached);
+    }
+
+    if (!/no-store/i.test(String(response.headers['cache-control'] || ''))) {
+      await httpCache.set(key, {
+        data: response.data,
+        etag: response.headers['etag'] || undefined,
+        lastModified: response.headers['last-modified'] || undefined,
+        storedAt: Date.now(),
+      });
+    }
+    return response;
+  }
+
+  // Validates a sign-in response and keeps its tokens and user for later requests
+  private async startSession(endpoint: string, data: any): Promise<AuthResponse> {
+    const auth = parseAuthResponse(endpoint, data);
+    if (auth.token) {
+      // A refresh token left from the previous session would renew into the wrong account
+      await SecureStore.deleteItemAsync('refreshToken');
+      await SecureStore.setItemAsync('authToken', auth.token);
+      if (auth.refreshToken) {
+        await SecureStore.setItemAsync('refreshToken', auth.refreshToken);
+      }
+      await SecureStore.setItemAsync('user', JSON.stringify(auth.user));
+    }
+    return auth;
+  }
+
+  private async clearSession(): Promise<void> {
+    await SecureStore.deleteItemAsync('authToken');
+    await SecureStore.deleteItemAsync('refreshToken');
+    await SecureStore.deleteItemAsync('user');
+  }
+
+  /**
+   * Drop a session that can't be renewed. Requests that fail together share
+   * one call, so listeners hear about each lost session once.
+   */
+  private expireSession(): Promise<void> {
+    if (!this.expirePromise) {
+      this.expirePromise = (async () => {
+        const hadSession = !!(await SecureStore.getItemAsync('authToken'));
+        await this.clearSession();
+        if (hadSession) {
+          this.sessionExpiredListeners.forEach(listener => listener());
+        }
+      })().finally(() => {
+        this.expirePromise = null;
+      });
+    }
+    return this.expirePromise;
+  }
+
+  /**
+   * Trade the refresh token for a new access token. Concurrent callers share
+   * one request; the server may rotate the refresh token as well.
+   */
+  refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        const refreshToken = await SecureStore.getItemAsync('refreshToken');
+        if (!refreshToken) {
+          throw new Error('No refresh token');
+        }
+
+        // Goes around the interceptors so a rejected refresh can't trigger another one
+        const url = '/api/v1/auth/refresh';
+        const response = await axios.post(`${this.baseURL}${url}`, { refresh_token: refreshToken }, { timeout: 30000 });
+        const session = parseRefreshResponse(url, response.data);
+
+        await SecureStore.setItemAsync('authToken', session.token);
+        if (session.refreshToken) {
+          await SecureStore.setItemAsync('refreshToken', session.refreshToken);
+        }
+        return session.token;
+      })().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  // Fires when the session can't be renewed and the user has to sign in again
+  onSessionExpired(listener: () => void): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  // Backend selection
+  configure(baseUrl: string, apiKey?: string) {
+    this.baseURL = baseUrl;
+    this.apiKey = apiKey;
+    this.client.defaults.baseURL = baseUrl;
+  }
+
+  getBaseUrl(): string {
+    return this.baseURL;
+  }
+
+  // Credential for connections that don't go through axios, like the quote stream
+  async getAccessToken(): Promise<string | undefined> {
+    return (await SecureStore.getItemAsync('authToken')) || this.apiKey;
+  }
+
+  // Checks a backend and key before switching to them, so it doesn't go through the active client
+  async validateConfiguration(baseUrl: string, apiKey: string): Promise<boolean> {
+    try {
+      const response = await axios.post(`${baseUrl}/api/v1/auth/validate`, { api_key: apiKey }, { timeout: 10000 });
+      return parseValidation('/api/v1/auth/validate', response.data);
+    } catch (error) {
+      // A server that answered and turned the key down is a result, not a connection failure
+      if (axios.isAxiosError(error) && error.response) return false;
+      throw error;
+    }
+  }
+
+  async checkHealth(baseUrl: string = this.baseURL): Promise<BackendHealth> {
+    const startedAt = Date.now();
+    try {
+      const response = await axios.get(`${baseUrl}/api/v1/health`, { timeout: 10000 });
+      return {
+        ok: true,
+        version: parseHealth('/api/v1/health', response.data),
+        latencyMs: Date.now() - startedAt,
+        checkedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      return {
+        ok: false,
+        latencyMs: Date.now() - startedAt,
+        checkedAt: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unreachable',
+      };
+    }
   }
 
   // Auth methods
   async signUp(data: SignUpRequest): Promise<AuthResponse> {
     const response = await this.client.post('/api/v1/auth/signup', data);
-    if (response.data.token) {
-      await SecureStore.setItemAsync('authToken', response.data.token);
-      await SecureStore.setItemAsync('user', JSON.stringify(response.data.user));
-    }
-    return response.data;
+    return this.startSession('/api/v1/auth/signup', response.data);
   }
 
   async signIn(data: SignInRequest): Promise<AuthResponse> {
     const response = await this.client.post('/api/v1/auth/signin', data);
-    if (response.data.token) {
-      await SecureStore.setItemAsync('authToken', response.data.token);
-      await SecureStore.setItemAsync('user', JSON.stringify(response.data.user));
-    }
-    return response.data;
+    return this.startSession('/api/v1/auth/signin', response.data);
   }
 
   async signInWithApple(identityToken: string, user: any): Promise<AuthResponse> {
@@ -81,12 +484,7 @@ class APIClient {
       email: user.email,
       full_name: user.fullName?.nickname || user.fullName?.givenName || 'Apple User',
     });
-    if (response.data.token || response.data.api_key?.key) {
-      const token = response.data.token || response.data.api_key.key;
-      await SecureStore.setItemAsync('authToken', token);
-      await SecureStore.setItemAsync('user', JSON.stringify(response.data.user));
-    }
-    return response.data;
+    return this.startSession('/api/v1/auth/apple', response.data);
   }
 
   async signInWithGoogle(idToken: string, user: any): Promise<AuthResponse> {
@@ -96,45 +494,97 @@ class APIClient {
       email: user.email,
       full_name: user.name || 'Google User',
     });
-    if (response.data.token || response.data.api_key?.key) {
-      const token = response.data.token || response.data.api_key.key;
-      await SecureStore.setItemAsync('authToken', token);
-      await SecureStore.setItemAsync('user', JSON.stringify(response.data.user));
-    }
-    return response.data;
+    return this.startSession('/api/v1/auth/google', response.data);
+  }
+
+  // Password reset and email verification
+  async requestPasswordReset(email: string): Promise<void> {
+    await this.client.post('/api/v1/auth/password/forgot', { email });
+  }
+
+  // Trades the code from the reset email for a short-lived reset token
+  async verifyResetCode(email: string, code: string): Promise<string> {
+    const url = '/api/v1/auth/password/verify-code';
+    const response = await this.client.post(url, { email, code });
+    return parseResetToken(url, response.data);
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    await this.client.post('/api/v1/auth/password/reset', { token, password });
+  }
+
+  // The token comes from the link in the verification email; no session is needed
+  async verifyEmail(token: string): Promise<User> {
+    const url = '/api/v1/auth/verify-email';
+    const response = await this.client.post(url, { token });
+    return parseUser(url, response.data);
+  }
+
+  async resendVerificationEmail(): Promise<void> {
+    await this.client.post('/api/v1/users/me/verification-email');
+  }
+
+  async getProfile(options?: RequestOptions): Promise<User> {
+    const response = await this.get('/api/v1/users/me', undefined, options);
+    return parseUser('/api/v1/users/me', response.data);
+  }
+
+  // Linked providers all sign in to the same account; the updated profile comes back
+  async linkProvider(request: ProviderLinkRequest): Promise<User> {
+    const url = '/api/v1/users/me/providers';
+    const response = await this.client.post(url, toProviderLinkRequest(request));
+    return parseUser(url, response.data);
+  }
+
+  // The server refuses to remove the last way of signing in
+  async unlinkProvider(provider: AuthProvider): Promise<User> {
+    const url = `/api/v1/users/me/providers/${provider}`;
+    const response = await this.client.delete(url);
+    return parseUser(url, response.data);
   }
 
   async signOut(): Promise<void> {
-    await SecureStore.deleteItemAsync('authToken');
-    await SecureStore.deleteItemAsync('user');
+    await this.clearSession();
+    // Responses were fetched with this user's credentials
+    await httpCache.clear();
   }
 
   // Portfolio methods
-  async getPortfolios(): Promise<Portfolio[]> {
-    const response = await this.client.get('/api/v1/portfolios');
-    return response.data.portfolios || [];
+  async getPortfolios(options?: RequestOptions): Promise<Portfolio[]> {
+    const response = await this.get('/api/v1/portfolios', undefined, options);
+    return parsePortfolios('/api/v1/portfolios', response.data);
   }
 
   async createPortfolio(name: string): Promise<Portfolio> {
     const response = await this.client.post('/api/v1/portfolios', { name, is_default: true });
-    return response.data.portfolio;
+    return parsePortfolio('/api/v1/portfolios', response.data);
+  }
+
+  // Passing the version we last saw makes the server reject the write with 409 if it has moved on
+  async updatePortfolio(
+    portfolioId: string,
+    updates: Partial<Pick<Portfolio, 'name' | 'baseCurrency' | 'costBasisMethod'>>,
+    version?: number
+  ): Promise<Portfolio> {
+    const url = `/api/v1/portfolios/${portfolioId}`;
+    const response = await this.client.put(url, toPortfolioUpdateRequest(updates, version));
+    return parsePortfolio(url, response.data);
+  }
+
+  async deletePortfolio(portfolioId: string): Promise<void> {
+    await this.client.delete(`/api/v1/portfolios/${portfolioId}`);
   }
 
   async addAssetToPortfolio(portfolioId: string, assetId: string, quantity: number, averagePrice: number): Promise<Asset> {
-    const response = await this.client.post(`/api/v1/portfolios/${portfolioId}/holdings`, {
-      asset_id: assetId,
-      quantity,
-      average_price: averagePrice,
-    });
-    return response.data.holding;
+    const url = `/api/v1/portfolios/${portfolioId}/holdings`;
+    const response = await this.client.post(url, toHoldingRequest(quantity, averagePrice, assetId));
+    return parseHolding(url, response.data);
   }
 
-  async updateAsset(portfolioId: string, holdingId: string, quantity: number, averagePrice: number): Promise<Asset> {
-    const response = await this.client.put(`/api/v1/portfolios/${portfolioId}/holdings/${holdingId}`, {
-      quantity,
-      average_price: averagePrice,
-    });
-    return response.data.holding;
+  async updateAsset(portfolioId: string, holdingId: string, quantity: number, averagePrice: number, version?: number): Promise<Asset> {
+    const url = `/api/v1/portfolios/${portfolioId}/holdings/${holdingId}`;
+    const response = await this.client.put(url, toHoldingRequest(quantity, averagePrice, undefined, version));
+    return parseHolding(url, response.data);
   }
 
   async deleteAsset(portfolioId: string, holdingId: string): Promise<void> {
@@ -142,62 +592,58 @@ class APIClient {
   }
 
   // Asset search and prices
-  async searchAssets(query: string, types?: string[]): Promise<SearchResult> {
-    const params: any = { q: query };
-    if (types && types.length > 0) {
-      params.types = types.join(',');
-    }
-    const response = await this.client.get('/api/v1/assets/search', { params });
-    return response.data;
+  async searchAssets(search: AssetSearchQuery, options?: RequestOptions): Promise<SearchResult> {
+    const params: any = { q: search.query };
+    if (search.types && search.types.length > 0) params.types = search.types.join(',');
+    if (search.exchanges && search.exchanges.length > 0) params.exchanges = search.exchanges.join(',');
+    if (search.currencies && search.currencies.length > 0) params.currencies = search.currencies.join(',');
+    if (search.sort) params.sort = search.sort;
+    if (search.order) params.order = search.order;
+    if (search.cursor) params.cursor = search.cursor;
+    if (search.limit) params.limit = search.limit;
+    const response = await this.get('/api/v1/assets/search', params, options);
+    return parseSearchResult('/api/v1/assets/search', response.data);
   }
 
-  async getAssetPrice(assetId: string): Promise<number> {
-    const response = await this.client.get(`/api/v1/assets/${assetId}/price`);
-    return response.data.price?.price || 0;
+  async getAssetPrice(assetId: string, options?: RequestOptions): Promise<number> {
+    const url = `/api/v1/assets/${assetId}/price`;
+    const response = await this.get(url, undefined, options);
+    return parseAssetPrice(url, response.data);
   }
 
-  async getAssetPrices(assetId: string, from?: Date, to?: Date): Promise<ChartData> {
+  async getAssetPrices(assetId: string, from?: Date, to?: Date, options?: RequestOptions): Promise<ChartData> {
     const params: any = {};
     if (from) params.from = from.toISOString().split('T')[0];
     if (to) params.to = to.toISOString().split('T')[0];
     
-    const response = await this.client.get(`/api/v1/assets/${assetId}/prices`, { params });
-    const prices = response.data.prices || [];
-    
-    const data = prices.map((p: any) => ({
-      timestamp: p.timestamp,
-      value: p.price,
-      label: new Date(p.timestamp).toLocaleDateString(),
-    }));
-
-    const values = data.map((d: any) => d.value);
-    return {
-      data,
-      min: Math.min(...values),
-      max: Math.max(...values),
-    };
+    const url = `/api/v1/assets/${assetId}/prices`;
+    const response = await this.get(url, params, options);
+    return parsePriceHistory(url, response.data);
+  }
+
+  // Bars opening within [from, to); times go out in full so intraday ranges survive
+  async getCandles(symbol: string, interval: CandleInterval, from: Date, to: Date, options?: RequestOptions): Promise<Candle[]> {
+    const url = `/api/v1/assets/${symbol}/candles`;
+    const params = { interval, from: from.toISOString(), to: to.toISOString() };
+    const response = await this.get(url, params, options);
+    return parseCandles(url, response.data);
   }
 
   // Price alerts
-  async getAlerts(): Promise<PriceAlert[]> {
-    const response = await this.client.get('/api/v1/alerts');
-    return response.data.alerts || [];
+  async getAlerts(options?: RequestOptions): Promise<PriceAlert[]> {
+    const response = await this.get('/api/v1/alerts', undefined, options);
+    return parseAlerts('/api/v1/alerts', response.data);
   }
 
   async createAlert(alert: Omit<PriceAlert, 'id' | 'createdAt' | 'triggeredAt'>): Promise<PriceAlert> {
-    const response = await this.client.post('/api/v1/alerts', {
-      asset_symbol: alert.assetSymbol,
-      asset_name: alert.assetName,
-      alert_type: alert.alertType,
-      target_price: alert.targetPrice,
-      current_price: alert.currentPrice,
-    });
-    return response.data.alert;
+    const response = await this.client.post('/api/v1/alerts', toAlertRequest(alert));
+    return parseAlert('/api/v1/alerts', response.data);
   }
 
   async updateAlert(alertId: string, updates: Partial<PriceAlert>): Promise<PriceAlert> {
-    const response = await this.client.put(`/api/v1/alerts/${alertId}`, updates);
-    return response.data.alert;
+    const url = `/api/v1/alerts/${alertId}`;
+    const response = await this.client.put(url, toAlertRequest(updates));
+    return parseAlert(url, response.data);
   }
 
   async deleteAlert(alertId: string): Promise<void> {
@@ -205,22 +651,38 @@ class APIClient {
   }
 
   // News
-  async getNews(limit: number = 10): Promise<NewsArticle[]> {
-    const response = await this.client.get('/api/v1/news', { params: { limit } });
-    return response.data.articles || [];
+  async getNews(limit: number = 10, options?: RequestOptions): Promise<NewsArticle[]> {
+    const response = await this.get('/api/v1/news', { limit }, options);
+    return parseNewsArticles('/api/v1/news', response.data);
   }
 
-  async getNewsForSymbol(symbol: string, limit: number = 10): Promise<NewsArticle[]> {
-    const response = await this.client.get(`/api/v1/news/${symbol}`, { params: { limit } });
-    return response.data.articles || [];
+  async getNewsForSymbol(symbol: string, limit: number = 10, options?: RequestOptions): Promise<NewsArticle[]> {
+    const url = `/api/v1/news/${symbol}`;
+    const response = await this.get(url, { limit }, options);
+    return parseNewsArticles(url, response.data);
+  }
+
+  async getNewsByCategory(category: string, options?: RequestOptions): Promise<NewsArticle[]> {
+    const response = await this.get('/api/v1/news', { category }, options);
+    return parseNewsArticles('/api/v1/news', response.data);
+  }
+
+  async searchNews(query: string, category?: string, options?: RequestOptions): Promise<NewsArticle[]> {
+    const params: any = { q: query };
+    if (category) params.category = category;
+    const response = await this.get('/api/v1/news/search', params, options);
+    return parseNewsArticles('/api/v1/news/search', response.data);
+  }
+
+  async getNewsForSymbols(symbols: string[], options?: RequestOptions): Promise<NewsArticle[]> {
+    const response = await this.get('/api/v1/news/assets', { symbols: symbols.join(',') }, options);
+    return parseNewsArticles('/api/v1/news/assets', response.data);
   }
 
   // Market data
-  async getMarketData(symbols: string[]): Promise<MarketData[]> {
-    const response = await this.client.get('/api/v1/market', {
-      params: { symbols: symbols.join(',') },
-    });
-    return response.data.data || [];
+  async getMarketData(symbols: string[], options?: RequestOptions): Promise<MarketData[]> {
+    const response = await this.get('/api/v1/market', { symbols: symbols.join(',') }, options);
+    return parseMarketData('/api/v1/market', response.data);
   }
 
   // User
@@ -239,7 +701,7 @@ class APIClient {
       if (!token) return false;
       
       const response = await this.client.post('/api/v1/auth/validate', { api_key: token });
-      return response.data.valid === true;
+      return parseValidation('/api/v1/auth/validate', response.data);
     } catch {
       return false;
     }
@@ -0,0 +1,190 @@
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { BiometricType, PinCheckResult } from '../types';
+import { useAppLockStore } from '../store/appLockStore';
+
+interface AppLockServiceConfig {
+  pinLength: number;
+  // Wrong PINs in a row before entry is blocked for `lockoutMs`
+  maxAttempts: number;
+  lockoutMs: number;
+  // EXPO_PUBLIC_ENABLE_BIOMETRIC_AUTH=false leaves the PIN as the only way in
+  allowBiometrics: boolean;
+}
+
+const PIN_KEY = 'appLockPin';
+
+export const getBiometricLabel = (type: BiometricType): string => {
+  switch (type) {
+    case 'face':
+      return Platform.OS === 'ios' ? 'Face ID' : 'Face Unlock';
+    case 'fingerprint':
+      return Platform.OS === 'ios' ? 'Touch ID' : 'Fingerprint';
+    case 'iris':
+      return 'Iris';
+  }
+};
+
+/**
+ * Locks the app behind Face ID, a fingerprint or a PIN. The lock closes
+ * on every cold start and when the app comes back after sitting in the
+ * background longer than the auto-lock timeout. Only a salted hash of the
+ * PIN is kept, in the secure store.
+ */
+class AppLockService {
+  private config: AppLockServiceConfig = {
+    pinLength: 6,
+    maxAttempts: 5,
+    lockoutMs: 30 * 1000,
+    allowBiometrics: process.env.EXPO_PUBLIC_ENABLE_BIOMETRIC_AUTH !== 'false',
+  };
+  private subscription: { remove: () => void } | null = null;
+
+  constructor(config?: Partial<AppLockServiceConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  get pinLength(): number {
+    return this.config.pinLength;
+  }
+
+  /**
+   * Watch the app going to and coming back from the background. Returns a
+   * function that stops watching.
+   */
+  start(): () => void {
+    if (!this.subscription) {
+      this.subscription = AppState.addEventListener('change', state => this.handleAppState(state));
+    }
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  /**
+   * The kind of biometrics the device can unlock with, or null if it has
+   * none set up or they're turned off for this build
+   */
+  async getBiometricType(): Promise<BiometricType | null> {
+    if (!this.config.allowBiometrics) return null;
+    try {
+      if (!(await LocalAuthentication.hasHardwareAsync()) || !(await LocalAuthentication.isEnrolledAsync())) {
+        return null;
+      }
+      const types = await LocalAuthentication.supportedAuthenticationTypesAsync();
+      if (types.includes(LocalAuthentication.AuthenticationType.FACIAL_RECOGNITION)) return 'face';
+      if (types.includes(LocalAuthentication.AuthenticationType.FINGERPRINT)) return 'fingerprint';
+      if (types.includes(LocalAuthentication.AuthenticationType.IRIS)) return 'iris';
+    } catch (error) {
+      console.warn('Failed to check biometric support:', error);
+    }
+    return null;
+  }
+
+  /**
+   * Ask for Face ID or a fingerprint. Cancelling falls back to the PIN, so
+   * the device passcode isn't offered.
+   */
+  async authenticateWithBiometrics(promptMessage: string): Promise<boolean> {
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage,
+        cancelLabel: 'Use PIN',
+        disableDeviceFallback: true,
+      });
+      return result.success;
+    } catch (error) {
+      console.warn('Biometric authentication failed:', error);
+      return false;
+    }
+  }
+
+  async unlockWithBiometrics(): Promise<boolean> {
+    const { isEnabled, useBiometrics } = useAppLockStore.getState();
+    if (!isEnabled || !useBiometrics) return false;
+
+    const success = await this.authenticateWithBiometrics('Unlock Portfolio Tracker');
+    if (success) useAppLockStore.getState().unlock();
+    return success;
+  }
+
+  /**
+   * Check a PIN and unlock if it matches. Too many wrong ones in a row
+   * block entry for a while, even across restarts.
+   */
+  async checkPin(pin: string): Promise<PinCheckResult> {
+    const store = useAppLockStore.getState();
+    if (store.lockedOutUntil && store.lockedOutUntil > Date.now()) {
+      return { ok: false, attemptsLeft: 0, lockedUntil: store.lockedOutUntil };
+    }
+
+    if (await this.matchesPin(pin)) {
+      store.unlock();
+      return { ok: true, attemptsLeft: this.config.maxAttempts };
+    }
+
+    const attempts = store.failedAttempts + 1;
+    if (attempts >= this.config.maxAttempts) {
+      const lockedUntil = Date.now() + this.config.lockoutMs;
+      store.recordFailedAttempt(lockedUntil);
+      return { ok: false, attemptsLeft: 0, lockedUntil };
+    }
+    store.recordFailedAttempt(null);
+    return { ok: false, attemptsLeft: this.config.maxAttempts - attempts };
+  }
+
+  /**
+   * Turn the lock on with a new PIN, or replace the PIN if it's already on
+   */
+  async setPin(pin: string): Promise<void> {
+    if (!new RegExp(`^\\d{${this.config.pinLength}}$`).test(pin)) {
+      throw new Error(`The PIN must be ${this.config.pinLength} digits`);
+    }
+    const salt = Crypto.randomUUID();
+    await SecureStore.setItemAsync(PIN_KEY, `${salt}:${await this.hash(salt, pin)}`);
+    if (!useAppLockStore.getState().isEnabled) {
+      useAppLockStore.getState().setEnabled(true);
+    }
+  }
+
+  async disable(): Promise<void> {
+    await SecureStore.deleteItemAsync(PIN_KEY);
+    useAppLockStore.getState().setEnabled(false);
+  }
+
+  // Private methods
+
+  private handleAppState(state: AppStateStatus) {
+    const store = useAppLockStore.getState();
+    if (!store.isEnabled) return;
+
+    if (state === 'background') {
+      if (!store.isLocked && store.backgroundedAt === null) {
+        store.setBackgroundedAt(Date.now());
+      }
+    } else if (state === 'active' && store.backgroundedAt !== null) {
+      if (Date.now() - store.backgroundedAt >= store.autoLockAfterMs) {
+        store.lock();
+      }
+      store.setBackgroundedAt(null);
+    }
+  }
+
+  private async matchesPin(pin: string): Promise<boolean> {
+    const stored = await SecureStore.getItemAsync(PIN_KEY);
+    if (!stored) return false;
+    const [salt, hash] = stored.split(':');
+    return (await this.hash(salt, pin)) === hash;
+  }
+
+  private hash(salt: string, pin: string): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+  }
+}
+
+export const appLockService = new AppLockService();
@@ -0,0 +1,129 @@
+import { PortfolioBackup, PortfolioRestoreSelection, PriceAlert } from '../types';
+import { usePortfolioStore } from '../store/portfolioStore';
+import { useAlertStore } from '../store/alertStore';
+import { useThemeStore, ThemeConfig } from './themeManager';
+import { useLocalizationStore, availableLanguages, SupportedLanguage } from './localizationService';
+import { CURRENT_BACKUP_VERSION, parseBackup, ParsedBackup } from '../utils/backupSchema';
+
+export interface RestoreOptions {
+  portfolios: PortfolioRestoreSelection[];
+  settings: boolean;
+  alerts: boolean;
+  importPresets: boolean;
+}
+
+export interface RestoreSummary {
+  portfolios: number;
+  alertsCreated: number;
+  alertsFailed: number;
+  settingsRestored: boolean;
+}
+
+const alertKey = (alert: Pick<PriceAlert, 'assetSymbol' | 'alertType' | 'targetPrice'>) =>
+  `${alert.assetSymbol.toUpperCase()}|${alert.alertType}|${alert.targetPrice}`;
+
+class BackupService {
+  /**
+   * Snapshot of everything a backup covers. Alerts are refreshed from the
+   * server when it can be reached, including ones still waiting to sync.
+   */
+  async createBackup(): Promise<PortfolioBackup> {
+    const { getBackupPortfolios, importPresets } = usePortfolioStore.getState();
+    const { config } = useThemeStore.getState();
+    const { currentLanguage } = useLocalizationStore.getState();
+
+    await useAlertStore.getState().loadAlerts();
+    const { alerts } = useAlertStore.getState();
+
+    return {
+      version: CURRENT_BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      portfolios: getBackupPortfolios(),
+      alerts,
+      settings: {
+        theme: { ...config },
+        language: currentLanguage,
+      },
+      importPresets,
+    };
+  }
+
+  /**
+   * Serialized backup for sharing
+   */
+  async exportBackup(): Promise<string> {
+    return JSON.stringify(await this.createBackup(), null, 2);
+  }
+
+  /**
+   * Parse, migrate and validate a backup without applying any of it
+   */
+  parse(text: string): ParsedBackup {
+    return parseBackup(text);
+  }
+
+  /**
+   * Apply the selected parts of a backup. Portfolios not listed in the
+   * options are left untouched.
+   */
+  async restore(backup: PortfolioBackup, options: RestoreOptions): Promise<RestoreSummary> {
+    const summary: RestoreSummary = {
+      portfolios: options.portfolios.length,
+      alertsCreated: 0,
+      alertsFailed: 0,
+      settingsRestored: false,
+    };
+
+    if (options.portfolios.length > 0) {
+      await usePortfolioStore.getState().restorePortfolios(backup.portfolios, options.portfolios);
+    }
+
+    if (options.importPresets) {
+      const { saveImportPreset } = usePortfolioStore.getState();
+      backup.importPresets.forEach(preset => saveImportPreset(preset));
+    }
+
+    if (options.settings) {
+      if (backup.settings.theme) {
+        useThemeStore.getState().applyConfig(backup.settings.theme as Partial<ThemeConfig>);
+        summary.settingsRestored = true;
+      }
+      const language = backup.settings.language;
+      if (language && availableLanguages.some(l => l.code === language)) {
+        useLocalizationStore.getState().setLanguage(language as SupportedLanguage);
+        summary.settingsRestored = true;
+      }
+    }
+
+    if (options.alerts && backup.alerts.length > 0) {
+      // Skip alerts the account already has so restoring twice doesn't double them
+      const { loadAlerts, createAlert } = useAlertStore.getState();
+      await loadAlerts();
+      const known = new Set(useAlertStore.getState().alerts.map(alertKey));
+
+      for (const alert of backup.alerts) {
+        if (known.has(alertKey(alert))) continue;
+        try {
+          await createAlert({
+            assetSymbol: alert.assetSymbol,
+            assetName: alert.assetName,
+            alertType: alert.alertType,
+            targetPrice: alert.targetPrice,
+            currentPrice: alert.currentPrice,
+            isActive: alert.isActive,
+            isTriggered: false,
+          });
+          known.add(alertKey(alert));
+          summary.alertsCreated++;
+        } catch (error) {
+          console.warn(`Failed to restore alert for ${alert.assetSymbol}:`, error);
+          summary.alertsFailed++;
+        }
+      }
+    }
+
+    return summary;
+  }
+}
+
+export const backupService = new BackupService();
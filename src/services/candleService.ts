@@ -0,0 +1,116 @@
+import { Candle, CandleInterval, RequestOptions } from '../types';
+import { getMarketDataProvider, getMarketDataSource } from './marketData';
+import { alignToInterval, INTERVAL_MS, mergeCandles, mergeRanges, missingRanges, TimeRange } from '../utils/candles';
+
+interface CandleServiceConfig {
+  // Series kept before the least recently used one is dropped
+  maxSeries: number;
+}
+
+interface CandleSeries {
+  candles: Candle[];
+  // Time ranges already fetched; the bar still forming is never counted as fetched
+  ranges: TimeRange[];
+}
+
+/**
+ * OHLCV bars from the active market data source, cached per symbol and
+ * interval along with the time ranges already fetched. Asking for a range
+ * that overlaps earlier ones only requests the missing segments, so panning
+ * back in time costs one small request per step.
+ */
+class CandleService {
+  private config: CandleServiceConfig = {
+    maxSeries: 50,
+  };
+  private series = new Map<string, CandleSeries>();
+
+  constructor(config?: Partial<CandleServiceConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Bars opening within [from, to), oldest first. `from` is rounded down to
+   * the start of its bar.
+   */
+  async getCandles(
+    symbol: string,
+    interval: CandleInterval,
+    from: Date,
+    to: Date,
+    options?: RequestOptions
+  ): Promise<Candle[]> {
+    const provider = getMarketDataProvider();
+    const start = alignToInterval(from.getTime(), interval);
+    const end = to.getTime();
+
+    // Replay moves its clock every few seconds, so what it returns for a range keeps changing
+    if (provider.id === 'csv-replay') {
+      return provider.getCandles(symbol, interval, new Date(start), to, options);
+    }
+
+    // Asking up to the end of the bar still forming keeps the request the same for as long as
+    // that bar lasts, so the HTTP cache can answer it
+    const barEnd = alignToInterval(end, interval) === end ? end : alignToInterval(end, interval) + INTERVAL_MS[interval];
+
+    const key = this.getKey(symbol, interval);
+    const gaps = missingRanges(this.getSeries(key).ranges, start, barEnd);
+    if (gaps.length > 0) {
+      const pages = await Promise.all(
+        gaps.map(([gapStart, gapEnd]) => provider.getCandles(symbol, interval, new Date(gapStart), new Date(gapEnd), options))
+      );
+
+      // Looked up again in case the series was evicted while the requests were out
+      const entry = this.getSeries(key);
+      const settled = alignToInterval(Date.now(), interval);
+      entry.candles = mergeCandles(entry.candles, pages.flat());
+      entry.ranges = mergeRanges([
+        ...entry.ranges,
+        ...gaps.map(([gapStart, gapEnd]): TimeRange => [gapStart, Math.min(gapEnd, settled)]),
+      ]);
+    }
+
+    return this.slice(key, start, end);
+  }
+
+  /**
+   * Whatever is already cached for the range, without fetching anything
+   */
+  getCachedCandles(symbol: string, interval: CandleInterval, from: Date, to: Date): Candle[] {
+    return this.slice(this.getKey(symbol, interval), alignToInterval(from.getTime(), interval), to.getTime());
+  }
+
+  clear(): void {
+    this.series.clear();
+  }
+
+  // Private methods
+
+  // A different provider or backend has different bars
+  private getKey(symbol: string, interval: CandleInterval): string {
+    return `${getMarketDataSource()}|${symbol.toUpperCase()}|${interval}`;
+  }
+
+  // Re-inserting keeps the map in least recently used order
+  private getSeries(key: string): CandleSeries {
+    const entry = this.series.get(key) || { candles: [], ranges: [] };
+    this.series.delete(key);
+    this.series.set(key, entry);
+
+    while (this.series.size > this.config.maxSeries) {
+      this.series.delete(this.series.keys().next().value as string);
+    }
+    return entry;
+  }
+
+  private slice(key: string, start: number, end: number): Candle[] {
+    const entry = this.series.get(key);
+    if (!entry) return [];
+    return entry.candles.filter(candle => {
+      const time = new Date(candle.timestamp).getTime();
+      return time >= start && time < end;
+    });
+  }
+}
+
+export const candleService = new CandleService();
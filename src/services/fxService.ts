@@ -0,0 +1,67 @@
+import { FxRateTable } from '../types';
+import { getMarketDataProvider } from './marketData';
+import { persistentCache } from '../utils/performanceOptimizations';
+import { DEFAULT_FX_RATES } from '../utils/currency';
+
+const CACHE_KEY = 'fx_rates';
+
+interface FxServiceConfig {
+  cacheTtlMinutes: number;
+}
+
+class FxService {
+  private config: FxServiceConfig = {
+    cacheTtlMinutes: 60,
+  };
+
+  constructor(config?: Partial<FxServiceConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get USD rates for the given currencies, preferring the active market data
+   * source and
+   * falling back to the last cached table, then the built-in defaults
+   */
+  async getRates(currencies: string[], forceRefresh = false): Promise<FxRateTable> {
+    const cached: FxRateTable | null = await persistentCache.get(CACHE_KEY);
+    const wanted = currencies.filter(currency => currency !== 'USD');
+
+    if (!forceRefresh && cached && wanted.every(currency => cached[currency])) {
+      return cached;
+    }
+
+    const rates: FxRateTable = { ...DEFAULT_FX_RATES, ...cached, USD: 1 };
+
+    try {
+      const fetched = await this.fetchRates(wanted);
+      Object.assign(rates, fetched);
+      await persistentCache.set(CACHE_KEY, rates, this.config.cacheTtlMinutes * 60 * 1000);
+    } catch (error) {
+      console.warn('Failed to fetch FX rates, using cached table:', error);
+    }
+
+    return rates;
+  }
+
+  /**
+   * Rates are quoted as pairs against the dollar, e.g. EURUSD
+   */
+  private async fetchRates(currencies: string[]): Promise<FxRateTable> {
+    if (currencies.length === 0) return {};
+
+    const quotes = await getMarketDataProvider().getQuotes(currencies.map(currency => `${currency}USD`));
+    const rates: FxRateTable = {};
+
+    quotes.forEach(quote => {
+      const currency = quote.symbol.replace(/USD$/, '');
+      if (quote.price > 0 && currencies.includes(currency)) {
+        rates[currency] = quote.price;
+      }
+    });
+
+    return rates;
+  }
+}
+
+export const fxService = new FxService();
@@ -0,0 +1,150 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { HttpCacheEntry, HttpCachePolicy } from '../types';
+
+interface EndpointCachePolicy {
+  pattern: RegExp;
+  policy: HttpCachePolicy;
+}
+
+interface HttpCacheConfig {
+  // Stored responses kept before the least recently used one is dropped
+  maxEntries: number;
+  storagePrefix: string;
+  // The first pattern matching a path decides; paths matching none are never cached
+  policies: EndpointCachePolicy[];
+}
+
+export type HttpCacheState = 'fresh' | 'stale' | 'expired';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Portfolios and alerts are left out: they belong to the signed-in user and sync has to see the server's copy
+const DEFAULT_POLICIES: EndpointCachePolicy[] = [
+  // Quotes are always asked for again; an old one is only better than nothing while offline
+  { pattern: /^\/api\/v1\/market$/, policy: { maxAgeMs: 0, staleWhileRevalidateMs: 0, staleIfErrorMs: HOUR_MS } },
+  { pattern: /^\/api\/v1\/assets\/[^/]+\/price$/, policy: { maxAgeMs: 0, staleWhileRevalidateMs: 0, staleIfErrorMs: HOUR_MS } },
+  { pattern: /^\/api\/v1\/assets\/search$/, policy: { maxAgeMs: 5 * MINUTE_MS, staleWhileRevalidateMs: DAY_MS, staleIfErrorMs: 7 * DAY_MS } },
+  { pattern: /^\/api\/v1\/assets\/[^/]+\/candles$/, policy: { maxAgeMs: MINUTE_MS, staleWhileRevalidateMs: DAY_MS, staleIfErrorMs: 30 * DAY_MS } },
+  { pattern: /^\/api\/v1\/assets\/[^/]+\/prices$/, policy: { maxAgeMs: HOUR_MS, staleWhileRevalidateMs: DAY_MS, staleIfErrorMs: 30 * DAY_MS } },
+  { pattern: /^\/api\/v1\/news(\/.*)?$/, policy: { maxAgeMs: 2 * MINUTE_MS, staleWhileRevalidateMs: DAY_MS, staleIfErrorMs: 7 * DAY_MS } },
+];
+
+/**
+ * Responses to GET requests kept on the device with their ETag and
+ * Last-Modified, so the API client can answer from storage, revalidate with
+ * a conditional request, or fall back to an old copy while offline. How long
+ * each of those is allowed depends on the endpoint's policy.
+ */
+class HttpCache {
+  private config: HttpCacheConfig = {
+    maxEntries: 100,
+    storagePrefix: 'http_cache:',
+    policies: DEFAULT_POLICIES,
+  };
+  private entries = new Map<string, HttpCacheEntry>();
+  private loading: Promise<void> | null = null;
+
+  constructor(config?: Partial<HttpCacheConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * The policy for a request path, or null if its responses aren't cached
+   */
+  getPolicy(path: string): HttpCachePolicy | null {
+    return this.config.policies.find(({ pattern }) => pattern.test(path))?.policy || null;
+  }
+
+  /**
+   * Whether a stored response can be used as it is, used while it's
+   * revalidated, or only when the server can't be reached
+   */
+  getState(entry: HttpCacheEntry, policy: HttpCachePolicy, now: number = Date.now()): HttpCacheState {
+    const age = now - entry.storedAt;
+    if (age < policy.maxAgeMs) return 'fresh';
+    if (age < policy.maxAgeMs + policy.staleWhileRevalidateMs) return 'stale';
+    return 'expired';
+  }
+
+  async get(key: string): Promise<HttpCacheEntry | null> {
+    await this.load();
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    // Re-inserting keeps the map in least recently used order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: HttpCacheEntry): Promise<void> {
+    await this.load();
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const evicted: string[] = [];
+    while (this.entries.size > this.config.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      evicted.push(this.config.storagePrefix + oldest);
+    }
+
+    try {
+      await AsyncStorage.setItem(this.config.storagePrefix + key, JSON.stringify(entry));
+      if (evicted.length > 0) await AsyncStorage.multiRemove(evicted);
+    } catch (error) {
+      console.warn('Failed to store cached response:', error);
+    }
+  }
+
+  /**
+   * Record that the server confirmed a stored response is still current
+   */
+  async touch(key: string): Promise<void> {
+    const entry = await this.get(key);
+    if (entry) await this.set(key, { ...entry, storedAt: Date.now() });
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries.clear();
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(this.config.storagePrefix)));
+    } catch (error) {
+      console.warn('Failed to clear cached responses:', error);
+    }
+  }
+
+  // Private methods
+
+  // Everything stored is read once, oldest first, on the first lookup
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const { storagePrefix } = this.config;
+        const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(storagePrefix));
+        const stored: [string, HttpCacheEntry][] = [];
+        (await AsyncStorage.multiGet(keys)).forEach(([storageKey, value]) => {
+          if (!value) return;
+          try {
+            stored.push([storageKey.slice(storagePrefix.length), JSON.parse(value)]);
+          } catch {
+            // A corrupt entry is just a miss
+          }
+        });
+
+        stored
+          .sort(([, a], [, b]) => a.storedAt - b.storedAt)
+          .forEach(([key, entry]) => this.entries.set(key, entry));
+      })().catch(error => {
+        console.warn('Failed to load cached responses:', error);
+      });
+    }
+    return this.loading;
+  }
+}
+
+export const httpCache = new HttpCache();
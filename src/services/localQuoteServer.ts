@@ -0,0 +1,232 @@
+import { MarketDataDTO, QuoteSocket } from '../types';
+import { fixtureBasePrice } from './marketData/fixtures';
+
+interface LocalQuoteServerConfig {
+  tickIntervalMs: number;
+  // Largest move per tick, as a fraction of the price
+  volatility: number;
+}
+
+interface Listing {
+  open: number;
+  price: number;
+  high: number;
+  low: number;
+  volume: number;
+}
+
+interface SocketHandlers {
+  send: (socket: LocalQuoteSocket, data: string) => void;
+  close: (socket: LocalQuoteSocket, code: number, reason: string) => void;
+}
+
+// The app's end of an in-memory connection to the stand-in server
+class LocalQuoteSocket implements QuoteSocket {
+  onopen: (() => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  symbols = new Set<string>();
+  isOpen = false;
+
+  constructor(private handlers: SocketHandlers) {}
+
+  send(data: string): void {
+    if (!this.isOpen) {
+      throw new Error('Socket is not open');
+    }
+    this.handlers.send(this, data);
+  }
+
+  close(code: number = 1000, reason: string = ''): void {
+    this.handlers.close(this, code, reason);
+  }
+}
+
+/**
+ * In-app stand-in for the quote stream server. It speaks the same messages
+ * as the backend, so the stream client can be driven without a network:
+ * pass `localQuoteServer.connect` as the stream's `createSocket`.
+ */
+class LocalQuoteServer {
+  private config: LocalQuoteServerConfig = {
+    tickIntervalMs: 1000,
+    volatility: 0.002,
+  };
+  private sockets = new Set<LocalQuoteSocket>();
+  private listings: Record<string, Listing> = {};
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private refusing = false;
+  private hanging = false;
+
+  constructor(config?: Partial<LocalQuoteServerConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Open a connection in place of `new WebSocket(url)`. Like a real socket it
+   * opens asynchronously, or errors and closes while connections are refused.
+   * While connections hang it does neither.
+   */
+  connect = (_url: string): QuoteSocket => {
+    const socket = new LocalQuoteSocket({
+      send: (from, data) => this.receive(from, data),
+      close: (from, code, reason) => this.disconnect(from, code, reason),
+    });
+
+    if (this.hanging) return socket;
+
+    setTimeout(() => {
+      if (this.refusing) {
+        socket.onerror?.({ message: 'Connection refused' });
+        socket.onclose?.({ code: 1006, reason: 'Connection refused' });
+        return;
+      }
+      socket.isOpen = true;
+      this.sockets.add(socket);
+      this.startTicking();
+      socket.onopen?.();
+    }, 0);
+
+    return socket;
+  };
+
+  /**
+   * Set a symbol's price and push it straight to everyone watching it
+   */
+  setPrice(symbol: string, price: number): void {
+    const listing = this.getListing(symbol);
+    listing.price = price;
+    listing.high = Math.max(listing.high, price);
+    listing.low = Math.min(listing.low, price);
+    this.broadcast([symbol.toUpperCase()]);
+  }
+
+  /**
+   * Close every open connection as if the network had dropped
+   */
+  dropConnections(): void {
+    Array.from(this.sockets).forEach(socket => this.disconnect(socket, 1006, 'Connection lost'));
+  }
+
+  /**
+   * Turn new connections away, to exercise reconnect backoff and the polling fallback
+   */
+  refuseConnections(refuse: boolean): void {
+    this.refusing = refuse;
+  }
+
+  /**
+   * Leave new connections unanswered, as a server that's unreachable without rejecting would
+   */
+  hangConnections(hang: boolean): void {
+    this.hanging = hang;
+  }
+
+  get connectionCount(): number {
+    return this.sockets.size;
+  }
+
+  private receive(socket: LocalQuoteSocket, data: string) {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.deliver(socket, { type: 'error', message: 'Malformed message' });
+      return;
+    }
+
+    const symbols: string[] = Array.isArray(message?.symbols)
+      ? message.symbols.map((symbol: string) => String(symbol).toUpperCase())
+      : [];
+
+    switch (message?.type) {
+      case 'auth':
+        break;
+      case 'subscribe':
+        symbols.forEach(symbol => socket.symbols.add(symbol));
+        // Snapshot first so the client isn't waiting for the next tick
+        this.deliver(socket, { type: 'quotes', data: symbols.map(symbol => this.toQuote(symbol)) });
+        break;
+      case 'unsubscribe':
+        symbols.forEach(symbol => socket.symbols.delete(symbol));
+        break;
+      default:
+        this.deliver(socket, { type: 'error', message: `Unknown message type: ${message?.type}` });
+    }
+  }
+
+  private disconnect(socket: LocalQuoteSocket, code: number, reason: string) {
+    if (!socket.isOpen) return;
+    socket.isOpen = false;
+    this.sockets.delete(socket);
+    if (this.sockets.size === 0) this.stopTicking();
+    setTimeout(() => socket.onclose?.({ code, reason }), 0);
+  }
+
+  private startTicking() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.config.tickIntervalMs);
+  }
+
+  private stopTicking() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private tick() {
+    const watched = new Set<string>();
+    this.sockets.forEach(socket => socket.symbols.forEach(symbol => watched.add(symbol)));
+
+    watched.forEach(symbol => {
+      const listing = this.getListing(symbol);
+      listing.price *= 1 + (Math.random() * 2 - 1) * this.config.volatility;
+      listing.high = Math.max(listing.high, listing.price);
+      listing.low = Math.min(listing.low, listing.price);
+      listing.volume += Math.round(Math.random() * 1000);
+    });
+
+    this.broadcast(Array.from(watched));
+  }
+
+  private broadcast(symbols: string[]) {
+    this.sockets.forEach(socket => {
+      const data = symbols.filter(symbol => socket.symbols.has(symbol)).map(symbol => this.toQuote(symbol));
+      if (data.length > 0) this.deliver(socket, { type: 'quotes', data });
+    });
+  }
+
+  private deliver(socket: LocalQuoteSocket, message: object) {
+    const data = JSON.stringify(message);
+    setTimeout(() => {
+      if (socket.isOpen) socket.onmessage?.({ data });
+    }, 0);
+  }
+
+  private getListing(symbol: string): Listing {
+    const key = symbol.toUpperCase();
+    if (!this.listings[key]) {
+      const price = fixtureBasePrice(key);
+      this.listings[key] = { open: price, price, high: price, low: price, volume: 0 };
+    }
+    return this.listings[key];
+  }
+
+  // Quotes go out in the backend's wire format so the client parses them the same way
+  private toQuote(symbol: string): MarketDataDTO {
+    const listing = this.getListing(symbol);
+    const change = listing.price - listing.open;
+    return {
+      symbol,
+      price: listing.price,
+      change,
+      change_percent: (change / listing.open) * 100,
+      volume: listing.volume,
+      high_24h: listing.high,
+      low_24h: listing.low,
+      timestamp: new Date().toISOString(),
+    };
+  }
+}
+
+export const localQuoteServer = new LocalQuoteServer();
@@ -67,6 +67,30 @@ const translations = {
       agreeToTerms: 'By creating an account, you agree to our Terms of Service and Privacy Policy',
       signInRequired: 'Sign In Required',
       pleaseSignIn: 'Please sign in to access this feature',
+      resetPassword: 'Reset Password',
+      resetPasswordHint: "Enter your account's email and we'll send you a code to reset your password.",
+      sendCode: 'Send Code',
+      enterCode: 'Enter Code',
+      codeSent: 'We sent a 6-digit code to {email}.',
+      code: 'Code',
+      verify: 'Verify',
+      resendCode: 'Send a new code',
+      newPassword: 'New Password',
+      setNewPassword: 'Set New Password',
+      passwordChanged: 'Your password has been changed. Sign in with your new password.',
+      verifyEmail: 'Verify your email',
+      verifyEmailBanner: 'Check {email} for a verification link.',
+      resend: 'Resend',
+      sent: 'Sent',
+      verifyingEmail: 'Verifying your email…',
+      emailVerified: 'Your email address is verified.',
+      guestMode: 'Guest Mode',
+      guestModeDescription: 'Your portfolios are saved only on this device. Price alerts and syncing between devices need an account, which you can create at any time.',
+      guestBanner: 'Guest mode: saved on this device only',
+      guestAlerts: 'Price alerts are checked by our servers, so they need an account',
+      serverUnavailable: "We couldn't reach the server. Try again later, or continue without an account for now.",
+      accountExists: 'Account Already Exists',
+      accountExistsDescription: '{email} already has an account that signs in with {providers}. Sign in that way once and {provider} will be linked to it, so either one works from then on.',
     },
 
     // Portfolio
@@ -78,6 +102,17 @@ const translations = {
       cost: 'Cost',
       change: 'Change',
       gainLoss: 'Gain/Loss',
+      unrealized: 'Unrealized',
+      realized: 'Realized',
+      shortTerm: 'Short-term',
+      longTerm: 'Long-term',
+      costBasisMethod: 'Cost Basis Method',
+      baseCurrency: 'Base Currency',
+      priceGain: 'Price',
+      fxGain: 'FX',
+      syncConflicts: '{count} changed on another device. Tap to review.',
+      livePrices: 'Live',
+      delayedPrices: 'Delayed',
       noAssetsYet: 'No Assets Yet',
       startBuilding: 'Start building your portfolio by adding your first asset',
       addFirstAsset: 'Add Your First Asset',
@@ -159,6 +194,10 @@ const translations = {
       exportData: 'Export Data',
       noPortfolioData: 'No Portfolio Data',
       addAssetsToView: 'Add some assets to your portfolio to view advanced analytics.',
+      returns: 'Returns',
+      timeWeightedReturn: 'Time-weighted (TWR)',
+      moneyWeightedReturn: 'Money-weighted (IRR)',
+      netDeposits: 'Net Deposits',
     },
 
     // Alerts
@@ -436,6 +475,30 @@ const translations = {
       agreeToTerms: 'Hesap oluşturarak Hizmet Şartlarımızı ve Gizlilik Politikamızı kabul etmiş olursunuz',
       signInRequired: 'Giriş Gerekli',
       pleaseSignIn: 'Bu özelliğe erişmek için lütfen giriş yapın',
+      resetPassword: 'Şifreyi Sıfırla',
+      resetPasswordHint: 'Hesabınızın e-posta adresini girin, şifrenizi sıfırlamanız için bir kod gönderelim.',
+      sendCode: 'Kod Gönder',
+      enterCode: 'Kodu Girin',
+      codeSent: '{email} adresine 6 haneli bir kod gönderdik.',
+      code: 'Kod',
+      verify: 'Doğrula',
+      resendCode: 'Yeni kod gönder',
+      newPassword: 'Yeni Şifre',
+      setNewPassword: 'Yeni Şifre Belirle',
+      passwordChanged: 'Şifreniz değiştirildi. Yeni şifrenizle giriş yapın.',
+      verifyEmail: 'E-postanızı doğrulayın',
+      verifyEmailBanner: 'Doğrulama bağlantısı için {email} adresini kontrol edin.',
+      resend: 'Tekrar Gönder',
+      sent: 'Gönderildi',
+      verifyingEmail: 'E-postanız doğrulanıyor…',
+      emailVerified: 'E-posta adresiniz doğrulandı.',
+      guestMode: 'Misafir Modu',
+      guestModeDescription: 'Portföyleriniz yalnızca bu cihazda saklanır. Fiyat uyarıları ve cihazlar arası senkronizasyon için bir hesap gerekir; istediğiniz zaman oluşturabilirsiniz.',
+      guestBanner: 'Misafir modu: yalnızca bu cihazda saklanır',
+      guestAlerts: 'Fiyat uyarıları sunucularımızda kontrol edildiği için bir hesap gerektirir',
+      serverUnavailable: 'Sunucuya ulaşılamadı. Daha sonra tekrar deneyin veya şimdilik hesapsız devam edin.',
+      accountExists: 'Hesap Zaten Var',
+      accountExistsDescription: '{email} için {providers} ile giriş yapılan bir hesap zaten var. Bir kez bu şekilde giriş yapın, {provider} hesaba bağlansın; sonrasında ikisiyle de giriş yapabilirsiniz.',
     },
 
     // Portfolio
@@ -447,6 +510,17 @@ const translations = {
       cost: 'Maliyet',
       change: 'Değişim',
       gainLoss: 'Kar/Zarar',
+      unrealized: 'Gerçekleşmemiş',
+      realized: 'Gerçekleşmiş',
+      shortTerm: 'Kısa vadeli',
+      longTerm: 'Uzun vadeli',
+      costBasisMethod: 'Maliyet Yöntemi',
+      baseCurrency: 'Ana Para Birimi',
+      priceGain: 'Fiyat',
+      fxGain: 'Kur',
+      syncConflicts: '{count} öğe başka bir cihazda değişti. İncelemek için dokunun.',
+      livePrices: 'Canlı',
+      delayedPrices: 'Gecikmeli',
       noAssetsYet: 'Henüz Varlık Yok',
       startBuilding: 'İlk varlığınızı ekleyerek portföyünüzü oluşturmaya başlayın',
       addFirstAsset: 'İlk Varlığınızı Ekleyin',
@@ -528,6 +602,10 @@ const translations = {
       exportData: 'Veri Dışa Aktar',
       noPortfolioData: 'Portföy Verisi Yok',
       addAssetsToView: 'Gelişmiş analitikleri görüntülemek için portföyünüze varlık ekleyin.',
+      returns: 'Getiriler',
+      timeWeightedReturn: 'Zaman ağırlıklı (TWR)',
+      moneyWeightedReturn: 'Para ağırlıklı (IRR)',
+      netDeposits: 'Net Yatırım',
     },
 
     // Alerts
@@ -0,0 +1,52 @@
+import {
+  APIAsset,
+  AssetSearchQuery,
+  Candle,
+  CandleInterval,
+  MarketData,
+  MarketDataProvider,
+  NewsArticle,
+  NewsQuery,
+  RequestOptions,
+  SearchResult,
+} from '../../types';
+import APIClient from '../api';
+import { POPULAR_SYMBOLS } from './fixtures';
+
+/**
+ * Market data from the active backend profile. Errors are passed on as they
+ * are; there's no quiet fallback to sample data.
+ */
+class BackendMarketDataProvider implements MarketDataProvider {
+  readonly id = 'backend' as const;
+
+  searchAssets(search: AssetSearchQuery, options?: RequestOptions): Promise<SearchResult> {
+    return APIClient.searchAssets(search, options);
+  }
+
+  // An empty query matches everything, so the first page by popularity is the popular list
+  async getPopularAssets(options?: RequestOptions): Promise<APIAsset[]> {
+    const results = await APIClient.searchAssets({ query: '', sort: 'popularity', limit: POPULAR_SYMBOLS.length }, options);
+    return results.assets;
+  }
+
+  getQuotes(symbols: string[], options?: RequestOptions): Promise<MarketData[]> {
+    return APIClient.getMarketData(symbols, options);
+  }
+
+  getCandles(symbol: string, interval: CandleInterval, from: Date, to: Date, options?: RequestOptions): Promise<Candle[]> {
+    return APIClient.getCandles(symbol, interval, from, to, options);
+  }
+
+  getNews(query: NewsQuery, options?: RequestOptions): Promise<NewsArticle[]> {
+    if (query.search) {
+      return APIClient.searchNews(query.search, query.category, options);
+    }
+    if (query.symbols && query.symbols.length > 0) {
+      return APIClient.getNewsForSymbols(query.symbols, options);
+    }
+    return APIClient.getNewsByCategory(query.category || 'general', options);
+  }
+}
+
+export const backendProvider = new BackendMarketDataProvider();
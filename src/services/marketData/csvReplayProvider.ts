@@ -0,0 +1,149 @@
+import {
+  APIAsset,
+  AssetSearchQuery,
+  Candle,
+  CandleInterval,
+  MarketData,
+  MarketDataProvider,
+  NewsArticle,
+  NewsQuery,
+  PriceBar,
+  SearchResult,
+} from '../../types';
+import { searchCatalog } from '../../utils/assetSearch';
+import { aggregateCandles } from '../../utils/candles';
+import { POPULAR_SYMBOLS } from './fixtures';
+import { fixtureProvider } from './fixtureProvider';
+
+interface CsvReplayProviderConfig {
+  // Wall-clock time each row of the file is shown for
+  stepMs: number;
+  now: () => number;
+}
+
+/**
+ * Plays back a price history file as if it were live: the replay starts at
+ * the file's first date when loaded and moves one date forward every
+ * `stepMs`, looping at the end. History is whatever came before the
+ * replayed date. The file has no news, so news comes from the fixtures.
+ */
+class CsvReplayMarketDataProvider implements MarketDataProvider {
+  readonly id = 'csv-replay' as const;
+  private config: CsvReplayProviderConfig = {
+    stepMs: 10000,
+    now: () => Date.now(),
+  };
+  private series: Record<string, PriceBar[]> = {};
+  private dates: string[] = [];
+  private startedAt = 0;
+
+  constructor(config?: Partial<CsvReplayProviderConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Replace the file being replayed and start again from its first date
+   */
+  load(series: Record<string, PriceBar[]>): void {
+    this.series = series;
+    this.dates = Array.from(new Set(Object.values(series).flat().map(bar => bar.date))).sort();
+    this.startedAt = this.config.now();
+  }
+
+  clear(): void {
+    this.load({});
+  }
+
+  getSymbols(): string[] {
+    return Object.keys(this.series).sort();
+  }
+
+  async searchAssets(search: AssetSearchQuery): Promise<SearchResult> {
+    return searchCatalog(this.getSymbols().map(symbol => this.toAsset(symbol)), search);
+  }
+
+  async getPopularAssets(): Promise<APIAsset[]> {
+    const symbols = this.getSymbols();
+    const popular = POPULAR_SYMBOLS.filter(symbol => symbols.includes(symbol));
+    return (popular.length > 0 ? popular : symbols.slice(0, POPULAR_SYMBOLS.length)).map(symbol => this.toAsset(symbol));
+  }
+
+  async getQuotes(symbols: string[]): Promise<MarketData[]> {
+    const date = this.replayDate();
+    return symbols
+      .map(symbol => this.quoteAt(symbol.toUpperCase(), date))
+      .filter((quote): quote is MarketData => !!quote);
+  }
+
+  // Bars keep the file's own granularity; only weekly asks are rolled up
+  async getCandles(symbol: string, interval: CandleInterval, from: Date, to: Date): Promise<Candle[]> {
+    const date = this.replayDate();
+    // The requested range is measured back from the replayed date, not today
+    const offset = this.config.now() - new Date(date).getTime();
+    const start = new Date(from.getTime() - offset).toISOString();
+    const end = new Date(Math.min(to.getTime() - offset, new Date(date).getTime() + 1)).toISOString();
+
+    const candles = (this.series[symbol.toUpperCase()] || [])
+      .filter(bar => bar.date >= start && bar.date < end)
+      .map(bar => ({
+        timestamp: bar.date,
+        open: bar.open ?? bar.close,
+        high: bar.high ?? Math.max(bar.open ?? bar.close, bar.close),
+        low: bar.low ?? Math.min(bar.open ?? bar.close, bar.close),
+        close: bar.close,
+        volume: bar.volume ?? 0,
+      }));
+    return interval === '1w' ? aggregateCandles(candles, '1w') : candles;
+  }
+
+  getNews(query: NewsQuery): Promise<NewsArticle[]> {
+    return fixtureProvider.getNews(query);
+  }
+
+  private replayDate(): string {
+    if (this.dates.length === 0) {
+      throw new Error('No price history is loaded for replay');
+    }
+    const step = Math.floor((this.config.now() - this.startedAt) / this.config.stepMs);
+    return this.dates[step % this.dates.length];
+  }
+
+  // The latest bar on or before the replayed date, compared with the one before it
+  private quoteAt(symbol: string, date: string): MarketData | null {
+    const bars = this.series[symbol] || [];
+    let index = -1;
+    for (let i = 0; i < bars.length && bars[i].date <= date; i++) index = i;
+    if (index < 0) return null;
+
+    const bar = bars[index];
+    const previousClose = index > 0 ? bars[index - 1].close : bar.open ?? bar.close;
+    const change = bar.close - previousClose;
+    return {
+      symbol,
+      price: bar.close,
+      change,
+      changePercent: previousClose ? (change / previousClose) * 100 : 0,
+      volume: bar.volume ?? 0,
+      high24h: bar.high,
+      low24h: bar.low,
+      timestamp: bar.date,
+    };
+  }
+
+  // Everything in the file is treated as a US stock
+  private toAsset(symbol: string): APIAsset {
+    const quote = this.dates.length > 0 ? this.quoteAt(symbol, this.replayDate()) : null;
+    return {
+      id: symbol,
+      symbol,
+      name: symbol,
+      type: 'stock',
+      currency: 'USD',
+      currentPrice: quote?.price,
+      change24h: quote?.change,
+      changePercent24h: quote?.changePercent,
+    };
+  }
+}
+
+export const csvReplayProvider = new CsvReplayMarketDataProvider();
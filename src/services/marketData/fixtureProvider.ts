@@ -0,0 +1,150 @@
+import {
+  APIAsset,
+  AssetSearchQuery,
+  Candle,
+  CandleInterval,
+  MarketData,
+  MarketDataProvider,
+  NewsArticle,
+  NewsQuery,
+  SearchResult,
+} from '../../types';
+import { searchCatalog } from '../../utils/assetSearch';
+import { alignToInterval, INTERVAL_MS } from '../../utils/candles';
+import {
+  DAY_MS,
+  FIXTURE_ASSETS,
+  FIXTURE_NEWS,
+  HOUR_MS,
+  MINUTE_MS,
+  POPULAR_SYMBOLS,
+  fixtureBasePrice,
+  hashSymbol,
+  seededRandom,
+} from './fixtures';
+
+interface FixtureProviderConfig {
+  // Prices depend only on the symbol and this clock
+  now: () => number;
+}
+
+const matchesText = (article: NewsArticle, text: string) =>
+  [article.title, article.summary, article.content || ''].some(field => field.toLowerCase().includes(text));
+
+/**
+ * Deterministic market data with no network: the same symbol at the same
+ * minute always has the same price. Prices swing slowly around the catalog
+ * price with a little hourly noise, so charts and day moves look plausible.
+ */
+class FixtureMarketDataProvider implements MarketDataProvider {
+  readonly id = 'fixture' as const;
+  private config: FixtureProviderConfig = {
+    now: () => Date.now(),
+  };
+
+  constructor(config?: Partial<FixtureProviderConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  async searchAssets(search: AssetSearchQuery): Promise<SearchResult> {
+    return searchCatalog(FIXTURE_ASSETS.map(asset => this.withQuote(asset)), search);
+  }
+
+  async getPopularAssets(): Promise<APIAsset[]> {
+    return POPULAR_SYMBOLS
+      .map(symbol => FIXTURE_ASSETS.find(asset => asset.symbol === symbol))
+      .filter((asset): asset is APIAsset & { currentPrice: number } => !!asset)
+      .map(asset => this.withQuote(asset));
+  }
+
+  async getQuotes(symbols: string[]): Promise<MarketData[]> {
+    const now = this.config.now();
+    return symbols.map(symbol => this.quoteAt(symbol.toUpperCase(), now));
+  }
+
+  async getCandles(symbol: string, interval: CandleInterval, from: Date, to: Date): Promise<Candle[]> {
+    const key = symbol.toUpperCase();
+    const step = INTERVAL_MS[interval];
+    const now = this.config.now();
+    const end = Math.min(to.getTime(), now + 1);
+
+    const candles: Candle[] = [];
+    for (let start = alignToInterval(from.getTime(), interval); start < end; start += step) {
+      if (start < from.getTime()) continue;
+      // Sample inside the bar for its range; the bar still forming stops at now
+      const last = Math.min(start + step - 1, now);
+      const samples = Array.from({ length: 12 }, (_, i) => this.priceAt(key, start + ((last - start) * i) / 11));
+      candles.push({
+        timestamp: new Date(start).toISOString(),
+        open: samples[0],
+        high: Math.max(...samples),
+        low: Math.min(...samples),
+        close: samples[samples.length - 1],
+        volume: Math.round(seededRandom(hashSymbol(key) + Math.floor(start / MINUTE_MS)) * 1000 * (step / MINUTE_MS)),
+      });
+    }
+    return candles;
+  }
+
+  async getNews(query: NewsQuery): Promise<NewsArticle[]> {
+    const text = query.search?.trim().toLowerCase();
+    const symbols = query.symbols?.map(symbol => symbol.toUpperCase());
+
+    let articles = query.category && !text
+      ? FIXTURE_NEWS[query.category] || FIXTURE_NEWS.general
+      : Object.values(FIXTURE_NEWS).flat();
+
+    if (text) {
+      articles = articles.filter(article => matchesText(article, text));
+    }
+    if (symbols && symbols.length > 0) {
+      articles = articles.filter(article =>
+        article.relatedSymbols?.some(symbol => symbols.includes(symbol.toUpperCase()))
+      );
+    }
+    return articles;
+  }
+
+  // ±15% over a few months, up to ±2% that changes every hour and ±0.3% every minute
+  private priceAt(symbol: string, time: number): number {
+    const seed = hashSymbol(symbol);
+    const phase = (seed % 360) * (Math.PI / 180);
+    const swing = 0.15 * Math.sin(time / DAY_MS / 20 + phase);
+    const noise = 0.02 * (seededRandom(seed + Math.floor(time / HOUR_MS)) * 2 - 1);
+    const tick = 0.003 * (seededRandom(seed * 31 + Math.floor(time / MINUTE_MS)) * 2 - 1);
+    const base = fixtureBasePrice(symbol);
+    // Exchange rates below one would round away in cents
+    const scale = base < 1 ? 1000000 : 100;
+    return Math.round(base * (1 + swing + noise + tick) * scale) / scale;
+  }
+
+  private quoteAt(symbol: string, time: number): MarketData {
+    const price = this.priceAt(symbol, time);
+    const previousClose = this.priceAt(symbol, time - DAY_MS);
+    const hours = Array.from({ length: 24 }, (_, hour) => this.priceAt(symbol, time - hour * HOUR_MS));
+    const change = price - previousClose;
+
+    return {
+      symbol,
+      price,
+      change,
+      changePercent: (change / previousClose) * 100,
+      volume: Math.round(seededRandom(hashSymbol(symbol) + Math.floor(time / DAY_MS)) * 1000000),
+      high24h: Math.max(...hours),
+      low24h: Math.min(...hours),
+      timestamp: new Date(time).toISOString(),
+    };
+  }
+
+  private withQuote(asset: APIAsset): APIAsset {
+    const quote = this.quoteAt(asset.symbol, this.config.now());
+    return {
+      ...asset,
+      currentPrice: quote.price,
+      change24h: quote.change,
+      changePercent24h: quote.changePercent,
+    };
+  }
+}
+
+export const fixtureProvider = new FixtureMarketDataProvider();
@@ -0,0 +1,143 @@
+import { APIAsset, NewsArticle } from '../../types';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const HOUR_MS = 60 * 60 * 1000;
+export const MINUTE_MS = 60 * 1000;
+
+// Made-up listings with a reference price each; not live data
+export const FIXTURE_ASSETS: (APIAsset & { currentPrice: number })[] = [
+  { id: 'AAPL', symbol: 'AAPL', name: 'Apple Inc.', type: 'stock', exchange: 'NASDAQ', currency: 'USD', currentPrice: 173.5 },
+  { id: 'MSFT', symbol: 'MSFT', name: 'Microsoft Corporation', type: 'stock', exchange: 'NASDAQ', currency: 'USD', currentPrice: 375.2 },
+  { id: 'GOOGL', symbol: 'GOOGL', name: 'Alphabet Inc.', type: 'stock', exchange: 'NASDAQ', currency: 'USD', currentPrice: 139.7 },
+  { id: 'AMZN', symbol: 'AMZN', name: 'Amazon.com, Inc.', type: 'stock', exchange: 'NASDAQ', currency: 'USD', currentPrice: 151.9 },
+  { id: 'TSLA', symbol: 'TSLA', name: 'Tesla, Inc.', type: 'stock', exchange: 'NASDAQ', currency: 'USD', currentPrice: 248.42 },
+  { id: 'NVDA', symbol: 'NVDA', name: 'NVIDIA Corporation', type: 'stock', exchange: 'NASDAQ', currency: 'USD', currentPrice: 481.1 },
+  { id: 'SPY', symbol: 'SPY', name: 'SPDR S&P 500 ETF', type: 'etf', exchange: 'NYSE', currency: 'USD', currentPrice: 467.5 },
+  { id: 'BTC', symbol: 'BTC', name: 'Bitcoin', type: 'crypto', currency: 'USD', currentPrice: 43250 },
+  { id: 'ETH', symbol: 'ETH', name: 'Ethereum', type: 'crypto', currency: 'USD', currentPrice: 2650 },
+  { id: 'EURUSD', symbol: 'EURUSD', name: 'Euro / US Dollar', type: 'forex', currency: 'USD', currentPrice: 1.08 },
+  { id: 'GBPUSD', symbol: 'GBPUSD', name: 'British Pound / US Dollar', type: 'forex', currency: 'USD', currentPrice: 1.27 },
+  { id: 'TRYUSD', symbol: 'TRYUSD', name: 'Turkish Lira / US Dollar', type: 'forex', currency: 'USD', currentPrice: 0.031 },
+  { id: 'JPYUSD', symbol: 'JPYUSD', name: 'Japanese Yen / US Dollar', type: 'forex', currency: 'USD', currentPrice: 0.0067 },
+  { id: 'CHFUSD', symbol: 'CHFUSD', name: 'Swiss Franc / US Dollar', type: 'forex', currency: 'USD', currentPrice: 1.12 },
+  { id: 'CADUSD', symbol: 'CADUSD', name: 'Canadian Dollar / US Dollar', type: 'forex', currency: 'USD', currentPrice: 0.74 },
+  { id: 'AUDUSD', symbol: 'AUDUSD', name: 'Australian Dollar / US Dollar', type: 'forex', currency: 'USD', currentPrice: 0.66 },
+];
+
+export const POPULAR_SYMBOLS = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'BTC', 'ETH', 'SPY'];
+
+export const hashSymbol = (symbol: string): number => {
+  let hash = 0;
+  for (let i = 0; i < symbol.length; i++) {
+    hash = (hash * 31 + symbol.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+};
+
+// Catalog price, or a stable made-up one for symbols outside the catalog
+export const fixtureBasePrice = (symbol: string): number => {
+  const key = symbol.toUpperCase();
+  const listing = FIXTURE_ASSETS.find(asset => asset.symbol === key);
+  return listing ? listing.currentPrice : 10 + (hashSymbol(key) % 49000) / 100;
+};
+
+// Same seed, same number in [0, 1), so fixture prices repeat across runs
+export const seededRandom = (seed: number): number => {
+  let t = (seed + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Sample articles by category, also used while the backend is offline
+export const FIXTURE_NEWS: Record<string, NewsArticle[]> = {
+  general: [
+    {
+      id: '1',
+      title: 'Stock Market Reaches New Highs as Technology Sector Surges',
+      summary: 'Major indices close at record levels driven by strong earnings from tech giants and positive economic indicators.',
+      content: 'The stock market continued its upward trajectory today as major technology companies reported better-than-expected quarterly earnings. The S&P 500 and NASDAQ both reached new record highs, with investor confidence bolstered by strong consumer spending data and dovish comments from Federal Reserve officials.',
+      imageUrl: 'https://images.unsplash.com/photo-1611974789855-9c2a0a7236a3?w=800',
+      source: 'Financial Times',
+      url: 'https://example.com/news/1',
+      publishedAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+      relatedSymbols: ['AAPL', 'MSFT', 'GOOGL', 'AMZN'],
+    },
+    {
+      id: '2',
+      title: 'Federal Reserve Signals Potential Rate Cut in Coming Months',
+      summary: 'Central bank officials hint at monetary policy easing as inflation shows signs of cooling.',
+      content: 'Federal Reserve Chairman Jerome Powell indicated that the central bank is prepared to adjust monetary policy in response to changing economic conditions. Recent inflation data has shown a marked decline from peak levels, giving the Fed more flexibility in its approach to interest rates.',
+      imageUrl: 'https://images.unsplash.com/photo-1526304640581-d334cdbbf45e?w=800',
+      source: 'Reuters',
+      publishedAt: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(),
+      relatedSymbols: ['SPY', 'TLT', 'GLD'],
+    },
+    {
+      id: '3',
+      title: 'Renewable Energy Stocks Rally on New Climate Legislation',
+      summary: 'Clean energy companies see significant gains following passage of comprehensive environmental policies.',
+      content: 'Shares of renewable energy companies surged following the passage of new climate legislation that includes substantial incentives for solar, wind, and battery storage technologies. The bill is expected to accelerate the transition to clean energy and create new investment opportunities.',
+      imageUrl: 'https://images.unsplash.com/photo-1466611653911-95081537e5b7?w=800',
+      source: 'Bloomberg',
+      publishedAt: new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString(),
+      relatedSymbols: ['ENPH', 'SEDG', 'TSLA', 'NEE'],
+    },
+  ],
+  technology: [
+    {
+      id: '4',
+      title: 'AI Revolution Drives Massive Investment in Semiconductor Companies',
+      summary: 'Artificial intelligence boom creates unprecedented demand for advanced chip manufacturing.',
+      content: 'The artificial intelligence revolution is creating massive demand for semiconductors, with companies racing to develop more powerful and efficient chips. Leading semiconductor manufacturers are reporting record order backlogs and are investing billions in new fabrication facilities.',
+      imageUrl: 'https://images.unsplash.com/photo-1518709268805-4e9042af2176?w=800',
+      source: 'TechCrunch',
+      publishedAt: new Date(Date.now() - 1 * 60 * 60 * 1000).toISOString(),
+      relatedSymbols: ['NVDA', 'AMD', 'INTC', 'TSM'],
+    },
+    {
+      id: '5',
+      title: 'Cloud Computing Giants Report Strong Quarter Despite Economic Headwinds',
+      summary: 'Major cloud providers maintain growth momentum as enterprises accelerate digital transformation.',
+      content: 'Leading cloud computing companies have reported robust quarterly results, defying broader economic concerns. Enterprise customers continue to migrate workloads to the cloud, driving steady revenue growth for major providers despite macroeconomic uncertainty.',
+      imageUrl: 'https://images.unsplash.com/photo-1451187580459-43490279c0fa?w=800',
+      source: 'Wired',
+      publishedAt: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
+      relatedSymbols: ['MSFT', 'AMZN', 'GOOGL', 'CRM'],
+    },
+  ],
+  cryptocurrency: [
+    {
+      id: '6',
+      title: 'Bitcoin Institutional Adoption Reaches New Milestone',
+      summary: 'Major corporations and investment funds continue to add Bitcoin to their treasury reserves.',
+      content: 'Institutional adoption of Bitcoin has reached a new milestone as more corporations announce plans to add the cryptocurrency to their balance sheets. This trend is being driven by concerns about inflation and the search for alternative store-of-value assets.',
+      imageUrl: 'https://images.unsplash.com/photo-1621761191319-c6fb62004040?w=800',
+      source: 'CoinDesk',
+      publishedAt: new Date(Date.now() - 30 * 60 * 1000).toISOString(),
+      relatedSymbols: ['BTC', 'ETH'],
+    },
+    {
+      id: '7',
+      title: 'Ethereum Network Upgrade Improves Transaction Efficiency',
+      summary: 'Latest protocol update significantly reduces gas fees and increases transaction throughput.',
+      content: 'The Ethereum network has successfully implemented a major upgrade that dramatically improves transaction efficiency and reduces fees. The update is expected to make decentralized finance (DeFi) applications more accessible to mainstream users.',
+      imageUrl: 'https://images.unsplash.com/photo-1639322537228-f710d846310a?w=800',
+      source: 'Decrypt',
+      publishedAt: new Date(Date.now() - 45 * 60 * 1000).toISOString(),
+      relatedSymbols: ['ETH'],
+    },
+  ],
+  economic: [
+    {
+      id: '8',
+      title: 'Global Supply Chain Disruptions Begin to Ease',
+      summary: 'Manufacturing and shipping indicators show improvement after months of challenges.',
+      content: 'Global supply chain metrics are showing signs of improvement as shipping costs decline and manufacturing backlogs begin to clear. This development could help ease inflationary pressures and support economic growth in the coming quarters.',
+      imageUrl: 'https://images.unsplash.com/photo-1586528116311-ad8dd3c8310d?w=800',
+      source: 'Wall Street Journal',
+      publishedAt: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString(),
+      relatedSymbols: ['FDX', 'UPS', 'CAT', 'GE'],
+    },
+  ],
+};
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { APIAsset, AssetSearchQuery, MarketDataProvider, MarketDataProviderId } from '../../types';
+import { useMarketDataStore } from '../../store/marketDataStore';
+import { useBackendStore } from '../../store/backendStore';
+import { backendProvider } from './backendProvider';
+import { fixtureProvider } from './fixtureProvider';
+import { csvReplayProvider } from './csvReplayProvider';
+import APIClient, { isRequestCanceled } from '../api';
+import { useAbortSignal } from '../../utils/performanceOptimizations';
+
+export { backendProvider, fixtureProvider, csvReplayProvider };
+
+export const MARKET_DATA_PROVIDERS: Record<MarketDataProviderId, MarketDataProvider> = {
+  backend: backendProvider,
+  fixture: fixtureProvider,
+  'csv-replay': csvReplayProvider,
+};
+
+// The provider chosen in settings; the backend can't answer in offline mode, so fixtures stand in
+export const getMarketDataProvider = (): MarketDataProvider => {
+  const providerId = useMarketDataStore.getState().getProviderId();
+  if (providerId === 'backend' && useBackendStore.getState().isOfflineMode) {
+    return fixtureProvider;
+  }
+  return MARKET_DATA_PROVIDERS[providerId];
+};
+
+// Names where data came from, so caches can tell a switch of provider or backend
+export const getMarketDataSource = (): string => {
+  const provider = getMarketDataProvider();
+  return provider.id === 'backend' ? `backend:${APIClient.getBaseUrl()}` : provider.id;
+};
+
+interface AssetSearchState {
+  results: APIAsset[];
+  totalResults: number;
+  hasMore: boolean;
+  isSearching: boolean;
+  error: string | null;
+}
+
+const EMPTY_SEARCH: AssetSearchState = { results: [], totalResults: 0, hasMore: false, isSearching: false, error: null };
+
+/**
+ * Search the active source a page at a time. A new query or filter starts
+ * over and cancels whatever was still loading; `loadMore` appends the next
+ * page, so hand it to a list's `onEndReached`. Pass null to clear.
+ */
+export const useAssetSearch = (search: Omit<AssetSearchQuery, 'cursor'> | null) => {
+  const [state, setState] = useState<AssetSearchState>(EMPTY_SEARCH);
+  const nextSignal = useAbortSignal();
+  const cursorRef = useRef<string | undefined>(undefined);
+  const loadingRef = useRef(false);
+  // Bumped per search so pages from a source that can't cancel don't land on the wrong one
+  const generationRef = useRef(0);
+  const key = search ? JSON.stringify(search) : '';
+
+  const fetchPage = useCallback(async (query: Omit<AssetSearchQuery, 'cursor'>, cursor: string | undefined, generation: number) => {
+    loadingRef.current = true;
+    try {
+      const page = await getMarketDataProvider().searchAssets({ ...query, cursor }, { signal: nextSignal() });
+      if (generation !== generationRef.current) return;
+      cursorRef.current = page.nextCursor;
+      setState(previous => {
+        // Pages can overlap when the results shift between requests
+        const seen = new Set(cursor ? previous.results.map(asset => asset.id) : []);
+        const fresh = page.assets.filter(asset => !seen.has(asset.id));
+        return {
+          results: cursor ? [...previous.results, ...fresh] : fresh,
+          totalResults: page.totalResults,
+          hasMore: page.hasMore && !!page.nextCursor,
+          isSearching: false,
+          error: null,
+        };
+      });
+    } catch (error) {
+      if (isRequestCanceled(error) || generation !== generationRef.current) return;
+      console.warn('Asset search failed:', error);
+      setState(previous => ({ ...previous, isSearching: false, error: 'Failed to search assets' }));
+    } finally {
+      if (generation === generationRef.current) loadingRef.current = false;
+    }
+  }, [nextSignal]);
+
+  useEffect(() => {
+    const generation = ++generationRef.current;
+    cursorRef.current = undefined;
+    loadingRef.current = false;
+    if (!search) {
+      nextSignal();
+      setState(EMPTY_SEARCH);
+      return;
+    }
+    setState({ ...EMPTY_SEARCH, isSearching: true });
+    fetchPage(search, undefined, generation);
+  }, [key]);
+
+  const loadMore = useCallback(async () => {
+    if (!search || loadingRef.current || !cursorRef.current) return;
+    await fetchPage(search, cursorRef.current, generationRef.current);
+  }, [key, fetchPage]);
+
+  return { ...state, loadMore };
+};
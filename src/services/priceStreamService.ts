@@ -0,0 +1,367 @@
+import { useCallback } from 'react';
+import { useFocusEffect } from '@react-navigation/native';
+import { MarketData, PriceStreamStatus, QuoteSocket, RetryPolicy } from '../types';
+import APIClient from './api';
+import { quoteService } from './quoteService';
+import { useQuoteStore } from '../store/quoteStore';
+import { usePortfolioStore } from '../store/portfolioStore';
+import { computeBackoffDelay } from '../utils/retry';
+import { isApiResponseError, parseMarketData } from '../utils/apiSchema';
+
+interface PriceStreamConfig {
+  path: string;
+  // `retries` is how many failed connects in a row it takes to start polling
+  reconnect: RetryPolicy;
+  pollIntervalMs: number;
+  // A socket that hasn't opened by then is given up on and retried
+  connectTimeoutMs: number;
+  // Quotes are collected and handed to the stores at most this often
+  flushIntervalMs: number;
+  createSocket: (url: string) => QuoteSocket;
+}
+
+const STREAM_PATH = '/api/v1/stream/quotes';
+
+/**
+ * Live quotes over a WebSocket. Screens subscribe to the symbols they show;
+ * the connection carries the union of those and is dropped when nobody is
+ * watching anything. Lost connections come back with backoff, and prices
+ * are polled while the stream stays down.
+ *
+ * The client sends `{ type: 'auth', token }`, then `{ type: 'subscribe' |
+ * 'unsubscribe', symbols }`; the server sends `{ type: 'quotes', data }`
+ * with quotes in the same shape as /api/v1/market.
+ */
+class PriceStreamService {
+  private config: PriceStreamConfig = {
+    path: STREAM_PATH,
+    reconnect: { retries: 3, baseDelayMs: 1000, maxDelayMs: 30000 },
+    pollIntervalMs: 15000,
+    connectTimeoutMs: 5000,
+    flushIntervalMs: 1000,
+    createSocket: (url) => new WebSocket(url),
+  };
+  private subscriptions = new Map<string, number>();
+  private running = false;
+  private socket: QuoteSocket | null = null;
+  private isOpen = false;
+  private isConnecting = false;
+  private attempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: Record<string, MarketData> = {};
+
+  constructor(config?: Partial<PriceStreamConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Change settings, e.g. to point the stream at the local stand-in server.
+   * A running stream reconnects with the new settings.
+   */
+  configure(config: Partial<PriceStreamConfig>): void {
+    this.config = { ...this.config, ...config };
+    if (this.running) {
+      this.disconnect();
+      this.connect();
+    }
+  }
+
+  /**
+   * Start streaming for whatever is subscribed, now and later. Returns a
+   * function that stops it.
+   */
+  start(): () => void {
+    if (!this.running) {
+      this.running = true;
+      this.connect();
+    }
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.disconnect();
+    this.flush();
+    // Whatever replaces the stream may price things differently
+    useQuoteStore.getState().clear();
+  }
+
+  /**
+   * Watch some symbols until the returned function is called. Symbols are
+   * counted per subscriber, so two screens showing the same one share it.
+   */
+  subscribe(symbols: string[]): () => void {
+    const keys = Array.from(new Set(symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+    const added = keys.filter(key => !this.subscriptions.has(key));
+    keys.forEach(key => this.subscriptions.set(key, (this.subscriptions.get(key) || 0) + 1));
+
+    if (added.length > 0) {
+      if (this.isOpen) {
+        this.send({ type: 'subscribe', symbols: added });
+      } else if (this.pollTimer) {
+        this.poll();
+      } else if (!this.reconnectTimer) {
+        // A pending reconnect will pick the new symbols up when it opens
+        this.connect();
+      }
+    }
+
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+      this.release(keys);
+    };
+  }
+
+  getSymbols(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  private release(keys: string[]) {
+    const removed = keys.filter(key => {
+      const count = (this.subscriptions.get(key) || 0) - 1;
+      if (count > 0) {
+        this.subscriptions.set(key, count);
+        return false;
+      }
+      this.subscriptions.delete(key);
+      delete this.pending[key];
+      return true;
+    });
+
+    if (this.subscriptions.size === 0) {
+      // Nothing on screen needs prices, so don't hold a connection open for it
+      this.disconnect();
+      this.setStatus('idle');
+    } else if (removed.length > 0 && this.isOpen) {
+      this.send({ type: 'unsubscribe', symbols: removed });
+    }
+  }
+
+  private async connect() {
+    if (!this.running || this.socket || this.isConnecting || this.subscriptions.size === 0) return;
+
+    this.clearReconnect();
+    this.isConnecting = true;
+    if (!this.pollTimer) this.setStatus('connecting');
+
+    let token: string | undefined;
+    try {
+      token = await APIClient.getAccessToken();
+    } catch (error) {
+      console.warn('Failed to read credentials for the quote stream:', error);
+    }
+    this.isConnecting = false;
+    if (!this.running || this.socket || this.subscriptions.size === 0) return;
+
+    let socket: QuoteSocket;
+    try {
+      socket = this.config.createSocket(this.getStreamUrl());
+    } catch (error) {
+      console.warn('Failed to open the quote stream:', error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+    this.connectTimer = setTimeout(() => {
+      this.connectTimer = null;
+      if (this.socket !== socket || this.isOpen) return;
+      console.warn('Quote stream did not open in time');
+      this.socket = null;
+      this.closeSocket(socket);
+      this.scheduleReconnect();
+    }, this.config.connectTimeoutMs);
+
+    socket.onopen = () => {
+      if (this.socket !== socket) return;
+      this.clearConnectTimer();
+      this.isOpen = true;
+      this.attempt = 0;
+      this.stopPolling();
+      this.setStatus('live');
+      if (token) this.send({ type: 'auth', token });
+      this.send({ type: 'subscribe', symbols: this.getSymbols() });
+    };
+    socket.onmessage = (event) => {
+      if (this.socket !== socket) return;
+      // One bad frame is logged and dropped instead of escaping the socket's handler
+      try {
+        this.handleMessage(event.data);
+      } catch (error) {
+        console.warn('Dropped a quote stream message:', error);
+      }
+    };
+    socket.onerror = (event) => {
+      console.warn('Quote stream error:', event?.message || event);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.clearConnectTimer();
+      this.socket = null;
+      this.isOpen = false;
+      this.scheduleReconnect();
+    };
+  }
+
+  private disconnect() {
+    this.clearReconnect();
+    this.clearConnectTimer();
+    this.stopPolling();
+    this.attempt = 0;
+
+    const socket = this.socket;
+    this.socket = null;
+    this.isOpen = false;
+    if (socket) this.closeSocket(socket);
+  }
+
+  // Detached first, so a socket that's been replaced can't report back
+  private closeSocket(socket: QuoteSocket) {
+    socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+    try {
+      socket.close(1000, 'Client closed');
+    } catch {
+      // Already gone
+    }
+  }
+
+  private scheduleReconnect() {
+    if (!this.running || this.subscriptions.size === 0) {
+      this.setStatus('idle');
+      return;
+    }
+
+    this.attempt += 1;
+    if (this.attempt >= this.config.reconnect.retries) {
+      this.startPolling();
+    } else if (!this.pollTimer) {
+      this.setStatus('connecting');
+    }
+
+    // Keep trying in the background; the stream takes over from polling once it's back
+    const delay = Math.max(this.config.reconnect.baseDelayMs, computeBackoffDelay(this.attempt, this.config.reconnect));
+    this.clearReconnect();
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  private clearReconnect() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+  }
+
+  private clearConnectTimer() {
+    if (this.connectTimer) clearTimeout(this.connectTimer);
+    this.connectTimer = null;
+  }
+
+  private startPolling() {
+    if (this.pollTimer) return;
+    this.setStatus('polling');
+    this.poll();
+    this.pollTimer = setInterval(() => this.poll(), this.config.pollIntervalMs);
+  }
+
+  private stopPolling() {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  private async poll() {
+    try {
+      const quotes = await quoteService.getQuotes(this.getSymbols());
+      // The stream may have come back while the request was out; its quotes are newer
+      if (this.pollTimer) this.enqueue(Object.values(quotes));
+    } catch (error) {
+      console.warn('Failed to poll quotes:', error);
+    }
+  }
+
+  private handleMessage(data: string) {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      console.warn('Ignoring malformed quote stream message');
+      return;
+    }
+
+    if (message?.type === 'quotes') {
+      try {
+        this.enqueue(parseMarketData(this.config.path, message));
+      } catch (error) {
+        console.warn(isApiResponseError(error) ? error.message : error);
+      }
+    } else if (message?.type === 'error') {
+      console.warn('Quote stream rejected a message:', message.message);
+    }
+  }
+
+  private enqueue(quotes: MarketData[]) {
+    const receivedAt = new Date().toISOString();
+    quotes.forEach(quote => {
+      const symbol = quote.symbol.toUpperCase();
+      // Late quotes for symbols nobody watches any more are dropped
+      if (!this.subscriptions.has(symbol) || !(quote.price > 0)) return;
+      this.pending[symbol] = { ...quote, symbol, timestamp: quote.timestamp || receivedAt };
+    });
+
+    if (!this.flushTimer && Object.keys(this.pending).length > 0) {
+      this.flushTimer = setTimeout(() => this.flush(), this.config.flushIntervalMs);
+    }
+  }
+
+  // One store update per batch rather than one per tick
+  private flush() {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+
+    const quotes = this.pending;
+    this.pending = {};
+    if (Object.keys(quotes).length === 0) return;
+
+    useQuoteStore.getState().applyQuotes(quotes);
+    usePortfolioStore.getState().applyLiveQuotes(quotes);
+  }
+
+  private send(message: object) {
+    try {
+      this.socket?.send(JSON.stringify(message));
+    } catch (error) {
+      console.warn('Failed to send on the quote stream:', error);
+    }
+  }
+
+  private setStatus(status: PriceStreamStatus) {
+    if (useQuoteStore.getState().status !== status) {
+      useQuoteStore.getState().setStatus(status);
+    }
+  }
+
+  private getStreamUrl(): string {
+    return `${APIClient.getBaseUrl().replace(/^http/, 'ws').replace(/\/$/, '')}${this.config.path}`;
+  }
+}
+
+export const priceStreamService = new PriceStreamService();
+
+/**
+ * Stream the given symbols while the calling screen is focused
+ */
+export const useQuoteSubscription = (symbols: string[]) => {
+  const key = Array.from(new Set(symbols.map(symbol => symbol.toUpperCase()))).sort().join(',');
+
+  useFocusEffect(
+    useCallback(() => {
+      if (!key) return undefined;
+      return priceStreamService.subscribe(key.split(','));
+    }, [key])
+  );
+};
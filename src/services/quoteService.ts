@@ -0,0 +1,55 @@
+import { MarketData } from '../types';
+import { getMarketDataProvider } from './marketData';
+
+interface QuoteServiceConfig {
+  chunkSize: number;
+}
+
+class QuoteService {
+  private config: QuoteServiceConfig = {
+    chunkSize: 50,
+  };
+
+  constructor(config?: Partial<QuoteServiceConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Get the latest quote for each symbol from the active market data
+   * provider, keyed by upper-case symbol. Symbols are de-duplicated and sent
+   * in chunks; a failed chunk only loses its own quotes, and the error is
+   * rethrown only when every chunk fails.
+   */
+  async getQuotes(symbols: string[]): Promise<Record<string, MarketData>> {
+    const unique = Array.from(new Set(symbols.map(symbol => symbol.trim().toUpperCase()).filter(Boolean)));
+    if (unique.length === 0) return {};
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < unique.length; i += this.config.chunkSize) {
+      chunks.push(unique.slice(i, i + this.config.chunkSize));
+    }
+
+    const provider = getMarketDataProvider();
+    const results = await Promise.allSettled(chunks.map(chunk => provider.getQuotes(chunk)));
+    const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed.length === results.length) {
+      throw failed[0].reason;
+    }
+    failed.forEach(result => console.warn('Failed to fetch a batch of quotes:', result.reason));
+
+    const receivedAt = new Date().toISOString();
+    const quotes: Record<string, MarketData> = {};
+    results.forEach(result => {
+      if (result.status !== 'fulfilled') return;
+      result.value.forEach(quote => {
+        if (quote.price > 0) {
+          quotes[quote.symbol.toUpperCase()] = { ...quote, timestamp: quote.timestamp || receivedAt };
+        }
+      });
+    });
+
+    return quotes;
+  }
+}
+
+export const quoteService = new QuoteService();
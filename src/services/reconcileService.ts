@@ -0,0 +1,163 @@
+import { Asset, SyncConflict, SyncConflictChoice } from '../types';
+import APIClient from './api';
+import { syncService } from './syncService';
+import { usePortfolioStore } from '../store/portfolioStore';
+import { useSyncStore } from '../store/syncStore';
+import { createEmptyPlan, reconcilePortfolios, syncBaseKey } from '../utils/reconcile';
+
+const findHolding = (portfolioId: string | undefined, holdingId: string): Asset | undefined => {
+  const { portfolios, assets, currentPortfolioId } = usePortfolioStore.getState();
+  const holdings = portfolioId === currentPortfolioId
+    ? assets
+    : portfolios.find(p => p.id === portfolioId)?.assets || [];
+  return holdings.find(asset => asset.id === holdingId);
+};
+
+const queueHoldingCreate = (asset: Asset, portfolioId: string) => {
+  const sync = useSyncStore.getState();
+  sync.forgetId(asset.id);
+  sync.enqueue({
+    entity: 'holding',
+    operation: 'create',
+    entityId: asset.id,
+    portfolioId,
+    payload: { ticker: asset.ticker, quantity: asset.quantity, averagePrice: asset.averagePrice ?? asset.currentPrice },
+  });
+};
+
+class ReconcileService {
+  /**
+   * Pull the server's portfolios and bring the local copy up to date. Edits
+   * that don't overlap are merged; the rest are kept as conflicts for the
+   * user to resolve.
+   */
+  async reconcile(): Promise<SyncConflict[]> {
+    // Our own queued edits go first so they aren't mistaken for remote ones
+    await syncService.flush();
+    const serverPortfolios = await APIClient.getPortfolios();
+
+    const sync = useSyncStore.getState();
+    const { portfolios, assets, currentPortfolioId, applyServerChanges } = usePortfolioStore.getState();
+    const pendingDeletes = new Set(
+      sync.queue
+        .filter(m => m.operation === 'delete' && m.entity !== 'alert')
+        .map(m => sync.resolveId(m.entityId))
+    );
+
+    const plan = reconcilePortfolios({
+      local: portfolios.map(p => p.id === currentPortfolioId ? { ...p, assets } : p),
+      server: serverPortfolios,
+      bases: sync.bases,
+      resolveId: sync.resolveId,
+      hasPendingChanges: sync.hasPendingChanges,
+      pendingDeletes,
+    });
+
+    await applyServerChanges(plan);
+    sync.recordBases(plan.bases);
+    sync.conflicts
+      .filter(conflict => plan.mergedIds.includes(conflict.entityId))
+      .forEach(conflict => sync.removeConflict(conflict.id));
+    sync.setConflicts(plan.conflicts);
+
+    // Pushes the server turned away can go again now they're based on its latest copy
+    sync.retryMutations(plan.mergedIds);
+    syncService.flush();
+
+    return useSyncStore.getState().conflicts;
+  }
+
+  /**
+   * Settle a conflict. Field conflicts take a choice per field; an item
+   * deleted on the server takes a single choice under `deleted`, where
+   * 'local' puts it back and 'server' removes it here too.
+   */
+  async resolveConflict(conflictId: string, choices: Record<string, SyncConflictChoice>): Promise<void> {
+    const sync = useSyncStore.getState();
+    const conflict = sync.conflicts.find(c => c.id === conflictId);
+    if (!conflict) return;
+
+    const { applyServerChanges, portfolios, assets, currentPortfolioId } = usePortfolioStore.getState();
+    const key = syncBaseKey(conflict.entity, conflict.serverId);
+    sync.discardMutations(conflict.entityId);
+
+    if (conflict.deletedOnServer) {
+      sync.removeBase(key);
+
+      if (choices.deleted === 'local') {
+        if (conflict.entity === 'portfolio') {
+          const portfolio = portfolios.find(p => p.id === conflict.entityId);
+          if (portfolio) {
+            sync.forgetId(portfolio.id);
+            sync.enqueue({
+              entity: 'portfolio',
+              operation: 'create',
+              entityId: portfolio.id,
+              payload: { name: portfolio.name, baseCurrency: portfolio.baseCurrency },
+            });
+            // Its holdings went with it on the server
+            const holdings = portfolio.id === currentPortfolioId ? assets : portfolio.assets;
+            holdings.forEach(asset => queueHoldingCreate(asset, portfolio.id));
+          }
+        } else {
+          const holding = findHolding(conflict.portfolioId, conflict.entityId);
+          if (holding && conflict.portfolioId) queueHoldingCreate(holding, conflict.portfolioId);
+        }
+      } else {
+        const plan = createEmptyPlan();
+        if (conflict.entity === 'portfolio') {
+          plan.removedPortfolios.push(conflict.entityId);
+        } else if (conflict.portfolioId) {
+          plan.removedHoldings.push({ portfolioId: conflict.portfolioId, holdingId: conflict.entityId });
+        }
+        await applyServerChanges(plan);
+      }
+    } else {
+      const fromServer: Record<string, any> = {};
+      const keepLocal: Record<string, any> = {};
+      conflict.fields.forEach(({ field, local, server }) => {
+        if (choices[field] === 'local') {
+          keepLocal[field] = local;
+        } else {
+          fromServer[field] = server;
+        }
+      });
+
+      // The server's copy becomes the base, so kept local values go out as a fresh edit on top of it
+      sync.recordBases({ [key]: conflict.server });
+
+      if (Object.keys(fromServer).length > 0) {
+        const plan = createEmptyPlan();
+        if (conflict.entity === 'portfolio') {
+          plan.portfolioChanges.push({ portfolioId: conflict.entityId, changes: fromServer });
+        } else if (conflict.portfolioId) {
+          plan.holdingChanges.push({ portfolioId: conflict.portfolioId, holdingId: conflict.entityId, changes: fromServer });
+        }
+        await applyServerChanges(plan);
+      }
+
+      if (Object.keys(keepLocal).length > 0) {
+        if (conflict.entity === 'portfolio') {
+          sync.enqueue({ entity: 'portfolio', operation: 'update', entityId: conflict.entityId, payload: keepLocal });
+        } else {
+          // Holdings are always pushed whole
+          const holding = findHolding(conflict.portfolioId, conflict.entityId);
+          if (holding) {
+            sync.enqueue({
+              entity: 'holding',
+              operation: 'update',
+              entityId: holding.id,
+              portfolioId: conflict.portfolioId,
+              payload: { quantity: holding.quantity, averagePrice: holding.averagePrice ?? holding.currentPrice },
+            });
+          }
+        }
+      }
+    }
+
+    sync.removeConflict(conflictId);
+    syncService.flush();
+  }
+}
+
+export const reconcileService = new ReconcileService();
@@ -0,0 +1,267 @@
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import APIClient from './api';
+import { useSyncStore } from '../store/syncStore';
+import { useAuthStore } from '../store/authStore';
+import { SyncMutation } from '../types';
+import { HOLDING_SYNC_FIELDS, PORTFOLIO_SYNC_FIELDS, pickFields, syncBaseKey } from '../utils/reconcile';
+import { isApiResponseError } from '../utils/apiSchema';
+
+interface SyncServiceConfig {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxAttempts: number;
+}
+
+const getStatusCode = (error: any): number | undefined => error?.response?.status;
+
+// Other client errors will fail the same way on every replay
+const isRetryable = (status: number | undefined) =>
+  status === undefined || status >= 500 || status === 408 || status === 429;
+
+class SyncService {
+  private config: SyncServiceConfig = {
+    baseDelayMs: 2000,
+    maxDelayMs: 5 * 60 * 1000,
+    maxAttempts: 8,
+  };
+  private unsubscribe: (() => void) | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+
+  constructor(config?: Partial<SyncServiceConfig>) {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Listen for connectivity and replay the queue whenever the device comes
+   * online, or when a hold on sending is lifted. Returns a function that
+   * stops listening.
+   */
+  start(): () => void {
+    if (!this.unsubscribe) {
+      const unsubscribers = [
+        NetInfo.addEventListener(state => this.handleConnectivity(state)),
+        // Checked once every listener has run, since another may be about to hold sending
+        useAuthStore.subscribe((state, previous) => {
+          if (state.isGuest !== previous.isGuest || state.isAuthenticated !== previous.isAuthenticated) {
+            Promise.resolve().then(() => this.flush());
+          }
+        }),
+        useSyncStore.subscribe((state, previous) => {
+          if (previous.migrationPending && !state.migrationPending) this.flush();
+        }),
+      ];
+      this.unsubscribe = () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }
+    return () => this.stop();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.clearTimer();
+  }
+
+  /**
+   * Replay queued mutations in the order they were made. Stops at the first
+   * one that is still backing off so later changes never overtake it.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.clearTimer();
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+        this.scheduleNext();
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Give mutations that ran out of attempts another go
+   */
+  retryFailed(): Promise<void> {
+    useSyncStore.getState().retryFailed();
+    return this.flush();
+  }
+
+  private handleConnectivity(state: NetInfoState) {
+    const isOnline = !!state.isConnected && state.isInternetReachable !== false;
+    useSyncStore.getState().setOnline(isOnline);
+
+    if (isOnline) {
+      this.flush();
+    } else {
+      this.clearTimer();
+    }
+  }
+
+  // A guest's changes wait until there is an account to send them to, and after signing
+  // in until what was made before has been uploaded or kept on the device
+  private canSend(): boolean {
+    const { isOnline, migrationPending } = useSyncStore.getState();
+    const { isAuthenticated, isGuest } = useAuthStore.getState();
+    return isOnline && !migrationPending && isAuthenticated && !isGuest;
+  }
+
+  private async drain(): Promise<void> {
+    while (this.canSend()) {
+      const store = useSyncStore.getState();
+      const next = store.queue.find(m => !m.failed);
+      if (!next || next.nextAttemptAt > Date.now()) return;
+
+      store.startAttempt(next.id);
+      try {
+        const record = await this.send(next);
+        this.recordBase(next, record);
+        useSyncStore.getState().completeMutation(next.id, record?.id);
+      } catch (error) {
+        const status = getStatusCode(error);
+
+        // Something already removed it on the server, which is what we wanted
+        if (next.operation === 'delete' && status === 404) {
+          this.recordBase(next);
+          useSyncStore.getState().completeMutation(next.id);
+          continue;
+        }
+
+        // Someone else changed it since we last saw it; hold the push until reconcile decides
+        if (status === 409) {
+          useSyncStore.getState().failMutation(next.id, 'Changed on another device', null);
+          continue;
+        }
+
+        // The server took the change but answered with something we can't read; resending could apply it twice
+        if (isApiResponseError(error)) {
+          useSyncStore.getState().failMutation(next.id, error.message, null);
+          console.warn(`Unreadable response syncing ${next.entity} ${next.operation}:`, error.issues);
+          continue;
+        }
+
+        const attempts = next.attempts + 1;
+        const giveUp = !isRetryable(status) || attempts >= this.config.maxAttempts;
+        const delay = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** (attempts - 1));
+        useSyncStore.getState().failMutation(
+          next.id,
+          error instanceof Error ? error.message : String(error),
+          giveUp ? null : Date.now() + delay
+        );
+
+        console.warn(`Failed to sync ${next.entity} ${next.operation}:`, error);
+        if (!giveUp) return;
+      }
+    }
+  }
+
+  // Resolves with the server's copy of the item, if it sent one back
+  private async send(mutation: SyncMutation): Promise<Record<string, any> | undefined> {
+    const { resolveId, bases } = useSyncStore.getState();
+    const id = resolveId(mutation.entityId);
+    const portfolioId = mutation.portfolioId ? resolveId(mutation.portfolioId) : '';
+    const { payload } = mutation;
+
+    switch (mutation.entity) {
+      case 'portfolio':
+        if (mutation.operation === 'create') {
+          const created = await APIClient.createPortfolio(payload.name);
+          // New server portfolios start out with defaults. Ours go up as their own update,
+          // so a failure there retries without creating the portfolio a second time
+          const settings = pickFields(payload, ['baseCurrency', 'costBasisMethod']);
+          const defaults = pickFields(created, Object.keys(settings));
+          const changed = Object.keys(settings).filter(field => settings[field] !== defaults[field]);
+          if (changed.length > 0) {
+            useSyncStore.getState().enqueue({
+              entity: 'portfolio',
+              operation: 'update',
+              entityId: mutation.entityId,
+              payload: pickFields(settings, changed),
+            });
+          }
+          return created;
+        }
+        if (mutation.operation === 'update') {
+          return APIClient.updatePortfolio(id, payload, bases[syncBaseKey('portfolio', id)]?.version);
+        }
+        await APIClient.deletePortfolio(id);
+        return undefined;
+
+      case 'holding':
+        if (mutation.operation === 'create') {
+          return APIClient.addAssetToPortfolio(portfolioId, payload.ticker, payload.quantity, payload.averagePrice);
+        }
+        if (mutation.operation === 'update') {
+          return APIClient.updateAsset(
+            portfolioId,
+            id,
+            payload.quantity,
+            payload.averagePrice,
+            bases[syncBaseKey('holding', id)]?.version
+          );
+        }
+        await APIClient.deleteAsset(portfolioId, id);
+        return undefined;
+
+      case 'alert':
+        if (mutation.operation === 'create') {
+          return APIClient.createAlert({
+            assetSymbol: payload.assetSymbol,
+            assetName: payload.assetName,
+            alertType: payload.alertType,
+            targetPrice: payload.targetPrice,
+            currentPrice: payload.currentPrice,
+            isActive: payload.isActive ?? true,
+            isTriggered: false,
+          });
+        }
+        if (mutation.operation === 'update') {
+          return APIClient.updateAlert(id, payload);
+        }
+        await APIClient.deleteAlert(id);
+        return undefined;
+    }
+  }
+
+  // What we just pushed is now the server's copy, so later reconciles don't see it as a remote edit
+  private recordBase(mutation: SyncMutation, record?: Record<string, any>) {
+    if (mutation.entity === 'alert') return;
+
+    const store = useSyncStore.getState();
+    const key = syncBaseKey(mutation.entity, record?.id || store.resolveId(mutation.entityId));
+    if (mutation.operation === 'delete') {
+      store.removeBase(key);
+      return;
+    }
+
+    const fields = mutation.entity === 'portfolio' ? PORTFOLIO_SYNC_FIELDS : HOLDING_SYNC_FIELDS;
+    const previous = store.bases[key];
+    store.recordBases({
+      [key]: {
+        version: record?.version ?? previous?.version,
+        updatedAt: record?.updatedAt ?? previous?.updatedAt,
+        fields: {
+          ...previous?.fields,
+          ...pickFields(mutation.payload, fields),
+          ...(record ? pickFields(record, fields) : {}),
+        },
+      },
+    });
+  }
+
+  // Nothing is scheduled while sending is held; lifting the hold flushes again
+  private scheduleNext() {
+    const next = useSyncStore.getState().queue.find(m => !m.failed);
+    if (!this.canSend() || !next || !this.unsubscribe) return;
+
+    this.clearTimer();
+    this.timer = setTimeout(() => this.flush(), Math.max(0, next.nextAttemptAt - Date.now()));
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const syncService = new SyncService();
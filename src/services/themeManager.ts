@@ -101,6 +101,7 @@ interface ThemeState {
   setPremiumUser: (isPremium: boolean) => void;
   updateSystemColorScheme: (scheme: ColorSchemeName) => void;
   resetToDefaults: () => void;
+  applyConfig: (config: Partial<ThemeConfig>) => void;
   
   // Getters
   getTheme: () => Theme;
@@ -406,6 +407,25 @@ export const useThemeStore = create<ThemeState>()(
         });
       },
 
+      // Used when restoring a backup; premium themes fall back to the current one
+      applyConfig: (config: Partial<ThemeConfig>) => {
+        const { isPremiumUser } = get();
+        const newConfig = { ...get().config, ...config };
+
+        if (!Object.values(ThemeType).includes(newConfig.themeType) ||
+          ((newConfig.themeType === ThemeType.OLEDBlack || newConfig.themeType === ThemeType.PremiumGradient) && !isPremiumUser)) {
+          newConfig.themeType = get().config.themeType;
+        }
+        if (!Object.values(AccentColor).includes(newConfig.accentColor)) {
+          newConfig.accentColor = get().config.accentColor;
+        }
+
+        set({
+          config: newConfig,
+          currentTheme: get().generateTheme(newConfig),
+        });
+      },
+
       getTheme: () => {
         return get().currentTheme;
       },
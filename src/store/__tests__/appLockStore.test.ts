@@ -0,0 +1,40 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAppLockStore } from '../appLockStore';
+
+const initialState = useAppLockStore.getState();
+const getItem = AsyncStorage.getItem as jest.Mock;
+const setItem = AsyncStorage.setItem as jest.Mock;
+
+describe('useAppLockStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useAppLockStore.setState(initialState, true);
+  });
+
+  afterAll(() => {
+    getItem.mockResolvedValue(null);
+  });
+
+  it('starts locked, so a cold start asks whatever the timeout', async () => {
+    getItem.mockResolvedValue(JSON.stringify({ state: { isEnabled: true, autoLockAfterMs: 3600000 }, version: 0 }));
+    await useAppLockStore.persist.rehydrate();
+
+    expect(useAppLockStore.getState()).toMatchObject({ isEnabled: true, isLocked: true, hasHydrated: true });
+  });
+
+  it('counts as read back even when the settings could not be', async () => {
+    getItem.mockResolvedValue('not json');
+    await useAppLockStore.persist.rehydrate();
+    expect(useAppLockStore.getState().hasHydrated).toBe(true);
+  });
+
+  it('keeps a lockout across restarts but not whether it was unlocked', () => {
+    useAppLockStore.getState().setEnabled(true);
+    useAppLockStore.getState().recordFailedAttempt(12345);
+
+    const [, stored] = setItem.mock.calls[setItem.mock.calls.length - 1];
+    const { state } = JSON.parse(stored);
+    expect(state).toMatchObject({ isEnabled: true, lockedOutUntil: 12345 });
+    expect(state).not.toHaveProperty('isLocked');
+  });
+});
@@ -0,0 +1,136 @@
+import { GoogleSignin } from '@react-native-google-signin/google-signin';
+import APIClient from '../../services/api';
+import { useAuthStore } from '../authStore';
+import { useSyncStore } from '../syncStore';
+import { LinkedProvider, User } from '../../types';
+
+jest.mock('../../services/api', () => ({
+  __esModule: true,
+  default: {
+    signIn: jest.fn(),
+    signInWithGoogle: jest.fn(),
+    signOut: jest.fn(),
+    linkProvider: jest.fn(),
+    unlinkProvider: jest.fn(),
+  },
+  getErrorStatus: (error: any) => error?.response?.status,
+  getExistingAccount: (error: any) => error?.existingAccount,
+}));
+
+const api = APIClient as jest.Mocked<typeof APIClient>;
+const initialAuth = useAuthStore.getState();
+const initialSync = useSyncStore.getState();
+const auth = () => useAuthStore.getState();
+
+const linked = (...providers: LinkedProvider['provider'][]): LinkedProvider[] => providers.map(provider => ({ provider }));
+
+const profile = (email: string, providers: LinkedProvider[]): User => ({
+  id: 'user-1',
+  email,
+  name: 'Sam',
+  providers,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+const googleSignIn = (email: string) =>
+  (GoogleSignin.signIn as jest.Mock).mockResolvedValue({ idToken: 'google-id', user: { email, photo: null } });
+
+// What the backend answers when a provider's email already has an account
+const existingAccountError = (email: string) =>
+  Object.assign(new Error('Request failed with status 409'), {
+    existingAccount: { email, providers: ['email'], linkToken: 'link-1' },
+  });
+
+describe('useAuthStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useAuthStore.setState(initialAuth, true);
+    useSyncStore.setState(initialSync, true);
+  });
+
+  describe('guest mode', () => {
+    it('uses the app with no account and nothing signed in', () => {
+      auth().continueAsGuest();
+      expect(auth()).toMatchObject({ isGuest: true, isAuthenticated: false, user: null });
+
+      auth().leaveGuestMode();
+      expect(auth().isGuest).toBe(false);
+    });
+
+    it('hands the guest\'s queued changes to the account they sign in to', async () => {
+      auth().continueAsGuest();
+      useSyncStore.getState().enqueue({ entity: 'alert', operation: 'create', entityId: 'a1', payload: {} });
+      api.signIn.mockResolvedValue({ success: true, user: profile('sam@example.com', linked('email')) });
+
+      expect(await auth().signInWithEmail('sam@example.com', 'secret')).toBe(true);
+      expect(auth()).toMatchObject({ isGuest: false, isAuthenticated: true });
+      expect(useSyncStore.getState()).toMatchObject({ ownerId: 'user-1', queue: [expect.objectContaining({ entityId: 'a1' })] });
+    });
+  });
+
+  describe('provider linking', () => {
+    it('holds a provider sign-in that matched an existing account and links it once that account signs in', async () => {
+      googleSignIn('sam@example.com');
+      api.signInWithGoogle.mockRejectedValue(existingAccountError('sam@example.com'));
+
+      expect(await auth().signInWithGoogle()).toBe(false);
+      expect(auth().isAuthenticated).toBe(false);
+      expect(auth().pendingLink).toMatchObject({ provider: 'google', linkToken: 'link-1' });
+
+      api.signIn.mockResolvedValue({ success: true, user: profile('Sam@Example.com', linked('email')) });
+      api.linkProvider.mockResolvedValue(profile('sam@example.com', linked('email', 'google')));
+      await auth().signInWithEmail('sam@example.com', 'secret');
+
+      expect(api.linkProvider).toHaveBeenCalledWith({ linkToken: 'link-1' });
+      expect(auth().user?.linkedProviders).toEqual(linked('email', 'google'));
+      expect(auth().pendingLink).toBeNull();
+    });
+
+    it('leaves a different account alone', async () => {
+      useAuthStore.setState({ pendingLink: { email: 'sam@example.com', providers: ['email'], linkToken: 'link-1', provider: 'google' } });
+      api.signIn.mockResolvedValue({ success: true, user: profile('alex@example.com', linked('email')) });
+
+      await auth().signInWithEmail('alex@example.com', 'secret');
+      expect(api.linkProvider).not.toHaveBeenCalled();
+      expect(auth().pendingLink).toBeNull();
+    });
+
+    it('signs in anyway when linking the held sign-in fails', async () => {
+      useAuthStore.setState({ pendingLink: { email: 'sam@example.com', providers: ['email'], linkToken: 'link-1', provider: 'google' } });
+      api.signIn.mockResolvedValue({ success: true, user: profile('sam@example.com', linked('email')) });
+      api.linkProvider.mockRejectedValue(new Error('Link expired'));
+
+      expect(await auth().signInWithEmail('sam@example.com', 'secret')).toBe(true);
+      expect(auth().user?.linkedProviders).toEqual(linked('email'));
+    });
+
+    it('adds a provider to the signed-in account, and treats a cancelled sign-in as no change', async () => {
+      useAuthStore.setState({
+        user: { id: 'user-1', email: 'sam@example.com', name: 'Sam', provider: 'email', linkedProviders: linked('email'), createdAt: '' },
+        isAuthenticated: true,
+      });
+
+      (GoogleSignin.signIn as jest.Mock).mockRejectedValue(Object.assign(new Error('Cancelled'), { code: 'SIGN_IN_CANCELLED' }));
+      expect(await auth().linkProvider('google')).toBe(false);
+      expect(api.linkProvider).not.toHaveBeenCalled();
+
+      googleSignIn('sam@example.com');
+      api.linkProvider.mockResolvedValue(profile('sam@example.com', linked('email', 'google')));
+      expect(await auth().linkProvider('google')).toBe(true);
+      expect(api.linkProvider).toHaveBeenCalledWith({ provider: 'google', idToken: 'google-id' });
+      expect(auth().user?.linkedProviders).toEqual(linked('email', 'google'));
+    });
+
+    it('moves the session to a remaining provider when the one it started with is unlinked', async () => {
+      useAuthStore.setState({
+        user: { id: 'user-1', email: 'sam@example.com', name: 'Sam', provider: 'email', linkedProviders: linked('email', 'apple'), createdAt: '' },
+        isAuthenticated: true,
+      });
+      api.unlinkProvider.mockResolvedValue(profile('sam@example.com', linked('apple')));
+
+      await auth().unlinkProvider('email');
+      expect(auth().user).toMatchObject({ provider: 'apple', linkedProviders: linked('apple') });
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import APIClient from '../../services/api';
+import { useBackendStore } from '../backendStore';
+
+jest.mock('../../services/api', () => ({
+  __esModule: true,
+  default: { configure: jest.fn(), checkHealth: jest.fn() },
+}));
+
+const initialState = useBackendStore.getState();
+const getItem = AsyncStorage.getItem as jest.Mock;
+
+// What the portfolio store kept before backend profiles
+const legacyPortfolioStorage = (state: Record<string, unknown>) =>
+  JSON.stringify({ state: { portfolios: [], ...state }, version: 0 });
+
+const rehydrateWith = async (stored: Record<string, string>) => {
+  getItem.mockImplementation(async (key: string) => stored[key] ?? null);
+  await useBackendStore.persist.rehydrate();
+  // The legacy import runs after hydration without being awaited by it
+  await new Promise<void>(resolve => setTimeout(() => resolve(), 0));
+};
+
+describe('useBackendStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useBackendStore.setState(initialState, true);
+  });
+
+  afterAll(() => {
+    getItem.mockResolvedValue(null);
+  });
+
+  describe('legacy configuration', () => {
+    it('moves a backend saved with the portfolio data into the self-hosted profile', async () => {
+      await rehydrateWith({
+        'portfolio-storage': legacyPortfolioStorage({ apiBaseUrl: 'https://money.example.com', apiKey: 'key-1' }),
+      });
+
+      const state = useBackendStore.getState();
+      expect(state.activeProfileId).toBe('self-hosted');
+      expect(state.isOfflineMode).toBe(false);
+      expect(state.getActiveProfile()).toMatchObject({ baseUrl: 'https://money.example.com', apiKey: 'key-1' });
+      expect(APIClient.configure).toHaveBeenLastCalledWith('https://money.example.com', 'key-1');
+    });
+
+    it('keeps offline mode when it was saved along with the backend', async () => {
+      await rehydrateWith({
+        'portfolio-storage': legacyPortfolioStorage({ apiBaseUrl: 'https://money.example.com', isOfflineMode: true }),
+      });
+
+      expect(useBackendStore.getState()).toMatchObject({ activeProfileId: 'self-hosted', isOfflineMode: true });
+      expect(useBackendStore.getState().getActiveProfile().apiKey).toBeUndefined();
+    });
+
+    it('leaves profiles alone once they have been stored', async () => {
+      await rehydrateWith({
+        'backend-storage': JSON.stringify({ state: { activeProfileId: 'staging', isOfflineMode: false, profileSettings: {} }, version: 0 }),
+        'portfolio-storage': legacyPortfolioStorage({ apiBaseUrl: 'https://money.example.com' }),
+      });
+
+      expect(useBackendStore.getState().activeProfileId).toBe('staging');
+      expect(useBackendStore.getState().getProfile('self-hosted').baseUrl).toBe('');
+    });
+
+    it('starts on the defaults when no backend was ever saved', async () => {
+      await rehydrateWith({ 'portfolio-storage': legacyPortfolioStorage({}) });
+      expect(useBackendStore.getState().activeProfileId).toBe(initialState.activeProfileId);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { Asset, Transaction } from '../../types';
+import { usePortfolioStore } from '../portfolioStore';
+import { useSyncStore } from '../syncStore';
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => () => undefined),
+}));
+
+const initialPortfolio = usePortfolioStore.getState();
+const initialSync = useSyncStore.getState();
+const store = () => usePortfolioStore.getState();
+
+const holding = (id: string, ticker: string, quantity: number): Asset => ({
+  id,
+  name: ticker,
+  ticker,
+  type: 'stock',
+  quantity,
+  averagePrice: 100,
+  currentPrice: 100,
+  totalValue: quantity * 100,
+  priceChange: 0,
+  priceChangePercent: 0,
+  currency: 'USD',
+});
+
+const buy = (id: string, portfolioId: string, ticker: string, quantity: number): Transaction => ({
+  id,
+  portfolioId,
+  ticker,
+  type: 'buy',
+  quantity,
+  price: 100,
+  date: '2024-01-01T12:00:00.000Z',
+  createdAt: '2024-01-01T12:00:00.000Z',
+});
+
+// One portfolio holding AAPL, bought over three entries, and MSFT
+const seed = (portfolioId = 'p1') => {
+  const assets = [holding('h1', 'AAPL', 6), holding('h2', 'MSFT', 1)];
+  usePortfolioStore.setState({
+    portfolios: [{ id: portfolioId, name: 'Main', totalValue: 0, totalCost: 0, totalChange: 0, totalChangePercent: 0, assets }],
+    currentPortfolioId: portfolioId,
+    assets,
+    transactions: [
+      buy('tx-1', portfolioId, 'AAPL', 1),
+      buy('tx-2', portfolioId, 'AAPL', 2),
+      buy('tx-3', portfolioId, 'AAPL', 3),
+      buy('tx-4', portfolioId, 'MSFT', 1),
+    ],
+    snapshots: [],
+  });
+};
+
+describe('usePortfolioStore', () => {
+  beforeEach(() => {
+    usePortfolioStore.setState(initialPortfolio, true);
+    useSyncStore.setState(initialSync, true);
+  });
+
+  describe('removeAsset', () => {
+    it('voids every entry of the holding in one go, with one snapshot and one delete to sync', async () => {
+      seed();
+      await store().removeAsset('h1');
+
+      expect(store().assets.map(asset => asset.ticker)).toEqual(['MSFT']);
+      const voids = store().transactions.filter(tx => tx.type === 'void');
+      expect(voids.map(tx => tx.supersedes)).toEqual(['tx-1', 'tx-2', 'tx-3']);
+      expect(store().getTransactions('AAPL').length).toBe(6);
+
+      expect(store().snapshots).toHaveLength(1);
+      expect(store().snapshots[0].totalValue).toBeCloseTo(100);
+      expect(useSyncStore.getState().queue.map(m => [m.entity, m.operation, m.entityId])).toEqual([
+        ['holding', 'delete', 'h1'],
+      ]);
+    });
+  });
+
+  describe('adoptServerIds', () => {
+    it('swaps temporary ids for the server ones wherever they are used', async () => {
+      seed('local-p1');
+      await store().adoptServerIds({ 'local-p1': 'server-p1' }, { h1: 'server-h1' });
+
+      expect(store().currentPortfolioId).toBe('server-p1');
+      expect(store().portfolios.map(p => p.id)).toEqual(['server-p1']);
+      expect(store().portfolios[0].assets.map(asset => asset.id)).toEqual(['server-h1', 'h2']);
+      expect(store().assets.map(asset => asset.id)).toEqual(['server-h1', 'h2']);
+      expect(new Set(store().transactions.map(tx => tx.portfolioId))).toEqual(new Set(['server-p1']));
+    });
+  });
+});
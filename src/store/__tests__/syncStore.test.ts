@@ -0,0 +1,113 @@
+import { useSyncStore } from '../syncStore';
+
+const initialState = useSyncStore.getState();
+const store = () => useSyncStore.getState();
+const queued = () => store().queue.map(m => [m.entity, m.operation, m.entityId, m.payload]);
+
+describe('useSyncStore', () => {
+  beforeEach(() => {
+    useSyncStore.setState(initialState, true);
+  });
+
+  describe('enqueue', () => {
+    it('folds updates into an unsent create so the server gets one request', () => {
+      store().enqueue({ entity: 'holding', operation: 'create', entityId: 'h1', portfolioId: 'p1', payload: { ticker: 'AAPL', quantity: 1 } });
+      store().enqueue({ entity: 'holding', operation: 'update', entityId: 'h1', portfolioId: 'p1', payload: { quantity: 3 } });
+
+      expect(queued()).toEqual([['holding', 'create', 'h1', { ticker: 'AAPL', quantity: 3 }]]);
+    });
+
+    it('leaves the mutation being sent alone and queues the update after it', () => {
+      store().enqueue({ entity: 'holding', operation: 'update', entityId: 'h1', payload: { quantity: 1 } });
+      store().startAttempt(store().queue[0].id);
+      store().enqueue({ entity: 'holding', operation: 'update', entityId: 'h1', payload: { quantity: 2 } });
+
+      expect(queued()).toEqual([
+        ['holding', 'update', 'h1', { quantity: 1 }],
+        ['holding', 'update', 'h1', { quantity: 2 }],
+      ]);
+    });
+
+    it('drops an unsent portfolio, and the holdings queued for it, when it is deleted', () => {
+      store().enqueue({ entity: 'portfolio', operation: 'create', entityId: 'p1', payload: { name: 'Main' } });
+      store().enqueue({ entity: 'holding', operation: 'create', entityId: 'h1', portfolioId: 'p1', payload: { ticker: 'AAPL' } });
+      store().enqueue({ entity: 'alert', operation: 'create', entityId: 'a1', payload: {} });
+      store().enqueue({ entity: 'portfolio', operation: 'delete', entityId: 'p1' });
+
+      expect(queued()).toEqual([['alert', 'create', 'a1', {}]]);
+    });
+
+    it('still deletes on the server once the create has gone through', () => {
+      store().enqueue({ entity: 'holding', operation: 'create', entityId: 'h1', payload: {} });
+      store().completeMutation(store().queue[0].id, 'server-h1');
+      store().enqueue({ entity: 'holding', operation: 'update', entityId: 'h1', payload: { quantity: 2 } });
+      store().enqueue({ entity: 'holding', operation: 'delete', entityId: 'h1' });
+
+      expect(queued()).toEqual([['holding', 'delete', 'h1', {}]]);
+    });
+  });
+
+  describe('completeMutation', () => {
+    it('maps the temporary id to the one the server assigned', () => {
+      store().enqueue({ entity: 'portfolio', operation: 'create', entityId: 'portfolio-local', payload: {} });
+      store().completeMutation(store().queue[0].id, 'server-7');
+
+      expect(store().queue).toEqual([]);
+      expect(store().resolveId('portfolio-local')).toBe('server-7');
+      expect(store().resolveId('server-7')).toBe('server-7');
+      expect(store().lastSyncedAt).not.toBeNull();
+    });
+  });
+
+  describe('getStatus', () => {
+    it('follows a change from pending through syncing to failed', () => {
+      store().enqueue({ entity: 'alert', operation: 'update', entityId: 'a1', payload: {} });
+      const { id } = store().queue[0];
+      expect(store().getStatus('a1')).toBe('pending');
+
+      store().startAttempt(id);
+      expect(store().getStatus('a1')).toBe('syncing');
+
+      store().failMutation(id, 'Changed on another device', null);
+      expect(store().getStatus('a1')).toBe('failed');
+      expect(store().getStatus('a2')).toBe('synced');
+    });
+
+    it('finds changes queued under the temporary id by the server id', () => {
+      useSyncStore.setState({ idMap: { 'local-1': 'server-1' } });
+      store().enqueue({ entity: 'holding', operation: 'update', entityId: 'local-1', payload: {} });
+      expect(store().getStatus('server-1')).toBe('pending');
+    });
+  });
+
+  describe('claimFor', () => {
+    const fill = () => {
+      store().enqueue({ entity: 'alert', operation: 'create', entityId: 'a1', payload: {} });
+      store().recordBases({ 'portfolio:p1': { fields: {} } });
+      useSyncStore.setState({ idMap: { 'local-1': 'server-1' } });
+    };
+
+    it('keeps a guest\'s changes for the account they sign in to', () => {
+      fill();
+      store().claimFor('user-1');
+
+      expect(store().ownerId).toBe('user-1');
+      expect(store().queue).toHaveLength(1);
+    });
+
+    it('keeps the same account\'s changes across sign-ins', () => {
+      useSyncStore.setState({ ownerId: 'user-1' });
+      fill();
+      store().claimFor('user-1');
+      expect(store().queue).toHaveLength(1);
+    });
+
+    it('wipes another account\'s queue, ids and server copies', () => {
+      useSyncStore.setState({ ownerId: 'user-1' });
+      fill();
+      store().claimFor('user-2');
+
+      expect(store()).toMatchObject({ ownerId: 'user-2', queue: [], idMap: {}, bases: {}, conflicts: [], lastSyncedAt: null });
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PriceAlert } from '../types';
+import APIClient from '../services/api';
+import { useSyncStore } from './syncStore';
+import { syncService } from '../services/syncService';
+
+type NewPriceAlert = Omit<PriceAlert, 'id' | 'createdAt' | 'triggeredAt'>;
+
+interface AlertState {
+  alerts: PriceAlert[];
+  isLoading: boolean;
+
+  loadAlerts: () => Promise<void>;
+  createAlert: (alert: NewPriceAlert) => Promise<PriceAlert>;
+  updateAlert: (alertId: string, updates: Partial<PriceAlert>) => Promise<void>;
+  deleteAlert: (alertId: string) => Promise<void>;
+  adoptServerIds: (alertIds: Record<string, string>) => void;
+}
+
+export const useAlertStore = create<AlertState>()(
+  persist(
+    (set, get) => ({
+      alerts: [],
+      isLoading: false,
+
+      // Server copies win unless this device still has changes to them in the queue
+      loadAlerts: async () => {
+        set({ isLoading: true });
+        try {
+          const serverAlerts = await APIClient.getAlerts();
+          const { queue, resolveId } = useSyncStore.getState();
+          const pending = queue.filter(m => m.entity === 'alert');
+          const deleted = new Set(pending.filter(m => m.operation === 'delete').map(m => resolveId(m.entityId)));
+          const local = get().alerts;
+
+          const merged = serverAlerts
+            .filter(alert => !deleted.has(alert.id))
+            .map(alert =>
+              local.find(l => resolveId(l.id) === alert.id && pending.some(m => m.entityId === l.id)) || alert
+            );
+          const unsent = local.filter(alert =>
+            pending.some(m => m.entityId === alert.id && m.operation === 'create')
+            && !merged.some(m => m.id === resolveId(alert.id))
+          );
+
+          set({ alerts: [...merged, ...unsent] });
+        } catch (error) {
+          // Keep showing what we have; the queue catches up once we're back online
+          console.warn('Failed to load alerts, using cached copy:', error);
+        } finally {
+          set({ isLoading: false });
+        }
+      },
+
+      createAlert: async (alertData: NewPriceAlert) => {
+        const alert: PriceAlert = {
+          ...alertData,
+          id: `alert-${Date.now()}`,
+          createdAt: new Date().toISOString(),
+        };
+
+        set((state) => ({ alerts: [...state.alerts, alert] }));
+        useSyncStore.getState().enqueue({
+          entity: 'alert',
+          operation: 'create',
+          entityId: alert.id,
+          payload: alertData,
+        });
+        syncService.flush();
+
+        return alert;
+      },
+
+      updateAlert: async (alertId: string, updates: Partial<PriceAlert>) => {
+        set((state) => ({
+          alerts: state.alerts.map(alert => alert.id === alertId ? { ...alert, ...updates } : alert),
+        }));
+        useSyncStore.getState().enqueue({
+          entity: 'alert',
+          operation: 'update',
+          entityId: alertId,
+          payload: updates,
+        });
+        syncService.flush();
+      },
+
+      deleteAlert: async (alertId: string) => {
+        set((state) => ({ alerts: state.alerts.filter(alert => alert.id !== alertId) }));
+        useSyncStore.getState().enqueue({
+          entity: 'alert',
+          operation: 'delete',
+          entityId: alertId,
+        });
+        syncService.flush();
+      },
+
+      // Temporary ids become the server's once alerts made here have been uploaded
+      adoptServerIds: (alertIds: Record<string, string>) => {
+        set((state) => ({
+          alerts: state.alerts.map(alert => (alertIds[alert.id] ? { ...alert, id: alertIds[alert.id] } : alert)),
+        }));
+      },
+    }),
+    {
+      name: 'alert-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        alerts: state.alerts,
+      }),
+    }
+  )
+);
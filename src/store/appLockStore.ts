@@ -0,0 +1,113 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const MINUTE_MS = 60 * 1000;
+
+export const AUTO_LOCK_OPTIONS: { label: string; ms: number }[] = [
+  { label: 'Immediately', ms: 0 },
+  { label: 'After 1 minute', ms: MINUTE_MS },
+  { label: 'After 5 minutes', ms: 5 * MINUTE_MS },
+  { label: 'After 15 minutes', ms: 15 * MINUTE_MS },
+  { label: 'After 1 hour', ms: 60 * MINUTE_MS },
+];
+
+export const getAutoLockLabel = (ms: number): string =>
+  AUTO_LOCK_OPTIONS.find(option => option.ms === ms)?.label || `After ${Math.round(ms / MINUTE_MS)} minutes`;
+
+interface AppLockState {
+  // The PIN itself lives in the secure store; see appLockService
+  isEnabled: boolean;
+  useBiometrics: boolean;
+  // How long the app can sit in the background before it locks
+  autoLockAfterMs: number;
+  isLocked: boolean;
+  backgroundedAt: number | null;
+  failedAttempts: number;
+  lockedOutUntil: number | null;
+  // Until the settings are read back, whether the lock is on isn't known
+  hasHydrated: boolean;
+
+  setEnabled: (isEnabled: boolean) => void;
+  setUseBiometrics: (useBiometrics: boolean) => void;
+  setAutoLockAfter: (ms: number) => void;
+  lock: () => void;
+  unlock: () => void;
+  setBackgroundedAt: (time: number | null) => void;
+  recordFailedAttempt: (lockedOutUntil: number | null) => void;
+  setHydrated: () => void;
+}
+
+export const useAppLockStore = create<AppLockState>()(
+  persist(
+    (set) => ({
+      isEnabled: false,
+      useBiometrics: false,
+      autoLockAfterMs: MINUTE_MS,
+      // Starting locked means a cold start always asks, whatever the timeout
+      isLocked: true,
+      backgroundedAt: null,
+      failedAttempts: 0,
+      lockedOutUntil: null,
+      hasHydrated: false,
+
+      setEnabled: (isEnabled: boolean) => {
+        set(state => ({
+          isEnabled,
+          isLocked: false,
+          useBiometrics: isEnabled && state.useBiometrics,
+          failedAttempts: 0,
+          lockedOutUntil: null,
+        }));
+      },
+
+      setUseBiometrics: (useBiometrics: boolean) => {
+        set({ useBiometrics });
+      },
+
+      setAutoLockAfter: (ms: number) => {
+        set({ autoLockAfterMs: ms });
+      },
+
+      lock: () => {
+        set({ isLocked: true });
+      },
+
+      unlock: () => {
+        set({ isLocked: false, backgroundedAt: null, failedAttempts: 0, lockedOutUntil: null });
+      },
+
+      setBackgroundedAt: (time: number | null) => {
+        set({ backgroundedAt: time });
+      },
+
+      // A lockout starts the count again once it has passed
+      recordFailedAttempt: (lockedOutUntil: number | null) => {
+        set(state => ({
+          failedAttempts: lockedOutUntil ? 0 : state.failedAttempts + 1,
+          lockedOutUntil,
+        }));
+      },
+
+      setHydrated: () => {
+        set({ hasHydrated: true });
+      },
+    }),
+    {
+      name: 'app-lock-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Restarting the app is no way around a lockout
+      partialize: (state) => ({
+        isEnabled: state.isEnabled,
+        useBiometrics: state.useBiometrics,
+        autoLockAfterMs: state.autoLockAfterMs,
+        failedAttempts: state.failedAttempts,
+        lockedOutUntil: state.lockedOutUntil,
+      }),
+      onRehydrateStorage: () => () => {
+        // Also after a failed read, or the app would sit on a blank lock screen
+        useAppLockStore.getState().setHydrated();
+      },
+    }
+  )
+);
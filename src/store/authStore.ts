@@ -3,14 +3,21 @@ import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { GoogleSignin } from '@react-native-google-signin/google-signin';
 import * as AppleAuthentication from 'expo-apple-authentication';
-import APIClient from '../services/api';
+import APIClient, { getErrorStatus, getExistingAccount } from '../services/api';
+import { useSyncStore } from './syncStore';
+import { AuthProvider, LinkedProvider, PendingProviderLink, User as Profile } from '../types';
 
 export interface User {
   id: string;
   email: string;
   name: string;
   avatar?: string;
-  provider: 'apple' | 'google' | 'email';
+  // How this session was signed in
+  provider: AuthProvider;
+  // Every way of signing in to the account, once the backend has said
+  linkedProviders?: LinkedProvider[];
+  // Only known for email accounts the backend signed in
+  emailVerified?: boolean;
   createdAt: string;
 }
 
@@ -18,6 +25,9 @@ interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  // Using the app without an account; nothing leaves the device
+  isGuest: boolean;
+  pendingLink: PendingProviderLink | null;
   
   // Actions
   signInWithApple: () => Promise<boolean>;
@@ -25,70 +35,90 @@ interface AuthState {
   signInWithEmail: (email: string, password: string) => Promise<boolean>;
   signUpWithEmail: (email: string, password: string, name: string) => Promise<boolean>;
   signOut: () => Promise<void>;
+  continueAsGuest: () => void;
+  leaveGuestMode: () => void;
+  forceSignOut: () => Promise<void>;
+  refreshUser: () => Promise<void>;
+  linkProvider: (provider: AuthProvider, password?: string) => Promise<boolean>;
+  unlinkProvider: (provider: AuthProvider) => Promise<void>;
+  clearPendingLink: () => void;
   setUser: (user: User | null) => void;
   setIsAuthenticated: (isAuthenticated: boolean) => void;
   setIsLoading: (isLoading: boolean) => void;
   hydrate: () => void;
 }
 
+export const AUTH_PROVIDER_LABELS: Record<AuthProvider, string> = {
+  apple: 'Apple',
+  google: 'Google',
+  email: 'Email',
+};
+
+const requestAppleCredential = () =>
+  AppleAuthentication.signInAsync({
+    requestedScopes: [
+      AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+      AppleAuthentication.AppleAuthenticationScope.EMAIL,
+    ],
+  });
+
+const requestGoogleSignIn = async () => {
+  await GoogleSignin.hasPlayServices();
+  return GoogleSignin.signIn();
+};
+
+// Google stays signed in on the device after linking too, not just after signing in with it
+const usesGoogle = (user: User | null) =>
+  user?.provider === 'google' || !!user?.linkedProviders?.some(linked => linked.provider === 'google');
+
+// Finishes the link a provider sign-in started, once the account it matched has signed in
+const completePendingLink = async (pending: PendingProviderLink | null, profile: Profile): Promise<Profile> => {
+  if (!pending || pending.email.toLowerCase() !== profile.email.toLowerCase()) return profile;
+  try {
+    return await APIClient.linkProvider({ linkToken: pending.linkToken });
+  } catch (error) {
+    console.warn('Failed to link the pending sign-in:', error);
+    return profile;
+  }
+};
+
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
       user: null,
       isAuthenticated: false,
       isLoading: false,
+      isGuest: false,
+      pendingLink: null,
 
       // Apple Sign In
       signInWithApple: async () => {
         try {
           set({ isLoading: true });
           
-          const credential = await AppleAuthentication.signInAsync({
-            requestedScopes: [
-              AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
-              AppleAuthentication.AppleAuthenticationScope.EMAIL,
-            ],
-          });
+          const credential = await requestAppleCredential();
 
           if (credential.identityToken) {
-            try {
-              // Try backend authentication
-              const response = await APIClient.signInWithApple(credential.identityToken, credential);
-              
-              if (response.success && response.user) {
-                const user: User = {
-                  id: response.user.id,
-                  email: response.user.email,
-                  name: response.user.name,
-                  provider: 'apple',
-                  createdAt: response.user.createdAt || new Date().toISOString(),
-                };
-
-                set({ 
-                  user, 
-                  isAuthenticated: true, 
-                  isLoading: false 
-                });
-                return true;
-              }
-            } catch (backendError) {
-              console.warn('Backend auth failed, using local auth:', backendError);
-              
-              // Fallback to local auth
+            const response = await APIClient.signInWithApple(credential.identityToken, credential);
+
+            if (response.success && response.user) {
+              const profile = await completePendingLink(get().pendingLink, response.user);
               const user: User = {
-                id: credential.user,
-                email: credential.email || `${credential.user}@apple.com`,
-                name: credential.fullName?.givenName
-                  ? `${credential.fullName.givenName} ${credential.fullName.familyName || ''}`.trim()
-                  : 'Apple User',
+                id: profile.id,
+                email: profile.email,
+                name: profile.name,
                 provider: 'apple',
-                createdAt: new Date().toISOString(),
+                linkedProviders: profile.providers,
+                createdAt: profile.createdAt || new Date().toISOString(),
               };
 
+              useSyncStore.getState().claimFor(user.id);
               set({ 
                 user, 
                 isAuthenticated: true, 
-                isLoading: false 
+                isGuest: false,
+                isLoading: false,
+                pendingLink: null
               });
               return true;
             }
@@ -97,6 +127,13 @@ export const useAuthStore = create<AuthState>()(
           set({ isLoading: false });
           return false;
         } catch (error: any) {
+          // Same email as an account that signs in another way; that account links Apple once it signs in
+          const existing = getExistingAccount(error);
+          if (existing) {
+            set({ isLoading: false, pendingLink: { ...existing, provider: 'apple' } });
+            return false;
+          }
+
           console.error('Apple sign in error:', error);
           set({ isLoading: false });
           
@@ -113,48 +150,30 @@ export const useAuthStore = create<AuthState>()(
         try {
           set({ isLoading: true });
           
-          await GoogleSignin.hasPlayServices();
-          const userInfo = await GoogleSignin.signIn();
+          const userInfo = await requestGoogleSignIn();
           
           if (userInfo.user && userInfo.idToken) {
-            try {
-              // Try backend authentication
-              const response = await APIClient.signInWithGoogle(userInfo.idToken, userInfo.user);
-              
-              if (response.success && response.user) {
-                const user: User = {
-                  id: response.user.id,
-                  email: response.user.email,
-                  name: response.user.name,
-                  avatar: userInfo.user.photo || undefined,
-                  provider: 'google',
-                  createdAt: response.user.createdAt || new Date().toISOString(),
-                };
-
-                set({ 
-                  user, 
-                  isAuthenticated: true, 
-                  isLoading: false 
-                });
-                return true;
-              }
-            } catch (backendError) {
-              console.warn('Backend auth failed, using local auth:', backendError);
-              
-              // Fallback to local auth
+            const response = await APIClient.signInWithGoogle(userInfo.idToken, userInfo.user);
+
+            if (response.success && response.user) {
+              const profile = await completePendingLink(get().pendingLink, response.user);
               const user: User = {
-                id: userInfo.user.id,
-                email: userInfo.user.email,
-                name: userInfo.user.name || 'Google User',
+                id: profile.id,
+                email: profile.email,
+                name: profile.name,
                 avatar: userInfo.user.photo || undefined,
                 provider: 'google',
-                createdAt: new Date().toISOString(),
+                linkedProviders: profile.providers,
+                createdAt: profile.createdAt || new Date().toISOString(),
               };
 
+              useSyncStore.getState().claimFor(user.id);
               set({ 
                 user, 
                 isAuthenticated: true, 
-                isLoading: false 
+                isGuest: false,
+                isLoading: false,
+                pendingLink: null
               });
               return true;
             }
@@ -163,6 +182,12 @@ export const useAuthStore = create<AuthState>()(
           set({ isLoading: false });
           return false;
         } catch (error: any) {
+          const existing = getExistingAccount(error);
+          if (existing) {
+            set({ isLoading: false, pendingLink: { ...existing, provider: 'google' } });
+            return false;
+          }
+
           console.error('Google sign in error:', error);
           set({ isLoading: false });
           
@@ -179,53 +204,43 @@ export const useAuthStore = create<AuthState>()(
         try {
           set({ isLoading: true });
           
-          try {
-            // Try backend authentication
-            const response = await APIClient.signIn({ email, password });
-            
-            if (response.success && response.user) {
-              const user: User = {
-                id: response.user.id,
-                email: response.user.email,
-                name: response.user.name,
-                provider: 'email',
-                createdAt: response.user.createdAt || new Date().toISOString(),
-              };
-
-              set({ 
-                user, 
-                isAuthenticated: true, 
-                isLoading: false 
-              });
-              return true;
-            }
-          } catch (backendError) {
-            console.warn('Backend auth failed, using local auth:', backendError);
-            
-            // Fallback to local validation
-            if (email && password.length >= 6) {
-              const user: User = {
-                id: `email_${Date.now()}`,
-                email,
-                name: email.split('@')[0],
-                provider: 'email',
-                createdAt: new Date().toISOString(),
-              };
+          const response = await APIClient.signIn({ email, password });
+          
+          if (response.success && response.user) {
+            const profile = await completePendingLink(get().pendingLink, response.user);
+            const user: User = {
+              id: profile.id,
+              email: profile.email,
+              name: profile.name,
+              provider: 'email',
+              linkedProviders: profile.providers,
+              emailVerified: profile.emailVerified,
+              createdAt: profile.createdAt || new Date().toISOString(),
+            };
 
-              set({ 
-                user, 
-                isAuthenticated: true, 
-                isLoading: false 
-              });
-              return true;
-            }
+            useSyncStore.getState().claimFor(user.id);
+            set({ 
+              user, 
+              isAuthenticated: true, 
+              isGuest: false,
+              isLoading: false,
+              pendingLink: null
+            });
+            return true;
           }
           
           set({ isLoading: false });
           return false;
         } catch (error) {
-          console.error('Email sign in error:', error);
           set({ isLoading: false });
+
+          // The server turned the credentials down; anything else means it couldn't be asked
+          const status = getErrorStatus(error);
+          if (status !== undefined && status < 500) {
+            return false;
+          }
+
+          console.error('Email sign in error:', error);
           throw error;
         }
       },
@@ -235,53 +250,40 @@ export const useAuthStore = create<AuthState>()(
         try {
           set({ isLoading: true });
           
-          try {
-            // Try backend signup
-            const response = await APIClient.signUp({ email, password, name });
-            
-            if (response.success && response.user) {
-              const user: User = {
-                id: response.user.id,
-                email: response.user.email,
-                name: response.user.name,
-                provider: 'email',
-                createdAt: response.user.createdAt || new Date().toISOString(),
-              };
-
-              set({ 
-                user, 
-                isAuthenticated: true, 
-                isLoading: false 
-              });
-              return true;
-            }
-          } catch (backendError) {
-            console.warn('Backend signup failed, using local auth:', backendError);
-            
-            // Fallback to local validation
-            if (email && password.length >= 6 && name) {
-              const user: User = {
-                id: `email_${Date.now()}`,
-                email,
-                name,
-                provider: 'email',
-                createdAt: new Date().toISOString(),
-              };
+          const response = await APIClient.signUp({ email, password, name });
+          
+          if (response.success && response.user) {
+            const user: User = {
+              id: response.user.id,
+              email: response.user.email,
+              name: response.user.name,
+              provider: 'email',
+              linkedProviders: response.user.providers,
+              emailVerified: response.user.emailVerified,
+              createdAt: response.user.createdAt || new Date().toISOString(),
+            };
 
-              set({ 
-                user, 
-                isAuthenticated: true, 
-                isLoading: false 
-              });
-              return true;
-            }
+            useSyncStore.getState().claimFor(user.id);
+            set({ 
+              user, 
+              isAuthenticated: true, 
+              isGuest: false,
+              isLoading: false 
+            });
+            return true;
           }
           
           set({ isLoading: false });
           return false;
         } catch (error) {
-          console.error('Email sign up error:', error);
           set({ isLoading: false });
+
+          const status = getErrorStatus(error);
+          if (status !== undefined && status < 500) {
+            return false;
+          }
+
+          console.error('Email sign up error:', error);
           throw error;
         }
       },
@@ -299,7 +301,7 @@ export const useAuthStore = create<AuthState>()(
           }
           
           // Sign out from respective providers
-          if (user?.provider === 'google') {
+          if (usesGoogle(user)) {
             try {
               await GoogleSignin.signOut();
             } catch (error) {
@@ -309,14 +311,119 @@ export const useAuthStore = create<AuthState>()(
           
           set({ 
             user: null, 
-            isAuthenticated: false 
+            isAuthenticated: false,
+            isGuest: false,
+            pendingLink: null
           });
         } catch (error) {
           console.error('Sign out error:', error);
           throw error;
         }
       },
+
+      // A local-only profile: no user, no tokens, and nothing queued is sent until an account exists
+      continueAsGuest: () => set({ user: null, isAuthenticated: false, isGuest: true }),
+
+      // Back to the sign-in screen; whatever the guest saved stays on the device
+      leaveGuestMode: () => set({ isGuest: false }),
       
+      // The backend session is already gone; only local state and the provider need clearing.
+      // Queued changes wait for this account to come back; anyone else signing in drops them.
+      forceSignOut: async () => {
+        const { user } = get();
+
+        set({
+          user: null,
+          isAuthenticated: false,
+          isGuest: false,
+          isLoading: false,
+          pendingLink: null,
+        });
+
+        if (usesGoogle(user)) {
+          try {
+            await GoogleSignin.signOut();
+          } catch (error) {
+            console.error('Google sign out error:', error);
+          }
+        }
+      },
+      
+      // Picks up changes made elsewhere, like the email being verified from a browser
+      refreshUser: async () => {
+        try {
+          const profile = await APIClient.getProfile();
+          const { user } = get();
+          if (user && user.id === profile.id) {
+            set({
+              user: {
+                ...user,
+                name: profile.name,
+                email: profile.email,
+                emailVerified: profile.emailVerified,
+                linkedProviders: profile.providers ?? user.linkedProviders,
+              },
+            });
+          }
+        } catch (error) {
+          console.warn('Failed to refresh the user profile:', error);
+        }
+      },
+
+      // Adds another way into the signed-in account; false if the provider's sign-in was canceled
+      linkProvider: async (provider: AuthProvider, password?: string) => {
+        const { user } = get();
+        if (!user) return false;
+
+        let profile: Profile;
+        if (provider === 'apple') {
+          try {
+            const credential = await requestAppleCredential();
+            if (!credential.identityToken) return false;
+            profile = await APIClient.linkProvider({ provider, identityToken: credential.identityToken });
+          } catch (error: any) {
+            if (error.code === 'ERR_CANCELED') return false;
+            throw error;
+          }
+        } else if (provider === 'google') {
+          try {
+            const userInfo = await requestGoogleSignIn();
+            if (!userInfo.idToken) return false;
+            profile = await APIClient.linkProvider({ provider, idToken: userInfo.idToken });
+          } catch (error: any) {
+            if (error.code === 'SIGN_IN_CANCELLED') return false;
+            throw error;
+          }
+        } else {
+          if (!password) return false;
+          profile = await APIClient.linkProvider({ provider, password });
+        }
+
+        set({ user: { ...user, linkedProviders: profile.providers ?? user.linkedProviders } });
+        return true;
+      },
+
+      unlinkProvider: async (provider: AuthProvider) => {
+        const { user } = get();
+        if (!user) return;
+
+        const profile = await APIClient.unlinkProvider(provider);
+        const linkedProviders = profile.providers ?? user.linkedProviders?.filter(linked => linked.provider !== provider);
+        // The session stays valid; it's just no longer tied to the provider that started it
+        const current = user.provider === provider ? linkedProviders?.[0]?.provider : undefined;
+        set({ user: { ...user, provider: current || user.provider, linkedProviders } });
+
+        if (provider === 'google') {
+          try {
+            await GoogleSignin.signOut();
+          } catch (error) {
+            console.error('Google sign out error:', error);
+          }
+        }
+      },
+
+      clearPendingLink: () => set({ pendingLink: null }),
+
       setUser: (user: User | null) => set({ user }),
       
       setIsAuthenticated: (isAuthenticated: boolean) => set({ isAuthenticated }),
@@ -337,6 +444,7 @@ export const useAuthStore = create<AuthState>()(
       partialize: (state) => ({
         user: state.user,
         isAuthenticated: state.isAuthenticated,
+        isGuest: state.isGuest,
       }),
     }
   )
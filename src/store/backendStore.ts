@@ -0,0 +1,158 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import APIClient from '../services/api';
+import { BackendHealth, BackendProfile, BackendProfileId } from '../types';
+
+type ProfileSettings = Partial<Pick<BackendProfile, 'baseUrl' | 'apiKey'>>;
+
+export const BACKEND_PROFILE_IDS: BackendProfileId[] = ['local', 'staging', 'prod', 'self-hosted'];
+
+const DEFAULT_PROFILES: Record<BackendProfileId, BackendProfile> = {
+  local: { id: 'local', name: 'Local', baseUrl: 'http://localhost:8080', editable: true },
+  staging: { id: 'staging', name: 'Staging', baseUrl: process.env.EXPO_PUBLIC_STAGING_API_URL || '', editable: false },
+  prod: { id: 'prod', name: 'Production', baseUrl: process.env.EXPO_PUBLIC_API_URL || '', editable: false },
+  'self-hosted': { id: 'self-hosted', name: 'Self-hosted', baseUrl: '', editable: true },
+};
+
+interface BackendState {
+  activeProfileId: BackendProfileId;
+  // Portfolio sync, prices and news fall back to sample data; sign-in still uses the active profile
+  isOfflineMode: boolean;
+  // Only what the user changed is stored, so build-time URLs for staging and prod stay current
+  profileSettings: Partial<Record<BackendProfileId, ProfileSettings>>;
+  health: Partial<Record<BackendProfileId, BackendHealth>>;
+
+  getProfile: (profileId: BackendProfileId) => BackendProfile;
+  getActiveProfile: () => BackendProfile;
+  updateProfile: (profileId: BackendProfileId, settings: ProfileSettings) => void;
+  resetProfile: (profileId: BackendProfileId) => void;
+  connect: (profileId: BackendProfileId) => void;
+  goOffline: () => void;
+  checkHealth: (profileId: BackendProfileId) => Promise<BackendHealth>;
+}
+
+// Points the API client at a profile, falling back to the local URL when it has none
+const applyProfile = (profile: BackendProfile) => {
+  APIClient.configure(profile.baseUrl || DEFAULT_PROFILES.local.baseUrl, profile.apiKey);
+};
+
+const STORAGE_KEY = 'backend-storage';
+// Before profiles, a custom URL and key were kept with the portfolio data
+const LEGACY_STORAGE_KEY = 'portfolio-storage';
+
+/**
+ * Carry a backend configured before profiles existed over to the self-hosted
+ * profile. Only runs while nothing has been stored for profiles, so it can't
+ * undo a choice made since.
+ */
+const adoptLegacyConfiguration = async () => {
+  try {
+    if (await AsyncStorage.getItem(STORAGE_KEY)) return;
+    const stored = await AsyncStorage.getItem(LEGACY_STORAGE_KEY);
+    const legacy = stored ? JSON.parse(stored)?.state : null;
+    if (!legacy?.apiBaseUrl) return;
+
+    useBackendStore.setState((state) => ({
+      activeProfileId: 'self-hosted',
+      // A URL was only saved once it had checked out, so it was in use
+      isOfflineMode: legacy.isOfflineMode ?? false,
+      profileSettings: {
+        ...state.profileSettings,
+        'self-hosted': { baseUrl: legacy.apiBaseUrl, apiKey: legacy.apiKey || undefined },
+      },
+    }));
+    applyProfile(useBackendStore.getState().getActiveProfile());
+  } catch (error) {
+    console.warn('Failed to carry over the saved backend configuration:', error);
+  }
+};
+
+export const useBackendStore = create<BackendState>()(
+  persist(
+    (set, get) => ({
+      activeProfileId: DEFAULT_PROFILES.prod.baseUrl ? 'prod' : 'local',
+      isOfflineMode: true,
+      profileSettings: {},
+      health: {},
+
+      getProfile: (profileId: BackendProfileId) => {
+        const profile = DEFAULT_PROFILES[profileId];
+        const settings = get().profileSettings[profileId] || {};
+        return {
+          ...profile,
+          baseUrl: profile.editable && settings.baseUrl ? settings.baseUrl : profile.baseUrl,
+          apiKey: settings.apiKey || profile.apiKey,
+        };
+      },
+
+      getActiveProfile: () => {
+        return get().getProfile(get().activeProfileId);
+      },
+
+      updateProfile: (profileId: BackendProfileId, settings: ProfileSettings) => {
+        set((state) => ({
+          profileSettings: {
+            ...state.profileSettings,
+            [profileId]: { ...state.profileSettings[profileId], ...settings },
+          },
+        }));
+
+        if (profileId === get().activeProfileId) {
+          applyProfile(get().getActiveProfile());
+        }
+      },
+
+      resetProfile: (profileId: BackendProfileId) => {
+        set((state) => {
+          const { [profileId]: _, ...profileSettings } = state.profileSettings;
+          const { [profileId]: __, ...health } = state.health;
+          return { profileSettings, health };
+        });
+
+        if (profileId === get().activeProfileId) {
+          applyProfile(get().getActiveProfile());
+        }
+      },
+
+      connect: (profileId: BackendProfileId) => {
+        const profile = get().getProfile(profileId);
+        if (!profile.baseUrl) {
+          throw new Error(`No URL is set for the ${profile.name} backend`);
+        }
+
+        set({ activeProfileId: profileId, isOfflineMode: false });
+        applyProfile(profile);
+      },
+
+      goOffline: () => {
+        set({ isOfflineMode: true });
+      },
+
+      checkHealth: async (profileId: BackendProfileId) => {
+        const profile = get().getProfile(profileId);
+        const health: BackendHealth = profile.baseUrl
+          ? await APIClient.checkHealth(profile.baseUrl)
+          : { ok: false, latencyMs: 0, checkedAt: new Date().toISOString(), error: 'No URL configured' };
+
+        set((state) => ({ health: { ...state.health, [profileId]: health } }));
+        return health;
+      },
+    }),
+    {
+      name: STORAGE_KEY,
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        activeProfileId: state.activeProfileId,
+        isOfflineMode: state.isOfflineMode,
+        profileSettings: state.profileSettings,
+      }),
+      onRehydrateStorage: () => (state) => {
+        if (state) {
+          applyProfile(state.getActiveProfile());
+          adoptLegacyConfiguration();
+        }
+      },
+    }
+  )
+);
@@ -0,0 +1,90 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MarketDataProviderId } from '../types';
+import { csvReplayProvider } from '../services/marketData/csvReplayProvider';
+import { parsePriceHistoryCsv } from '../utils/priceHistoryCsv';
+
+export const MARKET_DATA_PROVIDER_IDS: MarketDataProviderId[] = ['backend', 'fixture', 'csv-replay'];
+
+export const MARKET_DATA_PROVIDER_LABELS: Record<MarketDataProviderId, string> = {
+  backend: 'Backend',
+  fixture: 'Fixtures',
+  'csv-replay': 'CSV Replay',
+};
+
+const DEFAULT_PROVIDER_ID: MarketDataProviderId = process.env.EXPO_PUBLIC_MOCK_API === 'true' ? 'fixture' : 'backend';
+
+interface MarketDataState {
+  // Unset until someone picks a source, so EXPO_PUBLIC_MOCK_API decides until then
+  providerId?: MarketDataProviderId;
+  replayCsv: string;
+  replaySymbols: string[];
+
+  getProviderId: () => MarketDataProviderId;
+  setProvider: (providerId: MarketDataProviderId) => void;
+  resetProvider: () => void;
+  loadReplay: (text: string) => string[];
+  clearReplay: () => void;
+}
+
+export const useMarketDataStore = create<MarketDataState>()(
+  persist(
+    (set, get) => ({
+      providerId: undefined,
+      replayCsv: '',
+      replaySymbols: [],
+
+      getProviderId: () => {
+        return get().providerId || DEFAULT_PROVIDER_ID;
+      },
+
+      setProvider: (providerId: MarketDataProviderId) => {
+        if (providerId === 'csv-replay' && get().replaySymbols.length === 0) {
+          throw new Error('Load a price history file before switching to replay');
+        }
+        set({ providerId });
+      },
+
+      resetProvider: () => {
+        set({ providerId: undefined });
+      },
+
+      // Returns the rows that couldn't be read; the file is kept if any prices were
+      loadReplay: (text: string) => {
+        const { series, issues } = parsePriceHistoryCsv(text);
+        const replaySymbols = Object.keys(series).sort();
+        if (replaySymbols.length === 0) {
+          return issues.length > 0 ? issues : ['No prices found'];
+        }
+
+        csvReplayProvider.load(series);
+        set({ replayCsv: text, replaySymbols });
+        return issues;
+      },
+
+      clearReplay: () => {
+        csvReplayProvider.clear();
+        set((state) => ({
+          replayCsv: '',
+          replaySymbols: [],
+          providerId: state.providerId === 'csv-replay' ? undefined : state.providerId,
+        }));
+      },
+    }),
+    {
+      name: 'market-data-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        providerId: state.providerId,
+        replayCsv: state.replayCsv,
+        replaySymbols: state.replaySymbols,
+      }),
+      onRehydrateStorage: () => (state) => {
+        if (state?.replayCsv) {
+          csvReplayProvider.load(parsePriceHistoryCsv(state.replayCsv).series);
+        }
+      },
+    }
+  )
+);
@@ -1,8 +1,49 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Asset, Portfolio, PortfolioSnapshot, ChartDataPoint } from '../types';
-import APIClient from '../services/api';
+import {
+  Asset,
+  Portfolio,
+  PortfolioSnapshot,
+  ChartDataPoint,
+  Transaction,
+  CostBasisMethod,
+  HoldingPosition,
+  FxRateTable,
+  CashFlow,
+  PerformanceReturns,
+  PerformanceTimeframe,
+  CsvColumnMapping,
+  CsvImportPreset,
+  CsvImportPreview,
+  BackupPortfolio,
+  PortfolioRestoreSelection,
+  MarketData,
+  APIAsset,
+} from '../types';
+import { fxService } from '../services/fxService';
+import { quoteService } from '../services/quoteService';
+import { getMarketDataProvider } from '../services/marketData';
+import { candleService } from '../services/candleService';
+import { syncService } from '../services/syncService';
+import { useSyncStore } from './syncStore';
+import {
+  applyPosition,
+  createOpeningTransaction,
+  derivePosition,
+  getEffectiveTransactions,
+  DEFAULT_COST_BASIS_METHOD,
+  TradeRateResolver,
+  summarizePnL,
+} from '../utils/ledger';
+import { DEFAULT_CURRENCY, DEFAULT_FX_RATES, getFxRate } from '../utils/currency';
+import { computeReturns, getCashFlows, getTimeframeStart, sumCashFlows } from '../utils/returns';
+import { valueCurveFromCandles } from '../utils/candles';
+import { buildImportPreview } from '../utils/csvImport';
+import { copyBackupPortfolio } from '../utils/backupSchema';
+import { ReconcilePlan } from '../utils/reconcile';
+
+type NewTransaction = Omit<Transaction, 'id' | 'createdAt' | 'portfolioId'>;
 
 interface PortfolioState {
   // Core portfolio data
@@ -10,48 +51,77 @@ interface PortfolioState {
   currentPortfolioId: string | null;
   assets: Asset[];
   snapshots: PortfolioSnapshot[];
+  transactions: Transaction[];
+  fxRates: FxRateTable;
+  fxRatesUpdatedAt: string | null;
+  importPresets: CsvImportPreset[];
+  // Today's value from 5-minute bars; snapshots are daily, so 1D charts use this instead
+  intradayCurve: { portfolioId: string; points: ChartDataPoint[] } | null;
   
   // UI state
   isLoading: boolean;
   isRefreshing: boolean;
   error: string | null;
   lastRefresh: Date | null;
-  
-  // Configuration
-  apiBaseUrl: string | null;
-  apiKey: string | null;
-  isOfflineMode: boolean;
 
   // Portfolio operations
-  createPortfolio: (name: string) => Promise<void>;
+  createPortfolio: (name: string, baseCurrency?: string) => Promise<void>;
   switchPortfolio: (portfolioId: string) => void;
   deletePortfolio: (portfolioId: string) => Promise<void>;
+  setCostBasisMethod: (portfolioId: string, method: CostBasisMethod) => Promise<void>;
+  getCostBasisMethod: (portfolioId?: string) => CostBasisMethod;
+  setBaseCurrency: (portfolioId: string, currency: string) => Promise<void>;
+  getBaseCurrency: (portfolioId?: string) => string;
   
   // Asset operations
   addAsset: (asset: Omit<Asset, 'id' | 'totalValue'>) => Promise<void>;
   updateAsset: (asset: Asset) => Promise<void>;
   removeAsset: (assetId: string) => Promise<void>;
-  searchAssets: (query: string, types?: string[]) => Promise<Asset[]>;
+  searchAssets: (query: string, types?: string[]) => Promise<APIAsset[]>;
+  
+  // Ledger operations
+  recordTransaction: (transaction: NewTransaction) => Promise<void>;
+  correctTransaction: (transactionId: string, changes: Partial<NewTransaction>) => Promise<void>;
+  voidTransaction: (transactionId: string, note?: string) => Promise<void>;
+  getTransactions: (ticker?: string) => Transaction[];
+  getPosition: (ticker: string) => HoldingPosition;
   
   // Price operations
   refreshPrices: () => Promise<void>;
   refreshAssetPrice: (assetId: string) => Promise<void>;
+  applyLiveQuotes: (quotes: Record<string, MarketData>) => void;
+  refreshFxRates: () => Promise<void>;
   
   // Snapshot operations
   recordSnapshot: () => Promise<void>;
-  getPerformanceData: (timeframe: '1D' | '1W' | '1M' | '3M' | '6M' | '1Y' | 'ALL') => ChartDataPoint[];
-  
-  // Configuration
-  setApiConfiguration: (baseUrl: string, apiKey: string) => Promise<boolean>;
-  clearConfiguration: () => void;
+  getPortfolioSnapshots: () => PortfolioSnapshot[];
+  getPerformanceData: (timeframe: PerformanceTimeframe) => ChartDataPoint[];
+  loadIntradayPerformance: () => Promise<void>;
+  getCashFlows: () => CashFlow[];
+  getReturns: (timeframe: PerformanceTimeframe) => PerformanceReturns;
   
   // Data management
   loadData: () => Promise<void>;
   saveData: () => Promise<void>;
   clearData: () => void;
-  exportData: () => Promise<string>;
-  importData: (data: string) => Promise<void>;
+  getBackupPortfolios: () => BackupPortfolio[];
+  restorePortfolios: (entries: BackupPortfolio[], selections: PortfolioRestoreSelection[]) => Promise<void>;
   mergeDuplicateAssets: () => Promise<void>;
+
+  // Server reconciliation
+  applyServerChanges: (plan: ReconcilePlan) => Promise<void>;
+  adoptServerIds: (portfolioIds: Record<string, string>, holdingIds: Record<string, string>) => Promise<void>;
+
+  // Broker CSV import
+  saveImportPreset: (preset: CsvImportPreset) => void;
+  deleteImportPreset: (presetId: string) => void;
+  previewCsvImport: (
+    text: string,
+    preset: CsvImportPreset,
+    mapping: CsvColumnMapping,
+    portfolioId: string
+  ) => CsvImportPreview;
+  commitCsvImport: (preview: CsvImportPreview, portfolioId: string) => Promise<number>;
 }
 
 // Sample data for demonstration
@@ -68,6 +138,7 @@ const sampleAssets: Asset[] = [
     priceChangePercent: 1.33,
     averagePrice: 185.00,
     exchange: 'NASDAQ',
+    currency: 'USD',
   },
   {
     id: '2',
@@ -80,6 +151,7 @@ const sampleAssets: Asset[] = [
     priceChange: -1000,
     priceChangePercent: -2.17,
     averagePrice: 42000,
+    currency: 'USD',
   },
   {
     id: '3',
@@ -92,9 +164,142 @@ const sampleAssets: Asset[] = [
     priceChange: 150,
     priceChangePercent: 4.92,
     averagePrice: 2800,
+    currency: 'USD',
   },
 ];
 
+const generateTransactionId = () =>
+  `tx-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Takes an entry off the books; the original stays on record
+const createVoidEntry = (original: Transaction, note?: string): Transaction => ({
+  id: generateTransactionId(),
+  portfolioId: original.portfolioId,
+  ticker: original.ticker,
+  type: 'void',
+  quantity: 0,
+  price: 0,
+  date: new Date().toISOString(),
+  createdAt: new Date().toISOString(),
+  supersedes: original.id,
+  note,
+});
+
+const findCostBasisMethod = (portfolios: Portfolio[], portfolioId: string | null): CostBasisMethod =>
+  portfolios.find(p => p.id === portfolioId)?.costBasisMethod || DEFAULT_COST_BASIS_METHOD;
+
+const findBaseCurrency = (portfolios: Portfolio[], portfolioId: string | null): string =>
+  portfolios.find(p => p.id === portfolioId)?.baseCurrency || DEFAULT_CURRENCY;
+
+// Entries stamped against another base currency are carried across at today's
+// cross rate; unstamped (pre-FX) entries use today's rate, so they show no FX gain
+const createTradeRateResolver = (baseCurrency: string, rates: FxRateTable): TradeRateResolver => tx =>
+  tx.fxRate === undefined
+    ? getFxRate(tx.currency || DEFAULT_CURRENCY, baseCurrency, rates)
+    : tx.fxRate * getFxRate(tx.baseCurrency || baseCurrency, baseCurrency, rates);
+
+// Re-derive the holdings for the given tickers in a portfolio from the ledger
+const rebuildHoldings = (
+  state: Pick<PortfolioState, 'portfolios' | 'assets' | 'currentPortfolioId' | 'fxRates'>,
+  transactions: Transaction[],
+  portfolioId: string,
+  tickers: string[],
+  portfolios: Portfolio[] = state.portfolios
+) => {
+  const method = findCostBasisMethod(portfolios, portfolioId);
+  const tradeRate = createTradeRateResolver(findBaseCurrency(portfolios, portfolioId), state.fxRates);
+  const rebuild = (assets: Asset[]) => assets.map(asset =>
+    tickers.includes(asset.ticker)
+      ? applyPosition(
+          asset,
+          transactions.filter(tx => tx.portfolioId === portfolioId && tx.ticker === asset.ticker),
+          method,
+          tradeRate
+        )
+      : asset
+  );
+
+  const rebuiltPortfolios = portfolios.map(portfolio =>
+    portfolio.id === portfolioId
+      ? { ...portfolio, assets: rebuild(portfolio.assets) }
+      : portfolio
+  );
+
+  return {
+    portfolios: rebuiltPortfolios,
+    assets: portfolioId === state.currentPortfolioId ? rebuild(state.assets) : state.assets,
+    transactions,
+  };
+};
+
+// Price and the day's move come from the quote; the position itself is left alone
+const applyQuote = (asset: Asset, quote: MarketData | undefined): Asset => {
+  if (!quote) return asset;
+  return {
+    ...asset,
+    currentPrice: quote.price,
+    priceChange: quote.change,
+    priceChangePercent: quote.changePercent,
+    totalValue: asset.quantity * quote.price,
+    volume: quote.volume,
+    dayHigh: quote.high24h,
+    dayLow: quote.low24h,
+    priceUpdatedAt: quote.timestamp,
+  };
+};
+
+// Every portfolio holding a symbol gets the same quote, not just the active one. Holdings and
+// portfolios without a quote keep their identity so memoized rows can skip re-rendering.
+const applyQuotes = (
+  state: Pick<PortfolioState, 'portfolios' | 'assets'>,
+  quotes: Record<string, MarketData>
+) => {
+  const apply = (assets: Asset[]) =>
+    assets.some(asset => quotes[asset.ticker.toUpperCase()])
+      ? assets.map(asset => applyQuote(asset, quotes[asset.ticker.toUpperCase()]))
+      : assets;
+  return {
+    portfolios: state.portfolios.map(portfolio => {
+      const assets = apply(portfolio.assets);
+      return assets === portfolio.assets ? portfolio : { ...portfolio, assets };
+    }),
+    assets: apply(state.assets),
+  };
+};
+
+// Queue the server copy of each holding to match what the ledger now says
+const queueHoldingSync = (
+  state: Pick<PortfolioState, 'portfolios' | 'assets' | 'currentPortfolioId'>,
+  portfolioId: string,
+  tickers: string[]
+) => {
+  const holdings = portfolioId === state.currentPortfolioId
+    ? state.assets
+    : state.portfolios.find(p => p.id === portfolioId)?.assets || [];
+  const { enqueue } = useSyncStore.getState();
+
+  holdings
+    .filter(asset => tickers.includes(asset.ticker))
+    .forEach(asset => enqueue({
+      entity: 'holding',
+      operation: 'update',
+      entityId: asset.id,
+      portfolioId,
+      payload: { quantity: asset.quantity, averagePrice: asset.averagePrice ?? asset.currentPrice },
+    }));
+  syncService.flush();
+};
+
+const queueHoldingCreate = (asset: Asset, portfolioId: string) => {
+  useSyncStore.getState().enqueue({
+    entity: 'holding',
+    operation: 'create',
+    entityId: asset.id,
+    portfolioId,
+    payload: { ticker: asset.ticker, quantity: asset.quantity, averagePrice: asset.averagePrice ?? asset.currentPrice },
+  });
+};
+
 // Generate sample historical data
 const generateSampleSnapshots = (): PortfolioSnapshot[] => {
   const snapshots: PortfolioSnapshot[] = [];
@@ -141,55 +346,43 @@ export const usePortfolioStore = create<PortfolioState>()(
       currentPortfolioId: 'default',
       assets: [],
       snapshots: [],
+      transactions: [],
+      fxRates: DEFAULT_FX_RATES,
+      fxRatesUpdatedAt: null,
+      importPresets: [],
+      intradayCurve: null,
       isLoading: false,
       isRefreshing: false,
       error: null,
       lastRefresh: null,
-      apiBaseUrl: null,
-      apiKey: null,
-      isOfflineMode: true,
 
       // Portfolio operations
-      createPortfolio: async (name: string) => {
-        try {
-          // Try to create portfolio in backend first
-          const createdPortfolio = await APIClient.createPortfolio(name);
-          
-          const newPortfolio: Portfolio = {
-            id: createdPortfolio.id,
-            name: createdPortfolio.name,
-            totalValue: createdPortfolio.totalValue || 0,
-            totalCost: createdPortfolio.totalCost || 0,
-            totalChange: createdPortfolio.totalChange || 0,
-            totalChangePercent: createdPortfolio.totalChangePercent || 0,
-            assets: createdPortfolio.assets || [],
-          };
+      createPortfolio: async (name: string, baseCurrency: string = DEFAULT_CURRENCY) => {
+        // Created here first; the sync queue maps the temporary id once the server has it
+        const newPortfolio: Portfolio = {
+          id: `portfolio-${Date.now()}`,
+          name,
+          totalValue: 0,
+          totalCost: 0,
+          totalChange: 0,
+          totalChangePercent: 0,
+          baseCurrency,
+          assets: [],
+        };
 
-          set((state) => ({
-            portfolios: [...state.portfolios, newPortfolio],
-            currentPortfolioId: newPortfolio.id,
-            assets: newPortfolio.assets,
-          }));
-        } catch (error) {
-          console.warn('Backend portfolio creation failed, creating locally:', error);
-          
-          // Fallback to local creation
-          const newPortfolio: Portfolio = {
-            id: `portfolio-${Date.now()}`,
-            name,
-            totalValue: 0,
-            totalCost: 0,
-            totalChange: 0,
-            totalChangePercent: 0,
-            assets: [],
-          };
+        set((state) => ({
+          portfolios: [...state.portfolios, newPortfolio],
+          currentPortfolioId: newPortfolio.id,
+          assets: [],
+        }));
 
-          set((state) => ({
-            portfolios: [...state.portfolios, newPortfolio],
-            currentPortfolioId: newPortfolio.id,
-            assets: [],
-          }));
-        }
+        useSyncStore.getState().enqueue({
+          entity: 'portfolio',
+          operation: 'create',
+          entityId: newPortfolio.id,
+          payload: { name, baseCurrency },
+        });
+        syncService.flush();
 
         await get().saveData();
       },
@@ -216,88 +409,152 @@ export const usePortfolioStore = create<PortfolioState>()(
           ? updatedPortfolios[0].id 
           : currentPortfolioId;
 
-        set({
+        set((state) => ({
           portfolios: updatedPortfolios,
           currentPortfolioId: newCurrentId,
           assets: updatedPortfolios.find(p => p.id === newCurrentId)?.assets || [],
-        });
+          transactions: state.transactions.filter(tx => tx.portfolioId !== portfolioId),
+        }));
+
+        useSyncStore.getState().enqueue({ entity: 'portfolio', operation: 'delete', entityId: portfolioId });
+        syncService.flush();
 
         await get().saveData();
       },
 
-      // Asset operations
-      addAsset: async (assetData: Omit<Asset, 'id' | 'totalValue'>) => {
+      setCostBasisMethod: async (portfolioId: string, method: CostBasisMethod) => {
+        // Changing the method re-closes every past sale in the portfolio under the new rules
         set((state) => {
-          const existingAssetIndex = state.assets.findIndex(asset => asset.ticker === assetData.ticker);
-
-          let updatedAssets: Asset[];
-
-          if (existingAssetIndex !== -1) {
-            // Asset exists - combine quantities and recalculate average price
-            const existingAsset = state.assets[existingAssetIndex];
-            const existingValue = existingAsset.quantity * (existingAsset.averagePrice || existingAsset.currentPrice);
-            const newValue = assetData.quantity * (assetData.averagePrice || assetData.currentPrice);
-            const totalQuantity = existingAsset.quantity + assetData.quantity;
-            const newAveragePrice = (existingValue + newValue) / totalQuantity;
-
-            const updatedAsset: Asset = {
-              ...existingAsset,
-              quantity: totalQuantity,
-              averagePrice: newAveragePrice,
-              currentPrice: assetData.currentPrice, // Use latest current price
-              totalValue: totalQuantity * assetData.currentPrice,
-              // Keep existing price change data or update if new data is available
-              priceChange: assetData.priceChange !== 0 ? assetData.priceChange : existingAsset.priceChange,
-              priceChangePercent: assetData.priceChangePercent !== 0 ? assetData.priceChangePercent : existingAsset.priceChangePercent,
-            };
+          const portfolios = state.portfolios.map(portfolio =>
+            portfolio.id === portfolioId ? { ...portfolio, costBasisMethod: method } : portfolio
+          );
+          const tickers = Array.from(new Set(
+            state.transactions.filter(tx => tx.portfolioId === portfolioId).map(tx => tx.ticker)
+          ));
 
-            updatedAssets = [...state.assets];
-            updatedAssets[existingAssetIndex] = updatedAsset;
-          } else {
-            // New asset - create new entry
-            const newAsset: Asset = {
-              ...assetData,
-              id: `asset-${Date.now()}`,
-              totalValue: assetData.quantity * assetData.currentPrice,
-            };
-            updatedAssets = [...state.assets, newAsset];
-          }
+          return rebuildHoldings(state, state.transactions, portfolioId, tickers, portfolios);
+        });
 
-          const updatedPortfolios = state.portfolios.map(portfolio =>
-            portfolio.id === state.currentPortfolioId
-              ? { ...portfolio, assets: updatedAssets }
-              : portfolio
+        useSyncStore.getState().enqueue({
+          entity: 'portfolio',
+          operation: 'update',
+          entityId: portfolioId,
+          payload: { costBasisMethod: method },
+        });
+        queueHoldingSync(get(), portfolioId, get().portfolios.find(p => p.id === portfolioId)?.assets.map(a => a.ticker) || []);
+
+        await get().saveData();
+      },
+
+      getCostBasisMethod: (portfolioId?: string) => {
+        const { portfolios, currentPortfolioId } = get();
+        return findCostBasisMethod(portfolios, portfolioId ?? currentPortfolioId);
+      },
+
+      setBaseCurrency: async (portfolioId: string, currency: string) => {
+        set((state) => {
+          const portfolios = state.portfolios.map(portfolio =>
+            portfolio.id === portfolioId ? { ...portfolio, baseCurrency: currency } : portfolio
           );
+          const tickers = Array.from(new Set(
+            state.transactions.filter(tx => tx.portfolioId === portfolioId).map(tx => tx.ticker)
+          ));
 
-          return {
-            assets: updatedAssets,
-            portfolios: updatedPortfolios,
-          };
+          return rebuildHoldings(state, state.transactions, portfolioId, tickers, portfolios);
         });
 
-        try {
-          const { currentPortfolioId } = get();
-          if (currentPortfolioId) {
-            await APIClient.addAssetToPortfolio(
-              currentPortfolioId,
-              newAsset.ticker,
-              newAsset.quantity,
-              newAsset.averagePrice || newAsset.currentPrice
+        useSyncStore.getState().enqueue({
+          entity: 'portfolio',
+          operation: 'update',
+          entityId: portfolioId,
+          payload: { baseCurrency: currency },
+        });
+        syncService.flush();
+
+        await get().refreshFxRates();
+        await get().saveData();
+      },
+
+      getBaseCurrency: (portfolioId?: string) => {
+        const { portfolios, currentPortfolioId } = get();
+        return findBaseCurrency(portfolios, portfolioId ?? currentPortfolioId);
+      },
+
+      // Asset operations
+      addAsset: async (assetData: Omit<Asset, 'id' | 'totalValue'>) => {
+        const { currentPortfolioId, assets } = get();
+        if (!currentPortfolioId) return;
+
+        // New holdings get a row first; quantity and cost then come from the ledger
+        if (!assets.some(asset => asset.ticker === assetData.ticker)) {
+          const newAsset: Asset = {
+            ...assetData,
+            id: `asset-${Date.now()}`,
+            quantity: 0,
+            averagePrice: undefined,
+            totalValue: 0,
+          };
+
+          queueHoldingCreate(newAsset, currentPortfolioId);
+          set((state) => ({
+            assets: [...state.assets, newAsset],
+            portfolios: state.portfolios.map(portfolio =>
+              portfolio.id === state.currentPortfolioId
+                ? { ...portfolio, assets: [...portfolio.assets, newAsset] }
+                : portfolio
+            ),
+          }));
+        } else {
+          // Use latest current price for the existing holding
+          set((state) => {
+            const updatedAssets = state.assets.map(asset =>
+              asset.ticker === assetData.ticker
+                ? {
+                    ...asset,
+                    currentPrice: assetData.currentPrice,
+                    priceChange: assetData.priceChange !== 0 ? assetData.priceChange : asset.priceChange,
+                    priceChangePercent: assetData.priceChangePercent !== 0 ? assetData.priceChangePercent : asset.priceChangePercent,
+                  }
+                : asset
             );
-          }
-        } catch (error) {
-          console.warn('Failed to sync asset addition:', error);
+
+            return {
+              assets: updatedAssets,
+              portfolios: state.portfolios.map(portfolio =>
+                portfolio.id === state.currentPortfolioId
+                  ? { ...portfolio, assets: updatedAssets }
+                  : portfolio
+              ),
+            };
+          });
         }
 
-        await get().saveData();
-        await get().recordSnapshot();
+        const price = assetData.averagePrice || assetData.currentPrice;
+        await get().recordTransaction({
+          ticker: assetData.ticker,
+          type: 'buy',
+          quantity: assetData.quantity,
+          price,
+          date: new Date().toISOString(),
+        });
       },
 
       updateAsset: async (updatedAsset: Asset) => {
         set((state) => {
+          // Quantity and cost belong to the ledger, so re-derive them when it has entries
+          const ledger = state.transactions.filter(tx =>
+            tx.portfolioId === state.currentPortfolioId && tx.ticker === updatedAsset.ticker
+          );
           const updatedAssets = state.assets.map(asset =>
             asset.id === updatedAsset.id 
-              ? { ...updatedAsset, totalValue: updatedAsset.quantity * updatedAsset.currentPrice }
+              ? ledger.length > 0
+                ? applyPosition(
+                    updatedAsset,
+                    ledger,
+                    findCostBasisMethod(state.portfolios, state.currentPortfolioId),
+                    createTradeRateResolver(findBaseCurrency(state.portfolios, state.currentPortfolioId), state.fxRates)
+                  )
+                : { ...updatedAsset, totalValue: updatedAsset.quantity * updatedAsset.currentPrice }
               : asset
           );
 
@@ -313,11 +570,24 @@ export const usePortfolioStore = create<PortfolioState>()(
           };
         });
 
+        const { currentPortfolioId } = get();
+        if (currentPortfolioId) {
+          queueHoldingSync(get(), currentPortfolioId, [updatedAsset.ticker]);
+        }
+
         await get().saveData();
         await get().recordSnapshot();
       },
 
       removeAsset: async (assetId: string) => {
+        const asset = get().assets.find(a => a.id === assetId);
+
+        // Void the holding's entries rather than dropping them from the ledger. They go in
+        // with the removal itself, so there's one save, one snapshot and one delete to sync.
+        const voids = asset
+          ? getEffectiveTransactions(get().getTransactions(asset.ticker)).map(entry => createVoidEntry(entry, 'Holding removed'))
+          : [];
+
         set((state) => {
           const updatedAssets = state.assets.filter(asset => asset.id !== assetId);
           const updatedPortfolios = state.portfolios.map(portfolio => 
@@ -329,40 +599,124 @@ export const usePortfolioStore = create<PortfolioState>()(
           return {
             assets: updatedAssets,
             portfolios: updatedPortfolios,
+            transactions: [...state.transactions, ...voids],
           };
         });
 
+        const { currentPortfolioId } = get();
+        if (currentPortfolioId) {
+          useSyncStore.getState().enqueue({
+            entity: 'holding',
+            operation: 'delete',
+            entityId: assetId,
+            portfolioId: currentPortfolioId,
+          });
+          syncService.flush();
+        }
+
         await get().saveData();
         await get().recordSnapshot();
       },
 
       searchAssets: async (query: string, types?: string[]) => {
-        try {
-          // Try backend search first
-          const results = await APIClient.searchAssets(query, types);
-          return results.assets;
-        } catch (error) {
-          console.warn('Backend search failed, using mock data:', error);
-          
-          // Fallback to mock data
-          const mockResults = [
-            { id: 'aapl', symbol: 'AAPL', name: 'Apple Inc.', type: 'stock', currency: 'USD', exchange: 'NASDAQ' },
-            { id: 'btc', symbol: 'BTC', name: 'Bitcoin', type: 'crypto', currency: 'USD' },
-            { id: 'eth', symbol: 'ETH', name: 'Ethereum', type: 'crypto', currency: 'USD' },
-            { id: 'tsla', symbol: 'TSLA', name: 'Tesla, Inc.', type: 'stock', currency: 'USD', exchange: 'NASDAQ' },
-            { id: 'msft', symbol: 'MSFT', name: 'Microsoft Corporation', type: 'stock', currency: 'USD', exchange: 'NASDAQ' },
-          ].filter(asset => 
-            asset.name.toLowerCase().includes(query.toLowerCase()) ||
-            asset.symbol.toLowerCase().includes(query.toLowerCase())
-          ).map(asset => ({
-            ...asset,
-            currentPrice: Math.random() * 1000 + 10,
-            change24h: (Math.random() - 0.5) * 20,
-            changePercent24h: (Math.random() - 0.5) * 10,
-          }));
+        const results = await getMarketDataProvider().searchAssets({ query, types });
+        return results.assets;
+      },
+
+      // Ledger operations
+      recordTransaction: async (transactionData: NewTransaction) => {
+        const { currentPortfolioId, assets, fxRates } = get();
+        if (!currentPortfolioId) return;
+
+        // Stamp the trade-date rate so later FX moves show up as FX gain
+        const currency = transactionData.currency
+          || assets.find(asset => asset.ticker === transactionData.ticker)?.currency
+          || DEFAULT_CURRENCY;
+        const baseCurrency = get().getBaseCurrency();
+
+        const transaction: Transaction = {
+          currency,
+          baseCurrency,
+          fxRate: getFxRate(currency, baseCurrency, fxRates),
+          ...transactionData,
+          id: generateTransactionId(),
+          portfolioId: currentPortfolioId,
+          createdAt: new Date().toISOString(),
+        };
 
-          return mockResults as Asset[];
+        set((state) => rebuildHoldings(
+          state,
+          [...state.transactions, transaction],
+          currentPortfolioId,
+          [transaction.ticker]
+        ));
+        queueHoldingSync(get(), currentPortfolioId, [transaction.ticker]);
+
+        await get().saveData();
+        await get().recordSnapshot();
+      },
+
+      correctTransaction: async (transactionId: string, changes: Partial<NewTransaction>) => {
+        const original = get().transactions.find(tx => tx.id === transactionId);
+        if (!original) {
+          throw new Error('Transaction not found');
+        }
+
+        // Corrections are appended and supersede the original, which stays on record
+        const correction: Transaction = {
+          ...original,
+          ...changes,
+          id: generateTransactionId(),
+          createdAt: new Date().toISOString(),
+          supersedes: original.id,
+        };
+
+        set((state) => rebuildHoldings(
+          state,
+          [...state.transactions, correction],
+          original.portfolioId,
+          [original.ticker, correction.ticker]
+        ));
+        queueHoldingSync(get(), original.portfolioId, [original.ticker, correction.ticker]);
+
+        await get().saveData();
+        await get().recordSnapshot();
+      },
+
+      voidTransaction: async (transactionId: string, note?: string) => {
+        const original = get().transactions.find(tx => tx.id === transactionId);
+        if (!original) {
+          throw new Error('Transaction not found');
         }
+
+        const voidEntry = createVoidEntry(original, note);
+
+        set((state) => rebuildHoldings(
+          state,
+          [...state.transactions, voidEntry],
+          original.portfolioId,
+          [original.ticker]
+        ));
+        queueHoldingSync(get(), original.portfolioId, [original.ticker]);
+
+        await get().saveData();
+        await get().recordSnapshot();
+      },
+
+      getTransactions: (ticker?: string) => {
+        const { transactions, currentPortfolioId } = get();
+        return transactions.filter(tx =>
+          tx.portfolioId === currentPortfolioId && (!ticker || tx.ticker === ticker)
+        );
+      },
+
+      getPosition: (ticker: string) => {
+        const { fxRates } = get();
+        return derivePosition(
+          get().getTransactions(ticker),
+          get().getCostBasisMethod(),
+          createTradeRateResolver(get().getBaseCurrency(), fxRates)
+        );
       },
 
       // Price operations
@@ -370,72 +724,20 @@ export const usePortfolioStore = create<PortfolioState>()(
         set({ isRefreshing: true, error: null });
 
         try {
-          const { assets } = get();
-          
-          try {
-            // Try to refresh from API
-            const updatedAssets = await Promise.all(
-              assets.map(async (asset) => {
-                try {
-                  const currentPrice = await APIClient.getAssetPrice(asset.id);
-                  const priceChange = currentPrice - asset.currentPrice;
-                  const priceChangePercent = asset.currentPrice > 0 ? (priceChange / asset.currentPrice) * 100 : 0;
-                  
-                  return {
-                    ...asset,
-                    currentPrice,
-                    priceChange,
-                    priceChangePercent,
-                    totalValue: asset.quantity * currentPrice,
-                  };
-                } catch (error) {
-                  console.warn(`Failed to refresh price for ${asset.ticker}:`, error);
-                  return asset;
-                }
-              })
-            );
-
-            set((state) => ({
-              assets: updatedAssets,
-              portfolios: state.portfolios.map(portfolio => 
-                portfolio.id === state.currentPortfolioId
-                  ? { ...portfolio, assets: updatedAssets }
-                  : portfolio
-              ),
-              lastRefresh: new Date(),
-            }));
-          } catch (backendError) {
-            console.warn('Backend price refresh failed, using simulated data:', backendError);
-            
-            // Simulate price updates in offline mode
-            const updatedAssets = assets.map(asset => {
-              const changePercent = (Math.random() - 0.5) * 0.1; // ±5% change
-              const newPrice = asset.currentPrice * (1 + changePercent);
-              const priceChange = newPrice - asset.currentPrice;
-              
-              return {
-                ...asset,
-                currentPrice: newPrice,
-                priceChange,
-                priceChangePercent: changePercent * 100,
-                totalValue: asset.quantity * newPrice,
-              };
-            });
+          const { portfolios, assets, currentPortfolioId } = get();
+          // The active portfolio's live holdings may be ahead of its copy in the list
+          const holdings = portfolios.flatMap(portfolio =>
+            portfolio.id === currentPortfolioId ? assets : portfolio.assets
+          );
 
-            set((state) => ({
-              assets: updatedAssets,
-              portfolios: state.portfolios.map(portfolio => 
-                portfolio.id === state.currentPortfolioId
-                  ? { ...portfolio, assets: updatedAssets }
-                  : portfolio
-              ),
-              lastRefresh: new Date(),
-            }));
-          }
+          const quotes = await quoteService.getQuotes(holdings.map(asset => asset.ticker));
+          set((state) => ({ ...applyQuotes(state, quotes), lastRefresh: new Date() }));
 
+          await get().refreshFxRates();
           await get().saveData();
           await get().recordSnapshot();
         } catch (error) {
+          console.warn('Price refresh failed:', error);
           set({ error: 'Failed to refresh prices' });
         } finally {
           set({ isRefreshing: false });
@@ -448,109 +750,169 @@ export const usePortfolioStore = create<PortfolioState>()(
         if (!asset) return;
 
         try {
-          const currentPrice = await APIClient.getAssetPrice(asset.id);
-          const priceChange = currentPrice - asset.currentPrice;
-          const priceChangePercent = asset.currentPrice > 0 ? (priceChange / asset.currentPrice) * 100 : 0;
-          
-          const updatedAsset = {
-            ...asset,
-            currentPrice,
-            priceChange,
-            priceChangePercent,
-            totalValue: asset.quantity * currentPrice,
-          };
-
-          await get().updateAsset(updatedAsset);
+          const quotes = await quoteService.getQuotes([asset.ticker]);
+          set((state) => applyQuotes(state, quotes));
+          await get().saveData();
         } catch (error) {
           console.warn(`Failed to refresh price for ${asset.ticker}:`, error);
         }
       },
 
+      // Streamed quotes land here in batches; no FX refresh or snapshot, those wait for a full refresh
+      applyLiveQuotes: (quotes: Record<string, MarketData>) => {
+        if (Object.keys(quotes).length === 0) return;
+        set((state) => applyQuotes(state, quotes));
+      },
+
+      refreshFxRates: async () => {
+        const currencies = new Set<string>();
+        get().portfolios.forEach(portfolio => {
+          currencies.add(portfolio.baseCurrency || DEFAULT_CURRENCY);
+          portfolio.assets.forEach(asset => currencies.add(asset.currency || DEFAULT_CURRENCY));
+        });
+
+        const fxRates = await fxService.getRates(Array.from(currencies));
+
+        // Entries without a stamped rate follow today's rate, so re-derive every holding.
+        // The ledger is read here, after the await, so trades made meanwhile aren't lost
+        set((state) => state.portfolios.reduce(
+          (next, portfolio) => ({
+            ...next,
+            ...rebuildHoldings(
+              next,
+              next.transactions,
+              portfolio.id,
+              Array.from(new Set(next.transactions.filter(tx => tx.portfolioId === portfolio.id).map(tx => tx.ticker)))
+            ),
+          }),
+          { ...state, fxRates, fxRatesUpdatedAt: new Date().toISOString() }
+        ));
+      },
+
       // Snapshot operations
       recordSnapshot: async () => {
-        const { assets, snapshots } = get();
-        
-        const totalValue = assets.reduce((sum, asset) => sum + asset.totalValue, 0);
-        const totalCost = assets.reduce((sum, asset) => 
-          sum + (asset.quantity * (asset.averagePrice || asset.currentPrice)), 0
-        );
+        const { assets, snapshots, fxRates, currentPortfolioId } = get();
+        if (!currentPortfolioId) return;
         
-        const dayChange = totalValue - totalCost;
-        const dayChangePercent = totalCost > 0 ? (dayChange / totalCost) * 100 : 0;
+        const pnl = summarizePnL(assets, get().getBaseCurrency(), fxRates);
+        const totalValue = pnl.totalValue;
+        const totalCost = pnl.costBasis;
+        const now = new Date();
+
+        // Day change is measured against the last valuation before today,
+        // net of anything bought or sold since, so trades don't count as gains
+        const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+        const history = get().getPortfolioSnapshots();
+        const reference = [...history].reverse().find(s => new Date(s.timestamp).getTime() < startOfDay)
+          || history[0];
+
+        let dayChange = 0;
+        let dayChangePercent = 0;
+        if (reference && reference.totalValue > 0) {
+          const flows = sumCashFlows(get().getCashFlows(), new Date(reference.timestamp).getTime(), now.getTime());
+          dayChange = totalValue - reference.totalValue - flows;
+          dayChangePercent = (dayChange / reference.totalValue) * 100;
+        }
 
         const newSnapshot: PortfolioSnapshot = {
           id: `snapshot-${Date.now()}`,
+          portfolioId: currentPortfolioId,
           totalValue,
           totalCost,
-          timestamp: new Date(),
+          timestamp: now,
           dayChange,
           dayChangePercent,
         };
 
-        // Keep only the last 365 snapshots
-        const updatedSnapshots = [...snapshots, newSnapshot].slice(-365);
+        // Keep only the last 365 snapshots per portfolio
+        const others = snapshots.filter(s => s.portfolioId && s.portfolioId !== currentPortfolioId);
+        const updatedSnapshots = [...others, ...[...history, newSnapshot].slice(-365)];
 
         set({ snapshots: updatedSnapshots });
         await get().saveData();
       },
 
-      getPerformanceData: (timeframe: '1D' | '1W' | '1M' | '3M' | '6M' | '1Y' | 'ALL') => {
-        const { snapshots } = get();
-        
-        const now = new Date();
-        const timeframeDays = {
-          '1D': 1,
-          '1W': 7,
-          '1M': 30,
-          '3M': 90,
-          '6M': 180,
-          '1Y': 365,
-          'ALL': snapshots.length,
-        };
+      // Snapshots taken before they were scoped to a portfolio count for every portfolio
+      getPortfolioSnapshots: () => {
+        const { snapshots, currentPortfolioId } = get();
+        return snapshots
+          .filter(s => !s.portfolioId || s.portfolioId === currentPortfolioId)
+          .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+      },
+
+      getPerformanceData: (timeframe: PerformanceTimeframe) => {
+        const { intradayCurve, currentPortfolioId } = get();
+        if (timeframe === '1D' && intradayCurve?.portfolioId === currentPortfolioId && intradayCurve.points.length > 1) {
+          return intradayCurve.points;
+        }
 
-        const days = timeframeDays[timeframe];
-        const cutoffDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+        const snapshots = get().getPortfolioSnapshots();
+        const cutoffDate = getTimeframeStart(timeframe, snapshots);
         
         const filteredSnapshots = snapshots.filter(snapshot => 
           new Date(snapshot.timestamp) >= cutoffDate
         );
 
         return filteredSnapshots.map(snapshot => ({
-          timestamp: snapshot.timestamp.toISOString(),
+          timestamp: new Date(snapshot.timestamp).toISOString(),
           value: snapshot.totalValue,
           label: new Date(snapshot.timestamp).toLocaleDateString(),
         }));
       },
 
-      // Configuration
-      setApiConfiguration: async (baseUrl: string, apiKey: string) => {
+      // Holdings without bars are carried at their current price
+      loadIntradayPerformance: async () => {
+        const { assets, currentPortfolioId, fxRates } = get();
+        if (!currentPortfolioId) return;
+
+        const holdings = assets.filter(asset => asset.quantity > 0);
+        const to = new Date();
+        const from = new Date(to.getTime() - 24 * 60 * 60 * 1000);
+
         try {
-          // Test the configuration
-          const isValid = await APIClient.validateToken();
-          
-          if (isValid) {
-            set({
-              apiBaseUrl: baseUrl,
-              apiKey: apiKey,
-              isOfflineMode: false,
-            });
-            await get().saveData();
-            return true;
-          } else {
-            throw new Error('Invalid API configuration');
-          }
+          const candles = await Promise.all(holdings.map(asset =>
+            candleService.getCandles(asset.ticker, '5m', from, to).catch(error => {
+              console.warn(`Failed to load intraday prices for ${asset.ticker}:`, error);
+              return [];
+            })
+          ));
+          const curve = valueCurveFromCandles(
+            holdings.map((asset, i) => ({
+              quantity: asset.quantity,
+              currency: asset.currency || DEFAULT_CURRENCY,
+              price: asset.currentPrice,
+              candles: candles[i],
+            })),
+            get().getBaseCurrency(currentPortfolioId),
+            fxRates
+          );
+
+          set({
+            intradayCurve: {
+              portfolioId: currentPortfolioId,
+              points: curve.map(point => ({
+                ...point,
+                label: new Date(point.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+              })),
+            },
+          });
         } catch (error) {
-          set({ error: 'Failed to validate API configuration' });
-          return false;
+          console.warn('Failed to load intraday performance:', error);
         }
       },
 
-      clearConfiguration: () => {
-        set({
-          apiBaseUrl: null,
-          apiKey: null,
-          isOfflineMode: true,
-        });
+      getCashFlows: () => {
+        const { fxRates } = get();
+        return getCashFlows(
+          get().getTransactions(),
+          createTradeRateResolver(get().getBaseCurrency(), fxRates)
+        );
+      },
+
+      getReturns: (timeframe: PerformanceTimeframe) => {
+        const { assets, fxRates } = get();
+        const currentValue = summarizePnL(assets, get().getBaseCurrency(), fxRates).totalValue;
+        return computeReturns(get().getPortfolioSnapshots(), get().getCashFlows(), timeframe, currentValue);
       },
 
       // Data management
@@ -565,6 +927,22 @@ export const usePortfolioStore = create<PortfolioState>()(
           if (assets.length === 0) {
             set({ assets: sampleAssets });
           }
+
+          // Give holdings that predate the ledger an opening balance entry
+          set((state) => {
+            const { currentPortfolioId, transactions } = state;
+            if (!currentPortfolioId) return {};
+
+            const openings = state.assets
+              .filter(asset => asset.quantity > 0 && !transactions.some(tx =>
+                tx.portfolioId === currentPortfolioId && tx.ticker === asset.ticker
+              ))
+              .map(asset => createOpeningTransaction(asset, currentPortfolioId));
+
+            return openings.length > 0
+              ? { transactions: [...transactions, ...openings] }
+              : {};
+          });
           
           if (snapshots.length === 0) {
             set({ snapshots: generateSampleSnapshots() });
@@ -595,39 +973,282 @@ export const usePortfolioStore = create<PortfolioState>()(
           currentPortfolioId: 'default',
           assets: [],
           snapshots: [],
+          transactions: [],
           lastRefresh: null,
         });
       },
 
-      exportData: async () => {
-        const { portfolios, snapshots } = get();
-        const exportData = {
-          portfolios,
+      // Each portfolio with its ledger and snapshots; the live holdings of the
+      // current portfolio live in `assets`, so they win over the stored copy
+      getBackupPortfolios: () => {
+        const { portfolios, transactions, snapshots, currentPortfolioId, assets } = get();
+        return portfolios.map(portfolio => ({
+          portfolio: portfolio.id === currentPortfolioId ? { ...portfolio, assets } : portfolio,
+          transactions: transactions.filter(tx => tx.portfolioId === portfolio.id),
+          snapshots: snapshots.filter(s => s.portfolioId === portfolio.id),
+        }));
+      },
+
+      restorePortfolios: async (entries: BackupPortfolio[], selections: PortfolioRestoreSelection[]) => {
+        const state = get();
+        let portfolios = state.portfolios.map(portfolio =>
+          portfolio.id === state.currentPortfolioId ? { ...portfolio, assets: state.assets } : portfolio
+        );
+        let transactions = state.transactions;
+        let snapshots = state.snapshots;
+        const touched: string[] = [];
+
+        selections.forEach((selection, index) => {
+          const original = entries.find(entry => entry.portfolio.id === selection.portfolioId);
+          if (!original) return;
+
+          let entry = original;
+          if (selection.mode === 'copy') {
+            const names = portfolios.map(p => p.name.toLowerCase());
+            let name = `${original.portfolio.name} (restored)`;
+            for (let n = 2; names.includes(name.toLowerCase()); n++) {
+              name = `${original.portfolio.name} (restored ${n})`;
+            }
+            entry = copyBackupPortfolio(original, `portfolio-${Date.now()}-${index}`, name);
+          }
+
+          const portfolioId = entry.portfolio.id;
+          const existing = portfolios.find(p => p.id === portfolioId);
+          touched.push(portfolioId);
+
+          if (!existing) {
+            portfolios = [...portfolios, entry.portfolio];
+            transactions = [...transactions, ...entry.transactions];
+            snapshots = [...snapshots, ...entry.snapshots];
+            return;
+          }
+
+          if (selection.mode === 'replace') {
+            portfolios = portfolios.map(p => (p.id === portfolioId ? entry.portfolio : p));
+            transactions = [...transactions.filter(tx => tx.portfolioId !== portfolioId), ...entry.transactions];
+            snapshots = [...snapshots.filter(s => s.portfolioId !== portfolioId), ...entry.snapshots];
+            return;
+          }
+
+          // Merge keeps the existing portfolio's settings and adds what the backup has that it doesn't
+          const current = transactions.filter(tx => tx.portfolioId === portfolioId);
+          const knownTx = new Set(current.map(tx => tx.id));
+          const knownSnapshots = new Set(snapshots.map(s => s.id));
+          // Holdings kept without a ledger only count once they have an opening entry. A holding we
+          // already have keeps its own position, so the backup's copy of it adds nothing on top
+          const openings: Transaction[] = [];
+          const keptAsIs = new Set<string>();
+          existing.assets.forEach(ours => {
+            if (current.some(tx => tx.ticker === ours.ticker)) return;
+            if (!entry.portfolio.assets.some(asset => asset.ticker === ours.ticker)) return;
+            openings.push(createOpeningTransaction(ours, portfolioId));
+            keptAsIs.add(ours.ticker);
+          });
+          const added = entry.transactions.filter(tx => !knownTx.has(tx.id) && !keptAsIs.has(tx.ticker));
+
+          const newHoldings = entry.portfolio.assets.filter(asset =>
+            !existing.assets.some(a => a.ticker === asset.ticker)
+          );
+          portfolios = portfolios.map(p =>
+            p.id === portfolioId ? { ...p, assets: [...p.assets, ...newHoldings] } : p
+          );
+          transactions = [...transactions, ...added, ...openings];
+          snapshots = [...snapshots, ...entry.snapshots.filter(s => !knownSnapshots.has(s.id))];
+        });
+
+        // Re-derive holdings of every restored portfolio from its ledger
+        let rebuilt = { portfolios, transactions };
+        touched.forEach(portfolioId => {
+          const portfolio = rebuilt.portfolios.find(p => p.id === portfolioId);
+          const tickers = Array.from(new Set(
+            rebuilt.transactions.filter(tx => tx.portfolioId === portfolioId).map(tx => tx.ticker)
+          ));
+          if (!portfolio || tickers.length === 0) return;
+
+          const next = rebuildHoldings(
+            { portfolios: rebuilt.portfolios, assets: portfolio.assets, currentPortfolioId: portfolioId, fxRates: state.fxRates },
+            rebuilt.transactions,
+            portfolioId,
+            tickers
+          );
+          rebuilt = { portfolios: next.portfolios, transactions: next.transactions };
+        });
+
+        const currentPortfolioId = rebuilt.portfolios.some(p => p.id === state.currentPortfolioId)
+          ? state.currentPortfolioId
+          : rebuilt.portfolios[0]?.id || null;
+
+        set({
+          portfolios: rebuilt.portfolios,
+          transactions: rebuilt.transactions,
           snapshots,
-          exportDate: new Date().toISOString(),
-          version: '1.0',
-        };
-        return JSON.stringify(exportData, null, 2);
+          currentPortfolioId,
+          assets: rebuilt.portfolios.find(p => p.id === currentPortfolioId)?.assets || [],
+        });
+        await get().saveData();
       },
 
-      importData: async (data: string) => {
-        try {
-          const parsedData = JSON.parse(data);
-          
-          if (parsedData.portfolios && parsedData.snapshots) {
-            set({
-              portfolios: parsedData.portfolios,
-              snapshots: parsedData.snapshots,
-              currentPortfolioId: parsedData.portfolios[0]?.id || 'default',
-              assets: parsedData.portfolios[0]?.assets || [],
+      // Changes here came from the server, so none of them are queued back to it.
+      // The ledger stays authoritative: a new server quantity is reached with an
+      // adjusting trade rather than by overwriting the derived position.
+      applyServerChanges: async (plan: ReconcilePlan) => {
+        set((state) => {
+          const now = new Date().toISOString();
+          let working = state.portfolios.map(p =>
+            p.id === state.currentPortfolioId ? { ...p, assets: state.assets } : p
+          );
+          const transactions = [...state.transactions];
+          const touched = new Map<string, Set<string>>();
+          const touch = (portfolioId: string, ticker: string) => {
+            touched.set(portfolioId, (touched.get(portfolioId) || new Set()).add(ticker));
+          };
+          const updateHoldings = (portfolioId: string, update: (assets: Asset[]) => Asset[]) => {
+            working = working.map(p => p.id === portfolioId ? { ...p, assets: update(p.assets) } : p);
+          };
+          const withDefaults = (asset: Asset): Asset => ({
+            ...asset,
+            totalValue: asset.quantity * asset.currentPrice,
+            priceChange: asset.priceChange || 0,
+            priceChangePercent: asset.priceChangePercent || 0,
+          });
+
+          plan.portfolioChanges.forEach(({ portfolioId, changes }) => {
+            working = working.map(p => p.id === portfolioId ? { ...p, ...changes } : p);
+            // Method and currency feed every position, so re-derive them all
+            if ('costBasisMethod' in changes || 'baseCurrency' in changes) {
+              working.find(p => p.id === portfolioId)?.assets.forEach(asset => touch(portfolioId, asset.ticker));
+            }
+          });
+
+          plan.addedPortfolios.forEach(portfolio => {
+            const assets = (portfolio.assets || []).map(withDefaults);
+            working = [...working, { ...portfolio, assets }];
+            assets
+              .filter(asset => asset.quantity > 0)
+              .forEach(asset => transactions.push(createOpeningTransaction(asset, portfolio.id)));
+          });
+
+          plan.addedHoldings.forEach(({ portfolioId, asset }) => {
+            const holding = withDefaults(asset);
+            updateHoldings(portfolioId, assets => [...assets, holding]);
+            if (holding.quantity > 0) {
+              transactions.push(createOpeningTransaction(holding, portfolioId));
+            }
+          });
+
+          plan.holdingChanges.forEach(({ portfolioId, holdingId, changes }) => {
+            const holding = working.find(p => p.id === portfolioId)?.assets.find(a => a.id === holdingId);
+            if (!holding) return;
+
+            const hasLedger = transactions.some(tx => tx.portfolioId === portfolioId && tx.ticker === holding.ticker);
+            if (!hasLedger) {
+              updateHoldings(portfolioId, assets => assets.map(a => a.id === holdingId ? withDefaults({ ...a, ...changes }) : a));
+              return;
+            }
+
+            const difference = (changes.quantity ?? holding.quantity) - holding.quantity;
+            if (difference === 0) return;
+
+            transactions.push({
+              id: generateTransactionId(),
+              portfolioId,
+              ticker: holding.ticker,
+              type: difference > 0 ? 'buy' : 'sell',
+              quantity: Math.abs(difference),
+              price: difference > 0
+                ? changes.averagePrice ?? holding.averagePrice ?? holding.currentPrice
+                : holding.averagePrice ?? holding.currentPrice,
+              // The server only tells us the new quantity, not that anything was sold
+              ...(difference < 0 ? { adjustment: true } : {}),
+              currency: holding.currency,
+              date: now,
+              createdAt: now,
+              note: 'Synced from server',
             });
-            await get().saveData();
-          } else {
-            throw new Error('Invalid data format');
-          }
-        } catch (error) {
-          throw new Error('Failed to import data: Invalid format');
-        }
+            touch(portfolioId, holding.ticker);
+          });
+
+          plan.removedHoldings.forEach(({ portfolioId, holdingId }) => {
+            const holding = working.find(p => p.id === portfolioId)?.assets.find(a => a.id === holdingId);
+            if (!holding) return;
+
+            getEffectiveTransactions(
+              transactions.filter(tx => tx.portfolioId === portfolioId && tx.ticker === holding.ticker)
+            ).forEach(entry => transactions.push({
+              id: generateTransactionId(),
+              portfolioId,
+              ticker: holding.ticker,
+              type: 'void',
+              quantity: 0,
+              price: 0,
+              date: now,
+              createdAt: now,
+              supersedes: entry.id,
+              note: 'Removed on another device',
+            }));
+            updateHoldings(portfolioId, assets => assets.filter(a => a.id !== holdingId));
+          });
+
+          // Never leave the app without a portfolio
+          const removable = plan.removedPortfolios.slice(0, Math.max(0, working.length - 1));
+          working = working.filter(p => !removable.includes(p.id));
+          const remainingTransactions = transactions.filter(tx => !removable.includes(tx.portfolioId));
+
+          const currentPortfolioId = working.some(p => p.id === state.currentPortfolioId)
+            ? state.currentPortfolioId
+            : working[0]?.id ?? null;
+
+          let next = {
+            portfolios: working,
+            assets: working.find(p => p.id === currentPortfolioId)?.assets || [],
+            transactions: remainingTransactions,
+          };
+          touched.forEach((tickers, portfolioId) => {
+            if (!working.some(p => p.id === portfolioId)) return;
+            next = rebuildHoldings(
+              { ...state, ...next, currentPortfolioId },
+              next.transactions,
+              portfolioId,
+              Array.from(tickers),
+              next.portfolios
+            );
+          });
+
+          return { ...next, currentPortfolioId };
+        });
+
+        await get().saveData();
+      },
+
+      // Swap temporary ids for the ones the server gave out, everywhere they're referenced
+      adoptServerIds: async (portfolioIds: Record<string, string>, holdingIds: Record<string, string>) => {
+        const toPortfolioId = (id: string) => portfolioIds[id] || id;
+        const withHoldingIds = (assets: Asset[]) =>
+          assets.map(asset => (holdingIds[asset.id] ? { ...asset, id: holdingIds[asset.id] } : asset));
+
+        set((state) => ({
+          portfolios: state.portfolios.map(portfolio => ({
+            ...portfolio,
+            id: toPortfolioId(portfolio.id),
+            assets: withHoldingIds(portfolio.assets),
+          })),
+          assets: withHoldingIds(state.assets),
+          currentPortfolioId: state.currentPortfolioId && toPortfolioId(state.currentPortfolioId),
+          transactions: state.transactions.map(tx =>
+            portfolioIds[tx.portfolioId] ? { ...tx, portfolioId: portfolioIds[tx.portfolioId] } : tx
+          ),
+          snapshots: state.snapshots.map(snapshot =>
+            snapshot.portfolioId && portfolioIds[snapshot.portfolioId]
+              ? { ...snapshot, portfolioId: portfolioIds[snapshot.portfolioId] }
+              : snapshot
+          ),
+          intradayCurve: state.intradayCurve && {
+            ...state.intradayCurve,
+            portfolioId: toPortfolioId(state.intradayCurve.portfolioId),
+          },
+        }));
+
+        await get().saveData();
       },
 
       mergeDuplicateAssets: async () => {
@@ -663,8 +1284,20 @@ export const usePortfolioStore = create<PortfolioState>()(
             }
           });
 
-          // Convert map back to array
-          const mergedAssets = Array.from(assetMap.values());
+          // Convert map back to array, deriving from the ledger where the ticker has one
+          const mergedAssets = Array.from(assetMap.values()).map(asset => {
+            const ledger = state.transactions.filter(tx =>
+              tx.portfolioId === state.currentPortfolioId && tx.ticker === asset.ticker
+            );
+            return ledger.length > 0
+              ? applyPosition(
+                  asset,
+                  ledger,
+                  findCostBasisMethod(state.portfolios, state.currentPortfolioId),
+                  createTradeRateResolver(findBaseCurrency(state.portfolios, state.currentPortfolioId), state.fxRates)
+                )
+              : asset;
+          });
 
           const updatedPortfolios = state.portfolios.map(portfolio =>
             portfolio.id === state.currentPortfolioId
@@ -680,6 +1313,115 @@ export const usePortfolioStore = create<PortfolioState>()(
 
         await get().saveData();
       },
+
+      // Broker CSV import
+      saveImportPreset: (preset: CsvImportPreset) => {
+        set((state) => ({
+          importPresets: [
+            ...state.importPresets.filter(p => p.id !== preset.id),
+            { ...preset, builtIn: false },
+          ],
+        }));
+      },
+
+      deleteImportPreset: (presetId: string) => {
+        set((state) => ({
+          importPresets: state.importPresets.filter(p => p.id !== presetId),
+        }));
+      },
+
+      previewCsvImport: (
+        text: string,
+        preset: CsvImportPreset,
+        mapping: CsvColumnMapping,
+        portfolioId: string
+      ) => buildImportPreview(
+        text,
+        preset,
+        mapping,
+        get().transactions.filter(tx => tx.portfolioId === portfolioId)
+      ),
+
+      // Commits the rows a preview accepted; duplicates and rows with errors are skipped
+      commitCsvImport: async (preview: CsvImportPreview, portfolioId: string) => {
+        const accepted = preview.rows
+          .filter(row => row.transaction && !row.duplicateOf)
+          .map(row => row.transaction as NewTransaction);
+        if (accepted.length === 0) return 0;
+
+        const state = get();
+        const portfolio = state.portfolios.find(p => p.id === portfolioId);
+        if (!portfolio) {
+          throw new Error('Portfolio not found');
+        }
+
+        const baseCurrency = findBaseCurrency(state.portfolios, portfolioId);
+        const holdings = portfolioId === state.currentPortfolioId ? state.assets : portfolio.assets;
+        const now = new Date().toISOString();
+
+        // Historical rates aren't available, so imported entries are stamped at today's rate
+        const imported: Transaction[] = accepted.map(tx => {
+          const currency = tx.currency
+            || holdings.find(asset => asset.ticker === tx.ticker)?.currency
+            || DEFAULT_CURRENCY;
+          return {
+            ...tx,
+            currency,
+            baseCurrency,
+            fxRate: getFxRate(currency, baseCurrency, state.fxRates),
+            id: generateTransactionId(),
+            portfolioId,
+            createdAt: now,
+          };
+        });
+
+        // Tickers the portfolio doesn't hold yet get a row priced at their latest trade
+        const newAssets: Asset[] = [];
+        imported.forEach(tx => {
+          if (holdings.some(a => a.ticker === tx.ticker) || newAssets.some(a => a.ticker === tx.ticker)) return;
+          const lastTrade = [...imported]
+            .filter(t => t.ticker === tx.ticker && t.price > 0)
+            .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
+          newAssets.push({
+            id: `asset-${Date.now()}-${newAssets.length}`,
+            name: tx.ticker,
+            ticker: tx.ticker,
+            type: 'stock',
+            quantity: 0,
+            currentPrice: lastTrade?.price || 0,
+            totalValue: 0,
+            priceChange: 0,
+            priceChangePercent: 0,
+            currency: tx.currency,
+          });
+        });
+
+        const tickers = Array.from(new Set(imported.map(tx => tx.ticker)));
+        set((current) => {
+          const portfolios = current.portfolios.map(p =>
+            p.id === portfolioId ? { ...p, assets: [...p.assets, ...newAssets] } : p
+          );
+          const assets = portfolioId === current.currentPortfolioId
+            ? [...current.assets, ...newAssets]
+            : current.assets;
+          return rebuildHoldings(
+            { ...current, portfolios, assets },
+            [...current.transactions, ...imported],
+            portfolioId,
+            tickers,
+            portfolios
+          );
+        });
+
+        newAssets.forEach(asset => queueHoldingCreate(asset, portfolioId));
+        queueHoldingSync(get(), portfolioId, tickers);
+
+        await get().saveData();
+        if (portfolioId === get().currentPortfolioId) {
+          await get().recordSnapshot();
+        }
+        return imported.length;
+      },
     }),
     {
       name: 'portfolio-storage',
@@ -689,8 +1431,10 @@ export const usePortfolioStore = create<PortfolioState>()(
         currentPortfolioId: state.currentPortfolioId,
         assets: state.assets,
         snapshots: state.snapshots,
-        apiBaseUrl: state.apiBaseUrl,
-        apiKey: state.apiKey,
+        transactions: state.transactions,
+        fxRates: state.fxRates,
+        fxRatesUpdatedAt: state.fxRatesUpdatedAt,
+        importPresets: state.importPresets,
         lastRefresh: state.lastRefresh,
       }),
     }
@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { MarketData, PriceStreamStatus } from '../types';
+
+interface QuoteState {
+  // Latest streamed quote per upper-case symbol; live data, so it isn't persisted
+  quotes: Record<string, MarketData>;
+  status: PriceStreamStatus;
+
+  applyQuotes: (quotes: Record<string, MarketData>) => void;
+  setStatus: (status: PriceStreamStatus) => void;
+  clear: () => void;
+}
+
+export const useQuoteStore = create<QuoteState>()((set) => ({
+  quotes: {},
+  status: 'idle',
+
+  // Symbols not in the update keep their quote object, so rows watching them don't re-render
+  applyQuotes: (quotes: Record<string, MarketData>) => {
+    if (Object.keys(quotes).length === 0) return;
+    set((state) => ({ quotes: { ...state.quotes, ...quotes } }));
+  },
+
+  setStatus: (status: PriceStreamStatus) => {
+    set({ status });
+  },
+
+  clear: () => {
+    set({ quotes: {}, status: 'idle' });
+  },
+}));
+
+export const useLiveQuote = (symbol: string | undefined): MarketData | undefined =>
+  useQuoteStore(state => (symbol ? state.quotes[symbol.toUpperCase()] : undefined));
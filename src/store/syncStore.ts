@@ -0,0 +1,272 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SyncBaseRecord, SyncConflict, SyncEntity, SyncMutation, SyncOperation, SyncStatus } from '../types';
+
+export interface NewSyncMutation {
+  entity: SyncEntity;
+  operation: SyncOperation;
+  entityId: string;
+  portfolioId?: string;
+  payload?: Record<string, any>;
+}
+
+interface SyncState {
+  queue: SyncMutation[];
+  // Temporary ids created on this device, keyed to the ids the server assigned
+  idMap: Record<string, string>;
+  // Last known server copy of each portfolio and holding, keyed by syncBaseKey
+  bases: Record<string, SyncBaseRecord>;
+  conflicts: SyncConflict[];
+  inFlightId: string | null;
+  isOnline: boolean;
+  lastSyncedAt: string | null;
+  // Held after sign-in until data made before it is uploaded or kept on the device
+  migrationPending: boolean;
+  // The account everything above belongs to; null until someone signs in
+  ownerId: string | null;
+
+  enqueue: (mutation: NewSyncMutation) => void;
+  startAttempt: (mutationId: string) => void;
+  completeMutation: (mutationId: string, serverId?: string) => void;
+  failMutation: (mutationId: string, error: string, retryAt: number | null) => void;
+  retryFailed: () => void;
+  retryMutations: (entityIds: string[]) => void;
+  discardMutations: (entityId: string) => void;
+  forgetId: (localId: string) => void;
+  recordBases: (bases: Record<string, SyncBaseRecord>) => void;
+  removeBase: (key: string) => void;
+  setConflicts: (conflicts: SyncConflict[]) => void;
+  removeConflict: (conflictId: string) => void;
+  setOnline: (isOnline: boolean) => void;
+  setMigrationPending: (migrationPending: boolean) => void;
+  claimFor: (userId: string) => void;
+  resolveId: (localId: string) => string;
+  getStatus: (entityId: string) => SyncStatus;
+  hasPendingChanges: (entityId: string) => boolean;
+  clearQueue: () => void;
+}
+
+const generateMutationId = () => `mutation-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const useSyncStore = create<SyncState>()(
+  persist(
+    (set, get) => ({
+      queue: [],
+      idMap: {},
+      bases: {},
+      conflicts: [],
+      inFlightId: null,
+      isOnline: true,
+      lastSyncedAt: null,
+      migrationPending: false,
+      ownerId: null,
+
+      // Later changes fold into ones that haven't been sent yet, so the
+      // server only sees the latest state of each item
+      enqueue: (input: NewSyncMutation) => {
+        set((state) => {
+          const payload = input.payload || {};
+          const waiting = (m: SyncMutation) => m.id !== state.inFlightId;
+          const sameItem = (m: SyncMutation) => m.entity === input.entity && m.entityId === input.entityId;
+
+          if (input.operation === 'update') {
+            const target = [...state.queue].reverse().find(m => sameItem(m) && waiting(m) && m.operation !== 'delete');
+            if (target) {
+              return {
+                queue: state.queue.map(m =>
+                  m.id === target.id
+                    ? { ...m, payload: { ...m.payload, ...payload }, attempts: 0, nextAttemptAt: Date.now(), failed: false, lastError: undefined }
+                    : m
+                ),
+              };
+            }
+          }
+
+          let queue = state.queue;
+          if (input.operation === 'delete') {
+            // A create that never reached the server leaves nothing to delete there
+            const unsentCreate = queue.some(m => sameItem(m) && waiting(m) && m.operation === 'create');
+            const belongsToItem = (m: SyncMutation) =>
+              sameItem(m) || (input.entity === 'portfolio' && m.portfolioId === input.entityId);
+
+            queue = queue.filter(m => !(belongsToItem(m) && waiting(m)));
+            if (unsentCreate && !state.idMap[input.entityId]) {
+              return { queue };
+            }
+          }
+
+          const mutation: SyncMutation = {
+            id: generateMutationId(),
+            entity: input.entity,
+            operation: input.operation,
+            entityId: input.entityId,
+            portfolioId: input.portfolioId,
+            payload,
+            attempts: 0,
+            nextAttemptAt: Date.now(),
+            createdAt: new Date().toISOString(),
+          };
+
+          return { queue: [...queue, mutation] };
+        });
+      },
+
+      startAttempt: (mutationId: string) => {
+        set({ inFlightId: mutationId });
+      },
+
+      completeMutation: (mutationId: string, serverId?: string) => {
+        set((state) => {
+          const mutation = state.queue.find(m => m.id === mutationId);
+          const idMap = mutation && serverId && serverId !== mutation.entityId
+            ? { ...state.idMap, [mutation.entityId]: serverId }
+            : state.idMap;
+
+          return {
+            queue: state.queue.filter(m => m.id !== mutationId),
+            idMap,
+            inFlightId: null,
+            lastSyncedAt: new Date().toISOString(),
+          };
+        });
+      },
+
+      // A null retryAt means the mutation gave up and waits for a manual retry
+      failMutation: (mutationId: string, error: string, retryAt: number | null) => {
+        set((state) => ({
+          queue: state.queue.map(m =>
+            m.id === mutationId
+              ? {
+                  ...m,
+                  attempts: m.attempts + 1,
+                  lastError: error,
+                  nextAttemptAt: retryAt ?? m.nextAttemptAt,
+                  failed: retryAt === null,
+                }
+              : m
+          ),
+          inFlightId: null,
+        }));
+      },
+
+      retryFailed: () => {
+        set((state) => ({
+          queue: state.queue.map(m =>
+            m.failed ? { ...m, attempts: 0, nextAttemptAt: Date.now(), failed: false } : m
+          ),
+        }));
+      },
+
+      // Held-back pushes for items whose conflicts were merged or resolved
+      retryMutations: (entityIds: string[]) => {
+        set((state) => ({
+          queue: state.queue.map(m =>
+            m.failed && entityIds.includes(m.entityId)
+              ? { ...m, attempts: 0, nextAttemptAt: Date.now(), failed: false }
+              : m
+          ),
+        }));
+      },
+
+      discardMutations: (entityId: string) => {
+        set((state) => ({
+          queue: state.queue.filter(m => m.entityId !== entityId || m.id === state.inFlightId),
+        }));
+      },
+
+      forgetId: (localId: string) => {
+        set((state) => {
+          const { [localId]: _, ...idMap } = state.idMap;
+          return { idMap };
+        });
+      },
+
+      recordBases: (bases: Record<string, SyncBaseRecord>) => {
+        set((state) => ({ bases: { ...state.bases, ...bases } }));
+      },
+
+      removeBase: (key: string) => {
+        set((state) => {
+          const { [key]: _, ...bases } = state.bases;
+          return { bases };
+        });
+      },
+
+      // Replaces conflicts for the same items; ones not found again are kept until resolved
+      setConflicts: (conflicts: SyncConflict[]) => {
+        set((state) => ({
+          conflicts: [
+            ...state.conflicts.filter(existing => !conflicts.some(c => c.id === existing.id)),
+            ...conflicts,
+          ],
+        }));
+      },
+
+      removeConflict: (conflictId: string) => {
+        set((state) => ({ conflicts: state.conflicts.filter(c => c.id !== conflictId) }));
+      },
+
+      setOnline: (isOnline: boolean) => {
+        set({ isOnline });
+      },
+
+      setMigrationPending: (migrationPending: boolean) => {
+        set({ migrationPending });
+      },
+
+      // Another account signing in starts from nothing, so what was queued or last seen
+      // for the previous one is never sent to or compared with it. A guest's changes are
+      // kept for the account migration to sort out.
+      claimFor: (userId: string) => {
+        set((state) =>
+          state.ownerId === null || state.ownerId === userId
+            ? { ownerId: userId }
+            : { ownerId: userId, queue: [], idMap: {}, bases: {}, conflicts: [], inFlightId: null, lastSyncedAt: null }
+        );
+      },
+
+      resolveId: (localId: string) => {
+        return get().idMap[localId] || localId;
+      },
+
+      getStatus: (entityId: string) => {
+        const { queue, inFlightId, idMap, conflicts } = get();
+        if (conflicts.some(c => c.entityId === entityId || c.serverId === entityId)) return 'conflict';
+
+        // Items reloaded from the server carry the server id, queued changes the local one
+        const related = queue.filter(m => m.entityId === entityId || idMap[m.entityId] === entityId);
+
+        if (related.length === 0) return 'synced';
+        if (related.some(m => m.id === inFlightId)) return 'syncing';
+        if (related.some(m => m.failed)) return 'failed';
+        return 'pending';
+      },
+
+      hasPendingChanges: (entityId: string) => {
+        return get().queue.some(m => m.entityId === entityId);
+      },
+
+      clearQueue: () => {
+        set({ queue: [], inFlightId: null });
+      },
+    }),
+    {
+      name: 'sync-storage',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({
+        queue: state.queue,
+        idMap: state.idMap,
+        bases: state.bases,
+        conflicts: state.conflicts,
+        lastSyncedAt: state.lastSyncedAt,
+        migrationPending: state.migrationPending,
+        ownerId: state.ownerId,
+      }),
+    }
+  )
+);
+
+// Subscribes a row to its own item's status rather than the whole queue
+export const useSyncStatus = (entityId: string): SyncStatus =>
+  useSyncStore(state => state.getStatus(entityId));
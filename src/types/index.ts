@@ -10,7 +10,93 @@ export interface Asset {
   priceChange: number;
   priceChangePercent: number;
   averagePrice?: number;
+  costBasis?: number;
+  realizedPnL?: number;
+  shortTermGain?: number;
+  longTermGain?: number;
+  dividendIncome?: number;
+  costBasisBase?: number;
+  realizedPnLBase?: number;
   exchange?: string;
+  currency?: string;
+  version?: number;
+  updatedAt?: string;
+  // From the latest market quote
+  volume?: number;
+  dayHigh?: number;
+  dayLow?: number;
+  priceUpdatedAt?: string;
+}
+
+// Transaction Ledger Types
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'split' | 'fee' | 'void';
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'average' | 'specific';
+
+export interface LotSelection {
+  lotId: string;
+  quantity: number;
+}
+
+export interface Transaction {
+  id: string;
+  portfolioId: string;
+  ticker: string;
+  type: TransactionType;
+  quantity: number;
+  price: number;
+  amount?: number;
+  fees?: number;
+  splitRatio?: number;
+  date: string;
+  createdAt: string;
+  supersedes?: string;
+  lotSelections?: LotSelection[];
+  // A sell that only corrects the quantity held; the lots it closes realize nothing
+  adjustment?: boolean;
+  currency?: string;
+  baseCurrency?: string;
+  fxRate?: number;
+  note?: string;
+}
+
+export interface Lot {
+  id: string;
+  quantity: number;
+  costPerUnit: number;
+  fxRate: number;
+  acquiredAt: string;
+}
+
+// USD value of one unit of each currency
+export type FxRateTable = Record<string, number>;
+
+export interface RealizedLot {
+  lotId: string;
+  sellId: string;
+  quantity: number;
+  costBasis: number;
+  proceeds: number;
+  gain: number;
+  gainBase: number;
+  acquiredAt: string;
+  disposedAt: string;
+  term: 'short' | 'long';
+}
+
+export interface HoldingPosition {
+  quantity: number;
+  costBasis: number;
+  costBasisBase: number;
+  averagePrice: number;
+  realizedPnL: number;
+  realizedPnLBase: number;
+  shortTermGain: number;
+  longTermGain: number;
+  dividends: number;
+  fees: number;
+  lots: Lot[];
+  realizedLots: RealizedLot[];
 }
 
 // API Types
@@ -34,11 +120,16 @@ export interface Portfolio {
   totalCost: number;
   totalChange: number;
   totalChangePercent: number;
+  costBasisMethod?: CostBasisMethod;
+  baseCurrency?: string;
   assets: Asset[];
+  version?: number;
+  updatedAt?: string;
 }
 
 export interface PortfolioSnapshot {
   id: string;
+  portfolioId?: string;
   totalValue: number;
   totalCost: number;
   timestamp: Date;
@@ -46,12 +137,43 @@ export interface PortfolioSnapshot {
   dayChangePercent: number;
 }
 
+export type PerformanceTimeframe = '1D' | '1W' | '1M' | '3M' | '6M' | '1Y' | 'ALL';
+
+// Money moving in (positive) or out (negative) of a portfolio, in its base currency
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+export interface PerformanceReturns {
+  timeframe: PerformanceTimeframe;
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  netFlows: number;
+  gain: number;
+  twr: number;
+  irr: number | null;
+  irrAnnualized: number | null;
+}
+
 // User Types
+export type AuthProvider = 'apple' | 'google' | 'email';
+
+// One way of signing in to an account; Apple may hand out a private relay address
+export interface LinkedProvider {
+  provider: AuthProvider;
+  email?: string;
+  linkedAt?: string;
+}
+
 export interface User {
   id: string;
   email: string;
   name: string;
   emailVerified?: boolean;
+  providers?: LinkedProvider[];
   createdAt: string;
   updatedAt: string;
 }
@@ -61,9 +183,16 @@ export interface AuthResponse {
   success: boolean;
   user: User;
   token?: string;
+  refreshToken?: string;
   message?: string;
 }
 
+export interface SessionTokens {
+  token: string;
+  // Only present when the server rotates the refresh token
+  refreshToken?: string;
+}
+
 export interface SignInRequest {
   email: string;
   password: string;
@@ -75,6 +204,26 @@ export interface SignUpRequest {
   password: string;
 }
 
+// A provider sign-in whose email already belongs to an account that uses other providers
+export interface ExistingAccount {
+  email: string;
+  providers: AuthProvider[];
+  // Proves the provider sign-in happened, so it can be linked once the account signs in
+  linkToken: string;
+}
+
+// Held after a provider sign-in found an existing account, until that account signs in
+export interface PendingProviderLink extends ExistingAccount {
+  provider: AuthProvider;
+}
+
+// What proves the sign-in being linked: a fresh provider token, a new password, or a link token
+export type ProviderLinkRequest =
+  | { provider: 'apple'; identityToken: string }
+  | { provider: 'google'; idToken: string }
+  | { provider: 'email'; password: string }
+  | { linkToken: string };
+
 // Price Alert Types
 export interface PriceAlert {
   id: string;
@@ -112,13 +261,52 @@ export interface MarketData {
   marketCap?: number;
   high24h?: number;
   low24h?: number;
+  // When the quote was taken; falls back to when it was received
+  timestamp?: string;
+}
+
+// How live prices are arriving: over the stream, by polling while it's down, or not at all
+export type PriceStreamStatus = 'idle' | 'connecting' | 'live' | 'polling';
+
+// The parts of a WebSocket the quote stream uses, so a stand-in server can take its place
+export interface QuoteSocket {
+  onopen: (() => void) | null;
+  onmessage: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
 }
 
 // Search Types
+export type AssetSortField = 'relevance' | 'popularity' | 'symbol' | 'name' | 'change';
+export type SortOrder = 'asc' | 'desc';
+
+// One page of a search; pass the previous page's `nextCursor` to get the next
+export interface AssetSearchQuery {
+  query: string;
+  types?: string[];
+  exchanges?: string[];
+  currencies?: string[];
+  sort?: AssetSortField;
+  order?: SortOrder;
+  cursor?: string;
+  limit?: number;
+}
+
+// What the search screens let people narrow by; one exchange and currency at a time
+export interface AssetSearchFilters {
+  sort: AssetSortField;
+  exchange?: string;
+  currency?: string;
+}
+
 export interface SearchResult {
   assets: APIAsset[];
   totalResults: number;
   hasMore: boolean;
+  // Opaque; only set while hasMore is
+  nextCursor?: string;
 }
 
 // Chart Data Types
@@ -134,6 +322,523 @@ export interface ChartData {
   max: number;
 }
 
+export type CandleInterval = '1m' | '5m' | '1h' | '1d' | '1w';
+
+// One OHLCV bar; `timestamp` is when the bar opens
+export interface Candle {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// Market Data Provider Types
+export type MarketDataProviderId = 'backend' | 'fixture' | 'csv-replay';
+
+// Any combination narrows the articles; none gives general news
+export interface NewsQuery {
+  category?: string;
+  search?: string;
+  symbols?: string[];
+}
+
+// Where prices, search results, history and news come from
+export interface MarketDataProvider {
+  id: MarketDataProviderId;
+  searchAssets(search: AssetSearchQuery, options?: RequestOptions): Promise<SearchResult>;
+  getPopularAssets(options?: RequestOptions): Promise<APIAsset[]>;
+  getQuotes(symbols: string[], options?: RequestOptions): Promise<MarketData[]>;
+  // Bars opening within [from, to), oldest first
+  getCandles(symbol: string, interval: CandleInterval, from: Date, to: Date, options?: RequestOptions): Promise<Candle[]>;
+  getNews(query: NewsQuery, options?: RequestOptions): Promise<NewsArticle[]>;
+}
+
+// One row of a price history file; only the close is required
+export interface PriceBar {
+  date: string;
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  volume?: number;
+}
+
+// Risk Analytics Types
+export interface RiskAssumptions {
+  benchmark: string;
+  riskFreeRate: number;
+  lookbackDays: number;
+  confidenceLevel: number;
+  periodsPerYear: number;
+}
+
+export interface AssetRiskMetrics {
+  ticker: string;
+  volatility: number;
+  beta: number | null;
+}
+
+export interface CorrelationMatrix {
+  tickers: string[];
+  values: number[][];
+}
+
+export interface RiskReport {
+  assumptions: RiskAssumptions;
+  observations: number;
+  volatility: number;
+  sharpeRatio: number | null;
+  sortinoRatio: number | null;
+  beta: number | null;
+  maxDrawdown: number;
+  valueAtRisk: number;
+  valueAtRiskPercent: number;
+  assets: AssetRiskMetrics[];
+  correlation: CorrelationMatrix;
+  missingTickers: string[];
+  generatedAt: string;
+}
+
+export interface BenchmarkComparison {
+  benchmark: string;
+  // Cumulative return in percent at each point of the portfolio curve
+  curve: number[];
+  totalReturn: number;
+  alpha: number | null;
+  beta: number | null;
+  trackingError: number | null;
+  upCapture: number | null;
+  downCapture: number | null;
+  observations: number;
+}
+
+export interface BenchmarkReport {
+  timeframe: PerformanceTimeframe;
+  startDate: string;
+  endDate: string;
+  riskFreeRate: number;
+  // Flow-adjusted cumulative return in percent at each performance snapshot
+  portfolioCurve: ChartDataPoint[];
+  benchmarks: BenchmarkComparison[];
+  missingBenchmarks: string[];
+}
+
+// CSV Import Types
+export type CsvImportField =
+  | 'date'
+  | 'type'
+  | 'ticker'
+  | 'quantity'
+  | 'price'
+  | 'amount'
+  | 'fees'
+  | 'currency'
+  | 'note';
+
+// Maps each field to a column header in the file
+export type CsvColumnMapping = Partial<Record<CsvImportField, string>>;
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY' | 'DD-MM-YYYY';
+
+export interface CsvImportPreset {
+  id: string;
+  name: string;
+  delimiter?: string;
+  mapping: CsvColumnMapping;
+  dateFormat: CsvDateFormat;
+  decimalSeparator: '.' | ',';
+  // Broker activity codes (e.g. "BOT", "Buy", "DIV") keyed in lower case
+  typeAliases: Record<string, TransactionType>;
+  builtIn?: boolean;
+}
+
+export interface CsvImportRow {
+  line: number;
+  raw: string[];
+  transaction?: Omit<Transaction, 'id' | 'createdAt' | 'portfolioId'>;
+  errors: string[];
+  // Id of the existing transaction this row repeats
+  duplicateOf?: string;
+}
+
+export interface CsvImportPreview {
+  headers: string[];
+  rows: CsvImportRow[];
+  validCount: number;
+  errorCount: number;
+  duplicateCount: number;
+}
+
+// Backup Types
+export interface BackupPortfolio {
+  portfolio: Portfolio;
+  transactions: Transaction[];
+  snapshots: PortfolioSnapshot[];
+}
+
+export interface BackupThemeSettings {
+  themeType: string;
+  accentColor: string;
+  enableAnimations: boolean;
+  enableHapticFeedback: boolean;
+  fontSize: 'small' | 'medium' | 'large';
+  isDynamicTypeEnabled: boolean;
+}
+
+export interface BackupSettings {
+  theme?: BackupThemeSettings;
+  language?: string;
+}
+
+export interface PortfolioBackup {
+  version: number;
+  exportedAt: string;
+  portfolios: BackupPortfolio[];
+  alerts: PriceAlert[];
+  settings: BackupSettings;
+  importPresets: CsvImportPreset[];
+}
+
+// replace: overwrite the portfolio with the same id; merge: add missing
+// transactions, snapshots and holdings into it; copy: restore alongside under new ids
+export type PortfolioRestoreMode = 'replace' | 'merge' | 'copy';
+
+export interface PortfolioRestoreSelection {
+  portfolioId: string;
+  mode: PortfolioRestoreMode;
+}
+
+// Sync Types
+export type SyncEntity = 'portfolio' | 'holding' | 'alert';
+
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'failed' | 'conflict';
+
+// One queued change to replay against the backend. entityId is the id the
+// item has on this device, which may be a temporary one until its create syncs.
+export interface SyncMutation {
+  id: string;
+  entity: SyncEntity;
+  operation: SyncOperation;
+  entityId: string;
+  portfolioId?: string;
+  payload: Record<string, any>;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: string;
+  lastError?: string;
+  failed?: boolean;
+}
+
+// The server's copy of a portfolio or holding as of the last reconcile or
+// successful push; the common ancestor for three-way merges
+export interface SyncBaseRecord {
+  version?: number;
+  updatedAt?: string;
+  fields: Record<string, any>;
+}
+
+export interface SyncFieldConflict {
+  field: string;
+  local: any;
+  server: any;
+}
+
+export interface SyncConflict {
+  id: string;
+  entity: 'portfolio' | 'holding';
+  entityId: string;
+  serverId: string;
+  portfolioId?: string;
+  label: string;
+  fields: SyncFieldConflict[];
+  deletedOnServer?: boolean;
+  server: SyncBaseRecord;
+  detectedAt: string;
+}
+
+export type SyncConflictChoice = 'local' | 'server';
+
+// Account Migration Types
+// merge: upload into the account's portfolio with the same name; rename: upload alongside it
+export type MigrationClashResolution = 'merge' | 'rename';
+
+// A portfolio with something the signed-in account doesn't have yet
+export interface MigrationPortfolio {
+  portfolio: Portfolio;
+  // False when the portfolio itself is already on the server and only some holdings aren't
+  isLocalOnly: boolean;
+  holdings: Asset[];
+  // Where the holdings go: the portfolio's own server copy, or the clashing one if merged
+  target?: Portfolio;
+  // An account portfolio with the same name that isn't on this device
+  clash?: Portfolio;
+  // Its own name, or a free one when the account already uses it
+  suggestedName: string;
+}
+
+export interface AccountMigrationPreview {
+  portfolios: MigrationPortfolio[];
+  alerts: PriceAlert[];
+}
+
+export interface MigrationPortfolioChoice {
+  portfolioId: string;
+  include: boolean;
+  resolution: MigrationClashResolution;
+  // Used when renaming
+  name: string;
+}
+
+export interface AccountMigrationResult {
+  portfolios: number;
+  holdings: number;
+  alerts: number;
+}
+
+// Backend Types
+export type BackendProfileId = 'local' | 'staging' | 'prod' | 'self-hosted';
+
+export interface BackendProfile {
+  id: BackendProfileId;
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  // Staging and prod come from the build; the others can be pointed anywhere
+  editable: boolean;
+}
+
+export interface BackendHealth {
+  ok: boolean;
+  version?: string;
+  latencyMs: number;
+  checkedAt: string;
+  error?: string;
+}
+
+// App Lock Types
+export type BiometricType = 'face' | 'fingerprint' | 'iris';
+
+export interface PinCheckResult {
+  ok: boolean;
+  // Wrong PINs allowed before entry is blocked for a while
+  attemptsLeft: number;
+  // Set while entry is blocked
+  lockedUntil?: number;
+}
+
+// Backend DTO Types
+// Wire shapes as the backend sends and expects them. Only src/utils/apiSchema.ts
+// should touch these; the rest of the app works with the mapped models above.
+export interface LinkedProviderDTO {
+  provider: AuthProvider;
+  email?: string;
+  linked_at?: string;
+}
+
+export interface UserDTO {
+  id: string | number;
+  email: string;
+  name: string;
+  email_verified?: boolean;
+  providers?: LinkedProviderDTO[];
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface AuthResponseDTO {
+  success: boolean;
+  user: UserDTO;
+  token?: string;
+  refresh_token?: string;
+  api_key?: { key: string };
+  message?: string;
+}
+
+export interface RefreshResponseDTO {
+  token?: string;
+  access_token?: string;
+  refresh_token?: string;
+}
+
+export interface HoldingDTO {
+  id: string | number;
+  asset_id?: string;
+  symbol: string;
+  name?: string;
+  type?: Asset['type'];
+  quantity: number;
+  average_price: number;
+  current_price?: number;
+  price_change?: number;
+  price_change_percent?: number;
+  exchange?: string;
+  currency?: string;
+  version?: number;
+  updated_at?: string;
+}
+
+export interface PortfolioDTO {
+  id: string | number;
+  name: string;
+  total_value?: number;
+  total_cost?: number;
+  total_change?: number;
+  total_change_percent?: number;
+  cost_basis_method?: CostBasisMethod;
+  base_currency?: string;
+  holdings?: HoldingDTO[];
+  version?: number;
+  updated_at?: string;
+}
+
+export interface AssetDTO {
+  id: string | number;
+  symbol: string;
+  name: string;
+  type: string;
+  exchange?: string;
+  currency: string;
+  current_price?: number;
+  change_24h?: number;
+  change_percent_24h?: number;
+}
+
+export interface SearchResultDTO {
+  assets: AssetDTO[];
+  total_results?: number;
+  has_more?: boolean;
+  next_cursor?: string;
+}
+
+export interface PricePointDTO {
+  timestamp: string;
+  price: number;
+}
+
+export interface CandleDTO {
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+}
+
+export interface AlertDTO {
+  id: string | number;
+  asset_symbol: string;
+  asset_name?: string;
+  alert_type: PriceAlert['alertType'];
+  target_price: number;
+  current_price?: number;
+  is_active?: boolean;
+  is_triggered?: boolean;
+  created_at?: string;
+  triggered_at?: string;
+}
+
+export interface NewsArticleDTO {
+  id: string | number;
+  title: string;
+  summary?: string;
+  content?: string;
+  image_url?: string;
+  source?: string;
+  url?: string;
+  published_at: string;
+  related_symbols?: string[];
+}
+
+export interface MarketDataDTO {
+  symbol: string;
+  price: number;
+  change?: number;
+  change_percent?: number;
+  volume?: number;
+  market_cap?: number;
+  high_24h?: number;
+  low_24h?: number;
+  timestamp?: string;
+}
+
+export interface HealthDTO {
+  version?: string;
+}
+
+export interface AlertRequestDTO {
+  asset_symbol?: string;
+  asset_name?: string;
+  alert_type?: PriceAlert['alertType'];
+  target_price?: number;
+  current_price?: number;
+  is_active?: boolean;
+}
+
+export interface PortfolioUpdateRequestDTO {
+  name?: string;
+  base_currency?: string;
+  cost_basis_method?: CostBasisMethod;
+  version?: number;
+}
+
+export interface HoldingRequestDTO {
+  asset_id?: string;
+  quantity: number;
+  average_price: number;
+  version?: number;
+}
+
+export interface AccountExistsDTO {
+  email: string;
+  providers: AuthProvider[];
+  link_token: string;
+}
+
+export interface ProviderLinkRequestDTO {
+  provider?: AuthProvider;
+  identity_token?: string;
+  id_token?: string;
+  password?: string;
+  link_token?: string;
+}
+
+// HTTP Types
+export interface RetryPolicy {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RequestOptions {
+  // Aborting rejects with a cancellation error; see isRequestCanceled
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy>;
+  // 'no-cache' asks the server even when a stored response is still fresh, e.g. on pull to refresh
+  cache?: 'default' | 'no-cache';
+}
+
+// HTTP Cache Types
+export interface HttpCachePolicy {
+  // Served without asking the server while younger than this
+  maxAgeMs: number;
+  // After that, served straight away while the server is asked again in the background
+  staleWhileRevalidateMs: number;
+  // Served when the server can't be reached, up to this age
+  staleIfErrorMs: number;
+}
+
+export interface HttpCacheEntry {
+  data: any;
+  etag?: string;
+  lastModified?: string;
+  // When the server last sent or confirmed this response
+  storedAt: number;
+}
+
 // App State Types
 export interface AppState {
   user: User | null;
@@ -176,6 +881,18 @@ export type RootStackParamList = {
   AdvancedAnalytics: undefined;
   News: undefined;
   NewsArticleDetail: { articleId: string };
+  CsvImport: undefined;
+  RestoreBackup: undefined;
+  SyncConflicts: undefined;
+  MarketDataSource: undefined;
+  Lock: undefined;
+  SetPin: undefined;
+  ForgotPassword: { email?: string } | undefined;
+  ResetCode: { email: string };
+  NewPassword: { token: string };
+  VerifyEmail: { token: string };
+  AccountMigration: undefined;
+  Account: undefined;
 };
 
 export type MainTabParamList = {
@@ -0,0 +1,188 @@
+import { Asset, Portfolio, PriceAlert, SyncBaseRecord, SyncMutation } from '../../types';
+import {
+  buildMigrationPreview,
+  combineHoldings,
+  findLocalOnlyData,
+  hasLocalOnlyData,
+  LocalDataInput,
+  suggestPortfolioName,
+} from '../accountMigration';
+import { syncBaseKey } from '../reconcile';
+
+const holding = (id: string, ticker: string): Asset => ({
+  id,
+  name: ticker,
+  ticker,
+  type: 'stock',
+  quantity: 1,
+  averagePrice: 100,
+  currentPrice: 100,
+  totalValue: 100,
+  priceChange: 0,
+  priceChangePercent: 0,
+});
+
+const portfolio = (id: string, name: string, assets: Asset[] = []): Portfolio => ({
+  id,
+  name,
+  totalValue: 0,
+  totalCost: 0,
+  totalChange: 0,
+  totalChangePercent: 0,
+  assets,
+});
+
+const alert = (id: string): PriceAlert => ({
+  id,
+  assetSymbol: 'AAPL',
+  assetName: 'Apple',
+  alertType: 'above',
+  targetPrice: 200,
+  currentPrice: 150,
+  isActive: true,
+  isTriggered: false,
+  createdAt: '2024-01-01T00:00:00.000Z',
+});
+
+const createMutation = (entity: SyncMutation['entity'], entityId: string): SyncMutation => ({
+  id: `mutation-${entityId}`,
+  entity,
+  operation: 'create',
+  entityId,
+  payload: {},
+  attempts: 0,
+  nextAttemptAt: 0,
+  createdAt: '2024-01-01T00:00:00.000Z',
+});
+
+const known = (...keys: string[]): Record<string, SyncBaseRecord> =>
+  Object.fromEntries(keys.map(key => [key, { fields: {} }]));
+
+const input = (overrides: Partial<LocalDataInput>): LocalDataInput => ({
+  portfolios: [],
+  alerts: [],
+  queue: [],
+  bases: {},
+  resolveId: id => id,
+  ...overrides,
+});
+
+describe('findLocalOnlyData', () => {
+  it('picks out portfolios and holdings the server has never seen', () => {
+    const synced = portfolio('server-1', 'Main', [holding('server-h1', 'AAPL'), holding('local-h2', 'MSFT')]);
+    const fresh = portfolio('local-2', 'Fresh', [holding('local-h3', 'TSLA')]);
+    const data = findLocalOnlyData(input({
+      portfolios: [synced, fresh],
+      bases: known(syncBaseKey('portfolio', 'server-1'), syncBaseKey('holding', 'server-h1')),
+    }));
+
+    expect(data.portfolios).toEqual([
+      { portfolio: synced, isLocalOnly: false, holdings: [synced.assets[1]] },
+      { portfolio: fresh, isLocalOnly: true, holdings: fresh.assets },
+    ]);
+    expect(data.syncedPortfolioIds).toEqual(['server-1']);
+    expect(hasLocalOnlyData(data)).toBe(true);
+  });
+
+  it('knows items by the server id they were given', () => {
+    const data = findLocalOnlyData(input({
+      portfolios: [portfolio('local-1', 'Main')],
+      bases: known(syncBaseKey('portfolio', 'server-1')),
+      resolveId: id => (id === 'local-1' ? 'server-1' : id),
+    }));
+    expect(data.portfolios).toEqual([]);
+    expect(data.syncedPortfolioIds).toEqual(['server-1']);
+    expect(hasLocalOnlyData(data)).toBe(false);
+  });
+
+  it('counts alerts as local while their create is still queued', () => {
+    const data = findLocalOnlyData(input({
+      alerts: [alert('alert-local'), alert('alert-synced')],
+      queue: [createMutation('alert', 'alert-local')],
+    }));
+    expect(data.alerts.map(a => a.id)).toEqual(['alert-local']);
+  });
+});
+
+describe('suggestPortfolioName', () => {
+  it('numbers the name until it is free, ignoring case and spacing', () => {
+    expect(suggestPortfolioName('Main', ['Savings'])).toBe('Main');
+    expect(suggestPortfolioName('Main', [' main ', 'Main (2)'])).toBe('Main (3)');
+  });
+});
+
+describe('buildMigrationPreview', () => {
+  it('uploads synced portfolios into their own copy', () => {
+    const local = portfolio('server-1', 'Main', [holding('local-h1', 'AAPL')]);
+    const server = portfolio('server-1', 'Main');
+    const preview = buildMigrationPreview(
+      { portfolios: [{ portfolio: local, isLocalOnly: false, holdings: local.assets }], alerts: [], syncedPortfolioIds: ['server-1'] },
+      [server],
+      id => id
+    );
+
+    expect(preview.portfolios).toEqual([{
+      portfolio: local,
+      isLocalOnly: false,
+      holdings: local.assets,
+      target: server,
+      clash: undefined,
+      suggestedName: 'Main',
+    }]);
+  });
+
+  it('skips synced portfolios the account has since deleted', () => {
+    const local = portfolio('server-1', 'Main');
+    const preview = buildMigrationPreview(
+      { portfolios: [{ portfolio: local, isLocalOnly: false, holdings: [] }], alerts: [], syncedPortfolioIds: ['server-1'] },
+      [],
+      id => id
+    );
+    expect(preview.portfolios).toEqual([]);
+  });
+
+  it('flags one clash per account portfolio and suggests free names', () => {
+    const first = portfolio('local-1', 'Main');
+    const second = portfolio('local-2', 'main');
+    const account = portfolio('server-9', 'Main');
+    const preview = buildMigrationPreview(
+      {
+        portfolios: [
+          { portfolio: first, isLocalOnly: true, holdings: [] },
+          { portfolio: second, isLocalOnly: true, holdings: [] },
+        ],
+        alerts: [],
+        syncedPortfolioIds: [],
+      },
+      [account],
+      id => id
+    );
+
+    expect(preview.portfolios.map(entry => [entry.clash?.id, entry.suggestedName])).toEqual([
+      ['server-9', 'Main (2)'],
+      [undefined, 'main (3)'],
+    ]);
+  });
+
+  it('does not clash with account portfolios already on this device', () => {
+    const fresh = portfolio('local-1', 'Main');
+    const preview = buildMigrationPreview(
+      { portfolios: [{ portfolio: fresh, isLocalOnly: true, holdings: [] }], alerts: [], syncedPortfolioIds: ['server-9'] },
+      [portfolio('server-9', 'Main')],
+      id => id
+    );
+    expect(preview.portfolios[0].clash).toBeUndefined();
+  });
+});
+
+describe('combineHoldings', () => {
+  it('weights the average price by quantity', () => {
+    expect(combineHoldings({ quantity: 10, averagePrice: 100 }, { quantity: 30, averagePrice: 200 }))
+      .toEqual({ quantity: 40, averagePrice: 175 });
+  });
+
+  it('keeps the first price when there is nothing held', () => {
+    expect(combineHoldings({ quantity: 0, averagePrice: 100 }, { quantity: 0, averagePrice: 200 }))
+      .toEqual({ quantity: 0, averagePrice: 100 });
+  });
+});
@@ -0,0 +1,236 @@
+import {
+  ApiResponseError,
+  isApiResponseError,
+  parseAlerts,
+  parseAuthResponse,
+  parseCandles,
+  parseExistingAccount,
+  parseMarketData,
+  parsePortfolio,
+  parsePortfolios,
+  parsePriceHistory,
+  parseRefreshResponse,
+  parseSearchResult,
+  toHoldingRequest,
+  toPortfolioUpdateRequest,
+  toProviderLinkRequest,
+} from '../apiSchema';
+
+const holdingDTO = {
+  id: 42,
+  symbol: 'AAPL',
+  quantity: 10,
+  average_price: 100,
+  current_price: 150,
+  version: 3,
+};
+
+const portfolioDTO = {
+  id: 7,
+  name: 'Main',
+  cost_basis_method: 'hifo',
+  base_currency: 'EUR',
+  holdings: [holdingDTO],
+  version: 5,
+  updated_at: '2024-01-01T00:00:00.000Z',
+};
+
+// Runs a parser and hands back what it threw
+const issuesOf = (parse: () => unknown): string[] => {
+  try {
+    parse();
+  } catch (error) {
+    if (isApiResponseError(error)) return error.issues;
+    throw error;
+  }
+  throw new Error('Expected the response to be rejected');
+};
+
+describe('ApiResponseError', () => {
+  it('names the endpoint and the first few problems', () => {
+    const error = new ApiResponseError('/api/v1/things', ['a', 'b', 'c', 'd']);
+    expect(error).toBeInstanceOf(Error);
+    expect(isApiResponseError(error)).toBe(true);
+    expect(error.message).toBe('Unexpected response from /api/v1/things: a; b; c');
+    expect(error.issues).toHaveLength(4);
+  });
+
+  it('is not confused with other errors', () => {
+    expect(isApiResponseError(new Error('network'))).toBe(false);
+  });
+});
+
+describe('parsePortfolio', () => {
+  it('maps the wire format and fills in derived totals', () => {
+    const portfolio = parsePortfolio('/portfolio', { portfolio: portfolioDTO });
+
+    expect(portfolio).toMatchObject({
+      id: '7',
+      name: 'Main',
+      costBasisMethod: 'hifo',
+      baseCurrency: 'EUR',
+      totalValue: 1500,
+      totalCost: 1000,
+      totalChange: 500,
+      totalChangePercent: 50,
+      version: 5,
+    });
+    expect(portfolio.assets[0]).toMatchObject({
+      id: '42',
+      ticker: 'AAPL',
+      name: 'AAPL',
+      type: 'stock',
+      quantity: 10,
+      averagePrice: 100,
+      currentPrice: 150,
+      totalValue: 1500,
+      version: 3,
+    });
+  });
+
+  it('prices holdings at cost when the server sends no current price', () => {
+    const portfolio = parsePortfolio('/portfolio', {
+      portfolio: { ...portfolioDTO, holdings: [{ ...holdingDTO, current_price: undefined }] },
+    });
+    expect(portfolio.assets[0].currentPrice).toBe(100);
+  });
+
+  it('reports every field that is wrong, with its path', () => {
+    const issues = issuesOf(() => parsePortfolios('/portfolios', {
+      portfolios: [{ ...portfolioDTO, name: '', cost_basis_method: 'random', holdings: [{ ...holdingDTO, quantity: '10' }] }],
+    }));
+
+    expect(issues).toEqual([
+      'portfolios[0].name must be a non-empty string',
+      'portfolios[0].cost_basis_method must be one of fifo, lifo, hifo, average, specific',
+      'portfolios[0].holdings[0].quantity must be a number',
+    ]);
+  });
+
+  it('rejects a body without the expected envelope', () => {
+    expect(issuesOf(() => parsePortfolio('/portfolio', {}))).toEqual(['portfolio must be an object']);
+    expect(issuesOf(() => parsePortfolios('/portfolios', null))).toEqual(['portfolios must be a list']);
+  });
+});
+
+describe('parseAuthResponse', () => {
+  it('maps the user and falls back to the API key for the token', () => {
+    const auth = parseAuthResponse('/auth', {
+      user: { id: 1, email: 'sam@example.com', providers: [{ provider: 'google' }] },
+      api_key: { key: 'key-1' },
+    });
+
+    expect(auth.success).toBe(true);
+    expect(auth.token).toBe('key-1');
+    expect(auth.user).toMatchObject({ id: '1', name: 'sam', providers: [{ provider: 'google' }] });
+  });
+
+  it('passes on the refresh token with the session', () => {
+    const auth = parseAuthResponse('/auth', {
+      user: { id: 1, email: 'sam@example.com' },
+      token: 'access-1',
+      refresh_token: 'refresh-1',
+    });
+    expect(auth).toMatchObject({ token: 'access-1', refreshToken: 'refresh-1' });
+  });
+
+  it('rejects unknown providers', () => {
+    const issues = issuesOf(() => parseAuthResponse('/auth', {
+      user: { id: 1, email: 'sam@example.com', providers: [{ provider: 'myspace' }] },
+    }));
+    expect(issues).toEqual(['response.user.providers[0].provider must be one of apple, google, email']);
+  });
+});
+
+describe('parseRefreshResponse', () => {
+  it('reads the new access token under either name, with a rotated refresh token', () => {
+    expect(parseRefreshResponse('/auth/refresh', { token: 'a', refresh_token: 'r' })).toEqual({ token: 'a', refreshToken: 'r' });
+    expect(parseRefreshResponse('/auth/refresh', { access_token: 'b' })).toEqual({ token: 'b', refreshToken: undefined });
+  });
+
+  it('rejects a response without an access token', () => {
+    expect(issuesOf(() => parseRefreshResponse('/auth/refresh', { refresh_token: 'r' })))
+      .toEqual(['response.token must be a non-empty string']);
+    expect(issuesOf(() => parseRefreshResponse('/auth/refresh', { token: 5 }))).toEqual(['response.token must be a string']);
+  });
+});
+
+describe('parseExistingAccount', () => {
+  it('reads which providers an existing account signs in with', () => {
+    expect(parseExistingAccount('/auth/google', {
+      email: 'sam@example.com',
+      providers: ['email'],
+      link_token: 'link-1',
+    })).toEqual({ email: 'sam@example.com', providers: ['email'], linkToken: 'link-1' });
+  });
+
+  it('needs at least one provider', () => {
+    expect(issuesOf(() => parseExistingAccount('/auth/google', {
+      email: 'sam@example.com',
+      providers: [],
+      link_token: 'link-1',
+    }))).toEqual(['response.providers must be a list of apple, google, email']);
+  });
+});
+
+describe('other responses', () => {
+  it('only passes on a cursor when there are more results', () => {
+    const asset = { id: 1, symbol: 'AAPL', name: 'Apple', type: 'stock', currency: 'USD' };
+    expect(parseSearchResult('/search', { assets: [asset], has_more: false, next_cursor: 'c' }))
+      .toMatchObject({ totalResults: 1, hasMore: false, nextCursor: undefined });
+    expect(parseSearchResult('/search', { assets: [asset], has_more: true, next_cursor: 'c' }).nextCursor).toBe('c');
+  });
+
+  it('puts candles in time order and defaults the volume', () => {
+    const candles = parseCandles('/candles', {
+      candles: [
+        { timestamp: '2024-01-02T00:00:00.000Z', open: 2, high: 3, low: 1, close: 2 },
+        { timestamp: '2024-01-01T00:00:00.000Z', open: 1, high: 2, low: 1, close: 2, volume: 100 },
+      ],
+    });
+    expect(candles.map(c => [c.timestamp.slice(0, 10), c.volume])).toEqual([['2024-01-01', 100], ['2024-01-02', 0]]);
+  });
+
+  it('works out the range of a price history', () => {
+    const history = parsePriceHistory('/history', {
+      prices: [
+        { timestamp: '2024-01-01T00:00:00.000Z', price: 5 },
+        { timestamp: '2024-01-02T00:00:00.000Z', price: 9 },
+      ],
+    });
+    expect(history).toMatchObject({ min: 5, max: 9 });
+    expect(parsePriceHistory('/history', { prices: [] })).toMatchObject({ data: [], min: 0, max: 0 });
+  });
+
+  it('fills in alert and quote defaults', () => {
+    expect(parseAlerts('/alerts', {
+      alerts: [{ id: 1, asset_symbol: 'AAPL', alert_type: 'above', target_price: 200 }],
+    })[0]).toMatchObject({ id: '1', assetName: 'AAPL', currentPrice: 0, isActive: true, isTriggered: false });
+    expect(parseMarketData('/quotes', { data: [{ symbol: 'AAPL', price: 150 }] })[0])
+      .toMatchObject({ change: 0, changePercent: 0, volume: 0 });
+  });
+});
+
+describe('requests', () => {
+  it('sends portfolio and holding changes in the wire format', () => {
+    expect(toPortfolioUpdateRequest({ baseCurrency: 'EUR', costBasisMethod: 'lifo' }, 4)).toEqual({
+      name: undefined,
+      base_currency: 'EUR',
+      cost_basis_method: 'lifo',
+      version: 4,
+    });
+    expect(toHoldingRequest(10, 100, 'asset-1', 2)).toEqual({
+      asset_id: 'asset-1',
+      quantity: 10,
+      average_price: 100,
+      version: 2,
+    });
+  });
+
+  it('sends each provider its own kind of credential', () => {
+    expect(toProviderLinkRequest({ provider: 'apple', identityToken: 'a' })).toEqual({ provider: 'apple', identity_token: 'a' });
+    expect(toProviderLinkRequest({ provider: 'google', idToken: 'g' })).toEqual({ provider: 'google', id_token: 'g' });
+    expect(toProviderLinkRequest({ provider: 'email', password: 'p' })).toEqual({ provider: 'email', password: 'p' });
+    expect(toProviderLinkRequest({ linkToken: 'l' })).toEqual({ link_token: 'l' });
+  });
+});
@@ -0,0 +1,66 @@
+import { APIAsset } from '../../types';
+import { buildSearchQuery, searchCatalog } from '../assetSearch';
+
+const asset = (symbol: string, name: string, extra: Partial<APIAsset> = {}): APIAsset => ({
+  id: symbol,
+  symbol,
+  name,
+  type: 'stock',
+  currency: 'USD',
+  exchange: 'NASDAQ',
+  ...extra,
+});
+
+const CATALOG = [
+  asset('AAPL', 'Apple Inc.', { changePercent24h: 1 }),
+  asset('PAA', 'Plains All American', { exchange: 'NYSE', changePercent24h: -2 }),
+  asset('APP', 'AppLovin', { changePercent24h: 5 }),
+  asset('SAP', 'SAP SE', { exchange: 'XETRA', currency: 'EUR' }),
+  asset('ETH', 'Ethereum', { type: 'crypto', exchange: undefined }),
+];
+
+const symbols = (query: Parameters<typeof searchCatalog>[1]) => searchCatalog(CATALOG, query).assets.map(a => a.symbol);
+
+describe('searchCatalog', () => {
+  it('ranks an exact symbol, then symbol prefixes, then anything containing the text', () => {
+    expect(symbols({ query: 'app' })).toEqual(['APP', 'AAPL']);
+    expect(symbols({ query: 'ap' })).toEqual(['APP', 'AAPL', 'SAP']);
+  });
+
+  it('filters by type, exchange and currency, ignoring case', () => {
+    expect(symbols({ query: '', types: ['crypto'] })).toEqual(['ETH']);
+    expect(symbols({ query: '', exchanges: ['nyse'] })).toEqual(['PAA']);
+    expect(symbols({ query: '', currencies: ['EUR'] })).toEqual(['SAP']);
+    // Without an exchange there is nothing to match
+    expect(symbols({ query: 'eth', exchanges: ['NASDAQ'] })).toEqual([]);
+  });
+
+  it('sorts by name, symbol or biggest move', () => {
+    expect(symbols({ query: '', sort: 'symbol', order: 'desc' })).toEqual(['SAP', 'PAA', 'ETH', 'APP', 'AAPL']);
+    expect(symbols({ query: '', sort: 'name' })).toEqual(['AAPL', 'APP', 'ETH', 'PAA', 'SAP']);
+    expect(symbols(buildSearchQuery('', { sort: 'change' })).slice(0, 2)).toEqual(['APP', 'AAPL']);
+  });
+
+  it('pages with the offset of the next page as the cursor', () => {
+    const first = searchCatalog(CATALOG, { query: '', sort: 'popularity', limit: 2 });
+    expect(first).toMatchObject({ totalResults: 5, hasMore: true, nextCursor: '2' });
+    expect(first.assets.map(a => a.symbol)).toEqual(['AAPL', 'PAA']);
+
+    const last = searchCatalog(CATALOG, { query: '', sort: 'popularity', limit: 2, cursor: '4' });
+    expect(last.assets.map(a => a.symbol)).toEqual(['ETH']);
+    expect(last).toMatchObject({ hasMore: false, nextCursor: undefined });
+  });
+});
+
+describe('buildSearchQuery', () => {
+  it('turns the chosen filters into lists and sorts movers biggest first', () => {
+    expect(buildSearchQuery('btc', { sort: 'change', exchange: 'NYSE' }, ['crypto'])).toEqual({
+      query: 'btc',
+      types: ['crypto'],
+      exchanges: ['NYSE'],
+      currencies: undefined,
+      sort: 'change',
+      order: 'desc',
+    });
+  });
+});
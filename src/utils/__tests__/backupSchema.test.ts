@@ -0,0 +1,175 @@
+import { Asset, BackupPortfolio, Transaction } from '../../types';
+import { createOpeningTransaction, getOpeningTransactionIds } from '../ledger';
+import {
+  copyBackupPortfolio,
+  CURRENT_BACKUP_VERSION,
+  getBackupVersion,
+  migrateBackup,
+  parseBackup,
+  validateBackup,
+} from '../backupSchema';
+
+const asset: Asset = {
+  id: 'asset-1',
+  ticker: 'AAPL',
+  name: 'Apple',
+  type: 'stock',
+  quantity: 10,
+  averagePrice: 100,
+  currentPrice: 150,
+  totalValue: 1500,
+  priceChange: 0,
+  priceChangePercent: 0,
+};
+
+const portfolio = {
+  id: 'portfolio-1',
+  name: 'Main',
+  assets: [asset],
+};
+
+const transaction = (overrides: Partial<Transaction> = {}): Transaction => ({
+  id: 'tx-1',
+  portfolioId: 'portfolio-1',
+  ticker: 'AAPL',
+  type: 'buy',
+  quantity: 10,
+  price: 100,
+  date: '2024-01-01T12:00:00.000Z',
+  createdAt: '2024-01-01T12:00:00.000Z',
+  ...overrides,
+});
+
+const snapshot = {
+  id: 'snapshot-1',
+  portfolioId: 'portfolio-1',
+  totalValue: 1500,
+  totalCost: 1000,
+  timestamp: '2024-01-02T00:00:00.000Z',
+  dayChange: 0,
+  dayChangePercent: 0,
+};
+
+const backup = (overrides: Record<string, any> = {}) => ({
+  version: CURRENT_BACKUP_VERSION,
+  exportedAt: '2024-01-03T00:00:00.000Z',
+  portfolios: [{ portfolio, transactions: [transaction()], snapshots: [snapshot] }],
+  alerts: [],
+  settings: {},
+  importPresets: [],
+  ...overrides,
+});
+
+describe('getBackupVersion', () => {
+  it('reads numeric and legacy string versions', () => {
+    expect(getBackupVersion({ version: 2 })).toBe(2);
+    expect(getBackupVersion({ version: '1.0' })).toBe(1);
+    expect(getBackupVersion({})).toBe(1);
+  });
+});
+
+describe('migrateBackup', () => {
+  it('groups a version 1 dump by portfolio', () => {
+    const second = { id: 'portfolio-2', name: 'Other', assets: [] };
+    const { data, migratedFrom } = migrateBackup({
+      version: '1.0',
+      exportDate: '2023-06-01T00:00:00.000Z',
+      portfolios: [portfolio, second],
+      transactions: [transaction(), transaction({ id: 'tx-2', portfolioId: 'portfolio-2' })],
+      // Written before snapshots were scoped, so it belongs to the first portfolio
+      snapshots: [{ ...snapshot, portfolioId: undefined }],
+    });
+
+    expect(migratedFrom).toBe(1);
+    expect(data.version).toBe(CURRENT_BACKUP_VERSION);
+    expect(data.exportedAt).toBe('2023-06-01T00:00:00.000Z');
+    expect(data.portfolios[0].transactions.map((tx: Transaction) => tx.id)).toEqual(['tx-1']);
+    expect(data.portfolios[0].snapshots[0].portfolioId).toBe('portfolio-1');
+    expect(data.portfolios[1].transactions.map((tx: Transaction) => tx.id)).toEqual(['tx-2']);
+    expect(data.portfolios[1].snapshots).toEqual([]);
+    expect(validateBackup(data)).toEqual([]);
+  });
+
+  it('leaves a current backup alone', () => {
+    const current = backup();
+    expect(migrateBackup(current)).toEqual({ data: current, migratedFrom: null });
+  });
+});
+
+describe('validateBackup', () => {
+  it('accepts a well-formed backup', () => {
+    expect(validateBackup(backup())).toEqual([]);
+  });
+
+  it('lists every problem at once', () => {
+    const errors = validateBackup(backup({
+      portfolios: [
+        { portfolio, transactions: [transaction({ type: 'transfer' as any, price: NaN })], snapshots: [] },
+        { portfolio: { ...portfolio, assets: [{ ...asset, quantity: '10' }] }, transactions: [], snapshots: [] },
+      ],
+      alerts: [{ assetSymbol: 'AAPL', alertType: 'sideways', targetPrice: 100 }],
+      importPresets: undefined,
+    }));
+
+    expect(errors).toEqual([
+      'Portfolio Main, transaction 1: unknown type "transfer"',
+      'Portfolio Main, transaction 1: price must be a number',
+      'Portfolio Main, asset 1: quantity must be a number',
+      'Portfolio ids must be unique',
+      'Alert 1: unknown type "sideways"',
+      'Import presets must be a list',
+    ]);
+  });
+});
+
+describe('parseBackup', () => {
+  it('migrates and validates in one go', () => {
+    const result = parseBackup(JSON.stringify({
+      version: '1.0',
+      portfolios: [portfolio],
+      transactions: [transaction()],
+      snapshots: [],
+    }));
+
+    expect(result.errors).toEqual([]);
+    expect(result.migratedFrom).toBe(1);
+    expect(result.backup?.portfolios[0].portfolio.id).toBe('portfolio-1');
+  });
+
+  it('turns down files that are not JSON or come from a newer app', () => {
+    expect(parseBackup('not json').errors).toEqual(['File is not valid JSON']);
+    expect(parseBackup(JSON.stringify(backup({ version: CURRENT_BACKUP_VERSION + 1 }))).errors[0])
+      .toMatch(/newer than this app supports/);
+  });
+
+  it('returns no backup when validation fails', () => {
+    const result = parseBackup(JSON.stringify(backup({ alerts: null })));
+    expect(result.backup).toBeNull();
+    expect(result.errors).toEqual(['Alerts must be a list']);
+  });
+});
+
+describe('copyBackupPortfolio', () => {
+  it('gives everything new ids and keeps corrections pointing at their originals', () => {
+    const opening = createOpeningTransaction(asset, 'portfolio-1');
+    const original = transaction({ id: 'tx-2' });
+    const correction = transaction({ id: 'tx-3', quantity: 12, supersedes: 'tx-2' });
+    const entry: BackupPortfolio = {
+      portfolio: portfolio as any,
+      transactions: [opening, original, correction],
+      snapshots: [snapshot as any],
+    };
+
+    const copy = copyBackupPortfolio(entry, 'portfolio-copy', 'Main (copy)');
+    const [copiedOpening, copiedOriginal, copiedCorrection] = copy.transactions;
+
+    expect(copy.portfolio).toMatchObject({ id: 'portfolio-copy', name: 'Main (copy)' });
+    expect(copy.portfolio.assets[0].id).not.toBe(asset.id);
+    expect(copy.snapshots[0]).toMatchObject({ portfolioId: 'portfolio-copy' });
+    expect(copy.snapshots[0].id).not.toBe(snapshot.id);
+    copy.transactions.forEach(tx => expect(tx.portfolioId).toBe('portfolio-copy'));
+    expect(copiedOriginal.id).not.toBe('tx-2');
+    expect(copiedCorrection.supersedes).toBe(copiedOriginal.id);
+    expect(getOpeningTransactionIds(copy.transactions)).toEqual(new Set([copiedOpening.id]));
+  });
+});
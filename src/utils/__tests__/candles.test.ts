@@ -0,0 +1,117 @@
+import { Candle } from '../../types';
+import {
+  aggregateCandles,
+  alignToInterval,
+  candlesToChartData,
+  mergeCandles,
+  mergeRanges,
+  missingRanges,
+  valueCurveFromCandles,
+} from '../candles';
+
+const time = (iso: string) => Date.parse(iso);
+
+const candle = (timestamp: string, close: number, overrides: Partial<Candle> = {}): Candle => ({
+  timestamp,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 10,
+  ...overrides,
+});
+
+describe('alignToInterval', () => {
+  it('snaps to the start of the bar in UTC', () => {
+    expect(alignToInterval(time('2024-03-06T10:47:31.000Z'), '5m')).toBe(time('2024-03-06T10:45:00.000Z'));
+    expect(alignToInterval(time('2024-03-06T10:47:31.000Z'), '1h')).toBe(time('2024-03-06T10:00:00.000Z'));
+    expect(alignToInterval(time('2024-03-06T10:47:31.000Z'), '1d')).toBe(time('2024-03-06T00:00:00.000Z'));
+  });
+
+  it('opens weekly bars on Mondays', () => {
+    // A Wednesday and the Monday before it
+    expect(alignToInterval(time('2024-03-06T10:00:00.000Z'), '1w')).toBe(time('2024-03-04T00:00:00.000Z'));
+    expect(alignToInterval(time('2024-03-04T00:00:00.000Z'), '1w')).toBe(time('2024-03-04T00:00:00.000Z'));
+  });
+});
+
+describe('mergeRanges and missingRanges', () => {
+  it('joins touching and overlapping ranges and drops empty ones', () => {
+    expect(mergeRanges([[10, 20], [0, 5], [5, 8], [15, 30], [40, 40]])).toEqual([[0, 8], [10, 30]]);
+  });
+
+  it('finds the gaps a request still has to fetch', () => {
+    expect(missingRanges([[10, 20], [30, 40]], 0, 50)).toEqual([[0, 10], [20, 30], [40, 50]]);
+    expect(missingRanges([[0, 100]], 10, 50)).toEqual([]);
+    expect(missingRanges([], 10, 50)).toEqual([[10, 50]]);
+  });
+});
+
+describe('mergeCandles', () => {
+  it('keeps bars in time order with newer copies winning', () => {
+    const merged = mergeCandles(
+      [candle('2024-01-02T00:00:00.000Z', 2), candle('2024-01-01T00:00:00.000Z', 1)],
+      [candle('2024-01-02T00:00:00Z', 2.5), candle('2024-01-03T00:00:00.000Z', 3)]
+    );
+    expect(merged.map(c => c.close)).toEqual([1, 2.5, 3]);
+  });
+});
+
+describe('aggregateCandles', () => {
+  it('rolls hourly bars into a daily one', () => {
+    const daily = aggregateCandles([
+      candle('2024-01-01T14:00:00.000Z', 101, { open: 100, high: 103, low: 99 }),
+      candle('2024-01-01T15:00:00.000Z', 104, { open: 101, high: 105, low: 100 }),
+      candle('2024-01-02T14:00:00.000Z', 106, { open: 104, high: 107, low: 98 }),
+    ], '1d');
+
+    expect(daily).toEqual([
+      { timestamp: '2024-01-01T00:00:00.000Z', open: 100, high: 105, low: 99, close: 104, volume: 20 },
+      { timestamp: '2024-01-02T00:00:00.000Z', open: 104, high: 107, low: 98, close: 106, volume: 10 },
+    ]);
+  });
+
+  it('leaves the source bars untouched', () => {
+    const source = [candle('2024-01-01T14:00:00.000Z', 1), candle('2024-01-01T15:00:00.000Z', 2, { high: 5 })];
+    aggregateCandles(source, '1d');
+    expect(source[0].high).toBe(1);
+  });
+});
+
+describe('candlesToChartData', () => {
+  it('plots closes and their range', () => {
+    const chart = candlesToChartData([candle('2024-01-01T00:00:00.000Z', 4), candle('2024-01-02T00:00:00.000Z', 7)]);
+    expect(chart.data.map(point => point.value)).toEqual([4, 7]);
+    expect(chart).toMatchObject({ min: 4, max: 7 });
+  });
+});
+
+describe('valueCurveFromCandles', () => {
+  const rates = { USD: 1, EUR: 1.1 };
+
+  it('carries each holding at its latest close, converted to the base currency', () => {
+    const curve = valueCurveFromCandles([
+      {
+        quantity: 2,
+        currency: 'USD',
+        price: 9,
+        candles: [candle('2024-01-01T00:00:00.000Z', 10), candle('2024-01-03T00:00:00.000Z', 12)],
+      },
+      {
+        quantity: 1,
+        currency: 'EUR',
+        price: 50,
+        candles: [candle('2024-01-02T00:00:00.000Z', 100)],
+      },
+    ], 'USD', rates);
+
+    expect(curve.map(point => point.timestamp.slice(0, 10))).toEqual(['2024-01-01', '2024-01-02', '2024-01-03']);
+    expect(curve[0].value).toBeCloseTo(2 * 10 + 50 * 1.1);
+    expect(curve[1].value).toBeCloseTo(2 * 10 + 100 * 1.1);
+    expect(curve[2].value).toBeCloseTo(2 * 12 + 100 * 1.1);
+  });
+
+  it('has no points without any bars', () => {
+    expect(valueCurveFromCandles([{ quantity: 1, currency: 'USD', price: 5, candles: [] }], 'USD', rates)).toEqual([]);
+  });
+});
@@ -0,0 +1,187 @@
+import { CsvImportPreset, Transaction } from '../../types';
+import {
+  BROKER_PRESETS,
+  buildImportPreview,
+  detectDelimiter,
+  guessMapping,
+  parseDelimited,
+  parseLocaleDate,
+  parseLocaleNumber,
+} from '../csvImport';
+
+const preset = (id: string): CsvImportPreset => BROKER_PRESETS.find(p => p.id === id) as CsvImportPreset;
+
+const existingTx = (overrides: Partial<Transaction>): Transaction => ({
+  id: 'tx-existing',
+  portfolioId: 'portfolio-1',
+  ticker: 'AAPL',
+  type: 'buy',
+  quantity: 10,
+  price: 150,
+  date: '2024-03-01T12:00:00.000Z',
+  createdAt: '2024-03-01T12:00:00.000Z',
+  ...overrides,
+});
+
+const preview = (text: string, presetId: string, existing: Transaction[] = []) => {
+  const chosen = preset(presetId);
+  const headers = parseDelimited(text, chosen.delimiter || detectDelimiter(text))[0];
+  return buildImportPreview(text, chosen, guessMapping(headers, chosen.mapping), existing);
+};
+
+describe('parseDelimited', () => {
+  it('keeps delimiters, newlines and escaped quotes inside quoted fields', () => {
+    const text = 'Symbol,Note\r\nAAPL,"split, 4:1"\nMSFT,"said ""hi""\nthen left"\n\n';
+    expect(parseDelimited(text, ',')).toEqual([
+      ['Symbol', 'Note'],
+      ['AAPL', 'split, 4:1'],
+      ['MSFT', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('picks the delimiter from the header line', () => {
+    expect(detectDelimiter('Date;Symbol;Price\n1,5;2;3')).toBe(';');
+    expect(detectDelimiter('Date\tSymbol\tPrice')).toBe('\t');
+    expect(detectDelimiter('Date,Symbol')).toBe(',');
+  });
+});
+
+describe('parseLocaleNumber', () => {
+  it('reads US and European formats', () => {
+    expect(parseLocaleNumber('$1,234.50', '.')).toBe(1234.5);
+    expect(parseLocaleNumber('1.234,50 €', ',')).toBe(1234.5);
+  });
+
+  it('reads minus signs and accounting negatives', () => {
+    expect(parseLocaleNumber('-12.5', '.')).toBe(-12.5);
+    expect(parseLocaleNumber('(12.50)', '.')).toBe(-12.5);
+  });
+
+  it('returns null for blanks and text', () => {
+    expect(parseLocaleNumber('', '.')).toBeNull();
+    expect(parseLocaleNumber('n/a', '.')).toBeNull();
+  });
+});
+
+describe('parseLocaleDate', () => {
+  it('reads each day/month order', () => {
+    expect(parseLocaleDate('2024-03-01', 'YYYY-MM-DD')).toBe('2024-03-01T12:00:00.000Z');
+    expect(parseLocaleDate('03/01/2024', 'MM/DD/YYYY')).toBe('2024-03-01T12:00:00.000Z');
+    expect(parseLocaleDate('01.03.2024', 'DD.MM.YYYY')).toBe('2024-03-01T12:00:00.000Z');
+  });
+
+  it('ignores a trailing time and widens two-digit years', () => {
+    expect(parseLocaleDate('2024-03-01, 10:31:22', 'YYYY-MM-DD')).toBe('2024-03-01T12:00:00.000Z');
+    expect(parseLocaleDate('03/01/24', 'MM/DD/YYYY')).toBe('2024-03-01T12:00:00.000Z');
+  });
+
+  it('rejects dates that do not exist in the format', () => {
+    expect(parseLocaleDate('13/01/2024', 'MM/DD/YYYY')).toBeNull();
+    expect(parseLocaleDate('yesterday', 'YYYY-MM-DD')).toBeNull();
+  });
+});
+
+describe('guessMapping', () => {
+  it('prefers the preset columns and matches the rest by header name', () => {
+    const mapping = guessMapping(['Trade Date', 'Ticker', 'Qty', 'Unit Price'], { ticker: 'Ticker' });
+    expect(mapping).toEqual({ date: 'Trade Date', ticker: 'Ticker', quantity: 'Qty', price: 'Unit Price' });
+  });
+});
+
+describe('buildImportPreview', () => {
+  it('reads IBKR sells from negative quantities', () => {
+    const result = preview(
+      'Date/Time,Symbol,Quantity,T. Price,Comm/Fee,Currency\n'
+      + '"2024-03-01, 10:31:22",AAPL,10,150,-1,USD\n'
+      + '"2024-03-05, 14:00:00",AAPL,-4,160,-1,USD\n',
+      'ibkr'
+    );
+
+    expect(result.rows.map(row => row.transaction)).toEqual([
+      { ticker: 'AAPL', type: 'buy', quantity: 10, price: 150, date: '2024-03-01T12:00:00.000Z', fees: 1, currency: 'USD' },
+      { ticker: 'AAPL', type: 'sell', quantity: 4, price: 160, date: '2024-03-05T12:00:00.000Z', fees: 1, currency: 'USD' },
+    ]);
+    expect(result.validCount).toBe(2);
+  });
+
+  it('maps Robinhood codes and works prices out from amounts', () => {
+    const result = preview(
+      'Activity Date,Instrument,Description,Trans Code,Quantity,Price,Amount\n'
+      + '03/01/2024,AAPL,Apple,Buy,10,,"($1,500.00)"\n'
+      + '03/15/2024,AAPL,Cash Div,CDIV,,,$2.40\n'
+      + '03/20/2024,AAPL,Split,SPLOSS,10,,\n',
+      'robinhood'
+    );
+
+    expect(result.rows[0].transaction).toMatchObject({ type: 'buy', quantity: 10, price: 150 });
+    expect(result.rows[1].transaction).toMatchObject({ type: 'dividend', amount: 2.4 });
+    // The shares a split removes aren't its ratio, so those rows aren't guessed at
+    expect(result.rows[2].transaction).toBeUndefined();
+    expect(result.rows[2].errors).toEqual(['Unknown transaction type "SPLOSS"']);
+  });
+
+  it('matches Fidelity actions by prefix', () => {
+    const result = preview(
+      'Run Date,Action,Symbol,Security Description,Quantity,Price ($),Commission ($),Amount ($)\n'
+      + '03/01/2024,YOU BOUGHT APPLE INC (AAPL) (Cash),AAPL,APPLE INC,5,170,,-850\n',
+      'fidelity'
+    );
+    expect(result.rows[0].transaction).toMatchObject({ type: 'buy', quantity: 5, price: 170 });
+  });
+
+  it('reports what is wrong with each bad row, numbered as in the file', () => {
+    const result = preview(
+      'Date,Type,Symbol,Quantity,Price\n'
+      + '2024-03-01,buy,AAPL,10,150\n'
+      + '2024-02-30,buy,,10,\n'
+      + '2024-03-02,transfer,AAPL,1,1\n',
+      'generic'
+    );
+
+    expect(result.errorCount).toBe(2);
+    expect(result.rows[1]).toMatchObject({
+      line: 3,
+      errors: ['Missing symbol', 'Date "2024-02-30" doesn\'t match YYYY-MM-DD', 'Missing price'],
+    });
+    expect(result.rows[2].errors).toEqual(['Unknown transaction type "transfer"']);
+  });
+
+  it('asks for required columns before reading any row', () => {
+    const result = buildImportPreview('Date,Symbol\n2024-03-01,AAPL\n', preset('generic'), { date: 'Date' }, []);
+    expect(result.rows[0].errors).toEqual(['Map a column for Symbol, Quantity']);
+    expect(result.validCount).toBe(0);
+  });
+
+  it('marks rows already in the ledger, once per existing transaction', () => {
+    const result = preview(
+      'Date,Type,Symbol,Quantity,Price\n'
+      + '2024-03-01,buy,AAPL,10,150\n'
+      + '2024-03-01,buy,AAPL,10,150\n'
+      + '2024-03-01,buy,AAPL,10,150\n',
+      'generic',
+      [existingTx({})]
+    );
+
+    expect(result.rows.map(row => row.duplicateOf)).toEqual(['tx-existing', undefined, undefined]);
+    expect(result.duplicateCount).toBe(1);
+    expect(result.validCount).toBe(2);
+  });
+
+  it('keeps identical trades within the file', () => {
+    const result = preview(
+      'Date,Type,Symbol,Quantity,Price\n'
+      + '2024-03-01,buy,AAPL,10,150\n'
+      + '2024-03-01,buy,AAPL,10,150\n',
+      'generic'
+    );
+    expect(result.duplicateCount).toBe(0);
+    expect(result.validCount).toBe(2);
+  });
+
+  it('does not match voided transactions', () => {
+    const voided = existingTx({});
+    const voiding = existingTx({ id: 'tx-void', type: 'void', quantity: 0, price: 0, supersedes: voided.id });
+    const result = preview('Date,Type,Symbol,Quantity,Price\n2024-03-01,buy,AAPL,10,150\n', 'generic', [voided, voiding]);
+    expect(result.duplicateCount).toBe(0);
+  });
+});
@@ -0,0 +1,37 @@
+import { convertAmount, formatMoney, getFxRate } from '../currency';
+
+const rates = { USD: 1, EUR: 1.1, GBP: 1.25 };
+
+describe('getFxRate', () => {
+  it('crosses any pair through USD', () => {
+    expect(getFxRate('EUR', 'USD', rates)).toBeCloseTo(1.1);
+    expect(getFxRate('USD', 'GBP', rates)).toBeCloseTo(0.8);
+    expect(getFxRate('GBP', 'EUR', rates)).toBeCloseTo(1.25 / 1.1);
+  });
+
+  it('falls back to the built-in table for currencies the rates leave out', () => {
+    expect(getFxRate('JPY', 'USD', rates)).toBeCloseTo(0.0067);
+  });
+
+  it('leaves amounts alone in an unknown currency rather than zeroing them', () => {
+    expect(getFxRate('XYZ', 'USD', rates)).toBe(1);
+    expect(getFxRate('EUR', 'EUR', {})).toBe(1);
+  });
+});
+
+describe('convertAmount', () => {
+  it('converts at the cross rate', () => {
+    expect(convertAmount(100, 'GBP', 'EUR', rates)).toBeCloseTo(113.64, 2);
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats in the given currency', () => {
+    expect(formatMoney(1234.5, 'EUR')).toBe('€1,234.50');
+    expect(formatMoney(1234.5)).toBe('$1,234.50');
+  });
+
+  it('falls back to a plain number for codes that are not ISO currencies', () => {
+    expect(formatMoney(12.345, 'USDT')).toBe('12.35 USDT');
+  });
+});
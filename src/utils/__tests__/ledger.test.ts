@@ -0,0 +1,197 @@
+import { Transaction } from '../../types';
+import { derivePosition, getEffectiveTransactions } from '../ledger';
+
+let sequence = 0;
+
+const tx = (overrides: Partial<Transaction>): Transaction => {
+  sequence += 1;
+  return {
+    id: `tx-${sequence}`,
+    portfolioId: 'portfolio-1',
+    ticker: 'AAPL',
+    type: 'buy',
+    quantity: 0,
+    price: 0,
+    date: '2024-01-01T12:00:00.000Z',
+    createdAt: `2024-01-01T12:00:${String(sequence).padStart(2, '0')}.000Z`,
+    ...overrides,
+  };
+};
+
+// Three buys at rising, falling and middling prices, then a sale of 15
+const ladder = () => {
+  const first = tx({ quantity: 10, price: 100, date: '2024-01-01T12:00:00.000Z' });
+  const second = tx({ quantity: 10, price: 150, date: '2024-02-01T12:00:00.000Z' });
+  const third = tx({ quantity: 10, price: 120, date: '2024-03-01T12:00:00.000Z' });
+  const sale = tx({ type: 'sell', quantity: 15, price: 200, date: '2024-04-01T12:00:00.000Z' });
+  return { first, second, third, sale, all: [first, second, third, sale] };
+};
+
+describe('derivePosition', () => {
+  it('closes the oldest lots first under FIFO', () => {
+    const { first, second, all } = ladder();
+    const position = derivePosition(all, 'fifo');
+
+    expect(position.quantity).toBe(15);
+    expect(position.realizedPnL).toBeCloseTo(15 * 200 - (10 * 100 + 5 * 150));
+    expect(position.realizedLots.map(lot => [lot.lotId, lot.quantity])).toEqual([
+      [first.id, 10],
+      [second.id, 5],
+    ]);
+    expect(position.costBasis).toBeCloseTo(5 * 150 + 10 * 120);
+  });
+
+  it('closes the newest lots first under LIFO', () => {
+    const { second, third, all } = ladder();
+    const position = derivePosition(all, 'lifo');
+
+    expect(position.realizedPnL).toBeCloseTo(15 * 200 - (10 * 120 + 5 * 150));
+    expect(position.realizedLots.map(lot => [lot.lotId, lot.quantity])).toEqual([
+      [second.id, 5],
+      [third.id, 10],
+    ]);
+  });
+
+  it('closes the most expensive lots first under HIFO', () => {
+    const { all } = ladder();
+    const position = derivePosition(all, 'hifo');
+
+    expect(position.realizedPnL).toBeCloseTo(15 * 200 - (10 * 150 + 5 * 120));
+    expect(position.costBasis).toBeCloseTo(10 * 100 + 5 * 120);
+  });
+
+  it('takes the same share of every lot under average cost', () => {
+    const { all } = ladder();
+    const position = derivePosition(all, 'average');
+
+    expect(position.realizedPnL).toBeCloseTo(15 * 200 - 15 * ((1000 + 1500 + 1200) / 30));
+    expect(position.averagePrice).toBeCloseTo(3700 / 30);
+    position.lots.forEach(lot => expect(lot.quantity).toBeCloseTo(5));
+  });
+
+  it('closes the selected lots and falls back to FIFO for the rest', () => {
+    const { first, second, third } = ladder();
+    const sale = tx({
+      type: 'sell',
+      quantity: 15,
+      price: 200,
+      date: '2024-04-01T12:00:00.000Z',
+      lotSelections: [{ lotId: third.id, quantity: 10 }],
+    });
+    const position = derivePosition([first, second, third, sale], 'specific');
+
+    expect(position.realizedLots.map(lot => [lot.lotId, lot.quantity])).toEqual([
+      [first.id, 5],
+      [third.id, 10],
+    ]);
+    expect(position.realizedPnL).toBeCloseTo(15 * 200 - (5 * 100 + 10 * 120));
+  });
+
+  it('ignores lot selections unless the method is specific lots', () => {
+    const { first, second, third } = ladder();
+    const sale = tx({
+      type: 'sell',
+      quantity: 10,
+      price: 200,
+      date: '2024-04-01T12:00:00.000Z',
+      lotSelections: [{ lotId: third.id, quantity: 10 }],
+    });
+    const position = derivePosition([first, second, third, sale], 'fifo');
+
+    expect(position.realizedLots.map(lot => lot.lotId)).toEqual([first.id]);
+  });
+
+  it('never sells more than is held', () => {
+    const buy = tx({ quantity: 5, price: 10 });
+    const sale = tx({ type: 'sell', quantity: 8, price: 12, date: '2024-02-01T12:00:00.000Z' });
+    const position = derivePosition([buy, sale]);
+
+    expect(position.quantity).toBe(0);
+    expect(position.realizedPnL).toBeCloseTo(5 * 2);
+  });
+
+  it('scales lots by the split ratio without changing their cost', () => {
+    const buy = tx({ quantity: 10, price: 300 });
+    const split = tx({ type: 'split', splitRatio: 3, date: '2024-02-01T12:00:00.000Z' });
+    const position = derivePosition([buy, split]);
+
+    expect(position.quantity).toBe(30);
+    expect(position.averagePrice).toBeCloseTo(100);
+    expect(position.costBasis).toBeCloseTo(3000);
+  });
+
+  it('adds buy fees to the cost basis and takes sale fees off the proceeds', () => {
+    const buy = tx({ quantity: 10, price: 100, fees: 10 });
+    const sale = tx({ type: 'sell', quantity: 10, price: 110, fees: 5, date: '2024-02-01T12:00:00.000Z' });
+    const position = derivePosition([buy, sale]);
+
+    expect(position.realizedLots[0].costBasis).toBeCloseTo(1010);
+    expect(position.realizedLots[0].proceeds).toBeCloseTo(1095);
+    expect(position.realizedPnL).toBeCloseTo(85);
+    expect(position.fees).toBe(15);
+  });
+
+  it('counts standalone fees as a realized loss and dividends as income', () => {
+    const buy = tx({ quantity: 10, price: 100 });
+    const fee = tx({ type: 'fee', amount: 4 });
+    const dividend = tx({ type: 'dividend', amount: 12 });
+    const position = derivePosition([buy, fee, dividend]);
+
+    expect(position.realizedPnL).toBe(-4);
+    expect(position.fees).toBe(4);
+    expect(position.dividends).toBe(12);
+  });
+
+  it('splits gains into short and long term by how long each lot was held', () => {
+    const old = tx({ quantity: 1, price: 100, date: '2022-01-01T12:00:00.000Z' });
+    const recent = tx({ quantity: 1, price: 100, date: '2024-01-01T12:00:00.000Z' });
+    const sale = tx({ type: 'sell', quantity: 2, price: 150, date: '2024-02-01T12:00:00.000Z' });
+    const position = derivePosition([old, recent, sale]);
+
+    expect(position.longTermGain).toBeCloseTo(50);
+    expect(position.shortTermGain).toBeCloseTo(50);
+  });
+});
+
+describe('getEffectiveTransactions', () => {
+  it('drops voided and superseded entries', () => {
+    const buy = tx({ quantity: 10, price: 100 });
+    const mistake = tx({ quantity: 5, price: 90 });
+    const correction = tx({ quantity: 6, price: 90, supersedes: mistake.id });
+    const voided = tx({ quantity: 2, price: 80 });
+    const voiding = tx({ type: 'void', supersedes: voided.id });
+
+    const effective = getEffectiveTransactions([buy, mistake, correction, voided, voiding]);
+    expect(effective.map(entry => entry.id)).toEqual([buy.id, correction.id]);
+  });
+
+  it('orders by trade date, then by when each entry was made', () => {
+    const later = tx({ date: '2024-03-01T12:00:00.000Z' });
+    const sameDayFirst = tx({ date: '2024-02-01T12:00:00.000Z' });
+    const sameDaySecond = tx({ date: '2024-02-01T12:00:00.000Z' });
+
+    const effective = getEffectiveTransactions([later, sameDaySecond, sameDayFirst]);
+    expect(effective.map(entry => entry.id)).toEqual([sameDayFirst.id, sameDaySecond.id, later.id]);
+  });
+
+  it('replays a corrected ledger as if the mistake never happened', () => {
+    const buy = tx({ quantity: 10, price: 100 });
+    const correction = tx({ quantity: 12, price: 100, supersedes: buy.id });
+
+    expect(derivePosition([buy, correction]).quantity).toBe(12);
+  });
+});
+
+describe('quantity adjustments', () => {
+  it('closes lots at cost without realizing anything', () => {
+    const cheap = tx({ quantity: 10, price: 100 });
+    const dear = tx({ quantity: 10, price: 200, date: '2024-02-01T12:00:00.000Z' });
+    const adjustment = tx({ type: 'sell', quantity: 5, price: 150, adjustment: true, date: '2024-03-01T12:00:00.000Z' });
+    const position = derivePosition([cheap, dear, adjustment], 'fifo');
+
+    expect(position.quantity).toBe(15);
+    expect(position.costBasis).toBeCloseTo(5 * 100 + 10 * 200);
+    expect(position.realizedPnL).toBe(0);
+    expect(position.realizedLots).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import { batchProcess, ConcurrencyLimiter } from '../performanceOptimizations';
+
+// A task that stays in flight until the test finishes it
+const deferred = () => {
+  let finish: (value: string) => void = () => undefined;
+  const task = jest.fn(() => new Promise<string>(resolve => { finish = resolve; }));
+  return { task, finish: (value: string) => finish(value) };
+};
+
+describe('ConcurrencyLimiter', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('holds tasks past the limit until one finishes', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 2 });
+    const tasks = [deferred(), deferred(), deferred()];
+    const results = tasks.map(({ task }) => limiter.run(task));
+
+    expect(tasks.map(({ task }) => task.mock.calls.length)).toEqual([1, 1, 0]);
+    expect(limiter.pending).toBe(1);
+
+    tasks[0].finish('a');
+    await jest.advanceTimersByTimeAsync(0);
+    expect(tasks[2].task).toHaveBeenCalledTimes(1);
+
+    tasks[1].finish('b');
+    tasks[2].finish('c');
+    await expect(Promise.all(results)).resolves.toEqual(['a', 'b', 'c']);
+  });
+
+  it('spaces out starts by the minimum interval', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 5, minIntervalMs: 100 });
+    const started: number[] = [];
+    const start = Date.now();
+    const results = [1, 2, 3].map(() => limiter.run(async () => { started.push(Date.now() - start); }));
+
+    await jest.advanceTimersByTimeAsync(250);
+    await Promise.all(results);
+    expect(started).toEqual([0, 100, 200]);
+  });
+
+  it('drops a queued task whose request is cancelled', async () => {
+    const limiter = new ConcurrencyLimiter({ maxConcurrent: 1 });
+    const first = deferred();
+    const second = deferred();
+    const controller = new AbortController();
+
+    const running = limiter.run(first.task);
+    const queued = limiter.run(second.task, controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toThrow('Aborted');
+    expect(limiter.pending).toBe(0);
+
+    first.finish('a');
+    await expect(running).resolves.toBe('a');
+    expect(second.task).not.toHaveBeenCalled();
+  });
+
+  it('rejects a task cancelled before it was queued', async () => {
+    const limiter = new ConcurrencyLimiter();
+    const controller = new AbortController();
+    controller.abort();
+    const task = jest.fn(async () => 'a');
+
+    await expect(limiter.run(task, controller.signal)).rejects.toThrow('Aborted');
+    expect(task).not.toHaveBeenCalled();
+  });
+});
+
+describe('batchProcess', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('runs each batch together and returns results in item order', async () => {
+    let inFlight = 0;
+    let mostInFlight = 0;
+    const processor = async (item: number) => {
+      inFlight++;
+      mostInFlight = Math.max(mostInFlight, inFlight);
+      await new Promise<void>(resolve => setTimeout(() => resolve(), 10 * (4 - item)));
+      inFlight--;
+      return item * 2;
+    };
+
+    const results = batchProcess([1, 2, 3, 4, 5], processor, 2);
+    await jest.advanceTimersByTimeAsync(100);
+
+    await expect(results).resolves.toEqual([2, 4, 6, 8, 10]);
+    expect(mostInFlight).toBe(2);
+  });
+
+  it('pauses between batches but not after the last one', async () => {
+    const started: Record<number, number> = {};
+    const start = Date.now();
+    const processor = async (item: number) => {
+      started[item] = Date.now() - start;
+      return item;
+    };
+
+    const results = batchProcess([1, 2, 3, 4, 5], processor, 2, 500);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(started).toEqual({ 1: 0, 2: 0, 3: 500, 4: 500, 5: 1000 });
+    await expect(results).resolves.toEqual([1, 2, 3, 4, 5]);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
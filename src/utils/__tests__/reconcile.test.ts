@@ -0,0 +1,202 @@
+import { Asset, Portfolio, SyncBaseRecord } from '../../types';
+import {
+  hasServerChanged,
+  HOLDING_SYNC_FIELDS,
+  mergeFields,
+  PORTFOLIO_SYNC_FIELDS,
+  reconcilePortfolios,
+  ReconcileInput,
+  syncBaseKey,
+  toSyncBase,
+} from '../reconcile';
+
+const holding = (overrides: Partial<Asset>): Asset => ({
+  id: 'holding-1',
+  name: 'Apple',
+  ticker: 'AAPL',
+  type: 'stock',
+  quantity: 10,
+  averagePrice: 100,
+  currentPrice: 150,
+  totalValue: 1500,
+  priceChange: 0,
+  priceChangePercent: 0,
+  ...overrides,
+});
+
+const portfolio = (overrides: Partial<Portfolio>): Portfolio => ({
+  id: 'portfolio-1',
+  name: 'Main',
+  baseCurrency: 'USD',
+  costBasisMethod: 'fifo',
+  totalValue: 0,
+  totalCost: 0,
+  totalChange: 0,
+  totalChangePercent: 0,
+  assets: [],
+  ...overrides,
+});
+
+const basesFor = (portfolios: Portfolio[]): Record<string, SyncBaseRecord> => {
+  const bases: Record<string, SyncBaseRecord> = {};
+  portfolios.forEach(p => {
+    bases[syncBaseKey('portfolio', p.id)] = toSyncBase(p, PORTFOLIO_SYNC_FIELDS);
+    p.assets.forEach(asset => {
+      bases[syncBaseKey('holding', asset.id)] = toSyncBase(asset, HOLDING_SYNC_FIELDS);
+    });
+  });
+  return bases;
+};
+
+const reconcile = (input: Partial<ReconcileInput>) => reconcilePortfolios({
+  local: [],
+  server: [],
+  bases: {},
+  resolveId: id => id,
+  hasPendingChanges: () => false,
+  pendingDeletes: new Set(),
+  ...input,
+});
+
+describe('hasServerChanged', () => {
+  const fields = ['name'];
+
+  it('trusts versions, then timestamps, then the values', () => {
+    expect(hasServerChanged({ version: 3, fields: { name: 'A' } }, { version: 3, name: 'B' }, fields)).toBe(false);
+    expect(hasServerChanged({ version: 3, fields: { name: 'A' } }, { version: 4, name: 'A' }, fields)).toBe(true);
+    expect(hasServerChanged(
+      { updatedAt: '2024-01-01T00:00:00Z', fields: { name: 'A' } },
+      { updatedAt: '2024-01-01T00:00:00.000Z', name: 'B' },
+      fields
+    )).toBe(false);
+    expect(hasServerChanged({ fields: { name: 'A' } }, { name: 'B' }, fields)).toBe(true);
+    expect(hasServerChanged(undefined, { name: 'A' }, fields)).toBe(true);
+  });
+
+  it('ignores floating point noise in numbers', () => {
+    expect(hasServerChanged({ fields: { quantity: 0.3 } }, { quantity: 0.1 + 0.2 }, ['quantity'])).toBe(false);
+  });
+});
+
+describe('mergeFields', () => {
+  const base: SyncBaseRecord = { fields: { name: 'Main', baseCurrency: 'USD' } };
+  const fields = ['name', 'baseCurrency'];
+
+  it('takes fields only the server changed', () => {
+    const merge = mergeFields(base, { name: 'Main', baseCurrency: 'USD' }, { name: 'Main', baseCurrency: 'EUR' }, fields, false);
+    expect(merge).toEqual({ fromServer: { baseCurrency: 'EUR' }, conflicts: [] });
+  });
+
+  it('keeps fields only we changed', () => {
+    const merge = mergeFields(base, { name: 'Mine', baseCurrency: 'USD' }, { name: 'Main', baseCurrency: 'EUR' }, fields, true);
+    expect(merge).toEqual({ fromServer: { baseCurrency: 'EUR' }, conflicts: [] });
+  });
+
+  it('flags fields both sides changed differently', () => {
+    const merge = mergeFields(base, { name: 'Mine', baseCurrency: 'USD' }, { name: 'Theirs', baseCurrency: 'USD' }, fields, true);
+    expect(merge.conflicts).toEqual([{ field: 'name', local: 'Mine', server: 'Theirs' }]);
+  });
+
+  it('without a base, only conflicts when there are local edits waiting', () => {
+    const local = { name: 'Mine' };
+    const server = { name: 'Theirs' };
+    expect(mergeFields(undefined, local, server, ['name'], false).fromServer).toEqual({ name: 'Theirs' });
+    expect(mergeFields(undefined, local, server, ['name'], true).conflicts).toHaveLength(1);
+  });
+});
+
+describe('reconcilePortfolios', () => {
+  it('adds portfolios and holdings the server has and we do not', () => {
+    const serverHolding = holding({ id: 'holding-9', ticker: 'MSFT' });
+    const known = portfolio({ assets: [holding({})] });
+    const plan = reconcile({
+      local: [known],
+      server: [
+        { ...known, assets: [...known.assets, serverHolding] },
+        portfolio({ id: 'portfolio-2', name: 'New' }),
+      ],
+      bases: basesFor([known]),
+    });
+
+    expect(plan.addedPortfolios.map(p => p.id)).toEqual(['portfolio-2']);
+    expect(plan.addedHoldings).toEqual([{ portfolioId: 'portfolio-1', asset: serverHolding }]);
+    expect(plan.bases[syncBaseKey('holding', 'holding-9')]).toBeDefined();
+  });
+
+  it('passes on server edits to portfolios and holdings', () => {
+    const local = portfolio({ assets: [holding({})] });
+    const server = portfolio({ costBasisMethod: 'hifo', version: 2, assets: [holding({ quantity: 6, version: 2 })] });
+    const plan = reconcile({ local: [local], server: [server], bases: basesFor([local]) });
+
+    expect(plan.portfolioChanges).toEqual([{ portfolioId: 'portfolio-1', changes: { costBasisMethod: 'hifo' } }]);
+    expect(plan.holdingChanges).toEqual([{ portfolioId: 'portfolio-1', holdingId: 'holding-1', changes: { quantity: 6 } }]);
+    expect(plan.mergedIds).toEqual(['portfolio-1', 'holding-1']);
+    expect(plan.bases[syncBaseKey('holding', 'holding-1')]).toEqual({ version: 2, updatedAt: undefined, fields: { quantity: 6, averagePrice: 100 } });
+  });
+
+  it('holds back items both sides changed, keeping the old base', () => {
+    const base = portfolio({ assets: [holding({})] });
+    const local = portfolio({ assets: [holding({ quantity: 12 })] });
+    const server = portfolio({ assets: [holding({ quantity: 8 })] });
+    const plan = reconcile({
+      local: [local],
+      server: [server],
+      bases: basesFor([base]),
+      hasPendingChanges: id => id === 'holding-1',
+    });
+
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.conflicts[0]).toMatchObject({
+      id: 'holding:holding-1',
+      entity: 'holding',
+      label: 'AAPL in Main',
+      fields: [{ field: 'quantity', local: 12, server: 8 }],
+    });
+    expect(plan.holdingChanges).toEqual([]);
+    expect(plan.bases[syncBaseKey('holding', 'holding-1')]).toBeUndefined();
+  });
+
+  it('removes what the server deleted, unless we still have changes for it', () => {
+    const synced = portfolio({ assets: [holding({}), holding({ id: 'holding-2', ticker: 'MSFT' })] });
+    const gone = portfolio({ id: 'portfolio-2', name: 'Old' });
+    const plan = reconcile({
+      local: [synced, gone],
+      server: [portfolio({ assets: [holding({})] })],
+      bases: basesFor([synced, gone]),
+    });
+    expect(plan.removedHoldings).toEqual([{ portfolioId: 'portfolio-1', holdingId: 'holding-2' }]);
+    expect(plan.removedPortfolios).toEqual(['portfolio-2']);
+
+    const edited = reconcile({
+      local: [gone],
+      server: [],
+      bases: basesFor([gone]),
+      hasPendingChanges: () => true,
+    });
+    expect(edited.removedPortfolios).toEqual([]);
+    expect(edited.conflicts[0]).toMatchObject({ entityId: 'portfolio-2', deletedOnServer: true });
+  });
+
+  it('leaves alone local items the server has never seen and ones we are deleting', () => {
+    const plan = reconcile({
+      local: [portfolio({ id: 'portfolio-local' })],
+      server: [portfolio({ id: 'portfolio-2' })],
+      pendingDeletes: new Set(['portfolio-2']),
+    });
+    expect(plan.removedPortfolios).toEqual([]);
+    expect(plan.addedPortfolios).toEqual([]);
+  });
+
+  it('matches local items by their server id, then by ticker', () => {
+    const local = portfolio({ id: 'local-portfolio', assets: [holding({ id: 'local-holding' })] });
+    const plan = reconcile({
+      local: [local],
+      server: [portfolio({ assets: [holding({ id: 'server-holding' })] })],
+      resolveId: id => (id === 'local-portfolio' ? 'portfolio-1' : id),
+    });
+
+    expect(plan.addedPortfolios).toEqual([]);
+    expect(plan.addedHoldings).toEqual([]);
+    expect(plan.mergedIds).toEqual(['local-portfolio', 'local-holding']);
+  });
+});
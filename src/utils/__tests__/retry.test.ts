@@ -0,0 +1,96 @@
+import { computeBackoffDelay, getRetryDelay, isRetryableStatus, parseRetryAfter, sleep } from '../retry';
+
+const policy = { retries: 3, baseDelayMs: 500, maxDelayMs: 8000 };
+
+describe('computeBackoffDelay', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('doubles the ceiling with each attempt', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(computeBackoffDelay(0, policy)).toBe(500);
+    expect(computeBackoffDelay(1, policy)).toBe(1000);
+    expect(computeBackoffDelay(3, policy)).toBe(4000);
+  });
+
+  it('never goes past the maximum delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(computeBackoffDelay(10, policy)).toBe(8000);
+  });
+
+  it('spreads delays anywhere below the ceiling', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.25);
+    expect(computeBackoffDelay(2, policy)).toBe(500);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads a number of seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+  });
+
+  it('treats dates in the past as no wait', () => {
+    const now = Date.parse('2024-01-01T00:00:10Z');
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing or unreadable values', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('')).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('waits as long as the server asks', () => {
+    expect(getRetryDelay(0, policy, 3000)).toBe(3000);
+    expect(getRetryDelay(2, policy, 0)).toBe(0);
+  });
+
+  it('backs off when the server says nothing', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getRetryDelay(1, policy, null)).toBe(1000);
+  });
+
+  it('gives up rather than wait longer than the policy allows', () => {
+    expect(getRetryDelay(0, policy, 8000)).toBe(8000);
+    expect(getRetryDelay(0, policy, 3600 * 1000)).toBeNull();
+  });
+});
+
+describe('isRetryableStatus', () => {
+  it('retries network failures, timeouts, throttling and server errors', () => {
+    [undefined, 408, 429, 500, 503].forEach(status => expect(isRetryableStatus(status)).toBe(true));
+  });
+
+  it('gives up on other client errors', () => {
+    [400, 401, 403, 404, 409, 422].forEach(status => expect(isRetryableStatus(status)).toBe(false));
+  });
+});
+
+describe('sleep', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('resolves after the delay', async () => {
+    const done = jest.fn();
+    sleep(1000).then(done);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(done).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(done).toHaveBeenCalled();
+  });
+
+  it('rejects when aborted', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(1000, controller.signal);
+    controller.abort();
+    await expect(waiting).rejects.toThrow('Aborted');
+  });
+});
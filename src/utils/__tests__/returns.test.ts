@@ -0,0 +1,125 @@
+import { Asset, PortfolioSnapshot, Transaction } from '../../types';
+import { createOpeningTransaction } from '../ledger';
+import { computeReturns, computeTWR, computeXIRR, getCashFlows } from '../returns';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const at = (day: number) => Date.parse('2024-01-01T00:00:00.000Z') + day * DAY_MS;
+const iso = (day: number) => new Date(at(day)).toISOString();
+
+const tx = (overrides: Partial<Transaction>): Transaction => ({
+  id: `tx-${Math.random().toString(36).slice(2)}`,
+  portfolioId: 'portfolio-1',
+  ticker: 'AAPL',
+  type: 'buy',
+  quantity: 0,
+  price: 0,
+  date: iso(0),
+  createdAt: iso(0),
+  ...overrides,
+});
+
+const snapshot = (day: number, totalValue: number): PortfolioSnapshot => ({
+  id: `snapshot-${day}`,
+  portfolioId: 'portfolio-1',
+  totalValue,
+  totalCost: 0,
+  timestamp: new Date(at(day)),
+  dayChange: 0,
+  dayChangePercent: 0,
+});
+
+const sameRate = () => 1;
+
+describe('getCashFlows', () => {
+  it('counts buys as money in and sells and dividends as money out', () => {
+    const flows = getCashFlows([
+      tx({ quantity: 10, price: 100, fees: 5, date: iso(1) }),
+      tx({ type: 'sell', quantity: 4, price: 120, fees: 2, date: iso(2) }),
+      tx({ type: 'dividend', amount: 7, date: iso(3) }),
+      tx({ type: 'fee', amount: 3, date: iso(4) }),
+      tx({ type: 'split', splitRatio: 2, date: iso(5) }),
+    ], sameRate);
+
+    expect(flows).toEqual([
+      { date: iso(1), amount: 1005 },
+      { date: iso(2), amount: -478 },
+      { date: iso(3), amount: -7 },
+    ]);
+  });
+
+  it('converts each flow at its trade rate', () => {
+    const flows = getCashFlows([tx({ quantity: 1, price: 100, fxRate: 0.9 })], trade => trade.fxRate ?? 1);
+    expect(flows[0].amount).toBeCloseTo(90);
+  });
+
+  it('leaves opening balances and their corrections out', () => {
+    const asset = { id: 'asset-1', ticker: 'AAPL', quantity: 10, averagePrice: 100, currentPrice: 110 } as Asset;
+    const opening = createOpeningTransaction(asset, 'portfolio-1');
+    const corrected = tx({ quantity: 12, price: 100, supersedes: opening.id, createdAt: '2999-01-01T00:00:00.000Z' });
+    const later = tx({ quantity: 1, price: 110, date: iso(3) });
+
+    expect(getCashFlows([opening, corrected, later], sameRate)).toEqual([{ date: iso(3), amount: 110 }]);
+  });
+});
+
+describe('computeTWR', () => {
+  it('takes deposits out of the growth', () => {
+    const points = [
+      { time: at(0), value: 100 },
+      { time: at(1), value: 210 },
+      { time: at(2), value: 231 },
+    ];
+    // 100 grew to 110 before 100 more went in; then +10%
+    const twr = computeTWR(points, [{ date: iso(1), amount: 100 }]);
+    expect(twr).toBeCloseTo(1.1 * 1.1 - 1);
+  });
+
+  it('carries no return while nothing is invested', () => {
+    const points = [
+      { time: at(0), value: 0 },
+      { time: at(1), value: 100 },
+      { time: at(2), value: 120 },
+    ];
+    expect(computeTWR(points, [{ date: iso(1), amount: 100 }])).toBeCloseTo(0.2);
+  });
+});
+
+describe('computeXIRR', () => {
+  it('finds the annual rate that zeroes the cash flows', () => {
+    const rate = computeXIRR([
+      { time: at(0), value: -1000 },
+      { time: at(365), value: 1100 },
+    ]);
+    expect(rate).toBeCloseTo(0.1, 5);
+  });
+
+  it('has no answer without money going both ways', () => {
+    expect(computeXIRR([{ time: at(0), value: -1000 }])).toBeNull();
+    expect(computeXIRR([{ time: at(0), value: 500 }, { time: at(1), value: 500 }])).toBeNull();
+  });
+});
+
+describe('computeReturns', () => {
+  it('separates market gain from money moved in the window', () => {
+    const now = new Date(at(30));
+    const snapshots = [snapshot(-5, 1000), snapshot(10, 1600)];
+    const flows = [{ date: iso(10), amount: 500 }];
+
+    const returns = computeReturns(snapshots, flows, '1M', 1760, now);
+
+    expect(returns.startValue).toBe(1000);
+    expect(returns.endValue).toBe(1760);
+    expect(returns.netFlows).toBe(500);
+    expect(returns.gain).toBeCloseTo(260);
+    expect(returns.twr).toBeCloseTo(1.1 * 1.1 - 1);
+  });
+
+  it('starts from nothing when there is no valuation before the window', () => {
+    const now = new Date(at(30));
+    const returns = computeReturns([snapshot(10, 500)], [{ date: iso(10), amount: 500 }], '1M', 550, now);
+
+    expect(returns.startValue).toBe(0);
+    expect(returns.gain).toBeCloseTo(50);
+    expect(returns.twr).toBeCloseTo(0.1);
+  });
+});
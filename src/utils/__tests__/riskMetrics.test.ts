@@ -0,0 +1,143 @@
+import {
+  alignReturns,
+  beta,
+  captureRatios,
+  correlation,
+  correlationMatrix,
+  historicalVaR,
+  jensensAlpha,
+  maxDrawdown,
+  sampleSeries,
+  sharpeRatio,
+  sortinoRatio,
+  standardDeviation,
+  trackingError,
+} from '../riskMetrics';
+
+const point = (date: string, value: number) => ({ timestamp: `${date}T16:00:00.000Z`, value });
+
+describe('alignReturns', () => {
+  it('only uses days every series has a close for', () => {
+    const { dates, returns } = alignReturns({
+      AAPL: [point('2024-01-01', 100), point('2024-01-02', 110), point('2024-01-03', 99)],
+      MSFT: [point('2024-01-01', 50), point('2024-01-03', 55)],
+    });
+
+    expect(dates).toEqual(['2024-01-01', '2024-01-03']);
+    expect(returns.AAPL[0]).toBeCloseTo(-0.01);
+    expect(returns.MSFT[0]).toBeCloseTo(0.1);
+  });
+
+  it('skips closes that are missing or zero', () => {
+    const { dates } = alignReturns({ AAPL: [point('2024-01-01', 0), point('2024-01-02', 10)] });
+    expect(dates).toEqual(['2024-01-02']);
+  });
+});
+
+describe('standardDeviation', () => {
+  it('uses the sample formula', () => {
+    expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(Math.sqrt(32 / 7));
+  });
+
+  it('is zero with fewer than two values', () => {
+    expect(standardDeviation([5])).toBe(0);
+  });
+});
+
+describe('sharpeRatio and sortinoRatio', () => {
+  const returns = [0.02, -0.01, 0.03, -0.02, 0.01];
+
+  it('scales excess return per unit of risk to a year', () => {
+    const excess = 0.006 - 0.05 / 252;
+    expect(sharpeRatio(returns, 0.05, 252)).toBeCloseTo((excess / standardDeviation(returns)) * Math.sqrt(252));
+  });
+
+  it('has no Sharpe ratio for a series that never moves', () => {
+    expect(sharpeRatio([0.01, 0.01, 0.01], 0, 252)).toBeNull();
+  });
+
+  it('only counts losses as risk for Sortino', () => {
+    const downside = Math.sqrt((0.01 ** 2 + 0.02 ** 2) / 5);
+    expect(sortinoRatio(returns, 0, 252)).toBeCloseTo((0.006 / downside) * Math.sqrt(252));
+    expect(sortinoRatio([0.01, 0.02, 0.03], 0, 252)).toBeNull();
+  });
+});
+
+describe('beta, alpha and correlation', () => {
+  const benchmark = [0.01, -0.02, 0.015, 0.005, -0.01];
+
+  it('gives a leveraged copy of the benchmark a beta of its leverage', () => {
+    const doubled = benchmark.map(r => r * 2);
+    expect(beta(doubled, benchmark)).toBeCloseTo(2);
+    expect(correlation(doubled, benchmark)).toBeCloseTo(1);
+    expect(correlation(benchmark.map(r => -r), benchmark)).toBeCloseTo(-1);
+  });
+
+  it('reads a steady extra return as alpha', () => {
+    const ahead = benchmark.map(r => r + 0.001);
+    expect(jensensAlpha(ahead, benchmark, 0, 252)).toBeCloseTo(0.252);
+  });
+
+  it('has no beta against a flat benchmark', () => {
+    expect(beta(benchmark, [0, 0, 0, 0, 0])).toBeNull();
+    expect(jensensAlpha(benchmark, [0, 0, 0, 0, 0], 0, 252)).toBeNull();
+  });
+
+  it('puts ones on the diagonal of the correlation matrix', () => {
+    const matrix = correlationMatrix({ A: benchmark, B: benchmark.map(r => -r) });
+    expect(matrix.tickers).toEqual(['A', 'B']);
+    expect(matrix.values[0][0]).toBe(1);
+    expect(matrix.values[0][1]).toBeCloseTo(-1);
+  });
+});
+
+describe('trackingError and captureRatios', () => {
+  it('is zero when the portfolio matches the benchmark', () => {
+    expect(trackingError([0.01, 0.02, -0.01], [0.01, 0.02, -0.01], 252)).toBeCloseTo(0);
+    expect(trackingError([0.01], [0.01], 252)).toBeNull();
+  });
+
+  it('compares moves on up and down days separately', () => {
+    const ratios = captureRatios([0.02, -0.005, 0.04, -0.01], [0.01, -0.01, 0.02, -0.02]);
+    expect(ratios.up).toBeCloseTo(2);
+    expect(ratios.down).toBeCloseTo(0.5);
+  });
+
+  it('has no down capture when the benchmark never fell', () => {
+    expect(captureRatios([0.01, 0.02], [0.01, 0.02]).down).toBeNull();
+  });
+});
+
+describe('maxDrawdown', () => {
+  it('measures the deepest fall from a running peak', () => {
+    expect(maxDrawdown([100, 120, 90, 130, 104])).toBeCloseTo(0.25);
+  });
+
+  it('is zero for a series that only rises', () => {
+    expect(maxDrawdown([1, 2, 3])).toBe(0);
+  });
+});
+
+describe('historicalVaR', () => {
+  it('reads the loss at the chosen percentile', () => {
+    const returns = Array.from({ length: 100 }, (_, i) => (i - 50) / 1000);
+    expect(historicalVaR(returns, 0.95)).toBeCloseTo(0.045);
+  });
+
+  it('never reports a gain as a loss', () => {
+    expect(historicalVaR([0.01, 0.02], 0.95)).toBe(0);
+    expect(historicalVaR([], 0.95)).toBe(0);
+  });
+});
+
+describe('sampleSeries', () => {
+  it('holds the last close and backfills before the first one', () => {
+    const points = [point('2024-01-02', 10), point('2024-01-04', 12)];
+    const values = sampleSeries(points, [
+      '2024-01-01T16:00:00.000Z',
+      '2024-01-03T16:00:00.000Z',
+      '2024-01-05T16:00:00.000Z',
+    ]);
+    expect(values).toEqual([10, 10, 12]);
+  });
+});
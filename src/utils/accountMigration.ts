@@ -0,0 +1,113 @@
+import { AccountMigrationPreview, Asset, MigrationPortfolio, Portfolio, PriceAlert, SyncBaseRecord, SyncMutation } from '../types';
+import { syncBaseKey } from './reconcile';
+
+export interface LocalDataInput {
+  // With the current portfolio's live holdings already folded in
+  portfolios: Portfolio[];
+  alerts: PriceAlert[];
+  queue: SyncMutation[];
+  bases: Record<string, SyncBaseRecord>;
+  resolveId: (localId: string) => string;
+}
+
+export interface LocalOnlyPortfolio {
+  portfolio: Portfolio;
+  isLocalOnly: boolean;
+  holdings: Asset[];
+}
+
+export interface LocalOnlyData {
+  portfolios: LocalOnlyPortfolio[];
+  alerts: PriceAlert[];
+  // Server ids of the portfolios here that the server already has
+  syncedPortfolioIds: string[];
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// Anything the server has seen has a base under its server id; the rest only exists here
+export const findLocalOnlyData = (input: LocalDataInput): LocalOnlyData => {
+  const { portfolios, alerts, queue, bases, resolveId } = input;
+  const isKnown = (entity: 'portfolio' | 'holding', localId: string) => !!bases[syncBaseKey(entity, resolveId(localId))];
+
+  const localPortfolios = portfolios
+    .map(portfolio => {
+      const isLocalOnly = !isKnown('portfolio', portfolio.id);
+      const holdings = portfolio.assets.filter(asset => isLocalOnly || !isKnown('holding', asset.id));
+      return { portfolio, isLocalOnly, holdings };
+    })
+    .filter(entry => entry.isLocalOnly || entry.holdings.length > 0);
+
+  // Alerts have no bases, so one is local while its create is still waiting to go out
+  const localAlerts = alerts.filter(alert =>
+    resolveId(alert.id) === alert.id
+    && queue.some(m => m.entity === 'alert' && m.operation === 'create' && m.entityId === alert.id)
+  );
+
+  const syncedPortfolioIds = portfolios
+    .filter(portfolio => isKnown('portfolio', portfolio.id))
+    .map(portfolio => resolveId(portfolio.id));
+
+  return { portfolios: localPortfolios, alerts: localAlerts, syncedPortfolioIds };
+};
+
+export const hasLocalOnlyData = (data: LocalOnlyData): boolean =>
+  data.portfolios.length > 0 || data.alerts.length > 0;
+
+// "Name (2)", "Name (3)", ... until it matches none of the taken names
+export const suggestPortfolioName = (name: string, taken: string[]): string => {
+  const names = new Set(taken.map(normalizeName));
+  if (!names.has(normalizeName(name))) return name;
+
+  let n = 2;
+  while (names.has(normalizeName(`${name} (${n})`))) n++;
+  return `${name} (${n})`;
+};
+
+/**
+ * Line the local data up against the account's portfolios. Portfolios the
+ * server already has upload into their own copy; new ones that share a name
+ * with an account portfolio not on this device are flagged as clashes, with a
+ * free name ready in case they're kept apart.
+ */
+export const buildMigrationPreview = (
+  local: LocalOnlyData,
+  server: Portfolio[],
+  resolveId: (localId: string) => string
+): AccountMigrationPreview => {
+  const onDevice = new Set(local.syncedPortfolioIds);
+  const taken = [...server.map(p => p.name), ...local.portfolios.map(entry => entry.portfolio.name)];
+  const claimed = new Set<string>();
+
+  const portfolios = local.portfolios.flatMap<MigrationPortfolio>(({ portfolio, isLocalOnly, holdings }) => {
+    const own = isLocalOnly ? undefined : server.find(p => p.id === resolveId(portfolio.id));
+    // Deleted from the account since it was synced; reconcile asks about that instead
+    if (!isLocalOnly && !own) return [];
+
+    // Only one portfolio can merge into each account portfolio; later ones with the name just get a new one
+    const sameName = isLocalOnly
+      ? server.find(p => !onDevice.has(p.id) && normalizeName(p.name) === normalizeName(portfolio.name))
+      : undefined;
+    const clash = sameName && !claimed.has(sameName.id) ? sameName : undefined;
+    if (clash) claimed.add(clash.id);
+
+    const suggestedName = sameName ? suggestPortfolioName(portfolio.name, taken) : portfolio.name;
+    if (sameName) taken.push(suggestedName);
+
+    return [{ portfolio, isLocalOnly, holdings, target: own, clash, suggestedName }];
+  });
+
+  return { portfolios, alerts: local.alerts };
+};
+
+// One position out of two; the average price is weighted by quantity
+export const combineHoldings = (
+  a: { quantity: number; averagePrice: number },
+  b: { quantity: number; averagePrice: number }
+): { quantity: number; averagePrice: number } => {
+  const quantity = a.quantity + b.quantity;
+  const averagePrice = quantity > 0
+    ? (a.quantity * a.averagePrice + b.quantity * b.averagePrice) / quantity
+    : a.averagePrice;
+  return { quantity, averagePrice };
+};
@@ -0,0 +1,521 @@
+import {
+  AccountExistsDTO,
+  AlertDTO,
+  AlertRequestDTO,
+  APIAsset,
+  Asset,
+  AssetDTO,
+  AuthResponse,
+  AuthResponseDTO,
+  Candle,
+  CandleDTO,
+  ChartData,
+  ExistingAccount,
+  HoldingDTO,
+  HoldingRequestDTO,
+  MarketData,
+  MarketDataDTO,
+  NewsArticle,
+  NewsArticleDTO,
+  Portfolio,
+  PortfolioDTO,
+  PortfolioUpdateRequestDTO,
+  PriceAlert,
+  PricePointDTO,
+  ProviderLinkRequest,
+  ProviderLinkRequestDTO,
+  RefreshResponseDTO,
+  SearchResult,
+  SearchResultDTO,
+  SessionTokens,
+  User,
+  UserDTO,
+} from '../types';
+
+// Thrown when a response doesn't match what the app expects, so bad data stops at the client
+export class ApiResponseError extends Error {
+  readonly endpoint: string;
+  readonly issues: string[];
+
+  constructor(endpoint: string, issues: string[]) {
+    super(`Unexpected response from ${endpoint}: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'ApiResponseError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+    // Keeps instanceof working when classes are compiled down
+    Object.setPrototypeOf(this, ApiResponseError.prototype);
+  }
+}
+
+export const isApiResponseError = (error: unknown): error is ApiResponseError =>
+  error instanceof ApiResponseError;
+
+// Schemas
+
+type Check = (value: unknown, where: string) => string[];
+type Schema = Record<string, Check>;
+
+const isNumber = (value: unknown) => typeof value === 'number' && isFinite(value);
+const isDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+const rule = (test: (value: unknown) => boolean, expected: string, optional = false): Check =>
+  (value, where) =>
+    (optional && (value === undefined || value === null)) || test(value) ? [] : [`${where} must be ${expected}`];
+
+const id = rule(value => (typeof value === 'string' && value.length > 0) || isNumber(value), 'an id');
+const string = rule(value => typeof value === 'string' && value.length > 0, 'a non-empty string');
+const optionalString = rule(value => typeof value === 'string', 'a string', true);
+const number = rule(isNumber, 'a number');
+const optionalNumber = rule(isNumber, 'a number', true);
+const optionalBoolean = rule(value => typeof value === 'boolean', 'true or false', true);
+const date = rule(isDate, 'a date');
+const optionalDate = rule(isDate, 'a date', true);
+const oneOf = (values: string[], optional = false) =>
+  rule(value => values.includes(value as string), `one of ${values.join(', ')}`, optional);
+
+const listOf = (schema: Schema, optional = false): Check => (value, where) => {
+  if (optional && (value === undefined || value === null)) return [];
+  if (!Array.isArray(value)) return [`${where} must be a list`];
+  return value.flatMap((item, index) => checkShape(item, `${where}[${index}]`, schema));
+};
+
+const optionalStringList = rule(
+  value => Array.isArray(value) && value.every(item => typeof item === 'string'),
+  'a list of strings',
+  true
+);
+
+const checkShape = (value: unknown, where: string, schema: Schema): string[] => {
+  if (typeof value !== 'object' || value === null) return [`${where} must be an object`];
+  const record = value as Record<string, unknown>;
+  return Object.entries(schema).flatMap(([field, check]) => check(record[field], `${where}.${field}`));
+};
+
+const shape = (schema: Schema): Check => (value, where) => checkShape(value, where, schema);
+
+const ASSET_TYPES: Asset['type'][] = ['stock', 'crypto', 'forex', 'etf', 'index'];
+const ALERT_TYPES: PriceAlert['alertType'][] = ['above', 'below', 'change'];
+const COST_BASIS_METHODS = ['fifo', 'lifo', 'hifo', 'average', 'specific'];
+const AUTH_PROVIDERS = ['apple', 'google', 'email'];
+
+const LINKED_PROVIDER_SCHEMA: Schema = {
+  provider: oneOf(AUTH_PROVIDERS),
+  email: optionalString,
+  linked_at: optionalDate,
+};
+
+const USER_SCHEMA: Schema = {
+  id,
+  email: string,
+  name: optionalString,
+  email_verified: optionalBoolean,
+  providers: listOf(LINKED_PROVIDER_SCHEMA, true),
+  created_at: optionalDate,
+  updated_at: optionalDate,
+};
+
+const AUTH_SCHEMA: Schema = {
+  success: optionalBoolean,
+  user: shape(USER_SCHEMA),
+  token: optionalString,
+  refresh_token: optionalString,
+};
+
+const REFRESH_SCHEMA: Schema = {
+  token: optionalString,
+  access_token: optionalString,
+  refresh_token: optionalString,
+};
+
+const ACCOUNT_EXISTS_SCHEMA: Schema = {
+  email: string,
+  providers: rule(
+    value => Array.isArray(value) && value.length > 0 && value.every(item => AUTH_PROVIDERS.includes(item)),
+    `a list of ${AUTH_PROVIDERS.join(', ')}`
+  ),
+  link_token: string,
+};
+
+const HOLDING_SCHEMA: Schema = {
+  id,
+  symbol: string,
+  name: optionalString,
+  type: oneOf(ASSET_TYPES, true),
+  quantity: number,
+  average_price: number,
+  current_price: optionalNumber,
+  price_change: optionalNumber,
+  price_change_percent: optionalNumber,
+  currency: optionalString,
+  version: optionalNumber,
+  updated_at: optionalDate,
+};
+
+const PORTFOLIO_SCHEMA: Schema = {
+  id,
+  name: string,
+  total_value: optionalNumber,
+  total_cost: optionalNumber,
+  total_change: optionalNumber,
+  total_change_percent: optionalNumber,
+  cost_basis_method: oneOf(COST_BASIS_METHODS, true),
+  base_currency: optionalString,
+  holdings: listOf(HOLDING_SCHEMA, true),
+  version: optionalNumber,
+  updated_at: optionalDate,
+};
+
+const ASSET_SCHEMA: Schema = {
+  id,
+  symbol: string,
+  name: string,
+  type: string,
+  exchange: optionalString,
+  currency: string,
+  current_price: optionalNumber,
+  change_24h: optionalNumber,
+  change_percent_24h: optionalNumber,
+};
+
+const SEARCH_SCHEMA: Schema = {
+  assets: listOf(ASSET_SCHEMA),
+  total_results: optionalNumber,
+  has_more: optionalBoolean,
+  next_cursor: optionalString,
+};
+
+const PRICE_POINT_SCHEMA: Schema = {
+  timestamp: date,
+  price: number,
+};
+
+const CANDLE_SCHEMA: Schema = {
+  timestamp: date,
+  open: number,
+  high: number,
+  low: number,
+  close: number,
+  volume: optionalNumber,
+};
+
+const ALERT_SCHEMA: Schema = {
+  id,
+  asset_symbol: string,
+  asset_name: optionalString,
+  alert_type: oneOf(ALERT_TYPES),
+  target_price: number,
+  current_price: optionalNumber,
+  is_active: optionalBoolean,
+  is_triggered: optionalBoolean,
+  created_at: optionalDate,
+  triggered_at: optionalDate,
+};
+
+const NEWS_SCHEMA: Schema = {
+  id,
+  title: string,
+  summary: optionalString,
+  content: optionalString,
+  image_url: optionalString,
+  source: optionalString,
+  url: optionalString,
+  published_at: date,
+  related_symbols: optionalStringList,
+};
+
+const MARKET_DATA_SCHEMA: Schema = {
+  symbol: string,
+  price: number,
+  change: optionalNumber,
+  change_percent: optionalNumber,
+  volume: optionalNumber,
+  market_cap: optionalNumber,
+  high_24h: optionalNumber,
+  low_24h: optionalNumber,
+  timestamp: optionalDate,
+};
+
+// Validation
+
+// Checks one field of a response body and returns it typed, or throws with every problem found
+const expect = <D>(endpoint: string, body: any, field: string, check: Check): D => {
+  const issues = check(body?.[field], field);
+  if (issues.length > 0) {
+    throw new ApiResponseError(endpoint, issues);
+  }
+  return body[field] as D;
+};
+
+// Mappers
+
+const toId = (value: string | number) => String(value);
+
+export const mapUser = (dto: UserDTO): User => {
+  const now = new Date().toISOString();
+  return {
+    id: toId(dto.id),
+    email: dto.email,
+    name: dto.name || dto.email.split('@')[0],
+    emailVerified: dto.email_verified,
+    providers: dto.providers?.map(provider => ({
+      provider: provider.provider,
+      email: provider.email,
+      linkedAt: provider.linked_at,
+    })),
+    createdAt: dto.created_at || now,
+    updatedAt: dto.updated_at || dto.created_at || now,
+  };
+};
+
+export const mapHolding = (dto: HoldingDTO): Asset => {
+  const currentPrice = dto.current_price ?? dto.average_price;
+  return {
+    id: toId(dto.id),
+    name: dto.name || dto.symbol,
+    ticker: dto.symbol,
+    type: dto.type || 'stock',
+    quantity: dto.quantity,
+    currentPrice,
+    totalValue: dto.quantity * currentPrice,
+    priceChange: dto.price_change ?? 0,
+    priceChangePercent: dto.price_change_percent ?? 0,
+    averagePrice: dto.average_price,
+    exchange: dto.exchange,
+    currency: dto.currency,
+    version: dto.version,
+    updatedAt: dto.updated_at,
+  };
+};
+
+export const mapPortfolio = (dto: PortfolioDTO): Portfolio => {
+  const assets = (dto.holdings || []).map(mapHolding);
+  const totalValue = dto.total_value ?? assets.reduce((sum, asset) => sum + asset.totalValue, 0);
+  const totalCost = dto.total_cost ??
+    assets.reduce((sum, asset) => sum + asset.quantity * (asset.averagePrice ?? asset.currentPrice), 0);
+
+  return {
+    id: toId(dto.id),
+    name: dto.name,
+    totalValue,
+    totalCost,
+    totalChange: dto.total_change ?? totalValue - totalCost,
+    totalChangePercent: dto.total_change_percent ?? (totalCost > 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0),
+    costBasisMethod: dto.cost_basis_method,
+    baseCurrency: dto.base_currency,
+    assets,
+    version: dto.version,
+    updatedAt: dto.updated_at,
+  };
+};
+
+export const mapAsset = (dto: AssetDTO): APIAsset => ({
+  id: toId(dto.id),
+  symbol: dto.symbol,
+  name: dto.name,
+  type: dto.type,
+  exchange: dto.exchange,
+  currency: dto.currency,
+  currentPrice: dto.current_price,
+  change24h: dto.change_24h,
+  changePercent24h: dto.change_percent_24h,
+});
+
+export const mapAlert = (dto: AlertDTO): PriceAlert => ({
+  id: toId(dto.id),
+  assetSymbol: dto.asset_symbol,
+  assetName: dto.asset_name || dto.asset_symbol,
+  alertType: dto.alert_type,
+  targetPrice: dto.target_price,
+  currentPrice: dto.current_price ?? 0,
+  isActive: dto.is_active ?? true,
+  isTriggered: dto.is_triggered ?? false,
+  createdAt: dto.created_at || new Date().toISOString(),
+  triggeredAt: dto.triggered_at,
+});
+
+export const mapNewsArticle = (dto: NewsArticleDTO): NewsArticle => ({
+  id: toId(dto.id),
+  title: dto.title,
+  summary: dto.summary || '',
+  content: dto.content,
+  imageUrl: dto.image_url,
+  source: dto.source || '',
+  url: dto.url,
+  publishedAt: dto.published_at,
+  relatedSymbols: dto.related_symbols,
+});
+
+export const mapMarketData = (dto: MarketDataDTO): MarketData => ({
+  symbol: dto.symbol,
+  price: dto.price,
+  change: dto.change ?? 0,
+  changePercent: dto.change_percent ?? 0,
+  volume: dto.volume ?? 0,
+  marketCap: dto.market_cap,
+  high24h: dto.high_24h,
+  low24h: dto.low_24h,
+  timestamp: dto.timestamp,
+});
+
+// Requests
+
+export const toAlertRequest = (alert: Partial<PriceAlert>): AlertRequestDTO => ({
+  asset_symbol: alert.assetSymbol,
+  asset_name: alert.assetName,
+  alert_type: alert.alertType,
+  target_price: alert.targetPrice,
+  current_price: alert.currentPrice,
+  is_active: alert.isActive,
+});
+
+export const toPortfolioUpdateRequest = (
+  updates: Partial<Pick<Portfolio, 'name' | 'baseCurrency' | 'costBasisMethod'>>,
+  version?: number
+): PortfolioUpdateRequestDTO => ({
+  name: updates.name,
+  base_currency: updates.baseCurrency,
+  cost_basis_method: updates.costBasisMethod,
+  version,
+});
+
+export const toProviderLinkRequest = (request: ProviderLinkRequest): ProviderLinkRequestDTO => {
+  if ('linkToken' in request) return { link_token: request.linkToken };
+  switch (request.provider) {
+    case 'apple':
+      return { provider: 'apple', identity_token: request.identityToken };
+    case 'google':
+      return { provider: 'google', id_token: request.idToken };
+    case 'email':
+      return { provider: 'email', password: request.password };
+  }
+};
+
+export const toHoldingRequest = (
+  quantity: number,
+  averagePrice: number,
+  assetId?: string,
+  version?: number
+): HoldingRequestDTO => ({
+  asset_id: assetId,
+  quantity,
+  average_price: averagePrice,
+  version,
+});
+
+// Responses
+
+export const parseAuthResponse = (endpoint: string, body: any): AuthResponse => {
+  const issues = checkShape(body, 'response', AUTH_SCHEMA);
+  if (issues.length > 0) {
+    throw new ApiResponseError(endpoint, issues);
+  }
+  const dto = body as AuthResponseDTO;
+  return {
+    success: dto.success ?? true,
+    user: mapUser(dto.user),
+    token: dto.token || dto.api_key?.key,
+    refreshToken: dto.refresh_token,
+    message: dto.message,
+  };
+};
+
+// Some servers name the renewed access token access_token
+export const parseRefreshResponse = (endpoint: string, body: any): SessionTokens => {
+  const issues = checkShape(body, 'response', REFRESH_SCHEMA);
+  const dto = body as RefreshResponseDTO;
+  if (issues.length === 0 && !dto.token && !dto.access_token) {
+    issues.push('response.token must be a non-empty string');
+  }
+  if (issues.length > 0) {
+    throw new ApiResponseError(endpoint, issues);
+  }
+  return { token: (dto.token || dto.access_token) as string, refreshToken: dto.refresh_token || undefined };
+};
+
+export const parseUser = (endpoint: string, body: any): User =>
+  mapUser(expect<UserDTO>(endpoint, body, 'user', shape(USER_SCHEMA)));
+
+// The body of a 409 from a provider sign-in whose email already has an account
+export const parseExistingAccount = (endpoint: string, body: any): ExistingAccount => {
+  const issues = checkShape(body, 'response', ACCOUNT_EXISTS_SCHEMA);
+  if (issues.length > 0) {
+    throw new ApiResponseError(endpoint, issues);
+  }
+  const dto = body as AccountExistsDTO;
+  return { email: dto.email, providers: dto.providers, linkToken: dto.link_token };
+};
+
+export const parseResetToken = (endpoint: string, body: any): string =>
+  expect<string>(endpoint, body, 'reset_token', string);
+
+export const parsePortfolios = (endpoint: string, body: any): Portfolio[] =>
+  expect<PortfolioDTO[]>(endpoint, body, 'portfolios', listOf(PORTFOLIO_SCHEMA)).map(mapPortfolio);
+
+export const parsePortfolio = (endpoint: string, body: any): Portfolio =>
+  mapPortfolio(expect<PortfolioDTO>(endpoint, body, 'portfolio', shape(PORTFOLIO_SCHEMA)));
+
+export const parseHolding = (endpoint: string, body: any): Asset =>
+  mapHolding(expect<HoldingDTO>(endpoint, body, 'holding', shape(HOLDING_SCHEMA)));
+
+export const parseSearchResult = (endpoint: string, body: any): SearchResult => {
+  const issues = checkShape(body, 'response', SEARCH_SCHEMA);
+  if (issues.length > 0) {
+    throw new ApiResponseError(endpoint, issues);
+  }
+  const dto = body as SearchResultDTO;
+  return {
+    assets: dto.assets.map(mapAsset),
+    totalResults: dto.total_results ?? dto.assets.length,
+    hasMore: dto.has_more ?? false,
+    nextCursor: dto.has_more ? dto.next_cursor || undefined : undefined,
+  };
+};
+
+export const parseAssetPrice = (endpoint: string, body: any): number =>
+  expect<PricePointDTO>(endpoint, body, 'price', shape({ price: number })).price;
+
+export const parsePriceHistory = (endpoint: string, body: any): ChartData => {
+  const prices = expect<PricePointDTO[]>(endpoint, body, 'prices', listOf(PRICE_POINT_SCHEMA));
+  const data = prices.map(point => ({
+    timestamp: point.timestamp,
+    value: point.price,
+    label: new Date(point.timestamp).toLocaleDateString(),
+  }));
+
+  const values = data.map(point => point.value);
+  return {
+    data,
+    min: values.length > 0 ? Math.min(...values) : 0,
+    max: values.length > 0 ? Math.max(...values) : 0,
+  };
+};
+
+export const parseCandles = (endpoint: string, body: any): Candle[] =>
+  expect<CandleDTO[]>(endpoint, body, 'candles', listOf(CANDLE_SCHEMA))
+    .map(dto => ({
+      timestamp: dto.timestamp,
+      open: dto.open,
+      high: dto.high,
+      low: dto.low,
+      close: dto.close,
+      volume: dto.volume ?? 0,
+    }))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+export const parseAlerts = (endpoint: string, body: any): PriceAlert[] =>
+  expect<AlertDTO[]>(endpoint, body, 'alerts', listOf(ALERT_SCHEMA)).map(mapAlert);
+
+export const parseAlert = (endpoint: string, body: any): PriceAlert =>
+  mapAlert(expect<AlertDTO>(endpoint, body, 'alert', shape(ALERT_SCHEMA)));
+
+export const parseNewsArticles = (endpoint: string, body: any): NewsArticle[] =>
+  expect<NewsArticleDTO[]>(endpoint, body, 'articles', listOf(NEWS_SCHEMA)).map(mapNewsArticle);
+
+export const parseMarketData = (endpoint: string, body: any): MarketData[] =>
+  expect<MarketDataDTO[]>(endpoint, body, 'data', listOf(MARKET_DATA_SCHEMA)).map(mapMarketData);
+
+export const parseValidation = (endpoint: string, body: any): boolean =>
+  expect<boolean>(endpoint, body, 'valid', rule(value => typeof value === 'boolean', 'true or false'));
+
+export const parseHealth = (endpoint: string, body: any): string | undefined =>
+  expect<string | undefined>(endpoint, body, 'version', optionalString);
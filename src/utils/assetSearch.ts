@@ -0,0 +1,70 @@
+import { APIAsset, AssetSearchFilters, AssetSearchQuery, SearchResult } from '../types';
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 20;
+
+export const DEFAULT_SEARCH_FILTERS: AssetSearchFilters = { sort: 'relevance' };
+
+// Turns the filter chips into the query sent to the market data source; movers sort biggest first
+export const buildSearchQuery = (
+  query: string,
+  filters: AssetSearchFilters,
+  types?: string[]
+): Omit<AssetSearchQuery, 'cursor'> => ({
+  query,
+  types,
+  exchanges: filters.exchange ? [filters.exchange] : undefined,
+  currencies: filters.currency ? [filters.currency] : undefined,
+  sort: filters.sort,
+  order: filters.sort === 'change' ? 'desc' : 'asc',
+});
+
+const matchesAny = (value: string | undefined, allowed?: string[]) =>
+  !allowed || allowed.length === 0 || (!!value && allowed.some(option => option.toUpperCase() === value.toUpperCase()));
+
+// Exact symbol first, then symbol prefix, then name or symbol containing the text
+const relevance = (asset: APIAsset, text: string) => {
+  const symbol = asset.symbol.toLowerCase();
+  if (symbol === text) return 0;
+  if (symbol.startsWith(text)) return 1;
+  return 2;
+};
+
+// Pages through a catalog held in memory the way the backend pages its search.
+// `popularity` keeps catalog order, and the cursor is the offset of the next page.
+export const searchCatalog = (catalog: APIAsset[], search: AssetSearchQuery): SearchResult => {
+  const text = search.query.trim().toLowerCase();
+  const matches = catalog.filter(asset =>
+    (asset.symbol.toLowerCase().includes(text) || asset.name.toLowerCase().includes(text))
+    && matchesAny(asset.type, search.types)
+    && matchesAny(asset.exchange, search.exchanges)
+    && matchesAny(asset.currency, search.currencies)
+  );
+
+  const direction = search.order === 'desc' ? -1 : 1;
+  const indexed = matches.map((asset, index) => ({ asset, index }));
+  indexed.sort((a, b) => {
+    switch (search.sort) {
+      case 'symbol':
+        return direction * a.asset.symbol.localeCompare(b.asset.symbol);
+      case 'name':
+        return direction * a.asset.name.localeCompare(b.asset.name);
+      case 'change':
+        return direction * ((a.asset.changePercent24h ?? 0) - (b.asset.changePercent24h ?? 0));
+      case 'popularity':
+        return direction * (a.index - b.index);
+      default:
+        return relevance(a.asset, text) - relevance(b.asset, text) || a.index - b.index;
+    }
+  });
+
+  const offset = Math.max(0, parseInt(search.cursor || '0', 10) || 0);
+  const limit = search.limit && search.limit > 0 ? search.limit : DEFAULT_SEARCH_PAGE_SIZE;
+  const end = offset + limit;
+  const hasMore = end < indexed.length;
+  return {
+    assets: indexed.slice(offset, end).map(({ asset }) => asset),
+    totalResults: indexed.length,
+    hasMore,
+    nextCursor: hasMore ? String(end) : undefined,
+  };
+};
@@ -0,0 +1,216 @@
+import { BackupPortfolio, PortfolioBackup, PortfolioSnapshot, Transaction } from '../types';
+
+export const CURRENT_BACKUP_VERSION = 2;
+
+const TRANSACTION_TYPES = ['buy', 'sell', 'dividend', 'split', 'fee', 'void'];
+const ALERT_TYPES = ['above', 'below', 'change'];
+
+type Migration = (data: any) => any;
+
+// Version 1 ("1.0") was a flat dump of portfolios, snapshots and transactions
+const migrateV1ToV2: Migration = data => {
+  const portfolios: any[] = Array.isArray(data.portfolios) ? data.portfolios : [];
+  const snapshots: any[] = Array.isArray(data.snapshots) ? data.snapshots : [];
+  const transactions: any[] = Array.isArray(data.transactions) ? data.transactions : [];
+  const firstId = portfolios[0]?.id;
+
+  return {
+    version: 2,
+    exportedAt: data.exportDate || new Date().toISOString(),
+    portfolios: portfolios.map(portfolio => ({
+      portfolio,
+      transactions: transactions.filter(tx => tx.portfolioId === portfolio.id),
+      // Unscoped snapshots predate multiple portfolios, so they belong to the first one
+      snapshots: snapshots
+        .filter(s => s.portfolioId === portfolio.id || (!s.portfolioId && portfolio.id === firstId))
+        .map(s => ({ ...s, portfolioId: portfolio.id })),
+    })),
+    alerts: [],
+    settings: {},
+    importPresets: [],
+  };
+};
+
+// Each entry upgrades a backup from that version to the next
+const MIGRATIONS: Record<number, Migration> = {
+  1: migrateV1ToV2,
+};
+
+export const getBackupVersion = (data: any): number => {
+  if (typeof data?.version === 'number') return data.version;
+  if (typeof data?.version === 'string') return Math.floor(parseFloat(data.version)) || 1;
+  return 1;
+};
+
+export const migrateBackup = (data: any): { data: any; migratedFrom: number | null } => {
+  const original = getBackupVersion(data);
+  let version = original;
+  let current = data;
+
+  while (version < CURRENT_BACKUP_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from backup version ${version}`);
+    }
+    current = migrate(current);
+    version = getBackupVersion(current);
+  }
+
+  return { data: current, migratedFrom: original < CURRENT_BACKUP_VERSION ? original : null };
+};
+
+const isNumber = (value: unknown) => typeof value === 'number' && isFinite(value);
+const isString = (value: unknown) => typeof value === 'string' && value.length > 0;
+const isDate = (value: unknown) =>
+  (typeof value === 'string' || value instanceof Date) && !isNaN(new Date(value as string).getTime());
+
+const validateTransaction = (tx: any, where: string): string[] => {
+  const errors: string[] = [];
+  if (!isString(tx?.id)) errors.push(`${where}: missing id`);
+  if (!isString(tx?.ticker)) errors.push(`${where}: missing ticker`);
+  if (!TRANSACTION_TYPES.includes(tx?.type)) errors.push(`${where}: unknown type "${tx?.type}"`);
+  if (!isNumber(tx?.quantity)) errors.push(`${where}: quantity must be a number`);
+  if (!isNumber(tx?.price)) errors.push(`${where}: price must be a number`);
+  if (!isDate(tx?.date)) errors.push(`${where}: invalid date`);
+  return errors;
+};
+
+const validateSnapshot = (snapshot: any, where: string): string[] => {
+  const errors: string[] = [];
+  if (!isString(snapshot?.id)) errors.push(`${where}: missing id`);
+  if (!isNumber(snapshot?.totalValue)) errors.push(`${where}: totalValue must be a number`);
+  if (!isDate(snapshot?.timestamp)) errors.push(`${where}: invalid timestamp`);
+  return errors;
+};
+
+const validatePortfolio = (entry: any, index: number): string[] => {
+  const portfolio = entry?.portfolio;
+  const name = portfolio?.name || `#${index + 1}`;
+  const errors: string[] = [];
+
+  if (!isString(portfolio?.id)) errors.push(`Portfolio ${name}: missing id`);
+  if (!isString(portfolio?.name)) errors.push(`Portfolio ${name}: missing name`);
+  if (!Array.isArray(portfolio?.assets)) {
+    errors.push(`Portfolio ${name}: assets must be a list`);
+  } else {
+    portfolio.assets.forEach((asset: any, i: number) => {
+      if (!isString(asset?.ticker)) errors.push(`Portfolio ${name}, asset ${i + 1}: missing ticker`);
+      if (!isNumber(asset?.quantity)) errors.push(`Portfolio ${name}, asset ${i + 1}: quantity must be a number`);
+      if (!isNumber(asset?.currentPrice)) errors.push(`Portfolio ${name}, asset ${i + 1}: currentPrice must be a number`);
+    });
+  }
+
+  if (!Array.isArray(entry?.transactions)) {
+    errors.push(`Portfolio ${name}: transactions must be a list`);
+  } else {
+    entry.transactions.forEach((tx: any, i: number) =>
+      errors.push(...validateTransaction(tx, `Portfolio ${name}, transaction ${i + 1}`))
+    );
+  }
+
+  if (!Array.isArray(entry?.snapshots)) {
+    errors.push(`Portfolio ${name}: snapshots must be a list`);
+  } else {
+    entry.snapshots.forEach((snapshot: any, i: number) =>
+      errors.push(...validateSnapshot(snapshot, `Portfolio ${name}, snapshot ${i + 1}`))
+    );
+  }
+
+  return errors;
+};
+
+// Returns every problem found rather than stopping at the first
+export const validateBackup = (data: any): string[] => {
+  const errors: string[] = [];
+
+  if (data?.version !== CURRENT_BACKUP_VERSION) {
+    errors.push(`Unsupported backup version ${data?.version}`);
+  }
+  if (!Array.isArray(data?.portfolios)) {
+    errors.push('Backup has no portfolios list');
+  } else {
+    data.portfolios.forEach((entry: any, index: number) => errors.push(...validatePortfolio(entry, index)));
+    const ids = data.portfolios.map((entry: any) => entry?.portfolio?.id);
+    if (new Set(ids).size !== ids.length) errors.push('Portfolio ids must be unique');
+  }
+
+  if (!Array.isArray(data?.alerts)) {
+    errors.push('Alerts must be a list');
+  } else {
+    data.alerts.forEach((alert: any, i: number) => {
+      if (!isString(alert?.assetSymbol)) errors.push(`Alert ${i + 1}: missing symbol`);
+      if (!ALERT_TYPES.includes(alert?.alertType)) errors.push(`Alert ${i + 1}: unknown type "${alert?.alertType}"`);
+      if (!isNumber(alert?.targetPrice)) errors.push(`Alert ${i + 1}: targetPrice must be a number`);
+    });
+  }
+
+  if (typeof data?.settings !== 'object' || data.settings === null) {
+    errors.push('Settings must be an object');
+  } else if (data.settings.language !== undefined && !isString(data.settings.language)) {
+    errors.push('Settings: language must be a string');
+  }
+
+  if (!Array.isArray(data?.importPresets)) {
+    errors.push('Import presets must be a list');
+  }
+
+  return errors;
+};
+
+export interface ParsedBackup {
+  backup: PortfolioBackup | null;
+  migratedFrom: number | null;
+  errors: string[];
+}
+
+export const parseBackup = (text: string): ParsedBackup => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { backup: null, migratedFrom: null, errors: ['File is not valid JSON'] };
+  }
+
+  if (getBackupVersion(raw) > CURRENT_BACKUP_VERSION) {
+    return {
+      backup: null,
+      migratedFrom: null,
+      errors: [`Backup version ${raw.version} is newer than this app supports; please update the app`],
+    };
+  }
+
+  try {
+    const { data, migratedFrom } = migrateBackup(raw);
+    const errors = validateBackup(data);
+    return { backup: errors.length === 0 ? (data as PortfolioBackup) : null, migratedFrom, errors };
+  } catch (error) {
+    return { backup: null, migratedFrom: null, errors: [(error as Error).message] };
+  }
+};
+
+// Restoring as a copy needs fresh ids throughout, with corrections still pointing at their originals.
+// Transaction ids keep their ending, which is how opening balances are told apart.
+export const copyBackupPortfolio = (entry: BackupPortfolio, portfolioId: string, name: string): BackupPortfolio => {
+  const suffix = Date.now().toString(36);
+  const txIds = new Map(entry.transactions.map(tx => [tx.id, `${suffix}-${tx.id}`]));
+
+  return {
+    portfolio: {
+      ...entry.portfolio,
+      id: portfolioId,
+      name,
+      assets: entry.portfolio.assets.map(asset => ({ ...asset, id: `${asset.id}-${suffix}` })),
+    },
+    transactions: entry.transactions.map((tx): Transaction => ({
+      ...tx,
+      id: txIds.get(tx.id) as string,
+      portfolioId,
+      supersedes: tx.supersedes ? txIds.get(tx.supersedes) ?? tx.supersedes : undefined,
+    })),
+    snapshots: entry.snapshots.map((snapshot): PortfolioSnapshot => ({
+      ...snapshot,
+      id: `${snapshot.id}-${suffix}`,
+      portfolioId,
+    })),
+  };
+};
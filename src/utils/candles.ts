@@ -0,0 +1,130 @@
+import { Candle, CandleInterval, ChartData, FxRateTable } from '../types';
+import { getFxRate } from './currency';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const INTERVAL_MS: Record<CandleInterval, number> = {
+  '1m': MINUTE_MS,
+  '5m': 5 * MINUTE_MS,
+  '1h': 60 * MINUTE_MS,
+  '1d': DAY_MS,
+  '1w': 7 * DAY_MS,
+};
+
+// The epoch fell on a Thursday; weekly bars open on Mondays
+const WEEK_OFFSET_MS = 4 * DAY_MS;
+
+export type TimeRange = [number, number];
+
+// Start of the bar that contains `time`, in UTC
+export const alignToInterval = (time: number, interval: CandleInterval): number => {
+  const size = INTERVAL_MS[interval];
+  const offset = interval === '1w' ? WEEK_OFFSET_MS : 0;
+  return Math.floor((time - offset) / size) * size + offset;
+};
+
+// Sorted, with touching or overlapping ranges joined
+export const mergeRanges = (ranges: TimeRange[]): TimeRange[] => {
+  const sorted = [...ranges].filter(([from, to]) => to > from).sort((a, b) => a[0] - b[0]);
+  return sorted.reduce<TimeRange[]>((merged, [from, to]) => {
+    const last = merged[merged.length - 1];
+    if (last && from <= last[1]) {
+      last[1] = Math.max(last[1], to);
+    } else {
+      merged.push([from, to]);
+    }
+    return merged;
+  }, []);
+};
+
+// The parts of [from, to) that none of the ranges cover
+export const missingRanges = (covered: TimeRange[], from: number, to: number): TimeRange[] => {
+  const gaps: TimeRange[] = [];
+  let cursor = from;
+  mergeRanges(covered).forEach(([start, end]) => {
+    if (end <= cursor || start >= to) return;
+    if (start > cursor) gaps.push([cursor, start]);
+    cursor = Math.max(cursor, end);
+  });
+  if (cursor < to) gaps.push([cursor, to]);
+  return gaps;
+};
+
+// Newer bars replace older copies of the same bar
+export const mergeCandles = (existing: Candle[], incoming: Candle[]): Candle[] => {
+  const byTime = new Map<number, Candle>();
+  existing.forEach(candle => byTime.set(new Date(candle.timestamp).getTime(), candle));
+  incoming.forEach(candle => byTime.set(new Date(candle.timestamp).getTime(), candle));
+  return Array.from(byTime.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([, candle]) => candle);
+};
+
+// Rolls finer bars up into `interval` bars, e.g. hourly into daily
+export const aggregateCandles = (candles: Candle[], interval: CandleInterval): Candle[] => {
+  const buckets = new Map<number, Candle>();
+  candles.forEach(candle => {
+    const start = alignToInterval(new Date(candle.timestamp).getTime(), interval);
+    const bucket = buckets.get(start);
+    if (!bucket) {
+      buckets.set(start, { ...candle, timestamp: new Date(start).toISOString() });
+    } else {
+      bucket.high = Math.max(bucket.high, candle.high);
+      bucket.low = Math.min(bucket.low, candle.low);
+      bucket.close = candle.close;
+      bucket.volume += candle.volume;
+    }
+  });
+  return Array.from(buckets.values());
+};
+
+// Closing prices as a line chart series
+export const candlesToChartData = (candles: Candle[]): ChartData => {
+  const data = candles.map(candle => ({
+    timestamp: candle.timestamp,
+    value: candle.close,
+    label: new Date(candle.timestamp).toLocaleDateString(),
+  }));
+  const values = data.map(point => point.value);
+  return {
+    data,
+    min: values.length > 0 ? Math.min(...values) : 0,
+    max: values.length > 0 ? Math.max(...values) : 0,
+  };
+};
+
+export interface CandleHolding {
+  quantity: number;
+  currency: string;
+  // Used before the first bar, and throughout for holdings with no bars
+  price: number;
+  candles: Candle[];
+}
+
+// Value of the holdings at every bar time, in the base currency. Each holding
+// is carried at its latest close at or before that time.
+export const valueCurveFromCandles = (
+  holdings: CandleHolding[],
+  baseCurrency: string,
+  rates: FxRateTable
+): { timestamp: string; value: number }[] => {
+  const times = Array.from(new Set(
+    holdings.flatMap(holding => holding.candles.map(candle => new Date(candle.timestamp).getTime()))
+  )).sort((a, b) => a - b);
+
+  const positions = holdings.map(() => -1);
+  return times.map(time => {
+    const value = holdings.reduce((total, holding, i) => {
+      while (
+        positions[i] + 1 < holding.candles.length
+        && new Date(holding.candles[positions[i] + 1].timestamp).getTime() <= time
+      ) {
+        positions[i] += 1;
+      }
+      const price = positions[i] >= 0 ? holding.candles[positions[i]].close : holding.price;
+      return total + holding.quantity * price * getFxRate(holding.currency, baseCurrency, rates);
+    }, 0);
+    return { timestamp: new Date(time).toISOString(), value };
+  });
+};
@@ -0,0 +1,415 @@
+import {
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvImportField,
+  CsvImportPreset,
+  CsvImportPreview,
+  CsvImportRow,
+  Transaction,
+  TransactionType,
+} from '../types';
+import { getEffectiveTransactions } from './ledger';
+
+type ImportedTransaction = NonNullable<CsvImportRow['transaction']>;
+
+export const CSV_IMPORT_FIELDS: { field: CsvImportField; label: string; required: boolean }[] = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'ticker', label: 'Symbol', required: true },
+  { field: 'type', label: 'Type', required: false },
+  { field: 'quantity', label: 'Quantity', required: true },
+  { field: 'price', label: 'Price', required: false },
+  { field: 'amount', label: 'Amount', required: false },
+  { field: 'fees', label: 'Fees', required: false },
+  { field: 'currency', label: 'Currency', required: false },
+  { field: 'note', label: 'Note', required: false },
+];
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY', 'DD-MM-YYYY'];
+
+const DEFAULT_TYPE_ALIASES: Record<string, TransactionType> = {
+  buy: 'buy',
+  bought: 'buy',
+  sell: 'sell',
+  sold: 'sell',
+  dividend: 'dividend',
+  div: 'dividend',
+  fee: 'fee',
+  split: 'split',
+};
+
+export const BROKER_PRESETS: CsvImportPreset[] = [
+  {
+    id: 'generic',
+    name: 'Generic',
+    mapping: {
+      date: 'Date',
+      type: 'Type',
+      ticker: 'Symbol',
+      quantity: 'Quantity',
+      price: 'Price',
+      amount: 'Amount',
+      fees: 'Fees',
+      currency: 'Currency',
+      note: 'Note',
+    },
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: '.',
+    typeAliases: DEFAULT_TYPE_ALIASES,
+    builtIn: true,
+  },
+  {
+    id: 'generic-eu',
+    name: 'Generic (European)',
+    delimiter: ';',
+    mapping: {
+      date: 'Date',
+      type: 'Type',
+      ticker: 'Symbol',
+      quantity: 'Quantity',
+      price: 'Price',
+      amount: 'Amount',
+      fees: 'Fees',
+      currency: 'Currency',
+      note: 'Note',
+    },
+    dateFormat: 'DD.MM.YYYY',
+    decimalSeparator: ',',
+    typeAliases: { ...DEFAULT_TYPE_ALIASES, kauf: 'buy', verkauf: 'sell', alış: 'buy', satış: 'sell' },
+    builtIn: true,
+  },
+  {
+    // Trades report: sells have a negative quantity and there is no type column
+    id: 'ibkr',
+    name: 'Interactive Brokers',
+    mapping: {
+      date: 'Date/Time',
+      ticker: 'Symbol',
+      quantity: 'Quantity',
+      price: 'T. Price',
+      fees: 'Comm/Fee',
+      currency: 'Currency',
+    },
+    dateFormat: 'YYYY-MM-DD',
+    decimalSeparator: '.',
+    typeAliases: DEFAULT_TYPE_ALIASES,
+    builtIn: true,
+  },
+  {
+    id: 'robinhood',
+    name: 'Robinhood',
+    mapping: {
+      date: 'Activity Date',
+      type: 'Trans Code',
+      ticker: 'Instrument',
+      quantity: 'Quantity',
+      price: 'Price',
+      amount: 'Amount',
+      note: 'Description',
+    },
+    dateFormat: 'MM/DD/YYYY',
+    decimalSeparator: '.',
+    typeAliases: { ...DEFAULT_TYPE_ALIASES, cdiv: 'dividend', mdiv: 'dividend', afee: 'fee' },
+    builtIn: true,
+  },
+  {
+    // Actions read like "YOU BOUGHT APPLE INC (AAPL) (Cash)", so aliases match by prefix
+    id: 'fidelity',
+    name: 'Fidelity',
+    mapping: {
+      date: 'Run Date',
+      type: 'Action',
+      ticker: 'Symbol',
+      quantity: 'Quantity',
+      price: 'Price ($)',
+      amount: 'Amount ($)',
+      fees: 'Commission ($)',
+      note: 'Security Description',
+    },
+    dateFormat: 'MM/DD/YYYY',
+    decimalSeparator: '.',
+    typeAliases: {
+      ...DEFAULT_TYPE_ALIASES,
+      'you bought': 'buy',
+      'you sold': 'sell',
+      'dividend received': 'dividend',
+      'reinvestment': 'buy',
+    },
+    builtIn: true,
+  },
+];
+
+// Tabs win, then semicolons (common where comma is the decimal separator), then commas
+export const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/).find(line => line.trim().length > 0) || '';
+  const counts = ['\t', ';', ','].map(delimiter => ({
+    delimiter,
+    count: header.split(delimiter).length - 1,
+  }));
+  const best = counts.find(c => c.count > 0 && c.count === Math.max(...counts.map(x => x.count)));
+  return best?.delimiter || ',';
+};
+
+// RFC 4180-style parsing: quoted fields may contain delimiters, newlines and "" escapes
+export const parseDelimited = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      if (row.some(cell => cell.length > 0)) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field.trim());
+  if (row.some(cell => cell.length > 0)) rows.push(row);
+  return rows;
+};
+
+// Handles currency symbols, thousands separators and accounting-style (negatives)
+export const parseLocaleNumber = (value: string, decimalSeparator: '.' | ','): number | null => {
+  let text = value.trim();
+  if (!text) return null;
+
+  const negative = /^\(.*\)$/.test(text) || text.includes('-');
+  text = text.replace(/[^0-9.,]/g, '');
+  if (!text) return null;
+
+  const thousands = decimalSeparator === '.' ? ',' : '.';
+  text = text.split(thousands).join('');
+  if (decimalSeparator === ',') text = text.replace(',', '.');
+
+  const number = Number(text);
+  if (!isFinite(number)) return null;
+  return negative ? -number : number;
+};
+
+// Returns an ISO timestamp, or null when the value doesn't fit the format.
+// Anything after the date (e.g. ", 10:31:22") is ignored.
+export const parseLocaleDate = (value: string, format: CsvDateFormat): string | null => {
+  const match = value.trim().match(/^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/);
+  if (!match) return null;
+
+  const [, a, b, c] = match.map(Number);
+  let year: number;
+  let month: number;
+  let day: number;
+  switch (format) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = [a, b, c];
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = [a, b, c];
+      break;
+    default:
+      [day, month, year] = [a, b, c];
+  }
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day, 12));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString();
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const HEADER_HINTS: Record<CsvImportField, string[]> = {
+  date: ['date', 'tradedate', 'activitydate', 'rundate', 'datetime', 'settlementdate'],
+  type: ['type', 'action', 'transcode', 'side', 'transactiontype'],
+  ticker: ['symbol', 'ticker', 'instrument', 'code'],
+  quantity: ['quantity', 'qty', 'shares', 'units'],
+  price: ['price', 'tprice', 'unitprice', 'priceusd'],
+  amount: ['amount', 'total', 'netamount', 'amountusd', 'proceeds'],
+  fees: ['fees', 'fee', 'commission', 'commfee', 'commissionusd'],
+  currency: ['currency', 'ccy'],
+  note: ['note', 'notes', 'description', 'memo'],
+};
+
+// Fills in the columns a preset doesn't name, by matching header names
+export const guessMapping = (headers: string[], mapping: CsvColumnMapping = {}): CsvColumnMapping => {
+  const result: CsvColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  (Object.keys(HEADER_HINTS) as CsvImportField[]).forEach(field => {
+    const preferred = mapping[field];
+    if (preferred && headers.includes(preferred)) {
+      result[field] = preferred;
+      return;
+    }
+    const index = normalized.findIndex(header => HEADER_HINTS[field].includes(header));
+    if (index >= 0) result[field] = headers[index];
+  });
+
+  return result;
+};
+
+const resolveType = (value: string, aliases: Record<string, TransactionType>): TransactionType | null => {
+  const key = value.trim().toLowerCase();
+  if (!key) return null;
+  if (aliases[key]) return aliases[key];
+  const prefix = Object.keys(aliases).find(alias => key.startsWith(alias));
+  return prefix ? aliases[prefix] : null;
+};
+
+// Same day, ticker, type, quantity and price counts as the same trade
+const dedupeKey = (tx: Pick<Transaction, 'ticker' | 'type' | 'date' | 'quantity' | 'price' | 'amount'>) =>
+  [
+    tx.ticker.toUpperCase(),
+    tx.type,
+    tx.date.split('T')[0],
+    tx.quantity.toFixed(8),
+    tx.price.toFixed(6),
+    (tx.amount ?? 0).toFixed(2),
+  ].join('|');
+
+const parseRow = (
+  line: number,
+  cells: string[],
+  headers: string[],
+  mapping: CsvColumnMapping,
+  preset: CsvImportPreset
+): CsvImportRow => {
+  const errors: string[] = [];
+  const cell = (field: CsvImportField) => {
+    const column = mapping[field];
+    if (!column) return '';
+    const index = headers.indexOf(column);
+    return index >= 0 ? cells[index] || '' : '';
+  };
+  const number = (field: CsvImportField) => {
+    const raw = cell(field);
+    const parsed = parseLocaleNumber(raw, preset.decimalSeparator);
+    if (raw && parsed === null) errors.push(`Invalid ${field} "${raw}"`);
+    return parsed;
+  };
+
+  const ticker = cell('ticker').toUpperCase();
+  if (!ticker) errors.push('Missing symbol');
+
+  const rawDate = cell('date');
+  const date = parseLocaleDate(rawDate, preset.dateFormat);
+  if (!date) errors.push(rawDate ? `Date "${rawDate}" doesn't match ${preset.dateFormat}` : 'Missing date');
+
+  const quantity = number('quantity');
+  const price = number('price');
+  const amount = number('amount');
+  const fees = number('fees');
+
+  // Without a type column the sign of the quantity tells buys from sells
+  const rawType = cell('type');
+  let type: TransactionType | null = rawType ? resolveType(rawType, preset.typeAliases) : null;
+  if (rawType && !type) errors.push(`Unknown transaction type "${rawType}"`);
+  if (!rawType && quantity !== null) type = quantity < 0 ? 'sell' : 'buy';
+  if (!rawType && quantity === null) errors.push('Missing type and quantity');
+
+  const absQuantity = Math.abs(quantity ?? 0);
+  const absAmount = amount === null ? undefined : Math.abs(amount);
+  let unitPrice = price === null ? null : Math.abs(price);
+  if (unitPrice === null && absAmount !== undefined && absQuantity > 0) {
+    unitPrice = absAmount / absQuantity;
+  }
+
+  if (type === 'buy' || type === 'sell') {
+    if (absQuantity <= 0) errors.push('Quantity must be greater than zero');
+    if (unitPrice === null || unitPrice <= 0) errors.push('Missing price');
+  }
+  if ((type === 'dividend' || type === 'fee') && absAmount === undefined && (absQuantity <= 0 || unitPrice === null)) {
+    errors.push('Missing amount');
+  }
+  if (type === 'split' && absQuantity <= 0) errors.push('Split ratio (quantity) must be greater than zero');
+
+  if (errors.length > 0 || !type || !date) {
+    return { line, raw: cells, errors };
+  }
+
+  const currency = cell('currency').toUpperCase();
+  const note = cell('note');
+  const transaction: ImportedTransaction = {
+    ticker,
+    type,
+    quantity: type === 'split' ? 0 : absQuantity,
+    price: unitPrice ?? 0,
+    date,
+    ...(type === 'dividend' || type === 'fee' ? { amount: absAmount ?? absQuantity * (unitPrice ?? 0) } : {}),
+    ...(type === 'split' ? { splitRatio: absQuantity } : {}),
+    ...(fees ? { fees: Math.abs(fees) } : {}),
+    ...(currency ? { currency } : {}),
+    ...(note ? { note } : {}),
+  };
+
+  return { line, raw: cells, transaction, errors };
+};
+
+/**
+ * Dry run of an import: parses every row, reports per-row errors and marks
+ * rows that repeat an existing transaction. Identical rows within the file
+ * are separate trades, so each existing transaction matches one row at most.
+ * Nothing is written.
+ */
+export const buildImportPreview = (
+  text: string,
+  preset: CsvImportPreset,
+  mapping: CsvColumnMapping,
+  existing: Transaction[]
+): CsvImportPreview => {
+  const table = parseDelimited(text, preset.delimiter || detectDelimiter(text));
+  const [headers = [], ...body] = table;
+
+  const missing = CSV_IMPORT_FIELDS.filter(f => f.required && !mapping[f.field]);
+  const unmatched = new Map<string, string[]>();
+  getEffectiveTransactions(existing).forEach(tx => {
+    const key = dedupeKey(tx);
+    unmatched.set(key, [...(unmatched.get(key) || []), tx.id]);
+  });
+
+  const rows = body.map((cells, index) => {
+    // Line numbers match the file, counting the header as line 1
+    const line = index + 2;
+    if (missing.length > 0) {
+      return { line, raw: cells, errors: [`Map a column for ${missing.map(f => f.label).join(', ')}`] };
+    }
+
+    const row = parseRow(line, cells, headers, mapping, preset);
+    if (row.transaction) {
+      const duplicateOf = unmatched.get(dedupeKey(row.transaction))?.shift();
+      if (duplicateOf) row.duplicateOf = duplicateOf;
+    }
+    return row;
+  });
+
+  return {
+    headers,
+    rows,
+    validCount: rows.filter(r => r.transaction && !r.duplicateOf).length,
+    errorCount: rows.filter(r => r.errors.length > 0).length,
+    duplicateCount: rows.filter(r => r.duplicateOf).length,
+  };
+};
@@ -0,0 +1,51 @@
+import { FxRateTable } from '../types';
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'TRY', 'JPY', 'CHF', 'CAD', 'AUD'];
+
+// Fallback table (USD per unit) used until the first successful rate fetch
+export const DEFAULT_FX_RATES: FxRateTable = {
+  USD: 1,
+  EUR: 1.08,
+  GBP: 1.27,
+  TRY: 0.031,
+  JPY: 0.0067,
+  CHF: 1.12,
+  CAD: 0.74,
+  AUD: 0.66,
+};
+
+// Rates are quoted against USD, so any pair is a cross through it
+export const getFxRate = (from: string, to: string, rates: FxRateTable): number => {
+  if (from === to) return 1;
+  const fromUsd = rates[from] ?? DEFAULT_FX_RATES[from];
+  const toUsd = rates[to] ?? DEFAULT_FX_RATES[to];
+  if (!fromUsd || !toUsd) return 1;
+  return fromUsd / toUsd;
+};
+
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: FxRateTable
+): number => amount * getFxRate(from, to, rates);
+
+export const formatMoney = (
+  amount: number,
+  currency: string = DEFAULT_CURRENCY,
+  fractionDigits?: number
+): string => {
+  try {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+    }).format(amount);
+  } catch {
+    // Tickers like USDT are not ISO codes
+    return `${amount.toFixed(fractionDigits ?? 2)} ${currency}`;
+  }
+};
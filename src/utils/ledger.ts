@@ -0,0 +1,365 @@
+import {
+  Asset,
+  CostBasisMethod,
+  FxRateTable,
+  HoldingPosition,
+  Lot,
+  RealizedLot,
+  Transaction,
+} from '../types';
+import { DEFAULT_CURRENCY, DEFAULT_FX_RATES, getFxRate } from './currency';
+
+const EPSILON = 1e-9;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LONG_TERM_DAYS = 365;
+
+export const COST_BASIS_METHODS: { value: CostBasisMethod; label: string }[] = [
+  { value: 'fifo', label: 'FIFO' },
+  { value: 'lifo', label: 'LIFO' },
+  { value: 'hifo', label: 'Highest cost (HIFO)' },
+  { value: 'average', label: 'Average cost' },
+  { value: 'specific', label: 'Specific lots' },
+];
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = 'fifo';
+
+export const getCostBasisLabel = (method: CostBasisMethod): string =>
+  COST_BASIS_METHODS.find(m => m.value === method)?.label || method;
+
+// Held more than a year counts as long-term
+export const getHoldingTerm = (acquiredAt: string, disposedAt: string): 'short' | 'long' => {
+  const held = (new Date(disposedAt).getTime() - new Date(acquiredAt).getTime()) / DAY_MS;
+  return held > LONG_TERM_DAYS ? 'long' : 'short';
+};
+
+// Order in which open lots are consumed by a sale
+const orderLots = (lots: Lot[], method: CostBasisMethod): Lot[] => {
+  const byAcquired = (a: Lot, b: Lot) =>
+    new Date(a.acquiredAt).getTime() - new Date(b.acquiredAt).getTime();
+
+  switch (method) {
+    case 'lifo':
+      return [...lots].sort((a, b) => byAcquired(b, a));
+    case 'hifo':
+      return [...lots].sort((a, b) => b.costPerUnit - a.costPerUnit || byAcquired(a, b));
+    default:
+      return [...lots].sort(byAcquired);
+  }
+};
+
+// Work out how much of each lot a sale closes
+const pickLots = (
+  lots: Lot[],
+  sold: number,
+  method: CostBasisMethod,
+  tx: Transaction
+): Map<string, number> => {
+  const picks = new Map<string, number>();
+
+  if (method === 'average') {
+    const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    lots.forEach(lot => picks.set(lot.id, lot.quantity * (sold / held)));
+    return picks;
+  }
+
+  let remaining = sold;
+
+  if (method === 'specific' && tx.lotSelections) {
+    tx.lotSelections.forEach(selection => {
+      const lot = lots.find(l => l.id === selection.lotId);
+      if (!lot || remaining <= EPSILON) return;
+      const available = lot.quantity - (picks.get(lot.id) || 0);
+      const take = Math.min(selection.quantity, available, remaining);
+      if (take <= 0) return;
+      picks.set(lot.id, (picks.get(lot.id) || 0) + take);
+      remaining -= take;
+    });
+  }
+
+  // Anything not covered by a lot selection falls back to FIFO
+  orderLots(lots, method).forEach(lot => {
+    if (remaining <= EPSILON) return;
+    const available = lot.quantity - (picks.get(lot.id) || 0);
+    const take = Math.min(available, remaining);
+    if (take <= 0) return;
+    picks.set(lot.id, (picks.get(lot.id) || 0) + take);
+    remaining -= take;
+  });
+
+  return picks;
+};
+
+// Transactions that are still in force: anything superseded by a later
+// correction or void is kept for the audit trail but ignored here.
+export const getEffectiveTransactions = (transactions: Transaction[]): Transaction[] => {
+  const superseded = new Set(
+    transactions
+      .filter(tx => tx.supersedes)
+      .map(tx => tx.supersedes as string)
+  );
+
+  return transactions
+    .filter(tx => tx.type !== 'void' && !superseded.has(tx.id))
+    .sort((a, b) => {
+      const byDate = new Date(a.date).getTime() - new Date(b.date).getTime();
+      return byDate !== 0 ? byDate : a.createdAt.localeCompare(b.createdAt);
+    });
+};
+
+// Base-currency units per unit of the trade currency, as of the trade
+export type TradeRateResolver = (tx: Transaction) => number;
+
+const tradeRateOf: TradeRateResolver = tx => tx.fxRate ?? 1;
+
+// Replay a holding's ledger into its current position
+export const derivePosition = (
+  transactions: Transaction[],
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+  tradeRate: TradeRateResolver = tradeRateOf
+): HoldingPosition => {
+  let lots: Lot[] = [];
+  const realizedLots: RealizedLot[] = [];
+  let realizedPnL = 0;
+  let realizedPnLBase = 0;
+  let dividends = 0;
+  let fees = 0;
+
+  getEffectiveTransactions(transactions).forEach(tx => {
+    switch (tx.type) {
+      case 'buy': {
+        const txFees = tx.fees || 0;
+        fees += txFees;
+        lots.push({
+          id: tx.id,
+          quantity: tx.quantity,
+          costPerUnit: tx.quantity > 0 ? (tx.quantity * tx.price + txFees) / tx.quantity : 0,
+          fxRate: tradeRate(tx),
+          acquiredAt: tx.date,
+        });
+        break;
+      }
+      case 'sell': {
+        const held = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+        const sold = Math.min(tx.quantity, held);
+        if (sold <= 0) break;
+
+        const txFees = tx.fees || 0;
+        fees += txFees;
+
+        const picks = pickLots(lots, sold, method, tx);
+        const saleRate = tradeRate(tx);
+        lots.forEach(lot => {
+          const quantity = picks.get(lot.id) || 0;
+          if (quantity <= EPSILON || tx.adjustment) return;
+
+          // Sale fees are shared across the closed lots by quantity
+          const costBasis = quantity * lot.costPerUnit;
+          const proceeds = quantity * tx.price - txFees * (quantity / sold);
+          const gain = proceeds - costBasis;
+          const gainBase = proceeds * saleRate - costBasis * lot.fxRate;
+          realizedPnL += gain;
+          realizedPnLBase += gainBase;
+          realizedLots.push({
+            lotId: lot.id,
+            sellId: tx.id,
+            quantity,
+            costBasis,
+            proceeds,
+            gain,
+            gainBase,
+            acquiredAt: lot.acquiredAt,
+            disposedAt: tx.date,
+            term: getHoldingTerm(lot.acquiredAt, tx.date),
+          });
+        });
+
+        lots = lots
+          .map(lot => ({ ...lot, quantity: lot.quantity - (picks.get(lot.id) || 0) }))
+          .filter(lot => lot.quantity > EPSILON);
+        break;
+      }
+      case 'dividend':
+        dividends += tx.amount ?? tx.quantity * tx.price;
+        break;
+      case 'split': {
+        const ratio = tx.splitRatio || 1;
+        lots = lots.map(lot => ({
+          ...lot,
+          quantity: lot.quantity * ratio,
+          costPerUnit: lot.costPerUnit / ratio,
+        }));
+        break;
+      }
+      case 'fee':
+        fees += tx.amount ?? 0;
+        realizedPnL -= tx.amount ?? 0;
+        realizedPnLBase -= (tx.amount ?? 0) * tradeRate(tx);
+        break;
+    }
+  });
+
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const costBasis = lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerUnit, 0);
+  const costBasisBase = lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerUnit * lot.fxRate, 0);
+  const termGain = (term: RealizedLot['term']) =>
+    realizedLots.filter(lot => lot.term === term).reduce((sum, lot) => sum + lot.gain, 0);
+
+  return {
+    quantity,
+    costBasis,
+    costBasisBase,
+    averagePrice: quantity > EPSILON ? costBasis / quantity : 0,
+    realizedPnL,
+    realizedPnLBase,
+    shortTermGain: termGain('short'),
+    longTermGain: termGain('long'),
+    dividends,
+    fees,
+    lots,
+    realizedLots,
+  };
+};
+
+// Recompute the derived numbers on a holding from its ledger
+export const applyPosition = (
+  asset: Asset,
+  transactions: Transaction[],
+  method: CostBasisMethod = DEFAULT_COST_BASIS_METHOD,
+  tradeRate: TradeRateResolver = tradeRateOf
+): Asset => {
+  const position = derivePosition(transactions, method, tradeRate);
+
+  return {
+    ...asset,
+    quantity: position.quantity,
+    averagePrice: position.quantity > EPSILON ? position.averagePrice : asset.averagePrice,
+    costBasis: position.costBasis,
+    costBasisBase: position.costBasisBase,
+    realizedPnL: position.realizedPnL,
+    realizedPnLBase: position.realizedPnLBase,
+    shortTermGain: position.shortTermGain,
+    longTermGain: position.longTermGain,
+    dividendIncome: position.dividends,
+    totalValue: position.quantity * asset.currentPrice,
+  };
+};
+
+export interface HoldingPnL {
+  valueBase: number;
+  costBasis: number;
+  costBasisBase: number;
+  unrealizedLocal: number;
+  unrealizedBase: number;
+  priceGainBase: number;
+  fxGainBase: number;
+  realizedBase: number;
+}
+
+// A holding's P&L in its own currency and in the portfolio's base currency.
+// Price gain is the local gain at today's rate; FX gain is what the rate move
+// since purchase did to the cost basis.
+export const getHoldingPnL = (
+  asset: Asset,
+  baseCurrency: string = DEFAULT_CURRENCY,
+  rates: FxRateTable = DEFAULT_FX_RATES
+): HoldingPnL => {
+  const rate = getFxRate(asset.currency || DEFAULT_CURRENCY, baseCurrency, rates);
+  const costBasis = asset.costBasis ?? asset.quantity * (asset.averagePrice || asset.currentPrice);
+  const costBasisBase = asset.costBasisBase ?? costBasis * rate;
+  const unrealizedLocal = asset.totalValue - costBasis;
+  const valueBase = asset.totalValue * rate;
+
+  return {
+    valueBase,
+    costBasis,
+    costBasisBase,
+    unrealizedLocal,
+    unrealizedBase: valueBase - costBasisBase,
+    priceGainBase: unrealizedLocal * rate,
+    fxGainBase: costBasis * rate - costBasisBase,
+    realizedBase: asset.realizedPnLBase ?? (asset.realizedPnL || 0) * rate,
+  };
+};
+
+export interface PnLSummary {
+  totalValue: number;
+  costBasis: number;
+  unrealizedPnL: number;
+  unrealizedPercent: number;
+  priceGain: number;
+  fxGain: number;
+  realizedPnL: number;
+  shortTermGain: number;
+  longTermGain: number;
+  dividends: number;
+}
+
+// Portfolio-level roll-up, in the base currency
+export const summarizePnL = (
+  assets: Asset[],
+  baseCurrency: string = DEFAULT_CURRENCY,
+  rates: FxRateTable = DEFAULT_FX_RATES
+): PnLSummary => {
+  const summary = assets.reduce(
+    (acc, asset) => {
+      const rate = getFxRate(asset.currency || DEFAULT_CURRENCY, baseCurrency, rates);
+      const holding = getHoldingPnL(asset, baseCurrency, rates);
+      acc.totalValue += holding.valueBase;
+      acc.costBasis += holding.costBasisBase;
+      acc.priceGain += holding.priceGainBase;
+      acc.fxGain += holding.fxGainBase;
+      acc.realizedPnL += holding.realizedBase;
+      acc.shortTermGain += (asset.shortTermGain || 0) * rate;
+      acc.longTermGain += (asset.longTermGain || 0) * rate;
+      acc.dividends += (asset.dividendIncome || 0) * rate;
+      return acc;
+    },
+    {
+      totalValue: 0,
+      costBasis: 0,
+      unrealizedPnL: 0,
+      unrealizedPercent: 0,
+      priceGain: 0,
+      fxGain: 0,
+      realizedPnL: 0,
+      shortTermGain: 0,
+      longTermGain: 0,
+      dividends: 0,
+    }
+  );
+
+  summary.unrealizedPnL = summary.totalValue - summary.costBasis;
+  summary.unrealizedPercent = summary.costBasis > 0 ? (summary.unrealizedPnL / summary.costBasis) * 100 : 0;
+  return summary;
+};
+
+const OPENING_SUFFIX = '-opening';
+
+// Opening balance for holdings that predate the ledger
+export const createOpeningTransaction = (asset: Asset, portfolioId: string): Transaction => {
+  const now = new Date().toISOString();
+  return {
+    id: `tx-${asset.id}${OPENING_SUFFIX}`,
+    portfolioId,
+    ticker: asset.ticker,
+    type: 'buy',
+    quantity: asset.quantity,
+    price: asset.averagePrice || asset.currentPrice,
+    currency: asset.currency,
+    date: now,
+    createdAt: now,
+    note: 'Opening balance',
+  };
+};
+
+// Ids of opening balances and the corrections made to them. When that money
+// went in isn't known, so it's a starting position rather than a deposit.
+export const getOpeningTransactionIds = (transactions: Transaction[]): Set<string> => {
+  const ids = new Set<string>();
+  [...transactions]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .forEach(tx => {
+      if (tx.id.endsWith(OPENING_SUFFIX) || (tx.supersedes && ids.has(tx.supersedes))) ids.add(tx.id);
+    });
+  return ids;
+};
@@ -39,6 +39,22 @@ export const useDebouncedCallback = <T extends (...args: any[]) => any>(
   );
 };
 
+// Abort Signal Hook
+// Each call cancels the request started with the previous signal; unmounting cancels the last one
+export const useAbortSignal = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  return useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+};
+
 // Cache Manager
 class CacheManager {
   private cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
@@ -402,7 +418,87 @@ export const getItemLayout = (itemHeight: number) => (
   index,
 });
 
+// Concurrency and Rate Limiter
+interface LimiterConfig {
+  maxConcurrent: number;
+  // Minimum gap between task starts; 0 only caps concurrency
+  minIntervalMs: number;
+}
+
+interface QueuedTask {
+  start: () => void;
+}
+
+export class ConcurrencyLimiter {
+  private config: LimiterConfig;
+  private active = 0;
+  private lastStartedAt = 0;
+  private queue: QueuedTask[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config?: Partial<LimiterConfig>) {
+    this.config = { maxConcurrent: 6, minIntervalMs: 0, ...config };
+  }
+
+  run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Aborted'));
+        return;
+      }
+
+      const onAbort = () => {
+        this.queue = this.queue.filter(queued => queued !== entry);
+        reject(new Error('Aborted'));
+      };
+
+      const entry: QueuedTask = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.active++;
+          this.lastStartedAt = Date.now();
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.drain();
+            });
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort);
+      this.queue.push(entry);
+      this.drain();
+    });
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  private drain(): void {
+    if (this.timer) return;
+
+    while (this.queue.length > 0 && this.active < this.config.maxConcurrent) {
+      const wait = this.lastStartedAt + this.config.minIntervalMs - Date.now();
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, wait);
+        return;
+      }
+      this.queue.shift()!.start();
+    }
+  }
+}
+
+// Shared by every backend request, so bursts like a full price refresh are spread out
+export const requestLimiter = new ConcurrencyLimiter({ maxConcurrent: 6, minIntervalMs: 20 });
+
 // Batch Processing Utility
+// Backend calls made by the processor still queue on requestLimiter, so a batch larger
+// than its limit is spread out rather than sent at once.
 export const batchProcess = async <T, R>(
   items: T[],
   processor: (item: T) => Promise<R>,
@@ -420,7 +516,7 @@ export const batchProcess = async <T, R>(
     
     // Add delay between batches if specified
     if (delay > 0 && i + batchSize < items.length) {
-      await new Promise(resolve => setTimeout(resolve, delay));
+      await new Promise<void>(resolve => setTimeout(() => resolve(), delay));
     }
   }
   
@@ -0,0 +1,79 @@
+import { PriceBar } from '../types';
+import { parseDelimited, parseLocaleDate, parseLocaleNumber } from './csvImport';
+
+type PriceColumn = 'date' | 'symbol' | 'open' | 'high' | 'low' | 'close' | 'volume';
+
+const COLUMN_HINTS: Record<PriceColumn, string[]> = {
+  date: ['date', 'time', 'timestamp', 'datetime', 'day'],
+  symbol: ['symbol', 'ticker', 'code'],
+  open: ['open'],
+  high: ['high'],
+  low: ['low'],
+  close: ['close', 'adjclose', 'price', 'last'],
+  volume: ['volume', 'vol'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// ISO dates first; anything else Date can read is accepted as is
+const parseBarDate = (value: string): string | null => {
+  const iso = parseLocaleDate(value, 'YYYY-MM-DD');
+  if (iso) return iso;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+// Reads a price history export with one row per symbol per date, e.g.
+// `date,symbol,open,high,low,close,volume`. Bars come back per upper-case
+// symbol in date order; rows that can't be read are listed in `issues`.
+export const parsePriceHistoryCsv = (text: string): { series: Record<string, PriceBar[]>; issues: string[] } => {
+  const table = parseDelimited(text);
+  const issues: string[] = [];
+  if (table.length < 2) {
+    return { series: {}, issues: ['Expected a header row and at least one price'] };
+  }
+
+  const headers = table[0].map(normalizeHeader);
+  const columns = {} as Partial<Record<PriceColumn, number>>;
+  (Object.keys(COLUMN_HINTS) as PriceColumn[]).forEach(column => {
+    const index = headers.findIndex(header => COLUMN_HINTS[column].includes(header));
+    if (index >= 0) columns[column] = index;
+  });
+
+  const missing = (['date', 'symbol', 'close'] as PriceColumn[]).filter(column => columns[column] === undefined);
+  if (missing.length > 0) {
+    return { series: {}, issues: [`Missing column: ${missing.join(', ')}`] };
+  }
+
+  const cell = (row: string[], column: PriceColumn) =>
+    columns[column] === undefined ? '' : row[columns[column]!] || '';
+  const numberAt = (row: string[], column: PriceColumn) => parseLocaleNumber(cell(row, column), '.') ?? undefined;
+
+  const series: Record<string, PriceBar[]> = {};
+  table.slice(1).forEach((row, index) => {
+    const line = index + 2;
+    const date = parseBarDate(cell(row, 'date'));
+    const symbol = cell(row, 'symbol').toUpperCase();
+    const close = numberAt(row, 'close');
+
+    if (!date) {
+      issues.push(`Row ${line}: unreadable date "${cell(row, 'date')}"`);
+    } else if (!symbol) {
+      issues.push(`Row ${line}: missing symbol`);
+    } else if (close === undefined || close <= 0) {
+      issues.push(`Row ${line}: missing or invalid close`);
+    } else {
+      (series[symbol] = series[symbol] || []).push({
+        date,
+        open: numberAt(row, 'open'),
+        high: numberAt(row, 'high'),
+        low: numberAt(row, 'low'),
+        close,
+        volume: numberAt(row, 'volume'),
+      });
+    }
+  });
+
+  Object.values(series).forEach(bars => bars.sort((a, b) => a.date.localeCompare(b.date)));
+  return { series, issues };
+};
@@ -0,0 +1,265 @@
+import { Asset, Portfolio, SyncBaseRecord, SyncConflict, SyncFieldConflict } from '../types';
+
+export const PORTFOLIO_SYNC_FIELDS = ['name', 'baseCurrency', 'costBasisMethod'];
+export const HOLDING_SYNC_FIELDS = ['quantity', 'averagePrice'];
+
+// Bases are keyed by server id, which is only unique within an entity type
+export const syncBaseKey = (entity: 'portfolio' | 'holding', serverId: string) => `${entity}:${serverId}`;
+
+export const pickFields = (record: Record<string, any>, fields: string[]): Record<string, any> =>
+  fields.reduce<Record<string, any>>((picked, field) => {
+    if (record[field] !== undefined) picked[field] = record[field];
+    return picked;
+  }, {});
+
+export const toSyncBase = (record: Record<string, any>, fields: string[]): SyncBaseRecord => ({
+  version: record.version,
+  updatedAt: record.updatedAt,
+  fields: pickFields(record, fields),
+});
+
+// Quantities and prices round-trip through JSON, so compare them with a tolerance
+const sameValue = (a: any, b: any) => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+  }
+  return (a ?? null) === (b ?? null);
+};
+
+// Version stamps win when both sides have them, then timestamps, then the values themselves
+export const hasServerChanged = (
+  base: SyncBaseRecord | undefined,
+  server: Record<string, any>,
+  fields: string[]
+): boolean => {
+  if (!base) return true;
+  if (base.version !== undefined && server.version !== undefined) {
+    return server.version !== base.version;
+  }
+  if (base.updatedAt && server.updatedAt) {
+    return new Date(server.updatedAt).getTime() !== new Date(base.updatedAt).getTime();
+  }
+  return fields.some(field => !sameValue(base.fields[field], server[field]));
+};
+
+export interface FieldMerge {
+  fromServer: Record<string, any>;
+  conflicts: SyncFieldConflict[];
+}
+
+// Three-way merge of one item against the server copy we last saw. A field
+// only one side changed is taken from that side; both sides changing it to
+// different values is a conflict. Without a base we can't tell who changed
+// what, so any difference conflicts if there are local edits in flight.
+export const mergeFields = (
+  base: SyncBaseRecord | undefined,
+  local: Record<string, any>,
+  server: Record<string, any>,
+  fields: string[],
+  hasLocalEdits: boolean
+): FieldMerge => {
+  const merge: FieldMerge = { fromServer: {}, conflicts: [] };
+  if (!hasServerChanged(base, server, fields)) return merge;
+
+  fields.forEach(field => {
+    const localValue = local[field];
+    const serverValue = server[field];
+    if (serverValue === undefined || sameValue(localValue, serverValue)) return;
+
+    if (!base) {
+      if (hasLocalEdits) {
+        merge.conflicts.push({ field, local: localValue, server: serverValue });
+      } else {
+        merge.fromServer[field] = serverValue;
+      }
+      return;
+    }
+
+    const localChanged = !sameValue(localValue, base.fields[field]);
+    const serverChanged = !sameValue(serverValue, base.fields[field]);
+
+    if (serverChanged && localChanged) {
+      merge.conflicts.push({ field, local: localValue, server: serverValue });
+    } else if (serverChanged) {
+      merge.fromServer[field] = serverValue;
+    }
+  });
+
+  return merge;
+};
+
+export interface ReconcileInput {
+  local: Portfolio[];
+  server: Portfolio[];
+  bases: Record<string, SyncBaseRecord>;
+  resolveId: (localId: string) => string;
+  hasPendingChanges: (localId: string) => boolean;
+  // Server ids of items deleted here but not yet on the server
+  pendingDeletes: Set<string>;
+}
+
+export interface ReconcilePlan {
+  portfolioChanges: { portfolioId: string; changes: Record<string, any> }[];
+  holdingChanges: { portfolioId: string; holdingId: string; changes: Record<string, any> }[];
+  addedPortfolios: Portfolio[];
+  addedHoldings: { portfolioId: string; asset: Asset }[];
+  removedPortfolios: string[];
+  removedHoldings: { portfolioId: string; holdingId: string }[];
+  conflicts: SyncConflict[];
+  // New bases for every item that merged cleanly; conflicted items keep their old one
+  bases: Record<string, SyncBaseRecord>;
+  // Local ids whose held-back pushes can go out again now the base has moved
+  mergedIds: string[];
+}
+
+export const createEmptyPlan = (): ReconcilePlan => ({
+  portfolioChanges: [],
+  holdingChanges: [],
+  addedPortfolios: [],
+  addedHoldings: [],
+  removedPortfolios: [],
+  removedHoldings: [],
+  conflicts: [],
+  bases: {},
+  mergedIds: [],
+});
+
+const createConflict = (
+  entity: 'portfolio' | 'holding',
+  entityId: string,
+  serverId: string,
+  label: string,
+  server: SyncBaseRecord,
+  fields: SyncFieldConflict[],
+  portfolioId?: string,
+  deletedOnServer?: boolean
+): SyncConflict => ({
+  id: `${entity}:${entityId}`,
+  entity,
+  entityId,
+  serverId,
+  portfolioId,
+  label,
+  fields,
+  deletedOnServer,
+  server,
+  detectedAt: new Date().toISOString(),
+});
+
+const reconcileHoldings = (
+  plan: ReconcilePlan,
+  input: ReconcileInput,
+  localPortfolio: Portfolio,
+  serverPortfolio: Portfolio
+) => {
+  const { bases, resolveId, hasPendingChanges, pendingDeletes } = input;
+  const matched = new Set<string>();
+
+  (serverPortfolio.assets || []).forEach(serverAsset => {
+    const local = localPortfolio.assets.find(asset => resolveId(asset.id) === serverAsset.id)
+      || localPortfolio.assets.find(asset => asset.ticker === serverAsset.ticker && !matched.has(asset.id));
+    const key = syncBaseKey('holding', serverAsset.id);
+    const serverBase = toSyncBase(serverAsset, HOLDING_SYNC_FIELDS);
+
+    if (!local) {
+      if (!pendingDeletes.has(serverAsset.id)) {
+        plan.addedHoldings.push({ portfolioId: localPortfolio.id, asset: serverAsset });
+        plan.bases[key] = serverBase;
+      }
+      return;
+    }
+
+    matched.add(local.id);
+    const merge = mergeFields(bases[key], local, serverAsset, HOLDING_SYNC_FIELDS, hasPendingChanges(local.id));
+    if (merge.conflicts.length > 0) {
+      plan.conflicts.push(createConflict(
+        'holding', local.id, serverAsset.id, `${local.ticker} in ${localPortfolio.name}`,
+        serverBase, merge.conflicts, localPortfolio.id
+      ));
+      return;
+    }
+
+    if (Object.keys(merge.fromServer).length > 0) {
+      plan.holdingChanges.push({ portfolioId: localPortfolio.id, holdingId: local.id, changes: merge.fromServer });
+    }
+    plan.bases[key] = serverBase;
+    plan.mergedIds.push(local.id);
+  });
+
+  // A holding we synced before but the server no longer has was deleted elsewhere
+  localPortfolio.assets
+    .filter(asset => !matched.has(asset.id))
+    .forEach(asset => {
+      const serverId = resolveId(asset.id);
+      const base = bases[syncBaseKey('holding', serverId)];
+      if (!base) return;
+
+      if (hasPendingChanges(asset.id)) {
+        plan.conflicts.push(createConflict(
+          'holding', asset.id, serverId, `${asset.ticker} in ${localPortfolio.name}`,
+          base, [], localPortfolio.id, true
+        ));
+      } else {
+        plan.removedHoldings.push({ portfolioId: localPortfolio.id, holdingId: asset.id });
+      }
+    });
+};
+
+// Compare the server's portfolios with ours and work out what can be merged
+// automatically and what needs a decision
+export const reconcilePortfolios = (input: ReconcileInput): ReconcilePlan => {
+  const { local, server, bases, resolveId, hasPendingChanges, pendingDeletes } = input;
+  const plan = createEmptyPlan();
+  const matched = new Set<string>();
+
+  server.forEach(serverPortfolio => {
+    const localPortfolio = local.find(p => resolveId(p.id) === serverPortfolio.id);
+    const key = syncBaseKey('portfolio', serverPortfolio.id);
+    const serverBase = toSyncBase(serverPortfolio, PORTFOLIO_SYNC_FIELDS);
+
+    if (!localPortfolio) {
+      if (!pendingDeletes.has(serverPortfolio.id)) {
+        plan.addedPortfolios.push(serverPortfolio);
+        plan.bases[key] = serverBase;
+        (serverPortfolio.assets || []).forEach(asset => {
+          plan.bases[syncBaseKey('holding', asset.id)] = toSyncBase(asset, HOLDING_SYNC_FIELDS);
+        });
+      }
+      return;
+    }
+
+    matched.add(localPortfolio.id);
+    const merge = mergeFields(
+      bases[key], localPortfolio, serverPortfolio, PORTFOLIO_SYNC_FIELDS, hasPendingChanges(localPortfolio.id)
+    );
+    if (merge.conflicts.length > 0) {
+      plan.conflicts.push(createConflict(
+        'portfolio', localPortfolio.id, serverPortfolio.id, localPortfolio.name, serverBase, merge.conflicts
+      ));
+    } else {
+      if (Object.keys(merge.fromServer).length > 0) {
+        plan.portfolioChanges.push({ portfolioId: localPortfolio.id, changes: merge.fromServer });
+      }
+      plan.bases[key] = serverBase;
+      plan.mergedIds.push(localPortfolio.id);
+    }
+
+    reconcileHoldings(plan, input, localPortfolio, serverPortfolio);
+  });
+
+  local
+    .filter(portfolio => !matched.has(portfolio.id))
+    .forEach(portfolio => {
+      const serverId = resolveId(portfolio.id);
+      const base = bases[syncBaseKey('portfolio', serverId)];
+      if (!base) return;
+
+      if (hasPendingChanges(portfolio.id)) {
+        plan.conflicts.push(createConflict('portfolio', portfolio.id, serverId, portfolio.name, base, [], undefined, true));
+      } else {
+        plan.removedPortfolios.push(portfolio.id);
+      }
+    });
+
+  return plan;
+};
@@ -0,0 +1,56 @@
+import { RetryPolicy } from '../types';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+// Exponential backoff with full jitter, so clients that failed together don't retry together
+export const computeBackoffDelay = (attempt: number, policy: RetryPolicy): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+// Retry-After is either a number of seconds or an HTTP date
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | null => {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+};
+
+/**
+ * How long to wait before retrying: what the server asked for, or backoff.
+ * Null when the server wants a longer wait than the policy allows, since
+ * holding the request that long is worse than failing it.
+ */
+export const getRetryDelay = (attempt: number, policy: RetryPolicy, retryAfter: number | null): number | null => {
+  if (retryAfter === null) return computeBackoffDelay(attempt, policy);
+  return retryAfter > policy.maxDelayMs ? null : retryAfter;
+};
+
+// Throttled, timed out, or failed on the server side; other 4xx won't change on a retry
+export const isRetryableStatus = (status: number | undefined): boolean =>
+  status === undefined || status === 408 || status === 429 || status >= 500;
+
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
@@ -0,0 +1,187 @@
+import {
+  CashFlow,
+  PerformanceReturns,
+  PerformanceTimeframe,
+  PortfolioSnapshot,
+  Transaction,
+} from '../types';
+import { getEffectiveTransactions, getOpeningTransactionIds, TradeRateResolver } from './ledger';
+
+const EPSILON = 1e-9;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_DAYS = 365;
+
+export const TIMEFRAME_DAYS: Record<Exclude<PerformanceTimeframe, 'ALL'>, number> = {
+  '1D': 1,
+  '1W': 7,
+  '1M': 30,
+  '3M': 90,
+  '6M': 180,
+  '1Y': 365,
+};
+
+export interface ValuePoint {
+  time: number;
+  value: number;
+}
+
+const toTime = (date: Date | string) => new Date(date).getTime();
+
+export const getTimeframeStart = (
+  timeframe: PerformanceTimeframe,
+  snapshots: PortfolioSnapshot[],
+  now: Date = new Date()
+): Date => {
+  if (timeframe === 'ALL') {
+    const earliest = Math.min(...snapshots.map(s => toTime(s.timestamp)), now.getTime());
+    return new Date(earliest);
+  }
+  return new Date(now.getTime() - TIMEFRAME_DAYS[timeframe] * DAY_MS);
+};
+
+// Buys put money in; sells and dividends take it out. Fees and splits stay inside,
+// and opening balances were already held, so they aren't flows either
+export const getCashFlows = (transactions: Transaction[], tradeRate: TradeRateResolver): CashFlow[] => {
+  const openings = getOpeningTransactionIds(transactions);
+  return getEffectiveTransactions(transactions).flatMap(tx => {
+    if (openings.has(tx.id)) return [];
+    const rate = tradeRate(tx);
+    switch (tx.type) {
+      case 'buy':
+        return [{ date: tx.date, amount: (tx.quantity * tx.price + (tx.fees || 0)) * rate }];
+      case 'sell':
+        return [{ date: tx.date, amount: -(tx.quantity * tx.price - (tx.fees || 0)) * rate }];
+      case 'dividend':
+        return [{ date: tx.date, amount: -(tx.amount ?? tx.quantity * tx.price) * rate }];
+      default:
+        return [];
+    }
+  });
+};
+
+// Net flow strictly after `from` and up to and including `to`
+export const sumCashFlows = (flows: CashFlow[], from: number, to: number): number =>
+  flows
+    .filter(flow => toTime(flow.date) > from && toTime(flow.date) <= to)
+    .reduce((sum, flow) => sum + flow.amount, 0);
+
+// Growth of one unit invested at the first valuation: chains sub-period returns
+// between valuations, treating each period's flows as arriving at its end
+// (snapshots are taken after trades)
+export const computeReturnIndex = (points: ValuePoint[], flows: CashFlow[]): number[] => {
+  const index = [1];
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    const current = points[i];
+    const growth = index[i - 1];
+    // Nothing invested yet, so the period carries no return
+    if (previous.value <= EPSILON) {
+      index.push(growth);
+      continue;
+    }
+
+    const flow = sumCashFlows(flows, previous.time, current.time);
+    index.push(growth * (current.value - flow) / previous.value);
+  }
+
+  return index;
+};
+
+// Time-weighted return over the whole series
+export const computeTWR = (points: ValuePoint[], flows: CashFlow[]): number => {
+  const index = computeReturnIndex(points, flows);
+  return index[index.length - 1] - 1;
+};
+
+const netPresentValue = (entries: ValuePoint[], rate: number): number => {
+  const origin = entries[0].time;
+  return entries.reduce(
+    (sum, entry) => sum + entry.value / Math.pow(1 + rate, (entry.time - origin) / DAY_MS / YEAR_DAYS),
+    0
+  );
+};
+
+// Money-weighted annual return (XIRR) for dated amounts from the investor's side:
+// money paid in is negative, money taken out or still held is positive
+export const computeXIRR = (entries: ValuePoint[]): number | null => {
+  const sorted = [...entries].filter(e => Math.abs(e.value) > EPSILON).sort((a, b) => a.time - b.time);
+  if (!sorted.some(e => e.value > 0) || !sorted.some(e => e.value < 0)) return null;
+
+  let low = -0.9999;
+  let high = 1;
+  const npvLow = netPresentValue(sorted, low);
+  let npvHigh = netPresentValue(sorted, high);
+
+  // Widen until the root is bracketed
+  while (Math.sign(npvLow) === Math.sign(npvHigh) && high < 1e6) {
+    high *= 4;
+    npvHigh = netPresentValue(sorted, high);
+  }
+  if (Math.sign(npvLow) === Math.sign(npvHigh)) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = netPresentValue(sorted, mid);
+    if (Math.abs(npvMid) < 1e-7) return mid;
+    if (Math.sign(npvMid) === Math.sign(npvLow)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+};
+
+export const computeReturns = (
+  snapshots: PortfolioSnapshot[],
+  flows: CashFlow[],
+  timeframe: PerformanceTimeframe,
+  currentValue?: number,
+  now: Date = new Date()
+): PerformanceReturns => {
+  const start = getTimeframeStart(timeframe, snapshots, now).getTime();
+  const end = now.getTime();
+  const sorted = [...snapshots].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+  // Opening value is the last valuation at or before the window opens
+  const opening = [...sorted].reverse().find(s => toTime(s.timestamp) <= start);
+  const points: ValuePoint[] = [{ time: start, value: opening?.totalValue ?? 0 }];
+
+  sorted
+    .filter(s => toTime(s.timestamp) > start && toTime(s.timestamp) <= end)
+    .forEach(s => points.push({ time: toTime(s.timestamp), value: s.totalValue }));
+
+  if (currentValue !== undefined) {
+    points.push({ time: end, value: currentValue });
+  }
+
+  const startValue = points[0].value;
+  const last = points[points.length - 1];
+  const endValue = last.value;
+  const windowFlows = flows.filter(f => toTime(f.date) > start && toTime(f.date) <= last.time);
+  const netFlows = windowFlows.reduce((sum, flow) => sum + flow.amount, 0);
+
+  const irrAnnualized = computeXIRR([
+    { time: start, value: -startValue },
+    ...windowFlows.map(flow => ({ time: toTime(flow.date), value: -flow.amount })),
+    { time: last.time, value: endValue },
+  ]);
+  // De-annualize over the time money was actually invested
+  const invested = startValue > EPSILON || windowFlows.length === 0 ? start : toTime(windowFlows[0].date);
+  const years = (last.time - invested) / DAY_MS / YEAR_DAYS;
+
+  return {
+    timeframe,
+    startDate: new Date(start).toISOString(),
+    endDate: new Date(last.time).toISOString(),
+    startValue,
+    endValue,
+    netFlows,
+    gain: endValue - startValue - netFlows,
+    twr: computeTWR(points, flows),
+    irr: irrAnnualized === null ? null : Math.pow(1 + irrAnnualized, years) - 1,
+    irrAnnualized,
+  };
+};
@@ -0,0 +1,184 @@
+import { ChartDataPoint, CorrelationMatrix } from '../types';
+
+const EPSILON = 1e-12;
+
+export const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+// Sample standard deviation
+export const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  const variance = values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+};
+
+const covariance = (a: number[], b: number[]): number => {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const meanA = mean(a.slice(0, n));
+  const meanB = mean(b.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (a[i] - meanA) * (b[i] - meanB);
+  }
+  return sum / (n - 1);
+};
+
+const dayKey = (timestamp: string) => new Date(timestamp).toISOString().split('T')[0];
+
+// Daily simple returns on the dates every series has a close for. `dates` are
+// the aligned closes, so returns[ticker][i] is the move into dates[i + 1].
+export const alignReturns = (
+  series: Record<string, ChartDataPoint[]>
+): { dates: string[]; returns: Record<string, number[]> } => {
+  const closes: Record<string, Map<string, number>> = {};
+  Object.entries(series).forEach(([ticker, points]) => {
+    closes[ticker] = new Map(points.filter(p => p.value > 0).map(p => [dayKey(p.timestamp), p.value]));
+  });
+
+  const tickers = Object.keys(closes);
+  if (tickers.length === 0) return { dates: [], returns: {} };
+
+  const dates = Array.from(closes[tickers[0]].keys())
+    .filter(date => tickers.every(ticker => closes[ticker].has(date)))
+    .sort();
+
+  const returns: Record<string, number[]> = {};
+  tickers.forEach(ticker => {
+    returns[ticker] = dates.slice(1).map((date, i) => {
+      const previous = closes[ticker].get(dates[i]) as number;
+      return (closes[ticker].get(date) as number) / previous - 1;
+    });
+  });
+
+  return { dates, returns };
+};
+
+export const annualizedVolatility = (returns: number[], periodsPerYear: number): number =>
+  standardDeviation(returns) * Math.sqrt(periodsPerYear);
+
+export const sharpeRatio = (
+  returns: number[],
+  riskFreeRate: number,
+  periodsPerYear: number
+): number | null => {
+  const deviation = standardDeviation(returns);
+  if (returns.length < 2 || deviation < EPSILON) return null;
+  const excess = mean(returns) - riskFreeRate / periodsPerYear;
+  return (excess / deviation) * Math.sqrt(periodsPerYear);
+};
+
+// Like Sharpe, but only returns below the risk-free rate count as risk
+export const sortinoRatio = (
+  returns: number[],
+  riskFreeRate: number,
+  periodsPerYear: number
+): number | null => {
+  if (returns.length < 2) return null;
+  const target = riskFreeRate / periodsPerYear;
+  const downside = Math.sqrt(mean(returns.map(r => Math.min(0, r - target) ** 2)));
+  if (downside < EPSILON) return null;
+  return ((mean(returns) - target) / downside) * Math.sqrt(periodsPerYear);
+};
+
+export const beta = (returns: number[], benchmarkReturns: number[]): number | null => {
+  const variance = standardDeviation(benchmarkReturns) ** 2;
+  if (variance < EPSILON) return null;
+  return covariance(returns, benchmarkReturns) / variance;
+};
+
+export const correlation = (a: number[], b: number[]): number => {
+  const denominator = standardDeviation(a) * standardDeviation(b);
+  if (denominator < EPSILON) return 0;
+  return covariance(a, b) / denominator;
+};
+
+export const correlationMatrix = (returns: Record<string, number[]>): CorrelationMatrix => {
+  const tickers = Object.keys(returns);
+  return {
+    tickers,
+    values: tickers.map(a => tickers.map(b => (a === b ? 1 : correlation(returns[a], returns[b])))),
+  };
+};
+
+// Largest peak-to-trough fall, as a positive fraction of the peak
+export const maxDrawdown = (values: number[]): number => {
+  let peak = -Infinity;
+  let worst = 0;
+  values.forEach(value => {
+    peak = Math.max(peak, value);
+    if (peak > 0) {
+      worst = Math.max(worst, (peak - value) / peak);
+    }
+  });
+  return worst;
+};
+
+// One-period historical VaR: the loss not exceeded at the given confidence level
+export const historicalVaR = (returns: number[], confidenceLevel: number): number => {
+  if (returns.length === 0) return 0;
+  const sorted = [...returns].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.floor((1 - confidenceLevel) * sorted.length));
+  return Math.max(0, -sorted[index]);
+};
+
+// Jensen's alpha, annualized from per-period returns
+export const jensensAlpha = (
+  returns: number[],
+  benchmarkReturns: number[],
+  riskFreeRate: number,
+  periodsPerYear: number
+): number | null => {
+  const slope = beta(returns, benchmarkReturns);
+  if (slope === null) return null;
+  const rf = riskFreeRate / periodsPerYear;
+  return (mean(returns) - rf - slope * (mean(benchmarkReturns) - rf)) * periodsPerYear;
+};
+
+// Annualized standard deviation of active (portfolio minus benchmark) returns
+export const trackingError = (
+  returns: number[],
+  benchmarkReturns: number[],
+  periodsPerYear: number
+): number | null => {
+  const n = Math.min(returns.length, benchmarkReturns.length);
+  if (n < 2) return null;
+  const active = returns.slice(0, n).map((r, i) => r - benchmarkReturns[i]);
+  return annualizedVolatility(active, periodsPerYear);
+};
+
+// Average portfolio return over average benchmark return, on the periods the
+// benchmark rose (up) or fell (down); 1 means the portfolio moved in step
+export const captureRatios = (
+  returns: number[],
+  benchmarkReturns: number[]
+): { up: number | null; down: number | null } => {
+  const capture = (keep: (r: number) => boolean) => {
+    const periods = benchmarkReturns
+      .map((r, i) => ({ benchmark: r, portfolio: returns[i] }))
+      .filter(p => p.portfolio !== undefined && keep(p.benchmark));
+    const benchmarkMean = mean(periods.map(p => p.benchmark));
+    if (periods.length === 0 || Math.abs(benchmarkMean) < EPSILON) return null;
+    return mean(periods.map(p => p.portfolio)) / benchmarkMean;
+  };
+
+  return { up: capture(r => r > 0), down: capture(r => r < 0) };
+};
+
+// Value of a price series at each timestamp: the last close at or before it,
+// or the first close when the series starts later
+export const sampleSeries = (points: ChartDataPoint[], timestamps: string[]): number[] => {
+  const sorted = [...points].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  if (sorted.length === 0) return timestamps.map(() => 0);
+
+  return timestamps.map(timestamp => {
+    const time = new Date(timestamp).getTime();
+    let value = sorted[0].value;
+    for (const point of sorted) {
+      if (new Date(point.timestamp).getTime() > time) break;
+      value = point.value;
+    }
+    return value;
+  });
+};